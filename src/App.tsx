@@ -8,17 +8,24 @@ import Sidebar from './components/Layout/Sidebar';
 import MobileNav from './components/Layout/MobileNav';
 import Dashboard from './components/Dashboard/Dashboard';
 import OrdersView from './components/Orders/OrdersView';
+import AppointmentsCalendar from './components/Appointments/AppointmentsCalendar';
 import OrderDetail from './components/Orders/OrderDetail';
 import NewOrderModal from './components/Orders/NewOrderModal';
 import ClientsList from './components/Clients/ClientsList';
 import ClientDetail from './components/Clients/ClientDetail';
 import InventoryList from './components/Inventory/InventoryList';
 import InventoryAudit from './components/Inventory/InventoryAudit';
+import StockTransfers from './components/Inventory/StockTransfers';
 import PurchasesList from './components/Purchases/PurchasesList';
 import Analytics from './components/Analytics/Analytics';
 import SalesList from './components/Sales/SalesList';
+import CashRegister from './components/CashRegister/CashRegister';
 import Settings from './components/Settings/Settings';
 import { BonusControlPanel } from './components/Payroll/BonusControlPanel';
+import OrderTracking from './components/Tracking/OrderTracking';
+import { isTrackingRoute } from './lib/orderTracking';
+import EstimateApproval from './components/Tracking/EstimateApproval';
+import { isApprovalRoute } from './lib/estimateApproval';
 import type { Database } from './lib/database.types';
 
 type Order = Database['public']['Tables']['orders']['Row'];
@@ -93,16 +100,22 @@ function AppContent() {
         return <Dashboard key={refreshKey} />;
       case 'orders':
         return <OrdersView key={refreshKey} onOrderClick={setSelectedOrder} />;
+      case 'appointments':
+        return <AppointmentsCalendar key={refreshKey} />;
       case 'clients':
         return <ClientsList key={refreshKey} onClientClick={setSelectedClient} />;
       case 'inventory':
         return <InventoryList key={refreshKey} />;
       case 'inventory-audit':
         return <InventoryAudit key={refreshKey} />;
+      case 'inventory-transfers':
+        return <StockTransfers key={refreshKey} />;
       case 'purchases':
         return <PurchasesList key={refreshKey} />;
       case 'sales':
         return <SalesList key={refreshKey} />;
+      case 'cash-register':
+        return <CashRegister key={refreshKey} />;
       case 'analytics':
         return <Analytics key={refreshKey} />;
       case 'payroll':
@@ -162,6 +175,15 @@ function AppContent() {
 }
 
 export default function App() {
+  // Public customer pages: no login, no staff contexts
+  if (isTrackingRoute()) {
+    return <OrderTracking />;
+  }
+
+  if (isApprovalRoute()) {
+    return <EstimateApproval />;
+  }
+
   return (
     <AuthProvider>
       <LocationProvider>
@@ -1,5 +1,8 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
+import { isClosedStage, type StageKind } from '../../lib/orderStages';
+import { getEntrySeconds, isOvernightEntry, type WorkTimeEntry } from '../../lib/workTimers';
+import { COSTING_METHOD_LABELS, getInventoryValuation, type CostingMethod } from '../../lib/costLayers';
 import { useLocation } from '../../contexts/LocationContext';
 import { usePermissions } from '../../hooks/usePermissions';
 import {
@@ -11,7 +14,10 @@ import {
   Clock,
   Award,
   Target,
-  Calendar
+  Calendar,
+  ShieldCheck,
+  Timer,
+  AlertTriangle
 } from 'lucide-react';
 import { SupplierExpenseAnalytics } from './SupplierExpenseAnalytics';
 import {
@@ -64,6 +70,46 @@ interface MasterPerformance {
 interface InventoryAnalytics {
   topParts: Array<{ name: string; usage: number }>;
   frozenCapital: number;
+  costingMethod: CostingMethod | null;
+}
+
+interface WarrantyAnalytics {
+  claimsCount: number;
+  claimRate: number;
+  partsCost: number;
+  laborValue: number;
+  reworkCost: number;
+}
+
+interface ServiceDuration {
+  name: string;
+  lines: number;
+  estimatedMinutes: number;
+  actualMinutes: number;
+}
+
+interface OvernightTimer {
+  id: string;
+  technicianName: string;
+  orderNumber: string;
+  startedAt: string;
+  running: boolean;
+}
+
+interface AnalyticsOrder {
+  id: string;
+  order_type: Order['order_type'];
+  final_cost: number | null;
+  service_price: number | null;
+  parts_cost_total: number | null;
+  master_commission: number | null;
+  stage: { name: string; kind: StageKind } | null;
+}
+
+interface TimeEntryWithDetails extends WorkTimeEntry {
+  order_item?: { name: string; estimated_minutes: number } | null;
+  technician?: { full_name: string } | null;
+  order?: { order_number: string } | null;
 }
 
 interface DailyRevenue {
@@ -105,9 +151,19 @@ export default function Analytics() {
   const [masterPerformance, setMasterPerformance] = useState<MasterPerformance[]>([]);
   const [inventoryAnalytics, setInventoryAnalytics] = useState<InventoryAnalytics>({
     topParts: [],
-    frozenCapital: 0
+    frozenCapital: 0,
+    costingMethod: null
   });
   const [dailyRevenue, setDailyRevenue] = useState<DailyRevenue[]>([]);
+  const [serviceDurations, setServiceDurations] = useState<ServiceDuration[]>([]);
+  const [overnightTimers, setOvernightTimers] = useState<OvernightTimer[]>([]);
+  const [warrantyAnalytics, setWarrantyAnalytics] = useState<WarrantyAnalytics>({
+    claimsCount: 0,
+    claimRate: 0,
+    partsCost: 0,
+    laborValue: 0,
+    reworkCost: 0
+  });
 
   useEffect(() => {
     if (currentLocation) {
@@ -159,7 +215,7 @@ export default function Analytics() {
         .select(`
           *,
           master:profiles!orders_master_id_fkey(id, full_name),
-          stage:order_stages(name)
+          stage:order_stages(name, kind)
         `)
         .eq('location_id', currentLocation.id)
         .gte('completed_at', from.toISOString())
@@ -168,13 +224,38 @@ export default function Analytics() {
 
       if (ordersError) throw ordersError;
 
-      const orders = ordersData || [];
-      const closedOrders = orders.filter((o: any) => o.stage?.name === 'Закрыт');
-
-      calculateKPIMetrics(closedOrders);
-      calculateLeadSources(closedOrders);
-      calculateMasterPerformance(closedOrders);
-      calculateDailyRevenue(closedOrders);
+      const orders = (ordersData || []) as AnalyticsOrder[];
+      const closedOrders = orders.filter(o => isClosedStage(o.stage));
+      const repairOrders = closedOrders.filter(o => o.order_type !== 'warranty_claim');
+      const warrantyClaims = closedOrders.filter(o => o.order_type === 'warranty_claim');
+
+      const [timeRes, recentTimeRes] = await Promise.all([
+        supabase
+          .from('work_time_entries')
+          .select('*, order_item:order_items(name, estimated_minutes), order:orders!inner(order_number, completed_at)')
+          .eq('location_id', currentLocation.id)
+          .gte('order.completed_at', from.toISOString())
+          .lte('order.completed_at', to.toISOString()),
+        supabase
+          .from('work_time_entries')
+          .select('*, technician:profiles!work_time_entries_technician_id_fkey(full_name), order:orders(order_number)')
+          .eq('location_id', currentLocation.id)
+          .or(`started_at.gte.${from.toISOString()},ended_at.is.null`)
+      ]);
+
+      if (timeRes.error) throw timeRes.error;
+
+      const repairOrderIds = new Set(repairOrders.map(o => o.id));
+      const repairTimeEntries = ((timeRes.data || []) as TimeEntryWithDetails[])
+        .filter(entry => repairOrderIds.has(entry.order_id));
+
+      calculateKPIMetrics(repairOrders);
+      calculateLeadSources(repairOrders);
+      calculateMasterPerformance(repairOrders, repairTimeEntries);
+      calculateServiceDurations(repairTimeEntries);
+      calculateOvernightTimers((recentTimeRes.data || []) as TimeEntryWithDetails[]);
+      calculateDailyRevenue(repairOrders);
+      calculateWarrantyAnalytics(warrantyClaims, repairOrders.length);
       await calculateInventoryAnalytics();
 
     } catch (error) {
@@ -206,6 +287,21 @@ export default function Analytics() {
     });
   }
 
+  function calculateWarrantyAnalytics(claims: AnalyticsOrder[], repairsCount: number) {
+    const partsCost = claims.reduce((sum, o) => sum + (o.parts_cost_total || 0), 0);
+    const laborValue = claims.reduce((sum, o) => sum + (o.service_price || 0), 0);
+    const commissions = claims.reduce((sum, o) => sum + (o.master_commission || 0), 0);
+    const billed = claims.reduce((sum, o) => sum + (o.final_cost || 0), 0);
+
+    setWarrantyAnalytics({
+      claimsCount: claims.length,
+      claimRate: repairsCount > 0 ? Math.round((claims.length / repairsCount) * 1000) / 10 : 0,
+      partsCost: Math.round(partsCost * 100) / 100,
+      laborValue: Math.round(laborValue * 100) / 100,
+      reworkCost: Math.round((partsCost + commissions - billed) * 100) / 100
+    });
+  }
+
   function calculateLeadSources(orders: any[]) {
     const sourcesMap = new Map<string, { revenue: number; orders: number; profit: number }>();
 
@@ -233,7 +329,12 @@ export default function Analytics() {
     setLeadSources(sources);
   }
 
-  function calculateMasterPerformance(orders: any[]) {
+  function calculateMasterPerformance(orders: any[], timeEntries: WorkTimeEntry[]) {
+    const orderSeconds = new Map<string, number>();
+    timeEntries.forEach(entry => {
+      orderSeconds.set(entry.order_id, (orderSeconds.get(entry.order_id) || 0) + getEntrySeconds(entry));
+    });
+
     const mastersMap = new Map<string, {
       name: string;
       orders: number;
@@ -258,9 +359,7 @@ export default function Analytics() {
 
       const orderRevenue = order.final_cost || 0;
       const orderProfit = order.total_profit || 0;
-      const orderTime = order.completed_at && order.accepted_at
-        ? (new Date(order.completed_at).getTime() - new Date(order.accepted_at).getTime()) / (1000 * 60 * 60)
-        : 0;
+      const orderTime = (orderSeconds.get(order.id) || 0) / 3600;
 
       mastersMap.set(masterId, {
         name: existing.name,
@@ -285,6 +384,54 @@ export default function Analytics() {
     setMasterPerformance(masters);
   }
 
+  function calculateServiceDurations(timeEntries: TimeEntryWithDetails[]) {
+    const lines = new Map<string, { name: string; estimated: number; seconds: number }>();
+    timeEntries.forEach(entry => {
+      if (!entry.order_item_id || !entry.order_item) return;
+      const existing = lines.get(entry.order_item_id) || {
+        name: entry.order_item.name,
+        estimated: entry.order_item.estimated_minutes,
+        seconds: 0
+      };
+      existing.seconds += getEntrySeconds(entry);
+      lines.set(entry.order_item_id, existing);
+    });
+
+    const servicesMap = new Map<string, { lines: number; estimated: number; actual: number }>();
+    lines.forEach(line => {
+      const existing = servicesMap.get(line.name) || { lines: 0, estimated: 0, actual: 0 };
+      servicesMap.set(line.name, {
+        lines: existing.lines + 1,
+        estimated: existing.estimated + line.estimated,
+        actual: existing.actual + line.seconds / 60
+      });
+    });
+
+    const services = Array.from(servicesMap.entries()).map(([name, data]) => ({
+      name,
+      lines: data.lines,
+      estimatedMinutes: Math.round(data.estimated / data.lines),
+      actualMinutes: Math.round(data.actual / data.lines)
+    })).sort((a, b) => b.lines - a.lines);
+
+    setServiceDurations(services);
+  }
+
+  function calculateOvernightTimers(timeEntries: TimeEntryWithDetails[]) {
+    const timers = timeEntries
+      .filter(entry => isOvernightEntry(entry))
+      .map(entry => ({
+        id: entry.id,
+        technicianName: entry.technician?.full_name || '—',
+        orderNumber: entry.order?.order_number || '—',
+        startedAt: entry.started_at,
+        running: entry.ended_at == null
+      }))
+      .sort((a, b) => Number(b.running) - Number(a.running) || b.startedAt.localeCompare(a.startedAt));
+
+    setOvernightTimers(timers);
+  }
+
   function calculateDailyRevenue(orders: any[]) {
     const dailyMap = new Map<string, { revenue: number; profit: number }>();
 
@@ -318,9 +465,10 @@ export default function Analytics() {
 
     if (!inventoryData) return;
 
-    const frozenCapital = inventoryData.reduce((sum, item) =>
-      sum + (item.quantity * item.unit_cost), 0
-    );
+    const valuation = await getInventoryValuation(currentLocation.id);
+    const frozenCapital = valuation
+      ? valuation.total_value
+      : inventoryData.reduce((sum, item) => sum + (item.quantity * item.unit_cost), 0);
 
     const partsUsage = new Map<string, number>();
     inventoryData.forEach((item: any) => {
@@ -340,7 +488,7 @@ export default function Analytics() {
       .sort((a, b) => b.usage - a.usage)
       .slice(0, 5);
 
-    setInventoryAnalytics({ topParts, frozenCapital });
+    setInventoryAnalytics({ topParts, frozenCapital, costingMethod: valuation?.method || null });
   }
 
   const dateFilters: Array<{ id: DateFilter; label: string }> = [
@@ -522,7 +670,7 @@ export default function Analytics() {
                     <th className="text-left px-3 py-2 text-xs font-medium text-neutral-600">Мастер</th>
                     <th className="text-center px-3 py-2 text-xs font-medium text-neutral-600">Заказы</th>
                     <th className="text-right px-3 py-2 text-xs font-medium text-neutral-600">Прибыль</th>
-                    <th className="text-right px-3 py-2 text-xs font-medium text-neutral-600">Ср. время</th>
+                    <th className="text-right px-3 py-2 text-xs font-medium text-neutral-600">Ср. время работы</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -573,6 +721,11 @@ export default function Analytics() {
                     <div className="text-2xl font-bold text-amber-900">
                       €{inventoryAnalytics.frozenCapital.toFixed(2)}
                     </div>
+                    {inventoryAnalytics.costingMethod && (
+                      <div className="text-xs text-amber-700">
+                        Оценка по партиям: {COSTING_METHOD_LABELS[inventoryAnalytics.costingMethod]}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -597,6 +750,100 @@ export default function Analytics() {
           </div>
         </div>
 
+        <div className="bg-white rounded-xl p-6 border border-neutral-200">
+          <div className="flex items-center gap-2 mb-4">
+            <Timer className="w-5 h-5 text-blue-600" />
+            <h3 className="text-lg font-semibold text-neutral-900">Норматив и фактическое время</h3>
+          </div>
+
+          {overnightTimers.length > 0 && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2 mb-2">
+                <AlertTriangle className="w-4 h-4 text-red-600" />
+                <span className="text-sm font-medium text-red-800">Таймеры через ночь: {overnightTimers.length}</span>
+              </div>
+              <div className="space-y-1">
+                {overnightTimers.slice(0, 10).map(timer => (
+                  <div key={timer.id} className="flex items-center justify-between text-xs text-red-700">
+                    <span>{timer.technicianName} · {timer.orderNumber}</span>
+                    <span>
+                      с {new Date(timer.startedAt).toLocaleString('ru-RU')}
+                      {timer.running && <span className="ml-2 font-semibold">ещё идёт</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-neutral-50">
+                <tr>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-neutral-600">Услуга</th>
+                  <th className="text-center px-4 py-3 text-sm font-medium text-neutral-600">Выполнено</th>
+                  <th className="text-right px-4 py-3 text-sm font-medium text-neutral-600">Норматив, мин</th>
+                  <th className="text-right px-4 py-3 text-sm font-medium text-neutral-600">Факт, мин</th>
+                  <th className="text-right px-4 py-3 text-sm font-medium text-neutral-600">Отклонение</th>
+                </tr>
+              </thead>
+              <tbody>
+                {serviceDurations.map(service => {
+                  const deviation = service.estimatedMinutes > 0
+                    ? Math.round(((service.actualMinutes - service.estimatedMinutes) / service.estimatedMinutes) * 100)
+                    : null;
+                  return (
+                    <tr key={service.name} className="border-t border-neutral-100">
+                      <td className="px-4 py-3 text-sm font-medium text-neutral-900">{service.name}</td>
+                      <td className="px-4 py-3 text-center text-sm text-neutral-700">{service.lines}</td>
+                      <td className="px-4 py-3 text-right text-sm text-neutral-700">{service.estimatedMinutes || '—'}</td>
+                      <td className="px-4 py-3 text-right text-sm font-semibold text-neutral-900">{service.actualMinutes}</td>
+                      <td className={`px-4 py-3 text-right text-sm font-medium ${
+                        deviation == null ? 'text-neutral-400' : deviation > 0 ? 'text-red-600' : 'text-green-600'
+                      }`}>
+                        {deviation == null ? '—' : `${deviation > 0 ? '+' : ''}${deviation}%`}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {serviceDurations.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-sm text-neutral-500">
+                      Нет учтённого времени по услугам за выбранный период
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl p-6 border border-neutral-200">
+          <div className="flex items-center gap-2 mb-4">
+            <ShieldCheck className="w-5 h-5 text-emerald-600" />
+            <h3 className="text-lg font-semibold text-neutral-900">Гарантийные ремонты</h3>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-4 bg-neutral-50 rounded-lg">
+              <div className="text-2xl font-bold text-neutral-900">{warrantyAnalytics.claimsCount}</div>
+              <div className="text-sm text-neutral-600 mt-1">Гарантийных заказов</div>
+              <div className="text-xs text-neutral-500 mt-2">{warrantyAnalytics.claimRate}% от ремонтов</div>
+            </div>
+            <div className="p-4 bg-neutral-50 rounded-lg">
+              <div className="text-2xl font-bold text-neutral-900">€{warrantyAnalytics.partsCost.toFixed(2)}</div>
+              <div className="text-sm text-neutral-600 mt-1">Запчасти</div>
+            </div>
+            <div className="p-4 bg-neutral-50 rounded-lg">
+              <div className="text-2xl font-bold text-neutral-900">€{warrantyAnalytics.laborValue.toFixed(2)}</div>
+              <div className="text-sm text-neutral-600 mt-1">Работа (не в бонусах)</div>
+            </div>
+            <div className="p-4 bg-red-50 rounded-lg border border-red-200">
+              <div className="text-2xl font-bold text-red-700">€{warrantyAnalytics.reworkCost.toFixed(2)}</div>
+              <div className="text-sm text-red-800 mt-1">Стоимость переделок</div>
+            </div>
+          </div>
+        </div>
+
         <div className="bg-white rounded-xl p-6 border border-neutral-200">
           <h3 className="text-lg font-semibold text-neutral-900 mb-4">Детализация по источникам</h3>
           <div className="overflow-x-auto">
@@ -0,0 +1,431 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X, Trash2, Clock, ClipboardList } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLocation } from '../../contexts/LocationContext';
+import { toast, handleSupabaseError } from '../../lib/toast';
+import { CustomerRecognition } from '../common/CustomerRecognition';
+import ServiceSearch from '../common/ServiceSearch';
+import {
+  APPOINTMENT_STATUS_LABELS,
+  addDays,
+  findFreeSlots,
+  formatTime,
+  type Appointment,
+  type AppointmentHours,
+  type AppointmentStatus,
+} from '../../lib/appointments';
+import type { Database } from '../../lib/database.types';
+
+type Client = Database['public']['Tables']['clients']['Row'];
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+interface BookedService {
+  id: string;
+  name: string;
+  duration_minutes: number;
+}
+
+interface AppointmentModalProps {
+  appointment: Appointment | null;
+  defaultStart?: Date;
+  defaultTechnicianId?: string | null;
+  technicians: Profile[];
+  hours: AppointmentHours;
+  onClose: () => void;
+  onSaved: () => void;
+  onConvert: (appointment: Appointment) => void;
+}
+
+function toDateInput(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export default function AppointmentModal({
+  appointment,
+  defaultStart,
+  defaultTechnicianId = null,
+  technicians,
+  hours,
+  onClose,
+  onSaved,
+  onConvert,
+}: AppointmentModalProps) {
+  const { profile } = useAuth();
+  const { currentLocation } = useLocation();
+  const initialStart = appointment ? new Date(appointment.starts_at) : defaultStart || new Date();
+
+  const [clientId, setClientId] = useState<string | null>(appointment?.client_id || null);
+  const [clientName, setClientName] = useState(appointment?.client_name || '');
+  const [clientPhone, setClientPhone] = useState(appointment?.client_phone || '');
+  const [deviceType, setDeviceType] = useState(appointment?.device_type || '');
+  const [deviceModel, setDeviceModel] = useState(appointment?.device_model || '');
+  const [issueDescription, setIssueDescription] = useState(appointment?.issue_description || '');
+  const [notes, setNotes] = useState(appointment?.notes || '');
+  const [services, setServices] = useState<BookedService[]>([]);
+  const [durationMinutes, setDurationMinutes] = useState(appointment?.duration_minutes || hours.slot_minutes);
+  const [technicianId, setTechnicianId] = useState<string>(appointment?.technician_id || defaultTechnicianId || '');
+  const [date, setDate] = useState(toDateInput(initialStart));
+  const [time, setTime] = useState(defaultStart || appointment ? formatTime(initialStart) : '');
+  const [status, setStatus] = useState<AppointmentStatus>(appointment?.status || 'scheduled');
+  const [dayAppointments, setDayAppointments] = useState<Appointment[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (appointment?.service_ids.length) {
+      loadBookedServices(appointment.service_ids);
+    }
+  }, [appointment]);
+
+  const loadDayAppointments = useCallback(async () => {
+    if (!currentLocation || !date) return;
+
+    const dayStart = new Date(`${date}T00:00:00`);
+    const { data } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('location_id', currentLocation.id)
+      .gte('starts_at', dayStart.toISOString())
+      .lt('starts_at', addDays(dayStart, 1).toISOString());
+    setDayAppointments(data || []);
+  }, [date, currentLocation]);
+
+  useEffect(() => {
+    loadDayAppointments();
+  }, [loadDayAppointments]);
+
+  async function loadBookedServices(ids: string[]) {
+    const { data } = await supabase
+      .from('services')
+      .select('id, name, duration_minutes')
+      .in('id', ids);
+    if (data) setServices(data as BookedService[]);
+  }
+
+
+  function handleClientSelect(client: Client) {
+    setClientId(client.id);
+    setClientName(client.full_name);
+    setClientPhone(client.phone);
+  }
+
+  function handleServiceSelect(service: BookedService) {
+    if (services.some(s => s.id === service.id)) return;
+    const next = [...services, service];
+    setServices(next);
+    setDurationMinutes(Math.max(hours.slot_minutes, next.reduce((sum, s) => sum + (s.duration_minutes || 0), 0)));
+  }
+
+  function removeService(serviceId: string) {
+    const next = services.filter(s => s.id !== serviceId);
+    setServices(next);
+    if (next.length > 0) {
+      setDurationMinutes(Math.max(hours.slot_minutes, next.reduce((sum, s) => sum + (s.duration_minutes || 0), 0)));
+    }
+  }
+
+  const freeSlots = date
+    ? findFreeSlots({
+        day: new Date(`${date}T00:00:00`),
+        durationMinutes,
+        hours,
+        appointments: dayAppointments,
+        technicianIds: technicians.map(t => t.id),
+        technicianId: technicianId || null,
+        excludeId: appointment?.id,
+      })
+    : [];
+
+  function selectSlot(slot: { start: Date; technicianId: string | null }) {
+    setTime(formatTime(slot.start));
+    if (!technicianId && slot.technicianId) {
+      setTechnicianId(slot.technicianId);
+    }
+  }
+
+  async function handleSave() {
+    if (!currentLocation) return;
+    if (!clientName.trim() || !clientPhone.trim()) {
+      toast.error('Укажите имя и телефон клиента');
+      return;
+    }
+    if (!date || !time) {
+      toast.error('Выберите дату и время');
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      location_id: currentLocation.id,
+      technician_id: technicianId || null,
+      client_id: clientId,
+      client_name: clientName.trim(),
+      client_phone: clientPhone.trim(),
+      device_type: deviceType.trim() || null,
+      device_model: deviceModel.trim() || null,
+      issue_description: issueDescription.trim() || null,
+      service_ids: services.map(s => s.id),
+      starts_at: new Date(`${date}T${time}:00`).toISOString(),
+      duration_minutes: durationMinutes,
+      status,
+      notes: notes.trim() || null,
+    };
+
+    const { error } = appointment
+      ? await supabase.from('appointments').update(payload).eq('id', appointment.id)
+      : await supabase.from('appointments').insert({ ...payload, created_by: profile?.id || null });
+    setSaving(false);
+
+    if (error) {
+      handleSupabaseError(error, 'Сохранение записи');
+      return;
+    }
+
+    toast.success(appointment ? 'Запись обновлена' : 'Клиент записан');
+    onSaved();
+    onClose();
+  }
+
+  async function handleDelete() {
+    if (!appointment || !confirm('Удалить запись?')) return;
+
+    const { error } = await supabase.from('appointments').delete().eq('id', appointment.id);
+    if (error) {
+      handleSupabaseError(error, 'Удаление записи');
+      return;
+    }
+    onSaved();
+    onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-neutral-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-neutral-900">{appointment ? 'Запись клиента' : 'Новая запись'}</h2>
+          <button onClick={onClose} className="w-8 h-8 rounded-lg hover:bg-neutral-100 flex items-center justify-center">
+            <X className="w-5 h-5 text-neutral-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Телефон *</label>
+              <input
+                type="tel"
+                value={clientPhone}
+                onChange={(e) => {
+                  setClientPhone(e.target.value);
+                  setClientId(null);
+                }}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Имя клиента *</label>
+              <input
+                type="text"
+                value={clientName}
+                onChange={(e) => setClientName(e.target.value)}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          {!clientId && (
+            <CustomerRecognition
+              phoneNumber={clientPhone}
+              onClientSelect={handleClientSelect}
+              onNewClient={() => setClientId(null)}
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Устройство</label>
+              <input
+                type="text"
+                value={deviceType}
+                onChange={(e) => setDeviceType(e.target.value)}
+                placeholder="Apple"
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Модель</label>
+              <input
+                type="text"
+                value={deviceModel}
+                onChange={(e) => setDeviceModel(e.target.value)}
+                placeholder="iPhone 13"
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">Проблема</label>
+            <textarea
+              value={issueDescription}
+              onChange={(e) => setIssueDescription(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">Услуги</label>
+            <ServiceSearch onServiceSelect={handleServiceSelect} />
+            {services.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {services.map(service => (
+                  <span key={service.id} className="px-2 py-1 bg-blue-50 text-blue-700 rounded-lg text-xs flex items-center gap-1.5">
+                    {service.name} · {service.duration_minutes} мин
+                    <button type="button" onClick={() => removeService(service.id)} className="hover:text-blue-900">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Мастер</label>
+              <select
+                value={technicianId}
+                onChange={(e) => setTechnicianId(e.target.value)}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Любой</option>
+                {technicians.map(t => (
+                  <option key={t.id} value={t.id}>{t.full_name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Дата</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Длительность, мин</label>
+              <input
+                type="number"
+                min={5}
+                step={5}
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(Math.max(5, parseInt(e.target.value) || 0))}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-neutral-700 flex items-center gap-1.5">
+                <Clock className="w-4 h-4 text-neutral-400" />
+                Свободное время
+              </label>
+              <input
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="px-2 py-1 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {freeSlots.length === 0 ? (
+              <p className="text-sm text-neutral-500">Нет свободных окон на эту дату</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {freeSlots.map(slot => {
+                  const label = formatTime(slot.start);
+                  return (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => selectSlot(slot)}
+                      className={`px-2.5 py-1 rounded-lg text-sm border transition-colors ${
+                        time === label
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'border-neutral-200 text-neutral-700 hover:bg-blue-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {appointment && (
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Статус</label>
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as AppointmentStatus)}
+                disabled={appointment.status === 'converted'}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-neutral-50"
+              >
+                {(Object.keys(APPOINTMENT_STATUS_LABELS) as AppointmentStatus[])
+                  .filter(value => value !== 'converted' || appointment.status === 'converted')
+                  .map(value => (
+                    <option key={value} value={value}>{APPOINTMENT_STATUS_LABELS[value]}</option>
+                  ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">Комментарий</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+            />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-neutral-200 flex items-center gap-3">
+          {appointment && appointment.status !== 'converted' && appointment.status !== 'cancelled' && (
+            <button
+              onClick={() => onConvert(appointment)}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium flex items-center gap-2"
+            >
+              <ClipboardList className="w-4 h-4" />
+              Создать заказ
+            </button>
+          )}
+          <div className="flex-1" />
+          {appointment && (
+            <button
+              onClick={handleDelete}
+              className="w-10 h-10 text-red-600 hover:bg-red-50 rounded-lg flex items-center justify-center"
+              title="Удалить запись"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          )}
+          <button onClick={onClose} className="px-4 py-2 text-neutral-600 hover:text-neutral-900 text-sm">
+            Отмена
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm font-medium"
+          >
+            {saving ? 'Сохранение...' : 'Сохранить'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
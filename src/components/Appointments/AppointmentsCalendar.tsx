@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useLocation } from '../../contexts/LocationContext';
+import AppointmentModal from './AppointmentModal';
+import NewOrderModal from '../Orders/NewOrderModal';
+import {
+  APPOINTMENT_STATUS_COLORS,
+  DEFAULT_APPOINTMENT_HOURS,
+  addDays,
+  atMinutes,
+  formatTime,
+  isSameDay,
+  loadAppointmentHours,
+  parseTimeToMinutes,
+  startOfWeek,
+  type Appointment,
+  type AppointmentHours,
+} from '../../lib/appointments';
+import type { Database } from '../../lib/database.types';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+type CalendarMode = 'day' | 'week';
+
+interface CalendarColumn {
+  key: string;
+  label: string;
+  day: Date;
+  technicianId: string | null;
+  appointments: Appointment[];
+}
+
+const SLOT_HEIGHT = 32;
+const WEEKDAYS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
+
+export default function AppointmentsCalendar() {
+  const { currentLocation } = useLocation();
+  const [mode, setMode] = useState<CalendarMode>('day');
+  const [anchorDate, setAnchorDate] = useState(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+  });
+  const [technicianFilter, setTechnicianFilter] = useState('');
+  const [technicians, setTechnicians] = useState<Profile[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [hours, setHours] = useState<AppointmentHours>(DEFAULT_APPOINTMENT_HOURS);
+  const [editing, setEditing] = useState<Appointment | null>(null);
+  const [newSlot, setNewSlot] = useState<{ start?: Date; technicianId: string | null } | null>(null);
+  const [converting, setConverting] = useState<Appointment | null>(null);
+
+  const rangeStart = useMemo(() => (mode === 'day' ? anchorDate : startOfWeek(anchorDate)), [mode, anchorDate]);
+  const rangeDays = mode === 'day' ? 1 : 7;
+
+  useEffect(() => {
+    loadAppointmentHours().then(setHours);
+  }, []);
+
+  const loadTechnicians = useCallback(async () => {
+    if (!currentLocation) return;
+
+    const { data } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('location_id', currentLocation.id)
+      .order('full_name');
+    setTechnicians(data || []);
+  }, [currentLocation]);
+
+  const loadAppointments = useCallback(async () => {
+    if (!currentLocation) return;
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('location_id', currentLocation.id)
+      .gte('starts_at', rangeStart.toISOString())
+      .lt('starts_at', addDays(rangeStart, rangeDays).toISOString())
+      .order('starts_at');
+
+    if (error) {
+      console.error('Error loading appointments:', error);
+      return;
+    }
+    setAppointments(data || []);
+  }, [currentLocation, rangeStart, rangeDays]);
+
+  useEffect(() => {
+    loadTechnicians();
+  }, [loadTechnicians]);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  function shift(direction: number) {
+    setAnchorDate(prev => addDays(prev, direction * rangeDays));
+  }
+
+  function goToday() {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    setAnchorDate(today);
+  }
+
+  const openMinutes = parseTimeToMinutes(hours.open);
+  const closeMinutes = parseTimeToMinutes(hours.close);
+  const slotMinutes = Math.max(5, hours.slot_minutes);
+  const slotCount = Math.max(1, Math.ceil((closeMinutes - openMinutes) / slotMinutes));
+  const visibleTechnicians = technicianFilter ? technicians.filter(t => t.id === technicianFilter) : technicians;
+
+  const columns: CalendarColumn[] = mode === 'day'
+    ? [
+        ...visibleTechnicians.map(t => ({
+          key: t.id,
+          label: t.full_name,
+          day: anchorDate,
+          technicianId: t.id,
+          appointments: appointments.filter(a => a.technician_id === t.id),
+        })),
+        ...(!technicianFilter ? [{
+          key: 'unassigned',
+          label: 'Любой мастер',
+          day: anchorDate,
+          technicianId: null,
+          appointments: appointments.filter(a => !a.technician_id),
+        }] : []),
+      ]
+    : Array.from({ length: 7 }, (_, index) => {
+        const day = addDays(rangeStart, index);
+        return {
+          key: day.toISOString(),
+          label: `${WEEKDAYS[index]} ${day.getDate()}.${String(day.getMonth() + 1).padStart(2, '0')}`,
+          day,
+          technicianId: technicianFilter || null,
+          appointments: appointments.filter(a =>
+            isSameDay(new Date(a.starts_at), day) && (!technicianFilter || a.technician_id === technicianFilter)
+          ),
+        };
+      });
+
+  function getBlockStyle(appointment: Appointment) {
+    const start = new Date(appointment.starts_at);
+    const minutes = start.getHours() * 60 + start.getMinutes() - openMinutes;
+    return {
+      top: `${(minutes / slotMinutes) * SLOT_HEIGHT}px`,
+      height: `${Math.max(SLOT_HEIGHT / 2, (appointment.duration_minutes / slotMinutes) * SLOT_HEIGHT - 2)}px`,
+    };
+  }
+
+  const title = mode === 'day'
+    ? anchorDate.toLocaleDateString('ru-RU', { weekday: 'long', day: 'numeric', month: 'long' })
+    : `${rangeStart.toLocaleDateString('ru-RU')} — ${addDays(rangeStart, 6).toLocaleDateString('ru-RU')}`;
+
+  return (
+    <div className="p-4 lg:p-8 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl">
+            <CalendarDays className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">Запись клиентов</h1>
+            <p className="text-sm text-slate-500 capitalize">{title}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex border border-neutral-200 rounded-lg overflow-hidden bg-white">
+            {(['day', 'week'] as CalendarMode[]).map(value => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`px-3 py-2 text-sm ${mode === value ? 'bg-blue-600 text-white' : 'text-neutral-600 hover:bg-neutral-50'}`}
+              >
+                {value === 'day' ? 'День' : 'Неделя'}
+              </button>
+            ))}
+          </div>
+          <select
+            value={technicianFilter}
+            onChange={(e) => setTechnicianFilter(e.target.value)}
+            className="px-3 py-2 border border-neutral-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Все мастера</option>
+            {technicians.map(t => (
+              <option key={t.id} value={t.id}>{t.full_name}</option>
+            ))}
+          </select>
+          <div className="flex items-center bg-white border border-neutral-200 rounded-lg">
+            <button onClick={() => shift(-1)} className="p-2 hover:bg-neutral-50 rounded-l-lg">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button onClick={goToday} className="px-3 py-2 text-sm hover:bg-neutral-50">Сегодня</button>
+            <button onClick={() => shift(1)} className="p-2 hover:bg-neutral-50 rounded-r-lg">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={() => setNewSlot({ technicianId: technicianFilter || null })}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Записать
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-neutral-200 overflow-x-auto">
+        <div className="flex min-w-max">
+          <div className="w-16 flex-shrink-0 border-r border-neutral-200">
+            <div className="h-10 border-b border-neutral-200" />
+            {Array.from({ length: slotCount }, (_, index) => (
+              <div key={index} className="text-[11px] text-neutral-400 text-right pr-2" style={{ height: SLOT_HEIGHT }}>
+                {formatTime(atMinutes(anchorDate, openMinutes + index * slotMinutes))}
+              </div>
+            ))}
+          </div>
+
+          {columns.map(column => (
+            <div key={column.key} className="flex-1 min-w-[160px] border-r border-neutral-200 last:border-r-0">
+              <div className={`h-10 px-2 flex items-center justify-center text-sm font-medium border-b border-neutral-200 ${
+                isSameDay(column.day, new Date()) && mode === 'week' ? 'text-blue-600' : 'text-neutral-700'
+              }`}>
+                <span className="truncate">{column.label}</span>
+              </div>
+              <div className="relative" style={{ height: slotCount * SLOT_HEIGHT }}>
+                {Array.from({ length: slotCount }, (_, index) => (
+                  <button
+                    key={index}
+                    onClick={() => setNewSlot({
+                      start: atMinutes(column.day, openMinutes + index * slotMinutes),
+                      technicianId: column.technicianId,
+                    })}
+                    className="absolute left-0 right-0 border-b border-neutral-100 hover:bg-blue-50/60"
+                    style={{ top: index * SLOT_HEIGHT, height: SLOT_HEIGHT }}
+                  />
+                ))}
+                {column.appointments.map(appointment => (
+                  <button
+                    key={appointment.id}
+                    onClick={() => setEditing(appointment)}
+                    className={`absolute left-1 right-1 rounded-md border px-2 py-1 text-left overflow-hidden ${APPOINTMENT_STATUS_COLORS[appointment.status]}`}
+                    style={getBlockStyle(appointment)}
+                  >
+                    <p className="text-[11px] font-semibold">
+                      {formatTime(new Date(appointment.starts_at))} · {appointment.duration_minutes} мин
+                    </p>
+                    <p className="text-xs truncate">{appointment.client_name}</p>
+                    {(appointment.device_type || appointment.device_model) && (
+                      <p className="text-[11px] truncate opacity-75">
+                        {[appointment.device_type, appointment.device_model].filter(Boolean).join(' ')}
+                      </p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {(editing || newSlot) && (
+        <AppointmentModal
+          appointment={editing}
+          defaultStart={newSlot?.start}
+          defaultTechnicianId={newSlot?.technicianId}
+          technicians={technicians}
+          hours={hours}
+          onClose={() => {
+            setEditing(null);
+            setNewSlot(null);
+          }}
+          onSaved={loadAppointments}
+          onConvert={(appointment) => {
+            setEditing(null);
+            setConverting(appointment);
+          }}
+        />
+      )}
+
+      {converting && (
+        <NewOrderModal
+          appointment={converting}
+          onClose={() => setConverting(null)}
+          onSuccess={loadAppointments}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,423 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Banknote, ArrowDownCircle, ArrowUpCircle, Lock, Unlock, FileText, X } from 'lucide-react';
+import { supabase, callRpc } from '../../lib/supabase';
+import { useLocation } from '../../contexts/LocationContext';
+import { toast, handleSupabaseError } from '../../lib/toast';
+import { CASH_MOVEMENT_LABELS, isCashOut, summarizeCashMovements } from '../../lib/cashRegister';
+import ZReport from './ZReport';
+import type { Database } from '../../lib/database.types';
+
+type CashSession = Database['public']['Tables']['cash_register_sessions']['Row'];
+type CashMovement = Database['public']['Tables']['cash_movements']['Row'];
+
+interface CashRegisterResult {
+  success: boolean;
+  error?: string;
+  session?: CashSession;
+}
+
+interface CashRegisterArgs {
+  p_action: string;
+  p_payload: Record<string, unknown>;
+}
+
+type ModalType = 'open' | 'cash_in' | 'cash_out' | 'close' | null;
+
+export default function CashRegister() {
+  const { currentLocation } = useLocation();
+  const [session, setSession] = useState<CashSession | null>(null);
+  const [movements, setMovements] = useState<CashMovement[]>([]);
+  const [history, setHistory] = useState<CashSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  const [modal, setModal] = useState<ModalType>(null);
+  const [amount, setAmount] = useState(0);
+  const [reason, setReason] = useState('');
+  const [reportSession, setReportSession] = useState<CashSession | null>(null);
+
+  const loadRegister = useCallback(async () => {
+    if (!currentLocation) return;
+
+    setLoading(true);
+    const [openRes, historyRes] = await Promise.all([
+      supabase
+        .from('cash_register_sessions')
+        .select('*')
+        .eq('location_id', currentLocation.id)
+        .eq('status', 'open')
+        .maybeSingle(),
+      supabase
+        .from('cash_register_sessions')
+        .select('*')
+        .eq('location_id', currentLocation.id)
+        .eq('status', 'closed')
+        .order('closed_at', { ascending: false })
+        .limit(20),
+    ]);
+
+    if (openRes.error || historyRes.error) {
+      handleSupabaseError(openRes.error || historyRes.error, 'Load cash register');
+      setLoading(false);
+      return;
+    }
+
+    const openSession = openRes.data as CashSession | null;
+    setSession(openSession);
+    setHistory(historyRes.data || []);
+
+    if (openSession) {
+      const { data, error } = await supabase
+        .from('cash_movements')
+        .select('*')
+        .eq('session_id', openSession.id)
+        .order('created_at', { ascending: false });
+
+      if (error) handleSupabaseError(error, 'Load cash movements');
+      setMovements(data || []);
+    } else {
+      setMovements([]);
+    }
+
+    setLoading(false);
+  }, [currentLocation]);
+
+  useEffect(() => {
+    loadRegister();
+  }, [loadRegister]);
+
+  async function openModal(type: Exclude<ModalType, null>) {
+    setReason('');
+    setAmount(0);
+    setModal(type);
+
+    if (type === 'open') {
+      // Start from what was counted at the last close; fall back to the finance setting
+      if (history[0]?.counted_cash != null) {
+        setAmount(Number(history[0].counted_cash));
+      } else {
+        const { data } = await supabase
+          .from('system_settings')
+          .select('value')
+          .eq('key', 'cash_balance')
+          .maybeSingle();
+        setAmount(Number((data as { value: { amount?: number } } | null)?.value?.amount) || 0);
+      }
+    }
+  }
+
+  async function runAction(action: string, payload: Record<string, unknown>) {
+    setProcessing(true);
+    try {
+      const { data, error } = await callRpc<CashRegisterResult, CashRegisterArgs>('cash_register_action', {
+        p_action: action,
+        p_payload: payload,
+      });
+
+      if (error) throw error;
+
+      const result = data as CashRegisterResult;
+      if (!result.success) {
+        toast.error(result.error || 'Операция не выполнена');
+        return null;
+      }
+
+      return result;
+    } catch (error) {
+      handleSupabaseError(error, 'Cash register');
+      return null;
+    } finally {
+      setProcessing(false);
+    }
+  }
+
+  async function handleConfirm() {
+    if (!currentLocation) return;
+
+    if (modal === 'open') {
+      const result = await runAction('open', { location_id: currentLocation.id, opening_float: amount });
+      if (!result) return;
+      toast.success(`Смена ${result.session?.session_number} открыта`);
+    } else if (modal === 'cash_in' || modal === 'cash_out') {
+      if (!session) return;
+      if (amount <= 0 || !reason.trim()) {
+        toast.error('Укажите сумму и причину');
+        return;
+      }
+      const result = await runAction('movement', {
+        session_id: session.id,
+        movement_type: modal,
+        amount,
+        reason: reason.trim(),
+      });
+      if (!result) return;
+      toast.success(modal === 'cash_in' ? 'Внесение записано' : 'Изъятие записано');
+    } else if (modal === 'close') {
+      if (!session) return;
+      const result = await runAction('close', { session_id: session.id, counted_cash: amount, notes: reason });
+      if (!result) return;
+      toast.success(`Смена ${session.session_number} закрыта`);
+      if (result.session) setReportSession(result.session);
+    }
+
+    setModal(null);
+    await loadRegister();
+  }
+
+  const summary = summarizeCashMovements(Number(session?.opening_float || 0), movements);
+  const closeDiscrepancy = Math.round((amount - summary.expected) * 100) / 100;
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-neutral-900 mb-2 flex items-center gap-2">
+          <Banknote className="w-6 h-6" />
+          Касса {currentLocation ? `— ${currentLocation.name}` : ''}
+        </h1>
+        <p className="text-neutral-600">
+          Наличные оплаты заказов и продаж попадают в открытую смену автоматически. При закрытии смены пересчитайте кассу.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-neutral-500">Загрузка...</div>
+      ) : !session ? (
+        <div className="bg-white border border-neutral-200 rounded-xl p-8 text-center mb-6">
+          <Lock className="w-12 h-12 text-neutral-300 mx-auto mb-3" />
+          <p className="text-neutral-700 font-medium mb-1">Смена не открыта</p>
+          <p className="text-sm text-neutral-500 mb-4">
+            Наличные, принятые без открытой смены, будут добавлены в следующую смену.
+          </p>
+          <button
+            onClick={() => openModal('open')}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 inline-flex items-center gap-2"
+          >
+            <Unlock className="w-4 h-4" />
+            Открыть смену
+          </button>
+        </div>
+      ) : (
+        <div className="bg-white border border-neutral-200 rounded-xl p-6 mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+            <div>
+              <div className="font-mono text-sm font-semibold text-neutral-900">{session.session_number}</div>
+              <div className="text-xs text-neutral-500">
+                Открыта {new Date(session.opened_at).toLocaleString('ru-RU')}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => openModal('cash_in')}
+                className="px-3 py-2 text-sm border border-green-300 text-green-700 rounded-lg hover:bg-green-50 flex items-center gap-1"
+              >
+                <ArrowDownCircle className="w-4 h-4" />
+                Внесение
+              </button>
+              <button
+                onClick={() => openModal('cash_out')}
+                className="px-3 py-2 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50 flex items-center gap-1"
+              >
+                <ArrowUpCircle className="w-4 h-4" />
+                Изъятие
+              </button>
+              <button
+                onClick={() => setReportSession(session)}
+                className="px-3 py-2 text-sm border border-neutral-300 rounded-lg hover:bg-neutral-50 flex items-center gap-1"
+              >
+                <FileText className="w-4 h-4" />
+                X-отчёт
+              </button>
+              <button
+                onClick={() => openModal('close')}
+                className="px-3 py-2 text-sm bg-neutral-900 text-white rounded-lg hover:bg-neutral-800 flex items-center gap-1"
+              >
+                <Lock className="w-4 h-4" />
+                Закрыть смену
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            <div className="bg-neutral-50 rounded-lg p-3">
+              <div className="text-xs text-neutral-500">Размен на начало</div>
+              <div className="text-lg font-semibold">€{Number(session.opening_float).toFixed(2)}</div>
+            </div>
+            <div className="bg-green-50 rounded-lg p-3">
+              <div className="text-xs text-green-700">Поступления</div>
+              <div className="text-lg font-semibold text-green-700">
+                €{(summary.orderPayments + summary.sales + summary.cashIn).toFixed(2)}
+              </div>
+            </div>
+            <div className="bg-red-50 rounded-lg p-3">
+              <div className="text-xs text-red-700">Выдачи</div>
+              <div className="text-lg font-semibold text-red-700">
+                €{(summary.orderRefunds + summary.cashOut).toFixed(2)}
+              </div>
+            </div>
+            <div className="bg-blue-50 rounded-lg p-3">
+              <div className="text-xs text-blue-700">Должно быть в кассе</div>
+              <div className="text-lg font-semibold text-blue-700">€{summary.expected.toFixed(2)}</div>
+            </div>
+          </div>
+
+          {movements.length === 0 ? (
+            <div className="text-center py-6 text-sm text-neutral-500">Движений по кассе пока нет</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500 border-b border-neutral-200">
+                  <th className="py-2 font-medium">Время</th>
+                  <th className="py-2 font-medium">Операция</th>
+                  <th className="py-2 font-medium">Причина</th>
+                  <th className="py-2 font-medium text-right">Сумма</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movements.map(movement => (
+                  <tr key={movement.id} className="border-b border-neutral-100">
+                    <td className="py-2 text-neutral-600">
+                      {new Date(movement.created_at).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
+                    </td>
+                    <td className="py-2">{CASH_MOVEMENT_LABELS[movement.movement_type]}</td>
+                    <td className="py-2 text-neutral-600">{movement.reason || '—'}</td>
+                    <td className={`py-2 text-right font-medium ${isCashOut(movement.movement_type) ? 'text-red-600' : 'text-green-700'}`}>
+                      {isCashOut(movement.movement_type) ? '-' : '+'}€{Number(movement.amount).toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white border border-neutral-200 rounded-xl overflow-hidden">
+        <div className="px-4 py-3 border-b border-neutral-200 text-sm font-semibold text-neutral-900">
+          Закрытые смены
+        </div>
+        {history.length === 0 ? (
+          <div className="text-center py-8 text-sm text-neutral-500">Закрытых смен нет</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-neutral-50">
+              <tr className="text-left text-xs text-neutral-500">
+                <th className="px-4 py-2 font-medium">Смена</th>
+                <th className="px-4 py-2 font-medium">Период</th>
+                <th className="px-4 py-2 font-medium text-right">Ожидалось</th>
+                <th className="px-4 py-2 font-medium text-right">Посчитано</th>
+                <th className="px-4 py-2 font-medium text-right">Расхождение</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-100">
+              {history.map(closed => (
+                <tr key={closed.id} className="hover:bg-neutral-50">
+                  <td className="px-4 py-2 font-mono">{closed.session_number}</td>
+                  <td className="px-4 py-2 text-neutral-600">
+                    {new Date(closed.opened_at).toLocaleString('ru-RU')} — {closed.closed_at && new Date(closed.closed_at).toLocaleString('ru-RU')}
+                  </td>
+                  <td className="px-4 py-2 text-right">€{Number(closed.expected_cash).toFixed(2)}</td>
+                  <td className="px-4 py-2 text-right">€{Number(closed.counted_cash).toFixed(2)}</td>
+                  <td className={`px-4 py-2 text-right font-medium ${Number(closed.discrepancy) === 0 ? 'text-green-700' : 'text-red-600'}`}>
+                    {Number(closed.discrepancy) > 0 ? '+' : ''}€{Number(closed.discrepancy).toFixed(2)}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => setReportSession(closed)}
+                      className="text-blue-600 hover:text-blue-700 text-xs font-medium"
+                    >
+                      Z-отчёт
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {modal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">
+                {modal === 'open' && 'Открыть смену'}
+                {modal === 'cash_in' && 'Внесение наличных'}
+                {modal === 'cash_out' && 'Изъятие наличных'}
+                {modal === 'close' && 'Закрыть смену'}
+              </h3>
+              <button onClick={() => setModal(null)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              {modal === 'close' && (
+                <div className="bg-neutral-50 rounded-lg p-3 text-sm flex justify-between">
+                  <span className="text-neutral-600">Должно быть в кассе</span>
+                  <span className="font-semibold">€{summary.expected.toFixed(2)}</span>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium mb-1.5">
+                  {modal === 'open' ? 'Размен на начало (€)' : modal === 'close' ? 'Посчитано в кассе (€)' : 'Сумма (€)'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+
+              {modal === 'close' && (
+                <div className={`rounded-lg p-3 text-sm flex justify-between ${closeDiscrepancy === 0 ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+                  <span>Расхождение</span>
+                  <span className="font-semibold">{closeDiscrepancy > 0 ? '+' : ''}€{closeDiscrepancy.toFixed(2)}</span>
+                </div>
+              )}
+
+              {modal !== 'open' && (
+                <div>
+                  <label className="block text-sm font-medium mb-1.5">
+                    {modal === 'close' ? 'Комментарий' : 'Причина *'}
+                  </label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-2">
+                <button onClick={() => setModal(null)} className="flex-1 px-4 py-2 border rounded-lg">
+                  Отмена
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  disabled={processing}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg disabled:opacity-50"
+                >
+                  Подтвердить
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {reportSession && (
+        <ZReport
+          session={reportSession}
+          locationName={currentLocation?.name || ''}
+          onClose={() => setReportSession(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { handleSupabaseError } from '../../lib/toast';
+import { CASH_MOVEMENT_LABELS, isCashOut, summarizeCashMovements } from '../../lib/cashRegister';
+import { getPaymentMethodLabel } from '../../lib/orderPayments';
+import type { Database } from '../../lib/database.types';
+
+type CashSession = Database['public']['Tables']['cash_register_sessions']['Row'];
+type CashMovement = Database['public']['Tables']['cash_movements']['Row'];
+
+interface ZReportProps {
+  session: CashSession;
+  locationName: string;
+  onClose: () => void;
+}
+
+interface MethodTotal {
+  method: string;
+  orders: number;
+  sales: number;
+}
+
+export default function ZReport({ session, locationName, onClose }: ZReportProps) {
+  const [movements, setMovements] = useState<CashMovement[]>([]);
+  const [methodTotals, setMethodTotals] = useState<MethodTotal[]>([]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const loadReport = useCallback(async () => {
+    const periodEnd = session.closed_at || new Date().toISOString();
+
+    const [movementsRes, paymentsRes, salesRes] = await Promise.all([
+      supabase
+        .from('cash_movements')
+        .select('*')
+        .eq('session_id', session.id)
+        .order('created_at'),
+      supabase
+        .from('order_payments')
+        .select('payment_method, payment_type, amount')
+        .eq('location_id', session.location_id)
+        .gte('created_at', session.opened_at)
+        .lte('created_at', periodEnd),
+      supabase
+        .from('sales')
+        .select('payment_method, total_amount')
+        .eq('location_id', session.location_id)
+        .gte('created_at', session.opened_at)
+        .lte('created_at', periodEnd),
+    ]);
+
+    const error = movementsRes.error || paymentsRes.error || salesRes.error;
+    if (error) {
+      handleSupabaseError(error, 'Load Z-report');
+      return;
+    }
+
+    setMovements(movementsRes.data || []);
+
+    const totals = new Map<string, MethodTotal>();
+    const totalFor = (method: string) => {
+      if (!totals.has(method)) totals.set(method, { method, orders: 0, sales: 0 });
+      return totals.get(method)!;
+    };
+    ((paymentsRes.data || []) as { payment_method: string; payment_type: string; amount: number }[]).forEach(p => {
+      totalFor(p.payment_method).orders += p.payment_type === 'refund' ? -Number(p.amount) : Number(p.amount);
+    });
+    ((salesRes.data || []) as { payment_method: string; total_amount: number }[]).forEach(s => {
+      totalFor(s.payment_method).sales += Number(s.total_amount);
+    });
+    setMethodTotals(Array.from(totals.values()));
+  }, [session]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const summary = summarizeCashMovements(Number(session.opening_float), movements);
+
+  const formatDateTime = (dateString: string | null) => {
+    if (!dateString) return '—';
+    const date = new Date(dateString);
+    const day = String(date.getDate()).padStart(2, '0');
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    return `${day}.${month}.${date.getFullYear()} ${hours}:${minutes}`;
+  };
+
+  const handlePrint = () => {
+    window.print();
+  };
+
+  const row = (label: string, amount: number, className = '') => (
+    <div className={`flex justify-between text-sm py-1 ${className}`}>
+      <span>{label}</span>
+      <span className="font-medium">{amount.toFixed(2)} EUR</span>
+    </div>
+  );
+
+  return (
+    <>
+      <style>{`
+        @media print {
+          body * {
+            visibility: hidden;
+          }
+          .receipt-print-area,
+          .receipt-print-area * {
+            visibility: visible;
+          }
+          .receipt-print-area {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 100%;
+          }
+          .no-print {
+            display: none !important;
+          }
+          .receipt-content {
+            padding: 20mm !important;
+            max-width: 210mm !important;
+            box-shadow: none !important;
+          }
+        }
+        @page {
+          size: A4;
+          margin: 0;
+        }
+      `}</style>
+
+      <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+        <div className="bg-neutral-100 rounded-lg shadow-2xl w-full max-w-[230mm] max-h-[95vh] overflow-y-auto">
+          <div className="no-print sticky top-0 bg-white border-b border-neutral-200 px-6 py-4 flex items-center justify-between z-10 rounded-t-lg">
+            <div>
+              <h2 className="text-lg font-semibold text-neutral-900">Z-atskaite</h2>
+              <p className="text-sm text-neutral-500 mt-0.5">Maiņa № {session.session_number}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handlePrint}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+              >
+                Drukāt atskaiti
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors text-sm font-medium"
+              >
+                Aizvērt
+              </button>
+            </div>
+          </div>
+
+          <div className="receipt-print-area p-8">
+            <div className="receipt-content bg-white p-8 max-w-[210mm] mx-auto">
+              <div className="flex justify-between items-start mb-8">
+                <div className="flex items-start gap-4">
+                  <div className="w-16 h-16 bg-neutral-200 rounded flex items-center justify-center">
+                    <span className="text-2xl font-bold text-neutral-600">iS</span>
+                  </div>
+                  <div>
+                    <h1 className="text-xl font-bold text-neutral-900">iSupport</h1>
+                    <p className="text-sm text-neutral-600 mt-1">{locationName}</p>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <h2 className="text-2xl font-bold text-neutral-900">
+                    Z-atskaite № {session.session_number}
+                  </h2>
+                  <p className="text-sm text-neutral-600 mt-1">Atvērta: {formatDateTime(session.opened_at)}</p>
+                  <p className="text-sm text-neutral-600">Slēgta: {formatDateTime(session.closed_at)}</p>
+                </div>
+              </div>
+
+              <div className="border-t-2 border-b-2 border-neutral-300 py-6 mb-6 grid grid-cols-2 gap-x-8">
+                <div>
+                  <span className="text-xs font-semibold text-neutral-500 uppercase">Skaidra nauda</span>
+                  <div className="mt-2">
+                    {row('Sākuma atlikums', Number(session.opening_float))}
+                    {row('Pasūtījumu apmaksa', summary.orderPayments)}
+                    {row('Pārdošana', summary.sales)}
+                    {row('Iemaksas', summary.cashIn)}
+                    {row('Atmaksas klientiem', -summary.orderRefunds)}
+                    {row('Izņemts no kases', -summary.cashOut)}
+                    {row('Paredzamais atlikums', summary.expected, 'border-t border-neutral-300 mt-1 pt-2 font-semibold')}
+                    {session.counted_cash != null && row('Saskaitīts', Number(session.counted_cash))}
+                    {session.discrepancy != null && row(
+                      'Starpība',
+                      Number(session.discrepancy),
+                      Number(session.discrepancy) === 0 ? 'text-green-700' : 'text-red-600 font-semibold'
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-xs font-semibold text-neutral-500 uppercase">Pēc maksājuma veida</span>
+                  <div className="mt-2">
+                    {methodTotals.length === 0 ? (
+                      <p className="text-sm text-neutral-500 py-1">Nav maksājumu</p>
+                    ) : (
+                      methodTotals.map(total => (
+                        <div key={total.method} className="py-1">
+                          <div className="text-sm font-medium text-neutral-900">{getPaymentMethodLabel(total.method)}</div>
+                          {row('Pasūtījumi', total.orders, 'pl-3 text-neutral-700')}
+                          {row('Pārdošana', total.sales, 'pl-3 text-neutral-700')}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {movements.some(m => m.movement_type === 'cash_in' || m.movement_type === 'cash_out') && (
+                <div className="mb-6">
+                  <h3 className="text-xs font-bold text-neutral-700 uppercase mb-2">Iemaksas un izņemšanas</h3>
+                  {movements
+                    .filter(m => m.movement_type === 'cash_in' || m.movement_type === 'cash_out')
+                    .map(m => (
+                      <div key={m.id} className="flex justify-between text-sm py-1 border-b border-neutral-100">
+                        <span>
+                          {formatDateTime(m.created_at)} · {CASH_MOVEMENT_LABELS[m.movement_type]} · {m.reason}
+                        </span>
+                        <span className="font-medium">
+                          {isCashOut(m.movement_type) ? '-' : ''}{Number(m.amount).toFixed(2)} EUR
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              )}
+
+              {session.closing_notes && (
+                <div className="mb-6 bg-neutral-50 p-4 rounded-lg">
+                  <h3 className="text-xs font-bold text-neutral-700 uppercase mb-2">Piezīmes</h3>
+                  <p className="text-sm text-neutral-700">{session.closing_notes}</p>
+                </div>
+              )}
+
+              <div className="flex justify-between items-end mt-8 pt-6 border-t border-neutral-300">
+                <div className="text-center">
+                  <div className="border-t border-neutral-400 w-48 mb-1"></div>
+                  <p className="text-xs text-neutral-600">Kasieris (Paraksts)</p>
+                </div>
+                <div className="text-center">
+                  <div className="border-t border-neutral-400 w-48 mb-1"></div>
+                  <p className="text-xs text-neutral-600">Vadītājs (Paraksts)</p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
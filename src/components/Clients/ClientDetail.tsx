@@ -171,6 +171,14 @@ export default function ClientDetail({ client, onClose }: ClientDetailProps) {
                         <span className="text-xs text-neutral-400">
                           {comm.direction === 'outbound' ? 'Исходящее' : 'Входящее'}
                         </span>
+                        {comm.status && comm.status !== 'sent' && (
+                          <span
+                            className={`text-xs px-1.5 py-0.5 rounded ${comm.status === 'failed' ? 'bg-red-50 text-red-700' : 'bg-neutral-100 text-neutral-600'}`}
+                            title={comm.error || undefined}
+                          >
+                            {comm.status === 'failed' ? 'Ошибка' : 'Не отправлено'}
+                          </span>
+                        )}
                       </div>
                       <p className="text-sm text-neutral-900">{comm.message}</p>
                       <div className="flex items-center gap-1 mt-1 text-xs text-neutral-500">
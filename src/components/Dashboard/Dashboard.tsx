@@ -1,9 +1,11 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
+import { isClosedStage } from '../../lib/orderStages';
 import { Calendar, Euro, CreditCard, Wallet, CircleDollarSign, TrendingUp, Package, UserCheck, Wrench, ShoppingBag } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLocation } from '../../contexts/LocationContext';
 import TaskManager from './TaskManager';
+import TodayAppointments from './TodayAppointments';
 import ExpectedDeliveries from './ExpectedDeliveries';
 import DashboardStats from './DashboardStats';
 import TechnicianPerformance from './TechnicianPerformance';
@@ -131,7 +133,7 @@ export default function Dashboard() {
 
     const orders = ordersRes.data || [];
     const stages = stagesRes.data || [];
-    const closedStageId = stages.find(s => s.name === 'Закрыт')?.id;
+    const closedStageIds = new Set(stages.filter(s => isClosedStage(s)).map(s => s.id));
     const todayTasks = todayTasksRes.data || [];
     const incompleteTasks = incompleteTasksRes.data || [];
 
@@ -150,11 +152,11 @@ export default function Dashboard() {
     );
 
     const devicesClosedToday = orders.filter(
-      (o: any) => o.stage_id === closedStageId && o.completed_at && o.completed_at >= dayStartISO && o.completed_at <= dayEndISO
+      (o: any) => closedStageIds.has(o.stage_id) && o.completed_at && o.completed_at >= dayStartISO && o.completed_at <= dayEndISO
     );
 
     const devicesClosedYesterday = orders.filter(
-      (o: any) => o.stage_id === closedStageId && o.completed_at && o.completed_at >= yesterdayStartISO && o.completed_at <= yesterdayEndISO
+      (o: any) => closedStageIds.has(o.stage_id) && o.completed_at && o.completed_at >= yesterdayStartISO && o.completed_at <= yesterdayEndISO
     );
 
     const closedOrderIds = devicesClosedToday.map((o: Order) => o.id);
@@ -182,7 +184,8 @@ export default function Dashboard() {
       const { data: items } = await supabase
         .from('order_items')
         .select('*')
-        .in('order_id', closedOrderIds);
+        .in('order_id', closedOrderIds)
+        .eq('approval_status', 'approved');
 
       if (items) {
         items.forEach((item: OrderItem) => {
@@ -488,8 +491,9 @@ export default function Dashboard() {
             transition={{ delay: 0.6 }}
             className="lg:col-span-2 grid grid-cols-1 lg:grid-cols-2 gap-4"
           >
-            <ExpectedDeliveries />
+            <TodayAppointments />
             <TaskManager tasks={tasks} onRefresh={loadDashboardData} />
+            <ExpectedDeliveries />
           </motion.div>
         </div>
 
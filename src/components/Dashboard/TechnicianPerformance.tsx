@@ -1,9 +1,10 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
-import { TrendingUp, Target, Award, Zap } from 'lucide-react';
+import { TrendingUp, Target, Award, Zap, Timer, AlertTriangle } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLocation } from '../../contexts/LocationContext';
 import { handleSupabaseError } from '../../lib/toast';
+import { isOvernightEntry, sumEntryMinutes, type WorkTimeEntry } from '../../lib/workTimers';
 
 interface PerformanceData {
   totalLabor: number;
@@ -29,6 +30,8 @@ export default function TechnicianPerformance({ refreshTrigger }: TechnicianPerf
     remaining: 6000,
     planReached: false
   });
+  const [handsOnMinutes, setHandsOnMinutes] = useState(0);
+  const [hasOvernightTimer, setHasOvernightTimer] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -86,6 +89,18 @@ export default function TechnicianPerformance({ refreshTrigger }: TechnicianPerf
         return;
       }
 
+      const monthStart = new Date();
+      monthStart.setDate(1);
+      monthStart.setHours(0, 0, 0, 0);
+      const { data: timeData } = await supabase
+        .from('work_time_entries')
+        .select('*')
+        .eq('technician_id', profile.id)
+        .or(`started_at.gte.${monthStart.toISOString()},ended_at.is.null`);
+      const timeEntries = (timeData || []) as WorkTimeEntry[];
+      setHandsOnMinutes(sumEntryMinutes(timeEntries.filter(entry => new Date(entry.started_at) >= monthStart)));
+      setHasOvernightTimer(timeEntries.some(entry => entry.ended_at == null && isOvernightEntry(entry)));
+
       if (data && data.length > 0) {
         const result = data[0];
         setPerformance({
@@ -193,7 +208,19 @@ export default function TechnicianPerformance({ refreshTrigger }: TechnicianPerf
         </div>
       )}
 
-      <div className="mt-3 pt-3 border-t border-neutral-200">
+      <div className="mt-3 pt-3 border-t border-neutral-200 space-y-2">
+        <div className="flex items-center gap-2">
+          <Timer className="w-3.5 h-3.5 text-neutral-500" />
+          <p className="text-xs text-neutral-600">
+            Время работы за месяц: <span className="font-semibold text-neutral-800">{(handsOnMinutes / 60).toFixed(1)} ч</span>
+          </p>
+        </div>
+        {hasOvernightTimer && (
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-3.5 h-3.5 text-red-500" />
+            <p className="text-xs text-red-600">Таймер работает со вчерашнего дня — остановите его в заказе</p>
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <TrendingUp className="w-3.5 h-3.5 text-neutral-500" />
           <p className="text-xs text-neutral-600">
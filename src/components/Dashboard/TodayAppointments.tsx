@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { CalendarDays, Clock, ClipboardList } from 'lucide-react';
+import { useLocation } from '../../contexts/LocationContext';
+import NewOrderModal from '../Orders/NewOrderModal';
+import {
+  APPOINTMENT_STATUS_LABELS,
+  addDays,
+  formatTime,
+  isActiveAppointment,
+  type Appointment,
+} from '../../lib/appointments';
+
+interface AppointmentWithTechnician extends Appointment {
+  technician?: { full_name: string } | null;
+}
+
+export default function TodayAppointments() {
+  const { currentLocation } = useLocation();
+  const [appointments, setAppointments] = useState<AppointmentWithTechnician[]>([]);
+  const [converting, setConverting] = useState<Appointment | null>(null);
+
+  const loadAppointments = useCallback(async () => {
+    if (!currentLocation) return;
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const { data } = await supabase
+      .from('appointments')
+      .select('*, technician:profiles!appointments_technician_id_fkey(full_name)')
+      .eq('location_id', currentLocation.id)
+      .gte('starts_at', today.toISOString())
+      .lt('starts_at', addDays(today, 1).toISOString())
+      .neq('status', 'cancelled')
+      .order('starts_at');
+
+    setAppointments((data as AppointmentWithTechnician[]) || []);
+  }, [currentLocation]);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  const pending = appointments.filter(isActiveAppointment);
+
+  return (
+    <div className="glass-panel p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-base font-bold text-slate-900">Записи на сегодня</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            {pending.length} ожидается · {appointments.length} всего
+          </p>
+        </div>
+        <CalendarDays className="w-5 h-5 text-slate-400" />
+      </div>
+
+      <div className="space-y-1.5 max-h-56 overflow-y-auto">
+        {appointments.length === 0 ? (
+          <p className="text-xs text-neutral-500 text-center py-4">На сегодня записей нет</p>
+        ) : (
+          appointments.map(appointment => (
+            <div
+              key={appointment.id}
+              className={`flex items-start gap-2 p-2 rounded-lg border border-neutral-200 bg-white ${
+                isActiveAppointment(appointment) ? '' : 'opacity-60'
+              }`}
+            >
+              <div className="flex items-center gap-1 text-xs font-semibold text-slate-900 w-12 flex-shrink-0 mt-0.5">
+                <Clock className="w-3 h-3 text-slate-400" />
+                {formatTime(new Date(appointment.starts_at))}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-medium text-neutral-900 truncate">{appointment.client_name}</p>
+                <p className="text-[10px] text-neutral-500 truncate">
+                  {[appointment.device_type, appointment.device_model].filter(Boolean).join(' ') || '—'}
+                  {appointment.technician && ` · ${appointment.technician.full_name}`}
+                </p>
+                {!isActiveAppointment(appointment) && (
+                  <p className="text-[10px] text-neutral-400">{APPOINTMENT_STATUS_LABELS[appointment.status]}</p>
+                )}
+              </div>
+              {isActiveAppointment(appointment) && (
+                <button
+                  onClick={() => setConverting(appointment)}
+                  className="p-1.5 rounded-lg text-green-600 hover:bg-green-50 flex-shrink-0"
+                  title="Создать заказ"
+                >
+                  <ClipboardList className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {converting && (
+        <NewOrderModal
+          appointment={converting}
+          onClose={() => setConverting(null)}
+          onSuccess={loadAppointments}
+        />
+      )}
+    </div>
+  );
+}
@@ -21,7 +21,9 @@ export default function EditInventoryModal({ item, onClose, onSuccess }: EditInv
   const [unitCost, setUnitCost] = useState(item.unit_cost || 0);
   const [location, setLocation] = useState(item.location || 'main');
   const [minQuantity, setMinQuantity] = useState(item.min_quantity);
+  const [maxQuantity, setMaxQuantity] = useState(item.max_quantity?.toString() || '');
   const [supplierId, setSupplierId] = useState(item.supplier_id || '');
+  const [isSerialized, setIsSerialized] = useState(item.is_serialized);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -53,7 +55,9 @@ export default function EditInventoryModal({ item, onClose, onSuccess }: EditInv
           unit_cost: unitCost,
           location,
           min_quantity: minQuantity,
-          supplier_id: supplierId || null
+          max_quantity: maxQuantity === '' ? null : parseInt(maxQuantity) || 0,
+          supplier_id: supplierId || null,
+          is_serialized: isSerialized
         })
         .eq('id', item.id);
 
@@ -133,7 +137,7 @@ export default function EditInventoryModal({ item, onClose, onSuccess }: EditInv
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <div>
               <label className="block text-sm font-medium text-neutral-700 mb-1.5">
                 Quantity <span className="text-red-500">*</span>
@@ -161,6 +165,20 @@ export default function EditInventoryModal({ item, onClose, onSuccess }: EditInv
                 required
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1.5">
+                Max Quantity <span className="text-neutral-400">(Optional)</span>
+              </label>
+              <input
+                type="number"
+                min={minQuantity}
+                value={maxQuantity}
+                onChange={(e) => setMaxQuantity(e.target.value)}
+                placeholder="Reorder up to"
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -194,6 +212,16 @@ export default function EditInventoryModal({ item, onClose, onSuccess }: EditInv
             </div>
           </div>
 
+          <label className="flex items-center gap-2 text-sm text-neutral-700">
+            <input
+              type="checkbox"
+              checked={isSerialized}
+              onChange={(e) => setIsSerialized(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            Track individual units (IMEI / serial number)
+          </label>
+
           <div>
             <label className="block text-sm font-medium text-neutral-700 mb-1.5">
               Supplier <span className="text-neutral-400">(Optional)</span>
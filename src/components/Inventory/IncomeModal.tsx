@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { X, Plus, Search } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { toast, handleSupabaseError } from '../../lib/toast';
+import { matchesCode } from '../../lib/labels';
+import { useBarcodeScanner } from '../../hooks/useBarcodeScanner';
 import type { Database } from '../../lib/database.types';
 
 type Inventory = Database['public']['Tables']['inventory']['Row'];
@@ -42,7 +44,8 @@ export default function IncomeModal({ onClose, onSuccess }: IncomeModalProps) {
     if (searchTerm) {
       const filtered = inventoryItems.filter(item =>
         item.part_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (item.sku && item.sku.toLowerCase().includes(searchTerm.toLowerCase()))
+        (item.sku && item.sku.toLowerCase().includes(searchTerm.toLowerCase())) ||
+        (item.barcode && item.barcode.includes(searchTerm.trim()))
       );
       setFilteredItems(filtered);
     } else {
@@ -90,6 +93,30 @@ export default function IncomeModal({ onClose, onSuccess }: IncomeModalProps) {
     setShowItemSearch(false);
   }
 
+  /**
+   * Scanning the selected item again counts one more unit; an unknown code
+   * starts a new item with that barcode.
+   */
+  function handleScan(code: string) {
+    const match = inventoryItems.find(item => matchesCode(item, code));
+    if (!match) {
+      switchToNewItem();
+      setNewItemBarcode(code.trim());
+      setQuantity(1);
+      toast.error(`No item with code ${code.trim()}, creating a new one`);
+      return;
+    }
+
+    if (!isNewItem && selectedInventoryId === match.id) {
+      setQuantity(q => q + 1);
+    } else {
+      selectInventoryItem(match);
+      setQuantity(1);
+    }
+  }
+
+  useBarcodeScanner(handleScan);
+
   async function handleSave() {
     // Validation
     if (!itemName.trim()) {
@@ -152,7 +179,6 @@ export default function IncomeModal({ onClose, onSuccess }: IncomeModalProps) {
           .from('inventory')
           .update({
             quantity: currentItem.quantity + quantity,
-            unit_cost: purchasePrice,
             supplier_id: supplierId
           })
           .eq('id', inventoryId);
@@ -265,7 +291,14 @@ export default function IncomeModal({ onClose, onSuccess }: IncomeModalProps) {
                         type="text"
                         value={searchTerm}
                         onChange={(e) => setSearchTerm(e.target.value)}
-                        placeholder="Search by name or SKU..."
+                        onKeyDown={(e) => {
+                          if (e.key !== 'Enter') return;
+                          e.preventDefault();
+                          if (inventoryItems.some(item => matchesCode(item, searchTerm))) {
+                            handleScan(searchTerm);
+                          }
+                        }}
+                        placeholder="Search or scan by name, SKU or barcode..."
                         className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                         autoFocus
                       />
@@ -363,6 +396,11 @@ export default function IncomeModal({ onClose, onSuccess }: IncomeModalProps) {
               onChange={(e) => setPurchasePrice(parseFloat(e.target.value) || 0)}
               className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
+            {!isNewItem && selectedInventoryId && (
+              <p className="text-xs text-neutral-500 mt-1">
+                Учитывается отдельной партией; себестоимость товара пересчитывается по методу учёта
+              </p>
+            )}
           </div>
 
           <div>
@@ -2,13 +2,16 @@ import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLocation } from '../../contexts/LocationContext';
-import { Package, AlertTriangle, CheckCircle, XCircle, Save, FileCheck } from 'lucide-react';
+import { Package, AlertTriangle, CheckCircle, XCircle, Save, FileCheck, ScanLine } from 'lucide-react';
 import { toast } from '../../lib/toast';
+import { matchesCode } from '../../lib/labels';
+import { useBarcodeScanner } from '../../hooks/useBarcodeScanner';
 
 interface InventoryItem {
   id: string;
   part_name: string;
   sku: string;
+  barcode: string | null;
   quantity: number;
   location: string;
 }
@@ -34,6 +37,7 @@ export default function InventoryAudit() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [auditStatus, setAuditStatus] = useState<'pending' | 'in_progress' | 'completed'>('pending');
+  const [scanCode, setScanCode] = useState('');
 
   useEffect(() => {
     loadInventory();
@@ -106,7 +110,7 @@ export default function InventoryAudit() {
     setIsLoading(true);
     const { data, error } = await supabase
       .from('inventory')
-      .select('id, part_name, sku, quantity, location')
+      .select('id, part_name, sku, barcode, quantity, location')
       .eq('location_id', currentLocation.id)
       .order('part_name');
 
@@ -190,6 +194,27 @@ export default function InventoryAudit() {
     );
   };
 
+  /** Each scan of an item's label counts one more unit of it. */
+  const handleScan = (code: string) => {
+    const match = inventory.find(item => matchesCode(item, code));
+    const auditItem = match && auditItems.find(item => item.inventory_id === match.id);
+    if (!auditItem) {
+      toast.error(`No audit item with code ${code.trim()}`);
+      return;
+    }
+
+    setAuditItems(prev =>
+      prev.map(item => {
+        if (item.inventory_id !== auditItem.inventory_id) return item;
+        const physical = (item.physical_count ?? 0) + 1;
+        return { ...item, physical_count: physical, discrepancy: physical - item.system_quantity };
+      })
+    );
+    toast.success(`${auditItem.part_name}: ${(auditItem.physical_count ?? 0) + 1}`);
+  };
+
+  useBarcodeScanner(handleScan, auditStatus === 'in_progress');
+
   const updateCorrectionReason = (inventoryId: string, reason: string) => {
     setAuditItems(prev =>
       prev.map(item =>
@@ -375,6 +400,23 @@ export default function InventoryAudit() {
             </div>
           </div>
 
+          <div className="relative mb-4">
+            <ScanLine className="w-5 h-5 text-neutral-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={scanCode}
+              onChange={(e) => setScanCode(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key !== 'Enter' || !scanCode.trim()) return;
+                e.preventDefault();
+                handleScan(scanCode);
+                setScanCode('');
+              }}
+              placeholder="Scan a barcode or enter SKU to count one unit..."
+              className="w-full pl-10 pr-4 py-2 border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
           <div className="bg-white rounded-xl border border-neutral-200 overflow-hidden">
             <div className="overflow-x-auto">
               <table className="w-full">
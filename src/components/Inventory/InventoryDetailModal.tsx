@@ -1,8 +1,9 @@
 import { useEffect, useState } from 'react';
-import { X, History, Edit, Package, ArrowRightLeft } from 'lucide-react';
+import { X, History, Edit, Package, ArrowRightLeft, Smartphone } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import type { Database } from '../../lib/database.types';
 import TransferModal from './TransferModal';
+import InventoryUnitsPanel from './InventoryUnitsPanel';
 
 type Inventory = Database['public']['Tables']['inventory']['Row'];
 type InventoryMovement = Database['public']['Tables']['inventory_movements']['Row'];
@@ -16,7 +17,7 @@ interface InventoryDetailModalProps {
 }
 
 export default function InventoryDetailModal({ item, onClose, onEdit, onUpdate }: InventoryDetailModalProps) {
-  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'units' | 'history'>('details');
   const [movements, setMovements] = useState<InventoryMovement[]>([]);
   const [supplier, setSupplier] = useState<Supplier | null>(null);
   const [loading, setLoading] = useState(false);
@@ -113,6 +114,17 @@ export default function InventoryDetailModal({ item, onClose, onEdit, onUpdate }
             >
               Details
             </button>
+            <button
+              onClick={() => setActiveTab('units')}
+              className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors flex items-center gap-2 ${
+                activeTab === 'units'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-neutral-600 hover:text-neutral-900'
+              }`}
+            >
+              <Smartphone className="w-4 h-4" />
+              Units
+            </button>
             <button
               onClick={() => setActiveTab('history')}
               className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors flex items-center gap-2 ${
@@ -201,6 +213,10 @@ export default function InventoryDetailModal({ item, onClose, onEdit, onUpdate }
             </div>
           )}
 
+          {activeTab === 'units' && (
+            <InventoryUnitsPanel item={item} onUpdate={onUpdate} />
+          )}
+
           {activeTab === 'history' && (
             <div>
               {loading ? (
@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Printer, X } from 'lucide-react';
+import { handleSupabaseError } from '../../lib/toast';
+import BarcodeImage from '../common/BarcodeImage';
+import {
+  LABEL_SIZES,
+  ensureItemBarcodes,
+  getItemCode,
+  getLabelPrintStyle,
+  loadLabelSize,
+  saveLabelSize,
+  type LabelCodeType,
+  type LabelSize,
+} from '../../lib/labels';
+import type { Database } from '../../lib/database.types';
+
+type InventoryItem = Database['public']['Tables']['inventory']['Row'];
+
+interface InventoryLabelsModalProps {
+  items: InventoryItem[];
+  onClose: () => void;
+  /** Called when items without a code were given an internal barcode. */
+  onUpdate: () => void;
+}
+
+export default function InventoryLabelsModal({ items, onClose, onUpdate }: InventoryLabelsModalProps) {
+  const [labelItems, setLabelItems] = useState<InventoryItem[]>([]);
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  const [size, setSize] = useState<LabelSize>(loadLabelSize);
+  const [codeType, setCodeType] = useState<LabelCodeType>('barcode');
+  const [loading, setLoading] = useState(true);
+  // The parent's reload callback changes on every render; labels are prepared once per item set
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  const prepareItems = useCallback(async () => {
+    const needCodes = items.some(item => !getItemCode(item));
+    const { data, error } = await ensureItemBarcodes(items);
+    if (error) {
+      handleSupabaseError(error, 'Assign barcodes');
+    }
+    setLabelItems(data);
+    setCopies(Object.fromEntries(data.map(item => [item.id, 1])));
+    setLoading(false);
+    if (needCodes && data.length > 0) onUpdateRef.current();
+  }, [items]);
+
+  useEffect(() => {
+    prepareItems();
+  }, [prepareItems]);
+
+  function handleSizeChange(id: string) {
+    const next = LABEL_SIZES.find(s => s.id === id) || LABEL_SIZES[0];
+    setSize(next);
+    saveLabelSize(next);
+  }
+
+  function copiesFromStock() {
+    setCopies(Object.fromEntries(labelItems.map(item => [item.id, Math.max(item.quantity, 0)])));
+  }
+
+  const labels = labelItems.flatMap(item => Array.from({ length: copies[item.id] || 0 }, () => item));
+  const codeSize = codeType === 'qr' ? size.height - 8 : size.height * 0.45;
+
+  return (
+    <>
+      <style>{getLabelPrintStyle(size)}</style>
+
+      <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+        <div className="bg-neutral-100 rounded-lg shadow-2xl w-full max-w-4xl max-h-[95vh] flex flex-col">
+          <div className="no-print bg-white border-b border-neutral-200 px-6 py-4 rounded-t-lg">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-neutral-900">Печать этикеток</h2>
+                <p className="text-sm text-neutral-500 mt-0.5">
+                  Товаров: {labelItems.length}, этикеток: {labels.length}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => window.print()}
+                  disabled={loading || labels.length === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+                >
+                  <Printer className="w-4 h-4" />
+                  Печать
+                </button>
+                <button
+                  onClick={onClose}
+                  className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-neutral-100 transition-colors"
+                >
+                  <X className="w-5 h-5 text-neutral-500" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-4 mt-4 text-sm">
+              <select
+                value={size.id}
+                onChange={(e) => handleSizeChange(e.target.value)}
+                className="px-3 py-1.5 border border-neutral-200 rounded-lg bg-white"
+              >
+                {LABEL_SIZES.map(s => (
+                  <option key={s.id} value={s.id}>{s.label}</option>
+                ))}
+              </select>
+              <div className="flex rounded-lg border border-neutral-200 overflow-hidden">
+                {(['barcode', 'qr'] as LabelCodeType[]).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => setCodeType(type)}
+                    className={`px-3 py-1.5 ${codeType === type ? 'bg-blue-600 text-white' : 'bg-white text-neutral-700 hover:bg-neutral-50'}`}
+                  >
+                    {type === 'barcode' ? 'Штрихкод' : 'QR-код'}
+                  </button>
+                ))}
+              </div>
+              <button onClick={copiesFromStock} className="text-blue-600 hover:text-blue-700">
+                Копий по остатку
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-0">
+            <div className="no-print p-4 space-y-2 border-r border-neutral-200 bg-white overflow-y-auto">
+              {labelItems.map(item => (
+                <div key={item.id} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-neutral-900 truncate">{item.part_name}</div>
+                    <div className="text-xs font-mono text-neutral-500">{getItemCode(item)}</div>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    value={copies[item.id] ?? 0}
+                    onChange={(e) => setCopies({ ...copies, [item.id]: Math.max(parseInt(e.target.value) || 0, 0) })}
+                    className="w-16 px-2 py-1 border border-neutral-200 rounded-lg text-sm text-right"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="p-4 overflow-y-auto">
+              {loading ? (
+                <div className="text-center py-8 text-neutral-500 no-print">Загрузка...</div>
+              ) : (
+                <div className="label-print-area flex flex-wrap gap-2">
+                  {labels.map((item, index) => (
+                    <div
+                      key={`${item.id}-${index}`}
+                      className="label bg-white border border-neutral-300 overflow-hidden flex flex-col justify-between"
+                      style={{ width: `${size.width}mm`, height: `${size.height}mm`, padding: '2mm' }}
+                    >
+                      <div className="text-[8pt] leading-tight font-semibold text-black line-clamp-2">{item.part_name}</div>
+                      <div className={codeType === 'qr' ? 'flex items-center gap-2' : ''}>
+                        <BarcodeImage value={getItemCode(item)} type={codeType} sizeMm={codeSize} />
+                        {codeType === 'qr' && (
+                          <div className="text-[7pt] font-mono text-black break-all">{getItemCode(item)}</div>
+                        )}
+                      </div>
+                      {item.location && item.location !== 'main' && (
+                        <div className="text-[7pt] text-black">{item.location}</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
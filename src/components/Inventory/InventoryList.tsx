@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Package, AlertTriangle, Search, TrendingDown, Plus, Minus } from 'lucide-react';
+import { Package, AlertTriangle, Search, TrendingDown, Plus, Minus, Tag } from 'lucide-react';
 import { useLocation } from '../../contexts/LocationContext';
 import { usePermissions } from '../../hooks/usePermissions';
 import type { Database } from '../../lib/database.types';
@@ -8,6 +8,7 @@ import InventoryDetailModal from './InventoryDetailModal';
 import IncomeModal from './IncomeModal';
 import OutcomeModal from './OutcomeModal';
 import EditInventoryModal from './EditInventoryModal';
+import InventoryLabelsModal from './InventoryLabelsModal';
 
 type Inventory = Database['public']['Tables']['inventory']['Row'] & {
   supplier?: {
@@ -25,6 +26,8 @@ export default function InventoryList() {
   const [showIncomeModal, setShowIncomeModal] = useState(false);
   const [showOutcomeModal, setShowOutcomeModal] = useState(false);
   const [editingItem, setEditingItem] = useState<Inventory | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [labelItems, setLabelItems] = useState<Inventory[] | null>(null);
 
   useEffect(() => {
     loadInventory();
@@ -63,12 +66,34 @@ export default function InventoryList() {
     setEditingItem(item);
   }
 
+  function toggleSelected(id: string) {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  }
+
   const filteredInventory = inventory.filter((item) =>
     item.part_name.toLowerCase().includes(search.toLowerCase()) ||
-    item.sku?.toLowerCase().includes(search.toLowerCase())
+    item.sku?.toLowerCase().includes(search.toLowerCase()) ||
+    item.barcode?.includes(search.trim())
   );
 
-  const lowStockItems = inventory.filter((item) => item.quantity <= item.min_quantity);
+  const allFilteredSelected = filteredInventory.length > 0 && filteredInventory.every(item => selectedIds.has(item.id));
+
+  function toggleAllFiltered() {
+    setSelectedIds(allFilteredSelected ? new Set() : new Set(filteredInventory.map(item => item.id)));
+  }
+
+  function printLabels() {
+    const selected = inventory.filter(item => selectedIds.has(item.id));
+    setLabelItems(selected.length > 0 ? selected : filteredInventory);
+  }
+
+  const lowStockItems = inventory.filter((item) => item.available_quantity <= item.min_quantity);
 
   if (loading) {
     return (
@@ -86,6 +111,14 @@ export default function InventoryList() {
           <p className="text-slate-600 mt-2 font-medium">Управление запасами и деталями</p>
         </div>
         <div className="flex items-center gap-3">
+          <button
+            onClick={printLabels}
+            disabled={filteredInventory.length === 0}
+            className="px-5 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-xl hover:bg-slate-50 transition-all font-medium flex items-center gap-2 disabled:opacity-50"
+          >
+            <Tag className="w-4 h-4" />
+            Печать этикеток{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+          </button>
           {canEditInventory() && (
             <button
               onClick={() => setShowOutcomeModal(true)}
@@ -130,7 +163,7 @@ export default function InventoryList() {
             type="text"
             value={search}
             onChange={(e) => setSearch(e.target.value)}
-            placeholder="Поиск по названию или артикулу..."
+            placeholder="Поиск по названию, артикулу или штрихкоду..."
             className="input-premium w-full pl-12"
           />
         </div>
@@ -141,6 +174,14 @@ export default function InventoryList() {
           <table className="w-full">
             <thead>
               <tr>
+                <th className="pl-6 py-4 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allFilteredSelected}
+                    onChange={toggleAllFiltered}
+                    className="w-4 h-4 rounded border-slate-300"
+                  />
+                </th>
                 <th className="px-6 py-4 text-left text-xs font-bold text-slate-700 uppercase tracking-wider">
                   Название
                 </th>
@@ -151,7 +192,7 @@ export default function InventoryList() {
                   Штрихкод
                 </th>
                 <th className="px-6 py-4 text-left text-xs font-bold text-slate-700 uppercase tracking-wider">
-                  Остаток
+                  Доступно
                 </th>
                 <th className="px-6 py-4 text-left text-xs font-bold text-slate-700 uppercase tracking-wider">
                   Цена
@@ -169,13 +210,21 @@ export default function InventoryList() {
             </thead>
             <tbody>
               {filteredInventory.map((item) => {
-                const isLowStock = item.quantity <= item.min_quantity;
+                const isLowStock = item.available_quantity <= item.min_quantity;
                 return (
                   <tr
                     key={item.id}
                     onClick={() => setSelectedItem(item)}
                     className="hover:bg-white/80 transition-all cursor-pointer"
                   >
+                    <td className="pl-6 py-4" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(item.id)}
+                        onChange={() => toggleSelected(item.id)}
+                        className="w-4 h-4 rounded border-slate-300"
+                      />
+                    </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-3">
                         <div className="w-10 h-10 bg-neutral-100 rounded-lg flex items-center justify-center">
@@ -194,10 +243,15 @@ export default function InventoryList() {
                       <div className="flex items-center gap-2">
                         {isLowStock && <TrendingDown className="w-4 h-4 text-amber-500" />}
                         <span className={`font-medium ${isLowStock ? 'text-amber-600' : 'text-neutral-900'}`}>
-                          {item.quantity}
+                          {item.available_quantity}
                         </span>
                         <span className="text-sm text-neutral-500">/ min. {item.min_quantity}</span>
                       </div>
+                      {item.reserved_quantity > 0 && (
+                        <div className="text-xs text-neutral-500 mt-0.5">
+                          на складе {item.quantity}, в резерве {item.reserved_quantity}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <span className="font-medium text-neutral-900">€{item.unit_cost?.toFixed(2) || '0.00'}</span>
@@ -275,6 +329,14 @@ export default function InventoryList() {
           }}
         />
       )}
+
+      {labelItems && (
+        <InventoryLabelsModal
+          items={labelItems}
+          onClose={() => setLabelItems(null)}
+          onUpdate={loadInventory}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,286 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Plus, Wrench } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { handleSupabaseError, toast } from '../../lib/toast';
+import {
+  UNIT_GRADE_LABELS,
+  UNIT_STATUS_COLORS,
+  UNIT_STATUS_LABELS,
+  addInventoryUnit,
+  getUnitCode,
+  loadItemUnits,
+  loadUnitEvents,
+  validateUnitIdentifiers,
+  type InventoryUnit,
+  type InventoryUnitEvent,
+  type UnitGrade,
+  type UnitStatus,
+} from '../../lib/inventoryUnits';
+import type { Database } from '../../lib/database.types';
+
+type Inventory = Database['public']['Tables']['inventory']['Row'];
+
+interface InventoryUnitsPanelProps {
+  item: Inventory;
+  onUpdate: () => void;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  received: 'Received',
+  status_change: 'Status changed',
+  updated: 'Updated',
+};
+
+export default function InventoryUnitsPanel({ item, onUpdate }: InventoryUnitsPanelProps) {
+  const [units, setUnits] = useState<InventoryUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedUnitId, setExpandedUnitId] = useState<string | null>(null);
+  const [events, setEvents] = useState<InventoryUnitEvent[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState('');
+  const [form, setForm] = useState({
+    imei: '',
+    serial_number: '',
+    grade: 'new' as UnitGrade,
+    cost: item.unit_cost || 0,
+    notes: '',
+    add_to_stock: true
+  });
+
+  const loadUnits = useCallback(async () => {
+    setLoading(true);
+    setUnits(await loadItemUnits(item.id));
+    setLoading(false);
+  }, [item.id]);
+
+  useEffect(() => {
+    loadUnits();
+  }, [loadUnits]);
+
+  async function toggleUnit(unit: InventoryUnit) {
+    if (expandedUnitId === unit.id) {
+      setExpandedUnitId(null);
+      return;
+    }
+    setExpandedUnitId(unit.id);
+    setEvents([]);
+    setEvents(await loadUnitEvents(unit.id));
+  }
+
+  async function handleAddUnit(e: React.FormEvent) {
+    e.preventDefault();
+    const validationError = validateUnitIdentifiers(form.imei, form.serial_number);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await addInventoryUnit({ ...form, inventory_id: item.id });
+    setSaving(false);
+
+    if (error) {
+      setFormError(error.message);
+      return;
+    }
+
+    toast.success('Unit added');
+    setForm({ ...form, imei: '', serial_number: '', notes: '' });
+    setFormError('');
+    loadUnits();
+    if (form.add_to_stock) onUpdate();
+  }
+
+  async function toggleRepair(unit: InventoryUnit) {
+    const status: UnitStatus = unit.status === 'in_repair' ? 'in_stock' : 'in_repair';
+    const { error } = await supabase
+      .from('inventory_units')
+      .update({ status })
+      .eq('id', unit.id);
+
+    if (error) {
+      handleSupabaseError(error, 'Update unit status');
+      return;
+    }
+    loadUnits();
+    if (expandedUnitId === unit.id) {
+      setEvents(await loadUnitEvents(unit.id));
+    }
+  }
+
+  const inStock = units.filter(unit => unit.status === 'in_stock').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-neutral-600">
+          {units.length} units, {inStock} in stock
+          {item.is_serialized && inStock !== item.quantity && (
+            <span className="text-amber-600"> · stock quantity is {item.quantity}</span>
+          )}
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-3 py-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Add Unit
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleAddUnit} className="p-4 bg-neutral-50 rounded-lg space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">IMEI</label>
+              <input
+                type="text"
+                value={form.imei}
+                onChange={(e) => setForm({ ...form, imei: e.target.value })}
+                placeholder="15 digits"
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg font-mono text-sm"
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Serial Number</label>
+              <input
+                type="text"
+                value={form.serial_number}
+                onChange={(e) => setForm({ ...form, serial_number: e.target.value })}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg font-mono text-sm"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Grade</label>
+              <select
+                value={form.grade}
+                onChange={(e) => setForm({ ...form, grade: e.target.value as UnitGrade })}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm bg-white"
+              >
+                {(Object.keys(UNIT_GRADE_LABELS) as UnitGrade[]).map(grade => (
+                  <option key={grade} value={grade}>{UNIT_GRADE_LABELS[grade]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1">Cost (€)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.cost}
+                onChange={(e) => setForm({ ...form, cost: parseFloat(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">Notes</label>
+            <input
+              type="text"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-neutral-700">
+            <input
+              type="checkbox"
+              checked={form.add_to_stock}
+              onChange={(e) => setForm({ ...form, add_to_stock: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded"
+            />
+            Add to stock quantity (uncheck if the unit is already counted)
+          </label>
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-sm text-neutral-700 hover:text-neutral-900"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Unit'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-neutral-500">Loading units...</div>
+      ) : units.length === 0 ? (
+        <div className="text-center py-8 text-neutral-500">No units registered yet</div>
+      ) : (
+        <div className="space-y-2">
+          {units.map(unit => (
+            <div key={unit.id} className="bg-neutral-50 rounded-lg">
+              <div className="px-4 py-3 flex items-center gap-3">
+                <button onClick={() => toggleUnit(unit)} className="text-neutral-500 hover:text-neutral-900">
+                  {expandedUnitId === unit.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className="font-mono text-sm text-neutral-900">{getUnitCode(unit)}</div>
+                  <div className="text-xs text-neutral-500">
+                    {unit.imei && unit.serial_number && <span className="font-mono">S/N {unit.serial_number} · </span>}
+                    {UNIT_GRADE_LABELS[unit.grade]} · €{unit.cost.toFixed(2)}
+                  </div>
+                </div>
+                <span className={`px-2 py-1 rounded text-xs font-medium ${UNIT_STATUS_COLORS[unit.status]}`}>
+                  {UNIT_STATUS_LABELS[unit.status]}
+                </span>
+                {(unit.status === 'in_stock' || unit.status === 'in_repair') && (
+                  <button
+                    onClick={() => toggleRepair(unit)}
+                    title={unit.status === 'in_repair' ? 'Return to stock' : 'Send to repair'}
+                    className="p-1.5 rounded-lg hover:bg-neutral-200 transition-colors"
+                  >
+                    <Wrench className="w-4 h-4 text-neutral-600" />
+                  </button>
+                )}
+              </div>
+
+              {expandedUnitId === unit.id && (
+                <div className="px-4 pb-3 pl-11 space-y-2">
+                  {unit.notes && <p className="text-sm text-neutral-600">{unit.notes}</p>}
+                  {events.length === 0 ? (
+                    <p className="text-xs text-neutral-500">No history yet</p>
+                  ) : (
+                    events.map(event => (
+                      <div key={event.id} className="flex items-start justify-between gap-3 text-xs">
+                        <div className="text-neutral-700">
+                          <span className="font-medium">{EVENT_LABELS[event.event_type] || event.event_type}</span>
+                          {event.status && (
+                            <span> → {UNIT_STATUS_LABELS[event.status as keyof typeof UNIT_STATUS_LABELS] || event.status}</span>
+                          )}
+                          {event.order_id && <span className="text-neutral-500"> · Order {event.order_id.slice(0, 8)}</span>}
+                          {event.sale_id && <span className="text-neutral-500"> · Sale {event.sale_id.slice(0, 8)}</span>}
+                          {event.notes && <span className="text-neutral-500"> · {event.notes}</span>}
+                        </div>
+                        <span className="text-neutral-500 whitespace-nowrap">
+                          {new Date(event.created_at).toLocaleString('en-US', {
+                            dateStyle: 'short',
+                            timeStyle: 'short'
+                          })}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
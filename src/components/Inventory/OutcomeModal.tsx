@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { X, Minus, Search } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { toast, handleSupabaseError } from '../../lib/toast';
+import { matchesCode } from '../../lib/labels';
+import { useBarcodeScanner } from '../../hooks/useBarcodeScanner';
 import type { Database } from '../../lib/database.types';
 
 type Inventory = Database['public']['Tables']['inventory']['Row'];
@@ -32,7 +34,8 @@ export default function OutcomeModal({ onClose, onSuccess }: OutcomeModalProps)
     if (searchTerm) {
       const filtered = inventoryItems.filter(item =>
         item.part_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (item.sku && item.sku.toLowerCase().includes(searchTerm.toLowerCase()))
+        (item.sku && item.sku.toLowerCase().includes(searchTerm.toLowerCase())) ||
+        (item.barcode && item.barcode.includes(searchTerm.trim()))
       );
       setFilteredItems(filtered);
     } else {
@@ -56,6 +59,24 @@ export default function OutcomeModal({ onClose, onSuccess }: OutcomeModalProps)
     setSearchTerm('');
   }
 
+  /** Scanning the selected item again writes off one more unit. */
+  function handleScan(code: string) {
+    const match = inventoryItems.find(item => matchesCode(item, code));
+    if (!match) {
+      toast.error(`No item with code ${code.trim()}`);
+      return;
+    }
+
+    if (selectedInventoryId === match.id) {
+      setQuantity(q => q + 1);
+    } else {
+      selectInventoryItem(match);
+      setQuantity(1);
+    }
+  }
+
+  useBarcodeScanner(handleScan);
+
   async function handleSave() {
     // Validation
     if (!selectedInventoryId) {
@@ -73,8 +94,8 @@ export default function OutcomeModal({ onClose, onSuccess }: OutcomeModalProps)
       return;
     }
 
-    if (selectedItem && quantity > selectedItem.quantity) {
-      toast.error(`Cannot write off ${quantity} units. Only ${selectedItem.quantity} available in stock.`);
+    if (selectedItem && quantity > selectedItem.available_quantity) {
+      toast.error(`Cannot write off ${quantity} units. Only ${selectedItem.available_quantity} available in stock.`);
       return;
     }
 
@@ -174,7 +195,7 @@ export default function OutcomeModal({ onClose, onSuccess }: OutcomeModalProps)
                     </div>
                     <div className="text-right">
                       <div className="text-sm font-semibold text-neutral-900">
-                        Available: {selectedItem.quantity}
+                        Available: {selectedItem.available_quantity}
                       </div>
                       <div className="text-xs text-neutral-500">
                         €{selectedItem.unit_cost?.toFixed(2)} per unit
@@ -191,7 +212,14 @@ export default function OutcomeModal({ onClose, onSuccess }: OutcomeModalProps)
                       type="text"
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
-                      placeholder="Search by name or SKU..."
+                      onKeyDown={(e) => {
+                        if (e.key !== 'Enter') return;
+                        e.preventDefault();
+                        if (inventoryItems.some(item => matchesCode(item, searchTerm))) {
+                          handleScan(searchTerm);
+                        }
+                      }}
+                      placeholder="Search or scan by name, SKU or barcode..."
                       className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                       autoFocus
                     />
@@ -235,15 +263,15 @@ export default function OutcomeModal({ onClose, onSuccess }: OutcomeModalProps)
             <input
               type="number"
               min="1"
-              max={selectedItem?.quantity || 999}
+              max={selectedItem?.available_quantity || 999}
               value={quantity}
               onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
               className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               disabled={!selectedItem}
             />
-            {selectedItem && quantity > selectedItem.quantity && (
+            {selectedItem && quantity > selectedItem.available_quantity && (
               <p className="text-xs text-red-600 mt-1">
-                Only {selectedItem.quantity} units available
+                Only {selectedItem.available_quantity} units available
               </p>
             )}
           </div>
@@ -294,7 +322,7 @@ export default function OutcomeModal({ onClose, onSuccess }: OutcomeModalProps)
         <div className="px-6 py-4 border-t border-neutral-200 flex items-center gap-3">
           <button
             onClick={handleSave}
-            disabled={saving || !selectedInventoryId || !reason.trim() || quantity <= 0 || (selectedItem && quantity > selectedItem.quantity)}
+            disabled={saving || !selectedInventoryId || !reason.trim() || quantity <= 0 || (selectedItem && quantity > selectedItem.available_quantity)}
             className="flex-1 px-4 py-2.5 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             <Minus className="w-4 h-4" />
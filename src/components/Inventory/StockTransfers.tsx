@@ -0,0 +1,364 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, callRpc } from '../../lib/supabase';
+import { ArrowRight, ArrowLeftRight, PackageCheck, Truck, X, AlertTriangle } from 'lucide-react';
+import { useLocation } from '../../contexts/LocationContext';
+import { toast, handleSupabaseError } from '../../lib/toast';
+import type { Database } from '../../lib/database.types';
+
+type StockTransfer = Database['public']['Tables']['stock_transfers']['Row'];
+
+type Direction = 'all' | 'incoming' | 'outgoing';
+
+interface TransferResult {
+  success: boolean;
+  error?: string;
+}
+
+interface TransferArgs {
+  p_action: 'ship' | 'receive' | 'cancel';
+  p_payload: Record<string, unknown>;
+}
+
+const statusLabels: Record<StockTransfer['status'], { label: string; className: string }> = {
+  requested: { label: 'Заявка', className: 'bg-amber-100 text-amber-800' },
+  shipped: { label: 'В пути', className: 'bg-blue-100 text-blue-800' },
+  received: { label: 'Получено', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Отменено', className: 'bg-neutral-100 text-neutral-600' },
+};
+
+export default function StockTransfers() {
+  const { currentLocation, locations } = useLocation();
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [direction, setDirection] = useState<Direction>('all');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const [receivingTransfer, setReceivingTransfer] = useState<StockTransfer | null>(null);
+  const [receivedQuantity, setReceivedQuantity] = useState(0);
+  const [discrepancyNotes, setDiscrepancyNotes] = useState('');
+
+  const loadTransfers = useCallback(async () => {
+    if (!currentLocation) return;
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('stock_transfers')
+      .select('*')
+      .or(`source_location_id.eq.${currentLocation.id},destination_location_id.eq.${currentLocation.id}`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      handleSupabaseError(error, 'Load transfers');
+    } else {
+      setTransfers(data || []);
+    }
+    setLoading(false);
+  }, [currentLocation]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  async function runAction(transfer: StockTransfer, action: 'ship' | 'receive' | 'cancel', payload: Record<string, unknown> = {}) {
+    setProcessingId(transfer.id);
+    try {
+      const { data, error } = await callRpc<TransferResult, TransferArgs>('transfer_inventory', {
+        p_action: action,
+        p_payload: { transfer_id: transfer.id, ...payload }
+      });
+
+      if (error) throw error;
+
+      const result = data as TransferResult;
+      if (!result.success) {
+        toast.error(result.error || 'Не удалось обновить трансфер');
+        return false;
+      }
+
+      await loadTransfers();
+      return true;
+    } catch (error) {
+      handleSupabaseError(error, 'Update transfer');
+      return false;
+    } finally {
+      setProcessingId(null);
+    }
+  }
+
+  async function handleShip(transfer: StockTransfer) {
+    if (await runAction(transfer, 'ship')) {
+      toast.success(`Трансфер ${transfer.transfer_number} отправлен`);
+    }
+  }
+
+  async function handleCancel(transfer: StockTransfer) {
+    const message = transfer.status === 'shipped'
+      ? 'Отменить трансфер? Товар вернётся на склад отправителя.'
+      : 'Отменить заявку на трансфер?';
+    if (!confirm(message)) return;
+
+    if (await runAction(transfer, 'cancel')) {
+      toast.success(`Трансфер ${transfer.transfer_number} отменён`);
+    }
+  }
+
+  function openReceiveModal(transfer: StockTransfer) {
+    setReceivingTransfer(transfer);
+    setReceivedQuantity(transfer.quantity_shipped || 0);
+    setDiscrepancyNotes('');
+  }
+
+  async function confirmReceive() {
+    if (!receivingTransfer) return;
+
+    const shipped = receivingTransfer.quantity_shipped || 0;
+    if (receivedQuantity !== shipped && !discrepancyNotes.trim()) {
+      toast.error('Укажите причину расхождения');
+      return;
+    }
+
+    const success = await runAction(receivingTransfer, 'receive', {
+      quantity_received: receivedQuantity,
+      discrepancy_notes: discrepancyNotes.trim() || null
+    });
+
+    if (success) {
+      toast.success(`Трансфер ${receivingTransfer.transfer_number} принят`);
+      setReceivingTransfer(null);
+    }
+  }
+
+  const getLocationName = (id: number) => locations.find(l => l.id === id)?.name || `#${id}`;
+
+  const filteredTransfers = transfers.filter(transfer => {
+    if (direction === 'incoming' && transfer.destination_location_id !== currentLocation?.id) return false;
+    if (direction === 'outgoing' && transfer.source_location_id !== currentLocation?.id) return false;
+    if (statusFilter && transfer.status !== statusFilter) return false;
+    return true;
+  });
+
+  const inTransitCount = transfers.filter(
+    t => t.status === 'shipped' && t.destination_location_id === currentLocation?.id
+  ).length;
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-neutral-900 mb-2 flex items-center gap-2">
+          <ArrowLeftRight className="w-6 h-6" />
+          Перемещения между филиалами
+        </h1>
+        <p className="text-neutral-600">
+          Товар списывается с филиала-отправителя при отправке и поступает на склад получателя после подтверждения приёмки.
+        </p>
+      </div>
+
+      {inTransitCount > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 mb-6 flex items-center gap-3">
+          <Truck className="w-5 h-5 text-blue-600" />
+          <div className="text-sm text-blue-900">
+            В пути на ваш филиал: <span className="font-semibold">{inTransitCount}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex bg-neutral-100 rounded-lg p-1">
+          {([
+            { id: 'all', label: 'Все' },
+            { id: 'incoming', label: 'Входящие' },
+            { id: 'outgoing', label: 'Исходящие' },
+          ] as { id: Direction; label: string }[]).map(option => (
+            <button
+              key={option.id}
+              onClick={() => setDirection(option.id)}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                direction === option.id ? 'bg-white shadow-sm font-medium text-neutral-900' : 'text-neutral-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+        >
+          <option value="">Все статусы</option>
+          {Object.entries(statusLabels).map(([value, { label }]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-xl border border-neutral-200 overflow-hidden">
+        {loading ? (
+          <div className="text-center py-12 text-neutral-500">Загрузка...</div>
+        ) : filteredTransfers.length === 0 ? (
+          <div className="text-center py-12 text-neutral-500">Трансферов нет</div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-neutral-50 border-b border-neutral-200">
+              <tr>
+                <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600 uppercase">Номер</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600 uppercase">Товар</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600 uppercase">Маршрут</th>
+                <th className="text-right px-4 py-3 text-xs font-medium text-neutral-600 uppercase">Кол-во</th>
+                <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600 uppercase">Статус</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-100">
+              {filteredTransfers.map(transfer => {
+                const isSource = transfer.source_location_id === currentLocation?.id;
+                const isDestination = transfer.destination_location_id === currentLocation?.id;
+                const status = statusLabels[transfer.status];
+                const isProcessing = processingId === transfer.id;
+
+                return (
+                  <tr key={transfer.id} className="hover:bg-neutral-50">
+                    <td className="px-4 py-3">
+                      <div className="font-mono text-sm font-medium text-neutral-900">{transfer.transfer_number}</div>
+                      <div className="text-xs text-neutral-500">
+                        {new Date(transfer.created_at).toLocaleDateString('ru-RU')}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="text-sm font-medium text-neutral-900">{transfer.part_name}</div>
+                      {transfer.sku && <div className="text-xs text-neutral-500">SKU: {transfer.sku}</div>}
+                      {transfer.notes && <div className="text-xs text-neutral-500 mt-0.5">{transfer.notes}</div>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2 text-sm text-neutral-700">
+                        <span className={isSource ? 'font-semibold' : ''}>{getLocationName(transfer.source_location_id)}</span>
+                        <ArrowRight className="w-4 h-4 text-neutral-400" />
+                        <span className={isDestination ? 'font-semibold' : ''}>{getLocationName(transfer.destination_location_id)}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm">
+                      <div className="text-neutral-900">{transfer.quantity_shipped ?? transfer.quantity_requested} шт.</div>
+                      {transfer.status === 'received' && (
+                        <div className={`text-xs ${transfer.discrepancy ? 'text-red-600 font-medium' : 'text-green-600'}`}>
+                          Принято: {transfer.quantity_received}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                      {!!transfer.discrepancy && (
+                        <div className="flex items-center gap-1 text-xs text-red-600 mt-1" title={transfer.discrepancy_notes || ''}>
+                          <AlertTriangle className="w-3 h-3" />
+                          Расхождение {transfer.discrepancy > 0 ? '-' : '+'}{Math.abs(transfer.discrepancy)}
+                          {transfer.discrepancy_notes && `: ${transfer.discrepancy_notes}`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-2">
+                        {isSource && transfer.status === 'requested' && (
+                          <button
+                            onClick={() => handleShip(transfer)}
+                            disabled={isProcessing}
+                            className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+                          >
+                            <Truck className="w-3.5 h-3.5" />
+                            Отправить
+                          </button>
+                        )}
+                        {isDestination && transfer.status === 'shipped' && (
+                          <button
+                            onClick={() => openReceiveModal(transfer)}
+                            disabled={isProcessing}
+                            className="px-3 py-1.5 text-xs bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-1"
+                          >
+                            <PackageCheck className="w-3.5 h-3.5" />
+                            Принять
+                          </button>
+                        )}
+                        {isSource && (transfer.status === 'requested' || transfer.status === 'shipped') && (
+                          <button
+                            onClick={() => handleCancel(transfer)}
+                            disabled={isProcessing}
+                            className="px-3 py-1.5 text-xs border border-neutral-300 text-neutral-700 rounded-lg hover:bg-neutral-50 disabled:opacity-50"
+                          >
+                            Отменить
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {receivingTransfer && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Приёмка {receivingTransfer.transfer_number}</h3>
+              <button onClick={() => setReceivingTransfer(null)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="bg-neutral-50 rounded-lg p-4">
+                <div className="font-semibold text-neutral-900">{receivingTransfer.part_name}</div>
+                <div className="text-sm text-neutral-600 mt-1">
+                  Отправлено: {receivingTransfer.quantity_shipped} шт.
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1.5">Фактически получено</label>
+                <input
+                  type="number"
+                  min="0"
+                  max={receivingTransfer.quantity_shipped ?? undefined}
+                  value={receivedQuantity}
+                  onChange={(e) => setReceivedQuantity(
+                    Math.min(Math.max(0, parseInt(e.target.value) || 0), receivingTransfer.quantity_shipped ?? 0)
+                  )}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+
+              {receivedQuantity !== (receivingTransfer.quantity_shipped || 0) && (
+                <div>
+                  <label className="block text-sm font-medium mb-1.5 text-red-700">Причина расхождения</label>
+                  <textarea
+                    value={discrepancyNotes}
+                    onChange={(e) => setDiscrepancyNotes(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-red-300 rounded-lg"
+                  />
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-2">
+                <button onClick={() => setReceivingTransfer(null)} className="flex-1 px-4 py-2 border rounded-lg">
+                  Отмена
+                </button>
+                <button
+                  onClick={confirmReceive}
+                  disabled={processingId === receivingTransfer.id}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg disabled:opacity-50"
+                >
+                  Принять
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../../lib/supabase';
+import { callRpc } from '../../lib/supabase';
 import { X, ArrowRight, MapPin } from 'lucide-react';
 import { useLocation } from '../../contexts/LocationContext';
+import { toast } from '../../lib/toast';
 import type { Database } from '../../lib/database.types';
 
 type Inventory = Database['public']['Tables']['inventory']['Row'];
@@ -12,6 +13,24 @@ interface Location {
   address: string | null;
 }
 
+interface TransferResult {
+  success: boolean;
+  error?: string;
+  transfer_id?: string;
+  transfer_number?: string;
+}
+
+interface TransferRequestArgs {
+  p_action: 'request';
+  p_payload: {
+    inventory_id: string;
+    destination_location_id: number;
+    quantity: number;
+    notes: string | null;
+    ship_now: boolean;
+  };
+}
+
 interface TransferModalProps {
   item: Inventory;
   onClose: () => void;
@@ -22,6 +41,8 @@ export default function TransferModal({ item, onClose, onSuccess }: TransferModa
   const { locations, currentLocation } = useLocation();
   const [selectedLocationId, setSelectedLocationId] = useState<number | null>(null);
   const [quantity, setQuantity] = useState(1);
+  const [notes, setNotes] = useState('');
+  const [shipNow, setShipNow] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -33,8 +54,8 @@ export default function TransferModal({ item, onClose, onSuccess }: TransferModa
       return;
     }
 
-    if (quantity <= 0 || quantity > item.quantity) {
-      setError(`Количество должно быть от 1 до ${item.quantity}`);
+    if (quantity <= 0 || quantity > item.available_quantity) {
+      setError(`Количество должно быть от 1 до ${item.available_quantity}`);
       return;
     }
 
@@ -42,62 +63,28 @@ export default function TransferModal({ item, onClose, onSuccess }: TransferModa
     setError('');
 
     try {
-      const targetLocationInventory = await supabase
-        .from('inventory')
-        .select('*')
-        .eq('sku', item.sku)
-        .eq('location_id', selectedLocationId)
-        .maybeSingle();
-
-      if (targetLocationInventory.error && targetLocationInventory.error.code !== 'PGRST116') {
-        throw targetLocationInventory.error;
-      }
-
-      const currentInventoryUpdate = await supabase
-        .from('inventory')
-        .update({ quantity: item.quantity - quantity })
-        .eq('id', item.id);
-
-      if (currentInventoryUpdate.error) throw currentInventoryUpdate.error;
-
-      if (targetLocationInventory.data) {
-        const targetUpdate = await supabase
-          .from('inventory')
-          .update({ quantity: targetLocationInventory.data.quantity + quantity })
-          .eq('id', targetLocationInventory.data.id);
-
-        if (targetUpdate.error) throw targetUpdate.error;
-      } else {
-        const newItem = await supabase
-          .from('inventory')
-          .insert({
-            part_name: item.part_name,
-            sku: item.sku,
-            barcode: item.barcode,
-            quantity: quantity,
-            unit_cost: item.unit_cost,
-            location: item.location,
-            min_quantity: item.min_quantity,
-            supplier_id: item.supplier_id,
-            location_id: selectedLocationId
-          });
-
-        if (newItem.error) throw newItem.error;
-      }
-
-      const movementInsert = await supabase
-        .from('inventory_movements')
-        .insert({
+      const { data, error: rpcError } = await callRpc<TransferResult, TransferRequestArgs>('transfer_inventory', {
+        p_action: 'request',
+        p_payload: {
           inventory_id: item.id,
-          movement_type: 'transfer',
-          quantity: -quantity,
-          location_id: currentLocation.id,
           destination_location_id: selectedLocationId,
-          notes: `Трансфер в ${locations.find(l => l.id === selectedLocationId)?.name}`
-        });
-
-      if (movementInsert.error) throw movementInsert.error;
+          quantity,
+          notes: notes.trim() || null,
+          ship_now: shipNow
+        }
+      });
+
+      if (rpcError) throw rpcError;
+
+      const result = data as TransferResult;
+      if (!result.success) {
+        setError(result.error || 'Ошибка при переносе товара. Попробуйте снова.');
+        return;
+      }
 
+      toast.success(shipNow
+        ? `Трансфер ${result.transfer_number} отправлен`
+        : `Заявка ${result.transfer_number} создана`);
       onSuccess();
     } catch (error) {
       console.error('Error transferring inventory:', error);
@@ -127,7 +114,7 @@ export default function TransferModal({ item, onClose, onSuccess }: TransferModa
             <div className="text-sm text-neutral-600 mb-1">Товар</div>
             <div className="font-semibold text-neutral-900">{item.part_name}</div>
             <div className="text-sm text-neutral-600 mt-1">
-              SKU: {item.sku} • Доступно: {item.quantity} шт.
+              SKU: {item.sku} • Доступно: {item.available_quantity} шт.
             </div>
           </div>
 
@@ -187,13 +174,40 @@ export default function TransferModal({ item, onClose, onSuccess }: TransferModa
             <input
               type="number"
               min="1"
-              max={item.quantity}
+              max={item.available_quantity}
               value={quantity}
               onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
               className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-2">
+              Комментарий
+            </label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+
+          <label className="flex items-start gap-3 text-sm text-neutral-700">
+            <input
+              type="checkbox"
+              checked={shipNow}
+              onChange={(e) => setShipNow(e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              Отправить сразу
+              <span className="block text-xs text-neutral-500">
+                Товар спишется с этого филиала и поступит на склад получателя после подтверждения приёмки
+              </span>
+            </span>
+          </label>
+
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-3">
               <p className="text-sm text-red-800">{error}</p>
@@ -213,7 +227,7 @@ export default function TransferModal({ item, onClose, onSuccess }: TransferModa
               disabled={loading || !selectedLocationId}
               className="flex-1 px-4 py-2.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
             >
-              {loading ? 'Перемещение...' : 'Переместить'}
+              {loading ? 'Перемещение...' : shipNow ? 'Отправить' : 'Создать заявку'}
             </button>
           </div>
         </div>
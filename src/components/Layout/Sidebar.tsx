@@ -1,4 +1,4 @@
-import { LayoutDashboard, FolderKanban, Users, Package, BarChart3, LogOut, Plus, ShoppingCart, Settings, Truck, MapPin, ChevronDown, Wallet, ClipboardCheck, Globe } from 'lucide-react';
+import { LayoutDashboard, FolderKanban, Users, Package, BarChart3, LogOut, Plus, ShoppingCart, Settings, Truck, MapPin, ChevronDown, Wallet, ClipboardCheck, Globe, ArrowLeftRight, Banknote, CalendarDays } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLocation } from '../../contexts/LocationContext';
 import { useLanguage } from '../../contexts/LanguageContext';
@@ -28,11 +28,14 @@ export default function Sidebar({ activeView, onViewChange, onQuickAction, unrea
   const allMenuItems = [
     { id: 'dashboard', label: t('nav.dashboard'), icon: LayoutDashboard },
     { id: 'orders', label: t('nav.orders'), icon: FolderKanban },
+    { id: 'appointments', label: t('nav.appointments'), icon: CalendarDays },
     { id: 'clients', label: t('nav.clients'), icon: Users },
     { id: 'inventory', label: t('nav.inventory'), icon: Package },
     { id: 'inventory-audit', label: t('inventory.audit'), icon: ClipboardCheck },
+    { id: 'inventory-transfers', label: t('inventory.transfers'), icon: ArrowLeftRight },
     { id: 'purchases', label: t('nav.purchases'), icon: Truck },
     { id: 'sales', label: t('nav.sales'), icon: ShoppingCart },
+    { id: 'cash-register', label: t('nav.cashRegister'), icon: Banknote },
     { id: 'analytics', label: t('nav.analytics'), icon: BarChart3 },
     { id: 'payroll', label: language === 'ru' ? 'Зарплата' : 'Alga', icon: Wallet, requiresAdmin: true },
     { id: 'settings', label: t('nav.settings'), icon: Settings, requiresAdmin: true },
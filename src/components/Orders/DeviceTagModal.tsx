@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import BarcodeImage from '../common/BarcodeImage';
+import {
+  LABEL_SIZES,
+  getLabelPrintStyle,
+  loadLabelSize,
+  saveLabelSize,
+  type LabelCodeType,
+  type LabelSize,
+} from '../../lib/labels';
+
+interface DeviceTagModalProps {
+  order: {
+    order_number: string;
+    client_name: string;
+    device_type: string;
+    device_model: string;
+    created_at: string;
+  };
+  onClose: () => void;
+}
+
+export default function DeviceTagModal({ order, onClose }: DeviceTagModalProps) {
+  const [size, setSize] = useState<LabelSize>(loadLabelSize);
+  const [codeType, setCodeType] = useState<LabelCodeType>('barcode');
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  function handleSizeChange(id: string) {
+    const next = LABEL_SIZES.find(s => s.id === id) || LABEL_SIZES[0];
+    setSize(next);
+    saveLabelSize(next);
+  }
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const day = String(date.getDate()).padStart(2, '0');
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    return `${day}.${month}.${date.getFullYear()}`;
+  };
+
+  const codeSize = codeType === 'qr' ? size.height - 8 : size.height * 0.4;
+
+  return (
+    <>
+      <style>{getLabelPrintStyle(size)}</style>
+
+      <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+        <div className="bg-neutral-100 rounded-lg shadow-2xl w-full max-w-lg">
+          <div className="no-print bg-white border-b border-neutral-200 px-6 py-4 rounded-t-lg">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-neutral-900">Ierīces birka</h2>
+                <p className="text-sm text-neutral-500 mt-0.5">Pasūtījums № {order.order_number}</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => window.print()}
+                  disabled={!order.order_number}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+                >
+                  Drukāt birku
+                </button>
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors text-sm font-medium"
+                >
+                  Aizvērt
+                </button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-4 mt-4 text-sm">
+              <select
+                value={size.id}
+                onChange={(e) => handleSizeChange(e.target.value)}
+                className="px-3 py-1.5 border border-neutral-200 rounded-lg bg-white"
+              >
+                {LABEL_SIZES.map(s => (
+                  <option key={s.id} value={s.id}>{s.label}</option>
+                ))}
+              </select>
+              <div className="flex rounded-lg border border-neutral-200 overflow-hidden">
+                {(['barcode', 'qr'] as LabelCodeType[]).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => setCodeType(type)}
+                    className={`px-3 py-1.5 ${codeType === type ? 'bg-blue-600 text-white' : 'bg-white text-neutral-700 hover:bg-neutral-50'}`}
+                  >
+                    {type === 'barcode' ? 'Svītrkods' : 'QR kods'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="p-8 flex justify-center">
+            <div className="label-print-area">
+              <div
+                className="label bg-white border border-neutral-300 overflow-hidden flex flex-col justify-between"
+                style={{ width: `${size.width}mm`, height: `${size.height}mm`, padding: '2mm' }}
+              >
+                <div className="flex justify-between text-[8pt] leading-tight text-black">
+                  <span className="font-bold">№ {order.order_number}</span>
+                  <span>{order.created_at ? formatDate(order.created_at) : ''}</span>
+                </div>
+                <div className={codeType === 'qr' ? 'flex items-center gap-2' : ''}>
+                  {order.order_number && (
+                    <BarcodeImage value={order.order_number} type={codeType} sizeMm={codeSize} />
+                  )}
+                  {codeType === 'qr' && (
+                    <div className="text-[7pt] leading-tight text-black">
+                      <div className="font-semibold">{order.client_name}</div>
+                      <div>{order.device_type} {order.device_model}</div>
+                    </div>
+                  )}
+                </div>
+                {codeType === 'barcode' && (
+                  <div className="text-[7pt] leading-tight text-black truncate">
+                    {order.client_name} · {order.device_type} {order.device_model}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,11 +1,21 @@
-import { useState } from 'react';
-import { X, FileText, Printer } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { X, FileText, Printer, Plus, Trash2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
-import { useAuth } from '../../contexts/AuthContext';
 import { useLocation } from '../../contexts/LocationContext';
 import { toast } from '../../lib/toast';
 import { numberToLatvianWords } from '../../lib/numberToLatvianWords';
+import { VAT_RATES, calculateInvoiceTotals, calculateLineAmounts, type InvoiceLineInput } from '../../lib/invoices';
 import InvoicePrint from './InvoicePrint';
+import type { Database } from '../../lib/database.types';
+
+type OrderItem = Database['public']['Tables']['order_items']['Row'];
+
+interface CreateInvoiceResult {
+  success: boolean;
+  error?: string;
+  invoice_id?: string;
+  invoice_number?: string;
+}
 
 interface InvoiceModalProps {
   order: any;
@@ -19,7 +29,6 @@ interface InvoiceData {
   clientLegalAddress: string;
   serviceType: string;
   serviceDescription: string;
-  unitPrice: number;
   vatRate: number;
   paymentDueDays: number;
   bankName: string;
@@ -27,8 +36,26 @@ interface InvoiceData {
   notes: string;
 }
 
+const DEFAULT_VAT_RATE = 21;
+
+function getServiceDescription(order: { device_type?: string | null; device_model?: string | null }) {
+  return `${order.device_type || ''} ${order.device_model || ''} remonts`.trim();
+}
+
+function orderItemToLine(item: OrderItem, vatRate: number): InvoiceLineInput {
+  return {
+    order_item_id: item.id,
+    item_type: item.item_type,
+    description: item.name,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    discount_type: item.discount_type === 'fixed' ? 'fixed' : 'percent',
+    discount_value: item.discount_value || 0,
+    vat_rate: vatRate
+  };
+}
+
 export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
-  const { profile } = useAuth();
   const { currentLocation } = useLocation();
   const [isGenerating, setIsGenerating] = useState(false);
   const [showPrintView, setShowPrintView] = useState(false);
@@ -40,23 +67,68 @@ export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
     clientPvnNumber: '',
     clientLegalAddress: '',
     serviceType: 'Telefona remonts',
-    serviceDescription: `${order.device_type || ''} ${order.device_model || ''} remonts`.trim(),
-    unitPrice: parseFloat(order.total_cost || '0'),
-    vatRate: 21,
+    serviceDescription: getServiceDescription(order),
+    vatRate: DEFAULT_VAT_RATE,
     paymentDueDays: 3,
     bankName: 'Swedbank',
     bankIban: 'LV12HABA0551234567890',
     notes: ''
   });
 
-  const calculateTotals = () => {
-    const subtotal = formData.unitPrice;
-    const vatAmount = subtotal * (formData.vatRate / 100);
-    const total = subtotal + vatAmount;
-    return { subtotal, vatAmount, total };
-  };
+  const [lines, setLines] = useState<InvoiceLineInput[]>([]);
+  const [linesLoading, setLinesLoading] = useState(true);
+
+  // Lines start from the default VAT rate; changing the rate in the form doesn't reload them
+  const loadOrderItems = useCallback(async () => {
+    setLinesLoading(true);
+    const { data } = await supabase
+      .from('order_items')
+      .select('*')
+      .eq('order_id', order.id)
+      .eq('approval_status', 'approved')
+      .order('created_at');
+
+    if (data && data.length > 0) {
+      setLines(data.map(item => orderItemToLine(item, DEFAULT_VAT_RATE)));
+    } else {
+      setLines([{
+        item_type: 'service',
+        description: getServiceDescription(order),
+        quantity: 1,
+        unit_price: parseFloat(order.final_cost || order.estimated_cost || '0'),
+        discount_type: 'percent',
+        discount_value: 0,
+        vat_rate: DEFAULT_VAT_RATE
+      }]);
+    }
+    setLinesLoading(false);
+  }, [order]);
+
+  useEffect(() => {
+    loadOrderItems();
+  }, [loadOrderItems]);
+
+  function updateLine(index: number, changes: Partial<InvoiceLineInput>) {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  }
 
-  const { subtotal, vatAmount, total } = calculateTotals();
+  function addLine() {
+    setLines(prev => [...prev, {
+      item_type: 'service',
+      description: '',
+      quantity: 1,
+      unit_price: 0,
+      discount_type: 'percent',
+      discount_value: 0,
+      vat_rate: formData.vatRate
+    }]);
+  }
+
+  function removeLine(index: number) {
+    setLines(prev => prev.filter((_, i) => i !== index));
+  }
+
+  const { subtotal, total, vatBreakdown } = calculateInvoiceTotals(lines);
 
   const handleGenerate = async () => {
     if (!formData.clientCompanyName.trim()) {
@@ -71,7 +143,15 @@ export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
       toast.error('Lūdzu, ievadiet juridisko adresi');
       return;
     }
-    if (formData.unitPrice <= 0) {
+    if (lines.length === 0) {
+      toast.error('Rēķinā jābūt vismaz vienai pozīcijai');
+      return;
+    }
+    if (lines.some(line => !line.description.trim())) {
+      toast.error('Visām pozīcijām jānorāda apraksts');
+      return;
+    }
+    if (total <= 0) {
       toast.error('Summai jābūt lielākai par 0');
       return;
     }
@@ -79,20 +159,11 @@ export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
     setIsGenerating(true);
 
     try {
-      const { data: invoiceNumber, error: numberError } = await supabase
-        .rpc('generate_invoice_number');
-
-      if (numberError) throw numberError;
-
       const paymentDueDate = new Date();
       paymentDueDate.setDate(paymentDueDate.getDate() + formData.paymentDueDays);
 
-      const totalInWords = numberToLatvianWords(total);
-
-      const { data: invoice, error: invoiceError } = await supabase
-        .from('invoices')
-        .insert({
-          invoice_number: invoiceNumber,
+      const { data, error: invoiceError } = await supabase.rpc('create_invoice', {
+        p_invoice: {
           order_id: order.id,
           location_id: currentLocation?.id,
           client_company_name: formData.clientCompanyName,
@@ -101,21 +172,32 @@ export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
           client_legal_address: formData.clientLegalAddress,
           service_type: formData.serviceType,
           service_description: formData.serviceDescription,
-          quantity: 1,
-          unit_price: formData.unitPrice,
           vat_rate: formData.vatRate,
-          total_in_words: totalInWords,
+          total_in_words: numberToLatvianWords(total),
           payment_due_date: paymentDueDate.toISOString().split('T')[0],
           bank_name: formData.bankName,
           bank_iban: formData.bankIban,
           notes: formData.notes || null,
-          created_by: profile?.id
-        } as any)
-        .select()
-        .single();
+          lines: lines.map(line => ({ ...line, description: line.description.trim() }))
+        }
+      } as any);
 
       if (invoiceError) throw invoiceError;
 
+      const result = data as CreateInvoiceResult;
+      if (!result.success || !result.invoice_id) {
+        toast.error(result.error || 'Neizdevās sagatavot rēķinu');
+        return;
+      }
+
+      const { data: invoice, error: loadError } = await supabase
+        .from('invoices')
+        .select('*, lines:invoice_lines(*)')
+        .eq('id', result.invoice_id)
+        .single();
+
+      if (loadError) throw loadError;
+
       setGeneratedInvoice(invoice);
       setShowPrintView(true);
       toast.success('Rēķins sagatavots veiksmīgi!');
@@ -240,20 +322,6 @@ export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
                 </select>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-neutral-700 mb-2">
-                  Summa (EUR)
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={formData.unitPrice}
-                  onChange={(e) => setFormData({ ...formData, unitPrice: parseFloat(e.target.value) || 0 })}
-                  className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-neutral-700 mb-2">
                   Pakalpojuma apraksts
@@ -269,23 +337,136 @@ export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
             </div>
           </div>
 
+          <div className="border-t border-neutral-200 pt-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold text-neutral-900">Rēķina pozīcijas</h3>
+              <button
+                type="button"
+                onClick={addLine}
+                className="px-3 py-1.5 text-sm border border-neutral-300 rounded-lg hover:bg-neutral-50 flex items-center gap-1"
+              >
+                <Plus className="w-4 h-4" />
+                Pievienot pozīciju
+              </button>
+            </div>
+
+            {linesLoading ? (
+              <div className="text-sm text-neutral-500">Ielādē pasūtījuma pozīcijas...</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-neutral-500 border-b border-neutral-200">
+                      <th className="text-left py-2 pr-2 font-medium">Apraksts</th>
+                      <th className="text-right py-2 px-2 font-medium w-16">Daudz.</th>
+                      <th className="text-right py-2 px-2 font-medium w-24">Cena</th>
+                      <th className="text-right py-2 px-2 font-medium w-28">Atlaide</th>
+                      <th className="text-right py-2 px-2 font-medium w-20">PVN %</th>
+                      <th className="text-right py-2 px-2 font-medium w-24">Summa</th>
+                      <th className="w-8"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map((line, index) => (
+                      <tr key={index} className="border-b border-neutral-100">
+                        <td className="py-2 pr-2">
+                          <input
+                            type="text"
+                            value={line.description}
+                            onChange={(e) => updateLine(index, { description: e.target.value })}
+                            className="w-full px-2 py-1.5 border border-neutral-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="py-2 px-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                            className="w-full px-2 py-1.5 border border-neutral-300 rounded text-right"
+                          />
+                        </td>
+                        <td className="py-2 px-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={line.unit_price}
+                            onChange={(e) => updateLine(index, { unit_price: parseFloat(e.target.value) || 0 })}
+                            className="w-full px-2 py-1.5 border border-neutral-300 rounded text-right"
+                          />
+                        </td>
+                        <td className="py-2 px-2">
+                          <div className="flex">
+                            <input
+                              type="number"
+                              min="0"
+                              max={line.discount_type === 'percent' ? 100 : undefined}
+                              step="0.01"
+                              value={line.discount_value}
+                              onChange={(e) => updateLine(index, { discount_value: parseFloat(e.target.value) || 0 })}
+                              className="w-full px-2 py-1.5 border border-neutral-300 rounded-l text-right"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => updateLine(index, {
+                                discount_type: line.discount_type === 'percent' ? 'fixed' : 'percent'
+                              })}
+                              className="px-2 border border-l-0 border-neutral-300 rounded-r bg-neutral-50 text-xs"
+                            >
+                              {line.discount_type === 'percent' ? '%' : '€'}
+                            </button>
+                          </div>
+                        </td>
+                        <td className="py-2 px-2">
+                          <select
+                            value={line.vat_rate}
+                            onChange={(e) => updateLine(index, { vat_rate: parseFloat(e.target.value) })}
+                            className="w-full px-1 py-1.5 border border-neutral-300 rounded text-right"
+                          >
+                            {VAT_RATES.map(rate => (
+                              <option key={rate} value={rate}>{rate}%</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-2 px-2 text-right font-medium text-neutral-900">
+                          €{calculateLineAmounts(line).net.toFixed(2)}
+                        </td>
+                        <td className="py-2 pl-1">
+                          <button
+                            type="button"
+                            onClick={() => removeLine(index)}
+                            className="p-1 hover:bg-red-50 rounded"
+                          >
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
           <div className="border-t border-neutral-200 pt-6">
             <h3 className="font-semibold text-neutral-900 mb-4">Apmaksas informācija</h3>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-neutral-700 mb-2">
-                  PVN likme (%)
+                  Noklusējuma PVN likme jaunām pozīcijām
                 </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  max="100"
+                <select
                   value={formData.vatRate}
-                  onChange={(e) => setFormData({ ...formData, vatRate: parseFloat(e.target.value) || 0 })}
+                  onChange={(e) => setFormData({ ...formData, vatRate: parseFloat(e.target.value) })}
                   className="w-full px-4 py-2 border border-neutral-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+                >
+                  {VAT_RATES.map(rate => (
+                    <option key={rate} value={rate}>{rate}%</option>
+                  ))}
+                </select>
               </div>
 
               <div>
@@ -347,10 +528,12 @@ export default function InvoiceModal({ order, onClose }: InvoiceModalProps) {
                 <span className="text-neutral-600">Summa bez PVN:</span>
                 <span className="font-medium text-neutral-900">€{subtotal.toFixed(2)}</span>
               </div>
-              <div className="flex justify-between">
-                <span className="text-neutral-600">PVN {formData.vatRate}%:</span>
-                <span className="font-medium text-neutral-900">€{vatAmount.toFixed(2)}</span>
-              </div>
+              {vatBreakdown.map(row => (
+                <div key={row.rate} className="flex justify-between">
+                  <span className="text-neutral-600">PVN {row.rate}% no €{row.net.toFixed(2)}:</span>
+                  <span className="font-medium text-neutral-900">€{row.vat.toFixed(2)}</span>
+                </div>
+              ))}
               <div className="border-t border-neutral-300 pt-2 flex justify-between">
                 <span className="font-semibold text-neutral-900">Kopā apmaksai:</span>
                 <span className="font-bold text-lg text-blue-600">€{total.toFixed(2)}</span>
@@ -1,4 +1,8 @@
 import { X, Printer } from 'lucide-react';
+import { calculateVatBreakdown } from '../../lib/invoices';
+import type { Database } from '../../lib/database.types';
+
+type InvoiceLine = Database['public']['Tables']['invoice_lines']['Row'];
 
 interface InvoicePrintProps {
   invoice: any;
@@ -6,6 +10,9 @@ interface InvoicePrintProps {
 }
 
 export default function InvoicePrint({ invoice, onClose }: InvoicePrintProps) {
+  const isCreditNote = invoice.document_type === 'credit_note';
+  const isCancelled = invoice.status === 'cancelled';
+
   const handlePrint = () => {
     window.print();
   };
@@ -15,6 +22,16 @@ export default function InvoicePrint({ invoice, onClose }: InvoicePrintProps) {
     return date.toLocaleDateString('lv-LV', { year: 'numeric', month: '2-digit', day: '2-digit' });
   };
 
+  // Invoices created before invoice_lines existed have a single service line
+  const lines: InvoiceLine[] = (invoice.lines || []).slice().sort((a: InvoiceLine, b: InvoiceLine) => a.position - b.position);
+  const vatBreakdown = lines.length > 0
+    ? calculateVatBreakdown(lines.map(line => ({
+        vat_rate: Number(line.vat_rate),
+        net: Number(line.net_amount),
+        vat: Number(line.vat_amount)
+      })))
+    : [{ rate: Number(invoice.vat_rate), net: Number(invoice.subtotal), vat: Number(invoice.vat_amount) }];
+
   return (
     <>
       <style>{`
@@ -46,7 +63,9 @@ export default function InvoicePrint({ invoice, onClose }: InvoicePrintProps) {
         <div className="no-print sticky top-0 bg-white border-b border-neutral-300 shadow-sm z-10">
           <div className="max-w-4xl mx-auto px-6 py-4 flex items-center justify-between">
             <div>
-              <h2 className="text-lg font-semibold text-neutral-900">Rēķins: {invoice.invoice_number}</h2>
+              <h2 className="text-lg font-semibold text-neutral-900">
+                {isCreditNote ? 'Kredītrēķins' : 'Rēķins'}: {invoice.invoice_number}
+              </h2>
               <p className="text-sm text-neutral-500">Gatavs drukāšanai</p>
             </div>
             <div className="flex items-center gap-3">
@@ -98,13 +117,26 @@ export default function InvoicePrint({ invoice, onClose }: InvoicePrintProps) {
                 </div>
 
                 <div className="text-right">
-                  <h1 className="text-3xl font-bold text-neutral-900 mb-4">RĒĶINS</h1>
+                  <h1 className="text-3xl font-bold text-neutral-900 mb-4">
+                    {isCreditNote ? 'KREDĪTRĒĶINS' : 'RĒĶINS'}
+                  </h1>
+                  {isCancelled && (
+                    <div className="inline-block border-2 border-red-600 text-red-600 font-bold px-3 py-1 mb-3 rotate-[-4deg]">
+                      ANULĒTS
+                    </div>
+                  )}
                   <div className="text-sm space-y-1">
                     <div className="font-semibold">Nr. {invoice.invoice_number}</div>
                     <div>Datums: {formatDate(invoice.issued_date)}</div>
-                    <div className="text-red-600 font-medium">
-                      Apmaksas termiņš: {formatDate(invoice.payment_due_date)}
-                    </div>
+                    {isCreditNote ? (
+                      invoice.credited_invoice && (
+                        <div className="font-medium">Atsauce uz rēķinu Nr. {invoice.credited_invoice.invoice_number}</div>
+                      )
+                    ) : (
+                      <div className="text-red-600 font-medium">
+                        Apmaksas termiņš: {formatDate(invoice.payment_due_date)}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -124,26 +156,50 @@ export default function InvoicePrint({ invoice, onClose }: InvoicePrintProps) {
               <table className="w-full mb-8 text-sm border-collapse">
                 <thead>
                   <tr className="bg-neutral-100 border-t-2 border-b-2 border-neutral-900">
-                    <th className="text-left py-3 px-4 font-semibold">Nr.</th>
-                    <th className="text-left py-3 px-4 font-semibold">Pakalpojuma apraksts</th>
-                    <th className="text-center py-3 px-4 font-semibold">Daudzums</th>
-                    <th className="text-right py-3 px-4 font-semibold">Cena (EUR)</th>
-                    <th className="text-right py-3 px-4 font-semibold">Summa (EUR)</th>
+                    <th className="text-left py-3 px-2 font-semibold">Nr.</th>
+                    <th className="text-left py-3 px-2 font-semibold">Apraksts</th>
+                    <th className="text-center py-3 px-2 font-semibold">Daudz.</th>
+                    <th className="text-right py-3 px-2 font-semibold">Cena (EUR)</th>
+                    <th className="text-right py-3 px-2 font-semibold">Atlaide</th>
+                    <th className="text-right py-3 px-2 font-semibold">PVN %</th>
+                    <th className="text-right py-3 px-2 font-semibold">Summa bez PVN</th>
                   </tr>
                 </thead>
                 <tbody>
-                  <tr className="border-b border-neutral-300">
-                    <td className="py-3 px-4">1</td>
-                    <td className="py-3 px-4">
-                      <div className="font-medium">{invoice.service_type}</div>
-                      <div className="text-xs text-neutral-600 mt-1">{invoice.service_description}</div>
-                    </td>
-                    <td className="text-center py-3 px-4">{invoice.quantity}</td>
-                    <td className="text-right py-3 px-4">{parseFloat(invoice.unit_price).toFixed(2)}</td>
-                    <td className="text-right py-3 px-4 font-medium">
-                      {parseFloat(invoice.subtotal).toFixed(2)}
-                    </td>
-                  </tr>
+                  {lines.length > 0 ? (
+                    lines.map((line, index) => (
+                      <tr key={line.id} className="border-b border-neutral-300">
+                        <td className="py-2 px-2">{index + 1}</td>
+                        <td className="py-2 px-2">{line.description}</td>
+                        <td className="text-center py-2 px-2">{Number(line.quantity)}</td>
+                        <td className="text-right py-2 px-2">{Number(line.unit_price).toFixed(2)}</td>
+                        <td className="text-right py-2 px-2">
+                          {Number(line.discount_value) > 0
+                            ? line.discount_type === 'percent'
+                              ? `${Number(line.discount_value)}%`
+                              : `€${Number(line.discount_value).toFixed(2)}`
+                            : '—'}
+                        </td>
+                        <td className="text-right py-2 px-2">{Number(line.vat_rate).toFixed(0)}%</td>
+                        <td className="text-right py-2 px-2 font-medium">{Number(line.net_amount).toFixed(2)}</td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr className="border-b border-neutral-300">
+                      <td className="py-3 px-2">1</td>
+                      <td className="py-3 px-2">
+                        <div className="font-medium">{invoice.service_type}</div>
+                        <div className="text-xs text-neutral-600 mt-1">{invoice.service_description}</div>
+                      </td>
+                      <td className="text-center py-3 px-2">{invoice.quantity}</td>
+                      <td className="text-right py-3 px-2">{parseFloat(invoice.unit_price).toFixed(2)}</td>
+                      <td className="text-right py-3 px-2">—</td>
+                      <td className="text-right py-3 px-2">{parseFloat(invoice.vat_rate).toFixed(0)}%</td>
+                      <td className="text-right py-3 px-2 font-medium">
+                        {parseFloat(invoice.subtotal).toFixed(2)}
+                      </td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
 
@@ -154,10 +210,12 @@ export default function InvoicePrint({ invoice, onClose }: InvoicePrintProps) {
                       <span>Summa bez PVN:</span>
                       <span className="font-medium">€{parseFloat(invoice.subtotal).toFixed(2)}</span>
                     </div>
-                    <div className="flex justify-between py-2 border-b border-neutral-300">
-                      <span>PVN {parseFloat(invoice.vat_rate).toFixed(0)}%:</span>
-                      <span className="font-medium">€{parseFloat(invoice.vat_amount).toFixed(2)}</span>
-                    </div>
+                    {vatBreakdown.map(row => (
+                      <div key={row.rate} className="flex justify-between py-2 border-b border-neutral-300">
+                        <span>PVN {row.rate.toFixed(0)}% no €{row.net.toFixed(2)}:</span>
+                        <span className="font-medium">€{row.vat.toFixed(2)}</span>
+                      </div>
+                    ))}
                     <div className="flex justify-between py-3 border-t-2 border-b-2 border-neutral-900 bg-neutral-50">
                       <span className="font-bold text-base">KOPĀ APMAKSAI:</span>
                       <span className="font-bold text-lg">€{parseFloat(invoice.total_amount).toFixed(2)}</span>
@@ -1,7 +1,6 @@
-import { useState, useEffect, useRef } from 'react';
-import { supabase } from '../../lib/supabase';
-import { X, Plus, Trash2 } from 'lucide-react';
-import { useAuth } from '../../contexts/AuthContext';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase, callRpc } from '../../lib/supabase';
+import { X, Plus, Trash2, ShieldCheck } from 'lucide-react';
 import { useLocation } from '../../contexts/LocationContext';
 import { toast, handleSupabaseError } from '../../lib/toast';
 import { SmartDeviceInput } from '../common/SmartDeviceInput';
@@ -9,12 +8,18 @@ import { ColorPicker } from '../common/ColorPicker';
 import { CustomerRecognition } from '../common/CustomerRecognition';
 import ServiceSearch from '../common/ServiceSearch';
 import InventorySearch from '../common/InventorySearch';
+import InventoryUnitPicker from '../common/InventoryUnitPicker';
 import InputNumber from '../common/InputNumber';
+import type { OrderType, WarrantyOrder } from '../../lib/warranties';
+import type { Appointment } from '../../lib/appointments';
+import { findSlaRule, getSlaDueDate, loadSlaRules, type SlaRule } from '../../lib/sla';
+import { UNIT_GRADE_LABELS, getUnitCode, type InventoryUnit } from '../../lib/inventoryUnits';
 import type { Database } from '../../lib/database.types';
 
 type Client = Database['public']['Tables']['clients']['Row'];
 type OrderStage = Database['public']['Tables']['order_stages']['Row'];
 type InventoryItem = Database['public']['Tables']['inventory']['Row'];
+type RepairType = Database['public']['Tables']['repair_types']['Row'];
 
 interface Service {
   id: string;
@@ -35,18 +40,41 @@ interface SelectedService extends Service {
 interface SelectedInventoryItem extends InventoryItem {
   quantity: number;
   selling_price: number;
+  /** Out of stock; ordered from the supplier when the order is created. */
+  requested?: boolean;
+  /** The picked unit of a serialized item. */
+  unit?: InventoryUnit;
+}
+
+function getPartKey(part: SelectedInventoryItem) {
+  return part.unit?.id || part.id;
+}
+
+interface CreateOrderArgs {
+  p_order: Record<string, unknown>;
+}
+
+interface CreateOrderResult {
+  success: boolean;
+  error?: string;
+  order?: {
+    id: string;
+    order_number: string;
+  };
 }
 
 interface NewOrderModalProps {
+  appointment?: Appointment | null;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps) {
-  const { profile } = useAuth();
+export default function NewOrderModal({ appointment = null, onClose, onSuccess }: NewOrderModalProps) {
   const { currentLocation } = useLocation();
   const [clients, setClients] = useState<Client[]>([]);
   const [stages, setStages] = useState<OrderStage[]>([]);
+  const [repairTypes, setRepairTypes] = useState<RepairType[]>([]);
+  const [slaRules, setSlaRules] = useState<SlaRule[]>([]);
   const [showNewClientForm, setShowNewClientForm] = useState(false);
 
   const [selectedClient, setSelectedClient] = useState('');
@@ -58,11 +86,14 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
   const [issueDescription, setIssueDescription] = useState('');
   const [priority, setPriority] = useState('medium');
   const [dueDate, setDueDate] = useState('');
+  const [repairTypeId, setRepairTypeId] = useState('');
   const [selectedServices, setSelectedServices] = useState<SelectedService[]>([]);
   const [selectedParts, setSelectedParts] = useState<SelectedInventoryItem[]>([]);
+  const [unitPickerItem, setUnitPickerItem] = useState<InventoryItem | null>(null);
   const [prepayment, setPrepayment] = useState<number>(0);
-  const [waitingForParts, setWaitingForParts] = useState(false);
   const [estimatedCost, setEstimatedCost] = useState<number>(0);
+  const [orderType, setOrderType] = useState<OrderType>('repair');
+  const [originalOrder, setOriginalOrder] = useState<WarrantyOrder | null>(null);
 
   const [newClientName, setNewClientName] = useState('');
   const [newClientPhone, setNewClientPhone] = useState('');
@@ -77,6 +108,38 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
   const firstInputRef = useRef<HTMLSelectElement | HTMLInputElement>(null);
   const servicePriceRefs = useRef<{ [key: string]: HTMLInputElement | null }>({});
 
+  const handleClientSelect = useCallback((client: Client) => {
+    setRecognizedClient(client);
+    setSelectedClient(client.id);
+    setNewClientName(client.full_name);
+    setNewClientEmail(client.email || '');
+    setNewClientPhone(client.phone);
+    setNewClientSource(client.traffic_source || 'direct');
+    setShowNewClientForm(false);
+  }, []);
+
+  const prefillFromAppointment = useCallback(async (source: Appointment) => {
+    setDeviceBrand(source.device_type || '');
+    setDeviceModel(source.device_model || '');
+    setIssueDescription(source.issue_description || '');
+
+    if (source.client_id) {
+      const { data: client } = await supabase.from('clients').select('*').eq('id', source.client_id).maybeSingle();
+      if (client) handleClientSelect(client);
+    } else {
+      setNewClientName(source.client_name);
+      setNewClientPhone(source.client_phone);
+      setShowNewClientForm(true);
+    }
+
+    if (source.service_ids.length > 0) {
+      const { data: services } = await supabase.from('services').select('*').in('id', source.service_ids);
+      if (services) {
+        setSelectedServices((services as Service[]).map(service => ({ ...service, price: 0, quantity: 1 })));
+      }
+    }
+  }, [handleClientSelect]);
+
   useEffect(() => {
     loadData();
     setTimeout(() => {
@@ -84,19 +147,29 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
     }, 100);
   }, []);
 
+  useEffect(() => {
+    if (appointment) {
+      prefillFromAppointment(appointment);
+    }
+  }, [appointment, prefillFromAppointment]);
+
   useEffect(() => {
     const hasData = selectedClient || newClientPhone || deviceBrand || deviceModel || selectedServices.length > 0 || selectedParts.length > 0;
     setHasUnsavedChanges(hasData);
   }, [selectedClient, newClientPhone, deviceBrand, deviceModel, selectedServices, selectedParts]);
 
   async function loadData() {
-    const [clientsRes, stagesRes] = await Promise.all([
+    const [clientsRes, stagesRes, repairTypesRes, rules] = await Promise.all([
       supabase.from('clients').select('*').order('full_name'),
-      supabase.from('order_stages').select('*').order('position')
+      supabase.from('order_stages').select('*').order('position'),
+      supabase.from('repair_types').select('*').eq('is_active', true).order('name'),
+      loadSlaRules()
     ]);
 
+    setSlaRules(rules);
     if (clientsRes.data) setClients(clientsRes.data);
     if (stagesRes.data) setStages(stagesRes.data);
+    if (repairTypesRes.data) setRepairTypes(repairTypesRes.data);
   }
 
   function handleDeviceDetected(info: { brand: string; model: string; color?: string; source?: string } | null) {
@@ -107,14 +180,20 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
     }
   }
 
-  function handleClientSelect(client: Client) {
-    setRecognizedClient(client);
-    setSelectedClient(client.id);
-    setNewClientName(client.full_name);
-    setNewClientEmail(client.email || '');
-    setNewClientPhone(client.phone);
-    setNewClientSource(client.traffic_source || 'direct');
-    setShowNewClientForm(false);
+  function handleWarrantyClaim(warranty: WarrantyOrder, client: Client) {
+    handleClientSelect(client);
+    setOrderType('warranty_claim');
+    setOriginalOrder(warranty);
+    setDeviceBrand(warranty.device_type || '');
+    setDeviceModel(warranty.device_model || '');
+    setDeviceIMEI(warranty.imei || '');
+    setDeviceSerialNumber(warranty.serial_number || '');
+    setHasUnsavedChanges(true);
+  }
+
+  function cancelWarrantyClaim() {
+    setOrderType('repair');
+    setOriginalOrder(null);
   }
 
   function handleNewClient() {
@@ -123,6 +202,8 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
     setSelectedClient('');
   }
 
+  const slaRule = findSlaRule(slaRules, repairTypeId || null, priority);
+
   function handleServiceSelect(service: Service) {
     const existingService = selectedServices.find(s => s.id === service.id);
     if (existingService) {
@@ -144,7 +225,7 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
       servicePriceRefs.current[service.id]?.select();
     }, 100);
 
-    if (!dueDate && service.duration_minutes > 0) {
+    if (!dueDate && !slaRule && service.duration_minutes > 0) {
       const estimatedDate = new Date();
       estimatedDate.setMinutes(estimatedDate.getMinutes() + service.duration_minutes);
       setDueDate(estimatedDate.toISOString().split('T')[0]);
@@ -174,6 +255,11 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
   }
 
   function handleInventorySelect(item: InventoryItem) {
+    if (item.is_serialized) {
+      setUnitPickerItem(item);
+      return;
+    }
+
     const existingPart = selectedParts.find(p => p.id === item.id);
     if (existingPart) {
       updatePartQuantity(item.id, existingPart.quantity + 1);
@@ -189,27 +275,53 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
     setSelectedParts([...selectedParts, newPart]);
   }
 
-  function updatePartQuantity(partId: string, quantity: number) {
+  function handleUnitSelect(unit: InventoryUnit) {
+    if (!unitPickerItem) return;
+
+    setSelectedParts([...selectedParts, {
+      ...unitPickerItem,
+      quantity: 1,
+      unit_cost: unit.cost,
+      selling_price: unit.cost * 1.5,
+      unit
+    }]);
+    setUnitPickerItem(null);
+  }
+
+  function updatePartQuantity(partKey: string, quantity: number) {
     setSelectedParts(parts =>
-      parts.map(p => p.id === partId ? { ...p, quantity } : p)
+      parts.map(p => getPartKey(p) === partKey ? { ...p, quantity } : p)
     );
   }
 
-  function updatePartPrice(partId: string, selling_price: number) {
+  function updatePartPrice(partKey: string, selling_price: number) {
     setSelectedParts(parts =>
-      parts.map(p => p.id === partId ? { ...p, selling_price } : p)
+      parts.map(p => getPartKey(p) === partKey ? { ...p, selling_price } : p)
     );
   }
 
-  function removePart(partId: string) {
-    setSelectedParts(parts => parts.filter(p => p.id !== partId));
+  function removePart(partKey: string) {
+    setSelectedParts(parts => parts.filter(p => getPartKey(p) !== partKey));
   }
 
-  function handleRequestPart(partName: string) {
-    setWaitingForParts(true);
-    alert(`Запрос на заказ детали "${partName}" будет создан. Заказ будет помечен как "Ожидает деталь".`);
+  function handleRequestPart(item: InventoryItem) {
+    const existingPart = selectedParts.find(p => p.id === item.id);
+    if (existingPart) {
+      updatePartQuantity(item.id, existingPart.quantity + 1);
+      return;
+    }
+
+    setSelectedParts([...selectedParts, {
+      ...item,
+      quantity: 1,
+      selling_price: (item.unit_cost || 0) * 1.5,
+      requested: true
+    }]);
+    toast.success(`"${item.part_name}" будет заказана у поставщика`);
   }
 
+  const waitingForParts = selectedParts.some(part => part.requested);
+
   function calculateTotal() {
     const servicesTotal = selectedServices.reduce((sum, service) => {
       return sum + (service.price * service.quantity);
@@ -296,46 +408,45 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
     const toastId = toast.loading('Creating order...');
 
     try {
-      let clientId = selectedClient;
+      const orderItems = [
+        ...selectedServices.map(service => ({
+          item_type: 'service',
+          service_id: service.id,
+          name: service.name,
+          quantity: service.quantity,
+          unit_price: service.price,
+          unit_cost: service.cost,
+          total_price: service.price * service.quantity,
+          warranty_months: service.warranty_months
+        })),
+        ...selectedParts.map(part => ({
+          item_type: 'part',
+          inventory_id: part.id,
+          inventory_unit_id: part.unit?.id || null,
+          name: part.unit ? `${part.part_name} (${getUnitCode(part.unit)})` : part.part_name,
+          quantity: part.quantity,
+          unit_price: part.selling_price,
+          unit_cost: part.unit_cost || 0,
+          total_price: part.selling_price * part.quantity,
+          warranty_months: 0,
+          request_part: !!part.requested
+        }))
+      ];
+
+      const isNewClient = showNewClientForm && !recognizedClient;
+      const finalEstimatedCost = estimatedCost > 0 ? estimatedCost : calculateTotal();
 
-      if (showNewClientForm && !recognizedClient) {
-        const { data: newClient, error: clientError } = await supabase
-          .from('clients')
-          .insert({
+      const { data, error: rpcError } = await callRpc<CreateOrderResult, CreateOrderArgs>('create_order_with_items', {
+        p_order: {
+          client_id: isNewClient ? null : selectedClient,
+          client: isNewClient ? {
             full_name: newClientName.trim(),
             phone: newClientPhone.trim(),
             email: newClientEmail.trim() || null,
-            traffic_source: newClientSource,
-            location_id: currentLocation?.id
-          })
-          .select()
-          .single();
-
-        if (clientError) {
-          toast.dismiss(toastId);
-          handleSupabaseError(clientError, 'Create client');
-          setLoading(false);
-          return;
-        }
-        clientId = newClient.id;
-      }
-
-      if (!stages || stages.length === 0) {
-        toast.dismiss(toastId);
-        toast.error('No order stages found. Contact administrator.');
-        setLoading(false);
-        return;
-      }
-
-      const firstStage = stages[0];
-      const finalEstimatedCost = estimatedCost > 0 ? estimatedCost : calculateTotal();
-
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          client_id: clientId,
-          assigned_to: profile?.id,
-          stage_id: firstStage?.id,
+            traffic_source: newClientSource
+          } : null,
+          assigned_to: appointment?.technician_id || null,
+          stage_id: stages[0]?.id,
           device_type: deviceBrand,
           device_model: deviceModel,
           device_color: deviceColor,
@@ -345,68 +456,39 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
           priority: priority,
           estimated_cost: finalEstimatedCost,
           due_date: dueDate || null,
+          repair_type_id: repairTypeId || null,
           location_id: currentLocation?.id,
           prepayment: prepayment || 0,
-          waiting_for_parts: waitingForParts
-        })
-        .select()
-        .single();
+          waiting_for_parts: waitingForParts,
+          order_type: orderType,
+          original_order_id: originalOrder?.order_id || null,
+          items: orderItems
+        }
+      });
 
-      if (orderError) {
+      if (rpcError) {
         toast.dismiss(toastId);
-        handleSupabaseError(orderError, 'Create order');
-        setLoading(false);
+        handleSupabaseError(rpcError, 'Create order');
         return;
       }
 
-      const orderItems = [];
-
-      if (selectedServices.length > 0) {
-        selectedServices.forEach(service => {
-          orderItems.push({
-            order_id: order.id,
-            item_type: 'service',
-            name: service.name,
-            quantity: service.quantity,
-            unit_price: service.price,
-            unit_cost: service.cost,
-            total_price: service.price * service.quantity,
-            warranty_months: service.warranty_months
-          });
-        });
-      }
-
-      if (selectedParts.length > 0) {
-        selectedParts.forEach(part => {
-          orderItems.push({
-            order_id: order.id,
-            item_type: 'part',
-            inventory_id: part.id,
-            name: part.part_name,
-            quantity: part.quantity,
-            unit_price: part.selling_price,
-            unit_cost: part.unit_cost || 0,
-            total_price: part.selling_price * part.quantity,
-            warranty_months: 0
-          });
-        });
+      const result = data as CreateOrderResult;
+      if (!result.success) {
+        toast.dismiss(toastId);
+        toast.error(result.error || 'Failed to create order');
+        setError(result.error || 'Failed to create order');
+        return;
       }
 
-      if (orderItems.length > 0) {
-        const { error: itemsError } = await supabase
-          .from('order_items')
-          .insert(orderItems);
-
-        if (itemsError) {
-          toast.dismiss(toastId);
-          handleSupabaseError(itemsError, 'Add order items');
-          setLoading(false);
-          return;
-        }
+      if (appointment && result.order) {
+        await supabase
+          .from('appointments')
+          .update({ status: 'converted', order_id: result.order.id })
+          .eq('id', appointment.id);
       }
 
       toast.dismiss(toastId);
-      toast.success('Order created successfully!');
+      toast.success(`Order ${result.order?.order_number} created successfully!`);
       onSuccess();
       onClose();
     } catch (err: any) {
@@ -435,6 +517,25 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
         </div>
 
         <form onSubmit={handleSubmit} className="modal-body space-y-5">
+          {originalOrder && (
+            <div className="flex items-center justify-between p-3 bg-emerald-50 border border-emerald-200 rounded-lg">
+              <div className="flex items-center gap-2 text-sm text-emerald-900">
+                <ShieldCheck className="w-4 h-4 text-emerald-600" />
+                <span>
+                  Гарантийный случай по заказу <span className="font-semibold">#{originalOrder.order_number}</span>
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={cancelWarrantyClaim}
+                className="text-emerald-700 hover:text-emerald-900"
+                title="Обычный ремонт"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-neutral-700 mb-1.5">
               Klients / Tālrunis
@@ -504,6 +605,7 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
                   phoneNumber={newClientPhone}
                   onClientSelect={handleClientSelect}
                   onNewClient={handleNewClient}
+                  onWarrantyClaim={handleWarrantyClaim}
                   disabled={loading}
                 />
 
@@ -723,20 +825,30 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
               ))}
 
               {selectedParts.map((part) => (
-                <div key={part.id} className="bg-white border border-neutral-200 rounded-lg p-3">
+                <div key={getPartKey(part)} className="bg-white border border-neutral-200 rounded-lg p-3">
                   <div className="flex items-start justify-between gap-3 mb-3">
                     <div className="flex-1">
                       <div className="font-medium text-neutral-900">{part.part_name}</div>
                       <div className="text-sm text-neutral-500">
                         €{part.selling_price} × {part.quantity} = €{part.selling_price * part.quantity}
                       </div>
-                      <div className="text-xs text-blue-600 mt-1">
-                        ✓ Запчасть со склада (осталось: {part.quantity - part.quantity})
-                      </div>
+                      {part.unit ? (
+                        <div className="text-xs text-blue-600 mt-1">
+                          <span className="font-mono">{getUnitCode(part.unit)}</span> · {UNIT_GRADE_LABELS[part.unit.grade]}
+                        </div>
+                      ) : part.requested ? (
+                        <div className="text-xs text-amber-700 mt-1">
+                          Нет на складе — будет заказана у поставщика
+                        </div>
+                      ) : (
+                        <div className="text-xs text-blue-600 mt-1">
+                          ✓ Запчасть со склада (осталось: {part.quantity - part.quantity})
+                        </div>
+                      )}
                     </div>
                     <button
                       type="button"
-                      onClick={() => removePart(part.id)}
+                      onClick={() => removePart(getPartKey(part))}
                       className="text-red-500 hover:text-red-700"
                     >
                       <Trash2 className="w-4 h-4" />
@@ -747,9 +859,9 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
                     <InputNumber
                       label="Количество"
                       value={part.quantity}
-                      onChange={(value) => updatePartQuantity(part.id, Math.min(value, part.quantity))}
+                      onChange={(value) => updatePartQuantity(getPartKey(part), part.requested ? value : Math.min(value, part.quantity))}
                       min={1}
-                      max={part.quantity}
+                      max={part.unit ? 1 : part.requested ? 99 : part.quantity}
                     />
                     <div>
                       <label className="block text-xs font-medium text-neutral-600 mb-1">
@@ -760,7 +872,7 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
                         step="0.01"
                         min="0"
                         value={part.selling_price}
-                        onChange={(e) => updatePartPrice(part.id, parseFloat(e.target.value) || 0)}
+                        onChange={(e) => updatePartPrice(getPartKey(part), parseFloat(e.target.value) || 0)}
                         className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                       />
                     </div>
@@ -775,7 +887,23 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
           )}
 
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-neutral-700 mb-1.5">
+                Тип ремонта
+              </label>
+              <select
+                value={repairTypeId}
+                onChange={(e) => setRepairTypeId(e.target.value)}
+                className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Не указан</option>
+                {repairTypes.map(repairType => (
+                  <option key={repairType.id} value={repairType.id}>{repairType.name}</option>
+                ))}
+              </select>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-neutral-700 mb-1.5">
                 Приоритет
@@ -802,6 +930,11 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
                 onChange={(e) => setDueDate(e.target.value)}
                 className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
+              {!dueDate && slaRule && (
+                <p className="text-xs text-neutral-500 mt-1">
+                  По SLA: {getSlaDueDate(slaRule).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                </p>
+              )}
             </div>
           </div>
 
@@ -865,6 +998,15 @@ export default function NewOrderModal({ onClose, onSuccess }: NewOrderModalProps
           </div>
         </form>
       </div>
+
+      {unitPickerItem && (
+        <InventoryUnitPicker
+          item={unitPickerItem}
+          excludeUnitIds={selectedParts.map(p => p.unit?.id).filter((id): id is string => !!id)}
+          onSelect={handleUnitSelect}
+          onClose={() => setUnitPickerItem(null)}
+        />
+      )}
     </div>
   );
 }
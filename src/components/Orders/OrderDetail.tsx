@@ -1,13 +1,25 @@
 import { useEffect, useState, useRef } from 'react';
 import { supabase } from '../../lib/supabase';
-import { X, Clock, User, Phone, Mail, Plus, Search, FileText, TrendingUp, DollarSign, ChevronDown, Printer, Package, Trash2 } from 'lucide-react';
+import { X, Clock, User, Phone, Mail, Plus, Search, FileText, TrendingUp, ChevronDown, Printer, Package, Trash2, ShieldCheck, Lock, ClipboardCheck, Link2, Tag } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { usePermissions } from '../../hooks/usePermissions';
 import type { Database } from '../../lib/database.types';
 import OrderItemEditPanel from './OrderItemEditPanel';
 import OrderReceipt from './OrderReceipt';
+import DeviceTagModal from './DeviceTagModal';
 import DefektacijasAkts from './DefektacijasAkts';
 import InvoiceModal from './InvoiceModal';
+import OrderInvoices from './OrderInvoices';
+import OrderPayments from './OrderPayments';
+import PaymentMethodModal from './PaymentMethodModal';
+import { canTransition, changeOrderStage, isClosedStage, validateStageChange } from '../../lib/orderStages';
+import type { OrderPaymentInput } from '../../lib/orderPayments';
+import { getApprovalUrl } from '../../lib/estimateApproval';
+import { isOvernightEntry, loadOrderTimeEntries, sumEntryMinutes, type WorkTimeEntry } from '../../lib/workTimers';
+import { isAwaitingPart } from '../../lib/partRequests';
+import WorkTimer from './WorkTimer';
+import InventoryUnitPicker from '../common/InventoryUnitPicker';
+import { getUnitCode, type InventoryUnit } from '../../lib/inventoryUnits';
 
 type Order = Database['public']['Tables']['orders']['Row'];
 type Client = Database['public']['Tables']['clients']['Row'];
@@ -36,10 +48,12 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
   const [activeTab, setActiveTab] = useState<TabType>('general');
   const [history, setHistory] = useState<OrderHistory[]>([]);
   const [items, setItems] = useState<OrderItem[]>([]);
+  const [timeEntries, setTimeEntries] = useState<WorkTimeEntry[]>([]);
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [stages, setStages] = useState<OrderStage[]>([]);
   const [newComment, setNewComment] = useState('');
   const [currentOrder, setCurrentOrder] = useState<OrderWithDetails>(order);
+  const [originalOrderNumber, setOriginalOrderNumber] = useState<string | null>(null);
 
   const [editingItem, setEditingItem] = useState<OrderItem | null>(null);
   const [isAddingNewItem, setIsAddingNewItem] = useState(false);
@@ -49,21 +63,24 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
 
   const [searchTerm, setSearchTerm] = useState('');
   const [showStageDropdown, setShowStageDropdown] = useState(false);
-  const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [closingStageId, setClosingStageId] = useState<string | null>(null);
   const [showReceipt, setShowReceipt] = useState(false);
+  const [showDeviceTag, setShowDeviceTag] = useState(false);
   const [showDefektacijasAkts, setShowDefektacijasAkts] = useState(false);
   const [showInvoiceModal, setShowInvoiceModal] = useState(false);
-  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<'bank' | 'cash' | 'bs_cash'>('cash');
+  const [invoicesRefreshKey, setInvoicesRefreshKey] = useState(0);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   const [inventorySearchResults, setInventorySearchResults] = useState<InventoryItem[]>([]);
   const [showInventoryDropdown, setShowInventoryDropdown] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
+  const [unitPickerItem, setUnitPickerItem] = useState<InventoryItem | null>(null);
   const searchDropdownRef = useRef<HTMLDivElement>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
     loadOrderDetails();
+    loadTimeEntries();
   }, [order.id]);
 
   useEffect(() => {
@@ -110,6 +127,10 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
     };
   }, [searchTerm]);
 
+  async function loadTimeEntries() {
+    setTimeEntries(await loadOrderTimeEntries(order.id));
+  }
+
   async function loadOrderDetails() {
     const [historyRes, itemsRes, profilesRes, stagesRes, orderRes] = await Promise.all([
       supabase
@@ -140,6 +161,16 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
     if (profilesRes.data) setProfiles(profilesRes.data);
     if (stagesRes.data) setStages(stagesRes.data);
     if (orderRes.data) setCurrentOrder(orderRes.data);
+
+    const originalOrderId = (orderRes.data as Order | null)?.original_order_id;
+    if (originalOrderId) {
+      const { data: originalOrder } = await supabase
+        .from('orders')
+        .select('order_number')
+        .eq('id', originalOrderId)
+        .maybeSingle();
+      setOriginalOrderNumber((originalOrder as { order_number: string } | null)?.order_number || null);
+    }
   }
 
   async function searchInventory(query: string) {
@@ -149,7 +180,7 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
         .from('inventory')
         .select('*')
         .or(`part_name.ilike.%${query}%,sku.ilike.%${query}%,barcode.ilike.%${query}%`)
-        .gt('quantity', 0)
+        .gt('available_quantity', 0)
         .order('part_name')
         .limit(10);
 
@@ -166,29 +197,38 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
     }
   }
 
-  async function addInventoryItemToOrder(inventoryItem: InventoryItem) {
+  async function addInventoryItemToOrder(inventoryItem: InventoryItem, unit?: InventoryUnit) {
     if (!profile) return;
 
+    if (inventoryItem.is_serialized && !unit) {
+      setUnitPickerItem(inventoryItem);
+      return;
+    }
+
     try {
-      const unitPrice = inventoryItem.unit_cost * 1.5;
+      const unitCost = unit ? unit.cost : inventoryItem.unit_cost;
+      const unitPrice = unitCost * 1.5;
       const quantity = 1;
 
       const { error } = await supabase.from('order_items').insert({
         order_id: currentOrder.id,
         item_type: 'part',
-        name: inventoryItem.part_name,
-        unit_cost: inventoryItem.unit_cost,
+        name: unit ? `${inventoryItem.part_name} (${getUnitCode(unit)})` : inventoryItem.part_name,
+        unit_cost: unitCost,
         unit_price: unitPrice,
         quantity: quantity,
-        total_cost: inventoryItem.unit_cost * quantity,
+        total_cost: unitCost * quantity,
         total_price: unitPrice * quantity,
-        profit: (unitPrice - inventoryItem.unit_cost) * quantity,
+        profit: (unitPrice - unitCost) * quantity,
         technician_id: profile.id,
-        inventory_id: inventoryItem.id
+        inventory_id: inventoryItem.id,
+        inventory_unit_id: unit?.id || null,
+        approval_status: currentOrder.awaiting_approval ? 'proposed' : 'approved'
       });
 
       if (error) throw error;
 
+      setUnitPickerItem(null);
       await loadOrderDetails();
       setSearchTerm('');
       setShowInventoryDropdown(false);
@@ -214,6 +254,34 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
     await loadOrderDetails();
   }
 
+  async function toggleAwaitingApproval() {
+    if (!profile) return;
+
+    const awaitingApproval = !currentOrder.awaiting_approval;
+    await supabase.from('orders').update({ awaiting_approval: awaitingApproval }).eq('id', currentOrder.id);
+    await supabase.from('order_history').insert({
+      order_id: currentOrder.id,
+      user_id: profile.id,
+      event_type: awaitingApproval ? 'estimate_requested' : 'estimate_closed',
+      description: awaitingApproval
+        ? 'Заказ ожидает согласования дополнительных работ клиентом'
+        : 'Согласование с клиентом завершено'
+    });
+
+    await loadOrderDetails();
+    onUpdate();
+  }
+
+  async function copyApprovalLink() {
+    const url = getApprovalUrl(currentOrder.approval_token);
+    try {
+      await navigator.clipboard.writeText(url);
+      alert('Ссылка для клиента скопирована');
+    } catch {
+      prompt('Ссылка для клиента:', url);
+    }
+  }
+
   async function saveNotes() {
     await supabase.from('orders').update({
       technician_notes: technicianNotes,
@@ -231,55 +299,49 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
 
   async function handleStageClick(stageId: string) {
     const stage = stages.find(s => s.id === stageId);
-    if (stage?.name === 'Закрыт') {
-      setShowPaymentModal(true);
+    if (!stage || stage.id === currentOrder.stage_id) {
+      setShowStageDropdown(false);
+      return;
+    }
+
+    const ruleError = validateStageChange(currentOrder, currentOrder.stage, stage);
+    if (ruleError) {
+      alert(ruleError);
+      return;
+    }
+
+    if (isClosedStage(stage)) {
+      setClosingStageId(stage.id);
       setShowStageDropdown(false);
     } else {
       await changeStage(stageId);
     }
   }
 
-  async function confirmCloseOrder() {
-    const closedStage = stages.find(s => s.name === 'Закрыт');
-    if (closedStage) {
-      await changeStage(closedStage.id, selectedPaymentMethod);
+  async function confirmCloseOrder(payments: OrderPaymentInput[]) {
+    if (closingStageId) {
+      await changeStage(closingStageId, payments);
     }
-    setShowPaymentModal(false);
+    setClosingStageId(null);
   }
 
-  async function changeStage(newStageId: string, paymentMethod?: 'bank' | 'cash' | 'bs_cash') {
+  async function changeStage(newStageId: string, payments: OrderPaymentInput[] = []) {
     const newStage = stages.find(s => s.id === newStageId);
     if (!newStage) return;
 
-    const isClosed = newStage.name === 'Закрыт';
+    const { error, paymentError } = await changeOrderStage(currentOrder, newStage, profile?.id || null, payments);
 
-    const updateData: any = {
-      stage_id: newStageId,
-    };
-
-    if (isClosed && !currentOrder.completed_at) {
-      const finalAmount = (currentOrder.subtotal || 0) - (currentOrder.total_discount || 0);
-      updateData.completed_at = new Date().toISOString();
-      updateData.final_cost = finalAmount || currentOrder.estimated_cost;
-      updateData.total_profit = currentOrder.estimated_profit || 0;
-      if (paymentMethod) {
-        updateData.payment_method = paymentMethod;
-      }
+    if (error) {
+      alert('Ошибка при изменении статуса: ' + error.message);
+      return;
     }
 
-    await supabase.from('orders').update(updateData).eq('id', currentOrder.id);
-
-    if (profile) {
-      await supabase.from('order_history').insert({
-        order_id: currentOrder.id,
-        user_id: profile.id,
-        event_type: 'status_change',
-        description: `Статус изменен на "${newStage.name}"`
-      });
+    if (paymentError) {
+      alert('Статус изменён, но оплата не записана: ' + paymentError.message);
     }
 
     setShowStageDropdown(false);
-    await loadOrderDetails();
+    await Promise.all([loadOrderDetails(), loadTimeEntries()]);
     onUpdate();
   }
 
@@ -338,13 +400,13 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
 
   const calculatePartsTotal = () => {
     return items
-      .filter(item => item.item_type === 'part')
+      .filter(item => item.item_type === 'part' && item.approval_status === 'approved')
       .reduce((sum, item) => sum + (item.total_price || 0), 0);
   };
 
   const calculateServicesTotal = () => {
     return items
-      .filter(item => item.item_type === 'service')
+      .filter(item => item.item_type === 'service' && item.approval_status === 'approved')
       .reduce((sum, item) => sum + (item.total_price || 0), 0);
   };
 
@@ -367,12 +429,33 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
                 <h2 className="text-xl font-semibold text-neutral-900">
                   Ticket {currentOrder.order_number}
                 </h2>
+                {currentOrder.order_type === 'warranty_claim' && (
+                  <span className="px-2.5 py-1 rounded-lg text-sm font-medium flex items-center gap-1.5 bg-emerald-100 text-emerald-700">
+                    <ShieldCheck className="w-3.5 h-3.5" />
+                    Гарантия{originalOrderNumber && ` по #${originalOrderNumber}`}
+                  </span>
+                )}
+                {currentOrder.payroll_run_id && (
+                  <span
+                    className="px-2.5 py-1 rounded-lg text-sm font-medium flex items-center gap-1.5 bg-neutral-100 text-neutral-600"
+                    title="Зарплата за этот период закрыта, цены изменить нельзя"
+                  >
+                    <Lock className="w-3.5 h-3.5" />
+                    Цены заблокированы
+                  </span>
+                )}
+                {currentOrder.awaiting_approval && (
+                  <span className="px-2.5 py-1 rounded-lg text-sm font-medium flex items-center gap-1.5 bg-amber-100 text-amber-700">
+                    <ClipboardCheck className="w-3.5 h-3.5" />
+                    Ожидает согласования
+                  </span>
+                )}
                 <div className="relative" ref={dropdownRef}>
                   <button
                     onClick={() => setShowStageDropdown(!showStageDropdown)}
                     className={`px-2.5 py-1 rounded-lg text-sm font-medium flex items-center gap-1.5 transition-all hover:shadow-md ${
-                      currentOrder.stage?.name === 'Закрыт' ? 'bg-green-100 text-green-700 hover:bg-green-200' :
-                      currentOrder.stage?.name === 'В работе' ? 'bg-blue-100 text-blue-700 hover:bg-blue-200' :
+                      isClosedStage(currentOrder.stage) ? 'bg-green-100 text-green-700 hover:bg-green-200' :
+                      currentOrder.stage?.kind === 'in_progress' ? 'bg-blue-100 text-blue-700 hover:bg-blue-200' :
                       'bg-neutral-100 text-neutral-700 hover:bg-neutral-200'
                     }`}
                   >
@@ -386,7 +469,8 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
                         <button
                           key={stage.id}
                           onClick={() => handleStageClick(stage.id)}
-                          className={`w-full text-left px-3 py-2 text-sm hover:bg-neutral-50 transition-colors ${
+                          disabled={!canTransition(currentOrder.stage, stage)}
+                          className={`w-full text-left px-3 py-2 text-sm hover:bg-neutral-50 transition-colors disabled:text-neutral-300 disabled:hover:bg-white disabled:cursor-not-allowed ${
                             stage.id === currentOrder.stage_id ? 'bg-blue-50 text-blue-700 font-medium' : 'text-neutral-700'
                           }`}
                         >
@@ -423,6 +507,13 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
                 <Printer className="w-4 h-4" />
                 Drukāt kvīti
               </button>
+              <button
+                onClick={() => setShowDeviceTag(true)}
+                className="px-4 py-2 bg-neutral-100 text-neutral-700 rounded-lg hover:bg-neutral-200 transition-colors text-sm font-medium flex items-center gap-2"
+              >
+                <Tag className="w-4 h-4" />
+                Drukāt birku
+              </button>
               <button
                 onClick={saveNotes}
                 className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm font-medium"
@@ -708,12 +799,17 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
                                   </div>
                                   <div className="text-right">
                                     <div className={`text-xs font-medium px-2 py-1 rounded ${
-                                      item.quantity <= item.min_quantity
+                                      item.available_quantity <= item.min_quantity
                                         ? 'bg-amber-100 text-amber-700'
                                         : 'bg-green-100 text-green-700'
                                     }`}>
-                                      {item.quantity} шт на складе
+                                      {item.available_quantity} шт доступно
                                     </div>
+                                    {item.reserved_quantity > 0 && (
+                                      <div className="text-xs text-neutral-500 mt-1">
+                                        {item.quantity} на складе, {item.reserved_quantity} в резерве
+                                      </div>
+                                    )}
                                     <div className="text-xs text-neutral-500 mt-1">
                                       {item.location}
                                     </div>
@@ -744,6 +840,66 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
                   </div>
                 </div>
 
+                <div className={`rounded-xl border p-4 mb-4 flex items-center justify-between gap-4 ${
+                  currentOrder.awaiting_approval ? 'bg-amber-50 border-amber-200' : 'bg-neutral-50 border-neutral-200'
+                }`}>
+                  <div>
+                    <p className={`text-sm font-medium ${currentOrder.awaiting_approval ? 'text-amber-900' : 'text-neutral-900'}`}>
+                      {currentOrder.awaiting_approval ? 'Ожидает согласования клиентом' : 'Согласование дополнительных работ'}
+                    </p>
+                    <p className={`text-xs mt-0.5 ${currentOrder.awaiting_approval ? 'text-amber-700' : 'text-neutral-500'}`}>
+                      {currentOrder.awaiting_approval
+                        ? `Предложено позиций: ${items.filter(item => item.approval_status === 'proposed').length}. Новые позиции добавляются как предложенные.`
+                        : 'Новые позиции будут предложены клиенту, он одобрит или отклонит каждую по ссылке'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {currentOrder.awaiting_approval && (
+                      <button
+                        onClick={copyApprovalLink}
+                        className="px-3 py-2 bg-white border border-amber-300 text-amber-800 rounded-lg hover:bg-amber-100 transition-colors text-sm font-medium flex items-center gap-2"
+                      >
+                        <Link2 className="w-4 h-4" />
+                        Ссылка для клиента
+                      </button>
+                    )}
+                    <button
+                      onClick={toggleAwaitingApproval}
+                      className={`px-3 py-2 rounded-lg transition-colors text-sm font-medium ${
+                        currentOrder.awaiting_approval
+                          ? 'text-amber-800 hover:bg-amber-100'
+                          : 'bg-amber-500 text-white hover:bg-amber-600'
+                      }`}
+                    >
+                      {currentOrder.awaiting_approval ? 'Завершить согласование' : 'Запросить согласование'}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="rounded-xl border border-neutral-200 bg-neutral-50 p-4 mb-4 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-neutral-900">
+                      Время работы: {sumEntryMinutes(timeEntries)} мин
+                      {items.some(item => item.estimated_minutes > 0) && (
+                        <span className="text-neutral-500 font-normal">
+                          {' '}из {items.filter(item => item.approval_status === 'approved').reduce((sum, item) => sum + item.estimated_minutes, 0)} мин по нормативу
+                        </span>
+                      )}
+                    </p>
+                    <p className={`text-xs mt-0.5 ${timeEntries.some(entry => isOvernightEntry(entry)) ? 'text-red-600' : 'text-neutral-500'}`}>
+                      {timeEntries.some(entry => isOvernightEntry(entry))
+                        ? 'Есть таймер, который работал через ночь — проверьте учтённое время'
+                        : 'Таймер на заказ целиком; таймеры услуг — в колонке «Время»'}
+                    </p>
+                  </div>
+                  <WorkTimer
+                    orderId={currentOrder.id}
+                    entries={timeEntries.filter(entry => !entry.order_item_id)}
+                    disabled={isClosedStage(currentOrder.stage)}
+                    onChange={loadTimeEntries}
+                  />
+                </div>
+
                 <div className="bg-white rounded-xl border border-neutral-200 overflow-hidden mb-6">
                   <table className="w-full">
                     <thead className="bg-neutral-50 border-b border-neutral-200">
@@ -752,6 +908,7 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
                         <th className="text-right px-4 py-3 text-sm font-medium text-neutral-600">Price, €</th>
                         <th className="text-center px-4 py-3 text-sm font-medium text-neutral-600">Qty</th>
                         <th className="text-left px-4 py-3 text-sm font-medium text-neutral-600">Technician</th>
+                        <th className="text-left px-4 py-3 text-sm font-medium text-neutral-600">Время</th>
                         <th className="text-center px-4 py-3 text-sm font-medium text-neutral-600 w-16">Actions</th>
                       </tr>
                     </thead>
@@ -759,21 +916,43 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
                       {items.map((item) => (
                         <tr
                           key={item.id}
-                          className="border-b border-neutral-200 last:border-0 hover:bg-neutral-50 transition-colors"
+                          className={`border-b border-neutral-200 last:border-0 hover:bg-neutral-50 transition-colors ${
+                            item.approval_status === 'declined' ? 'opacity-60' : ''
+                          }`}
                         >
                           <td className="px-4 py-3 cursor-pointer" onClick={() => setEditingItem(item)}>
                             <div className="flex items-center gap-2">
                               {item.inventory_id && (
                                 <Package className="w-3.5 h-3.5 text-green-600" title="From inventory" />
                               )}
-                              <span className="text-sm text-neutral-900">{item.name}</span>
+                              <span className={`text-sm text-neutral-900 ${item.approval_status === 'declined' ? 'line-through' : ''}`}>{item.name}</span>
                               <span className={`px-1.5 py-0.5 rounded text-xs ${getItemTypeColor(item.item_type)}`}>
                                 {getItemTypeLabel(item.item_type)}
                               </span>
+                              {item.approval_status === 'proposed' && (
+                                <span className="px-1.5 py-0.5 rounded text-xs bg-amber-100 text-amber-700">Предложено</span>
+                              )}
+                              {item.approval_status === 'declined' && (
+                                <span className="px-1.5 py-0.5 rounded text-xs bg-red-100 text-red-700">Отклонено</span>
+                              )}
+                              {isAwaitingPart(item) && (
+                                <span className="px-1.5 py-0.5 rounded text-xs bg-orange-100 text-orange-700">Ожидает поставки</span>
+                              )}
                             </div>
                             {item.item_comment && (
                               <p className="text-xs text-neutral-500 mt-1">{item.item_comment}</p>
                             )}
+                            {item.approval_decided_at && (
+                              <p className={`text-xs mt-1 ${item.approval_status === 'declined' ? 'text-red-600' : 'text-green-600'}`}>
+                                {item.approval_status === 'declined' ? 'Клиент отказался' : 'Клиент согласовал'}{' '}
+                                {new Date(item.approval_decided_at).toLocaleString('ru-RU')}
+                              </p>
+                            )}
+                            {item.warranty_expires_at && (
+                              <p className={`text-xs mt-1 ${new Date(item.warranty_expires_at) > new Date() ? 'text-emerald-600' : 'text-neutral-400'}`}>
+                                Гарантия до {new Date(item.warranty_expires_at).toLocaleDateString('ru-RU')}
+                              </p>
+                            )}
                           </td>
                           <td className="px-4 py-3 text-right cursor-pointer" onClick={() => setEditingItem(item)}>
                             <span className="text-sm font-medium text-neutral-900">
@@ -788,6 +967,20 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
                               {getTechnicianName(item.assigned_technician_id)}
                             </span>
                           </td>
+                          <td className="px-4 py-3">
+                            {item.item_type === 'service' && item.approval_status === 'approved' ? (
+                              <WorkTimer
+                                orderId={currentOrder.id}
+                                orderItemId={item.id}
+                                entries={timeEntries.filter(entry => entry.order_item_id === item.id)}
+                                estimatedMinutes={item.estimated_minutes}
+                                disabled={isClosedStage(currentOrder.stage)}
+                                onChange={loadTimeEntries}
+                              />
+                            ) : (
+                              <span className="text-sm text-neutral-400">—</span>
+                            )}
+                          </td>
                           <td className="px-4 py-3 text-center">
                             {canDeleteOrder() && (
                               <button
@@ -840,11 +1033,11 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
                         <span>{currentOrder.total_cost?.toFixed(2) || '0.00'} EUR</span>
                       </div>
 
-                      {currentOrder.prepayment && currentOrder.prepayment > 0 && (
+                      {currentOrder.paid_amount > 0 && (
                         <>
                           <div className="flex justify-between text-sm">
-                            <span className="text-green-600">Depozīts / Priekšapmaksa</span>
-                            <span className="font-medium text-green-600">-{currentOrder.prepayment.toFixed(2)} EUR</span>
+                            <span className="text-green-600">Apmaksāts (depozīti + maksājumi)</span>
+                            <span className="font-medium text-green-600">-{currentOrder.paid_amount.toFixed(2)} EUR</span>
                           </div>
                           <div className="flex justify-between text-lg font-bold bg-blue-50 -mx-4 px-4 py-2 rounded">
                             <span>Balance Due</span>
@@ -901,13 +1094,20 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
             )}
 
             {activeTab === 'invoices' && (
-              <div className="p-6">
-                <div className="text-center py-12">
-                  <DollarSign className="w-12 h-12 text-neutral-300 mx-auto mb-3" />
-                  <p className="text-neutral-500">Invoices and payments section</p>
-                  <p className="text-sm text-neutral-400 mt-1">Payment tracking coming soon</p>
-                </div>
-              </div>
+              <>
+                <OrderPayments
+                  order={currentOrder}
+                  onChange={async () => {
+                    await loadOrderDetails();
+                    onUpdate();
+                  }}
+                />
+                <OrderInvoices
+                  orderId={currentOrder.id}
+                  refreshKey={invoicesRefreshKey}
+                  onCreateInvoice={() => setShowInvoiceModal(true)}
+                />
+              </>
             )}
 
             {activeTab === 'files' && (
@@ -936,6 +1136,7 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
         <OrderItemEditPanel
           orderId={currentOrder.id}
           item={editingItem}
+          awaitingApproval={currentOrder.awaiting_approval}
           onClose={() => {
             setEditingItem(null);
             setIsAddingNewItem(false);
@@ -947,65 +1148,12 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
         />
       )}
 
-      {showPaymentModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-2xl max-w-md w-full p-6">
-            <h3 className="text-lg font-semibold text-neutral-900 mb-4">Выберите способ оплаты</h3>
-
-            <div className="space-y-3 mb-6">
-              <label className="flex items-center gap-3 p-3 border border-neutral-200 rounded-lg cursor-pointer hover:bg-neutral-50 transition-colors">
-                <input
-                  type="radio"
-                  name="payment"
-                  value="cash"
-                  checked={selectedPaymentMethod === 'cash'}
-                  onChange={(e) => setSelectedPaymentMethod(e.target.value as 'cash')}
-                  className="w-4 h-4"
-                />
-                <span className="font-medium text-neutral-900">Касса</span>
-              </label>
-
-              <label className="flex items-center gap-3 p-3 border border-neutral-200 rounded-lg cursor-pointer hover:bg-neutral-50 transition-colors">
-                <input
-                  type="radio"
-                  name="payment"
-                  value="bank"
-                  checked={selectedPaymentMethod === 'bank'}
-                  onChange={(e) => setSelectedPaymentMethod(e.target.value as 'bank')}
-                  className="w-4 h-4"
-                />
-                <span className="font-medium text-neutral-900">Банк/терминал</span>
-              </label>
-
-              <label className="flex items-center gap-3 p-3 border border-neutral-200 rounded-lg cursor-pointer hover:bg-neutral-50 transition-colors">
-                <input
-                  type="radio"
-                  name="payment"
-                  value="bs_cash"
-                  checked={selectedPaymentMethod === 'bs_cash'}
-                  onChange={(e) => setSelectedPaymentMethod(e.target.value as 'bs_cash')}
-                  className="w-4 h-4"
-                />
-                <span className="font-medium text-neutral-900">БС Касса</span>
-              </label>
-            </div>
-
-            <div className="flex gap-3">
-              <button
-                onClick={() => setShowPaymentModal(false)}
-                className="flex-1 px-4 py-2 bg-neutral-100 text-neutral-700 rounded-lg hover:bg-neutral-200 transition-colors font-medium"
-              >
-                Отмена
-              </button>
-              <button
-                onClick={confirmCloseOrder}
-                className="flex-1 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors font-medium"
-              >
-                Закрыть заказ
-              </button>
-            </div>
-          </div>
-        </div>
+      {closingStageId && (
+        <PaymentMethodModal
+          amountDue={currentOrder.balance_due || 0}
+          onConfirm={confirmCloseOrder}
+          onCancel={() => setClosingStageId(null)}
+        />
       )}
 
       {showReceipt && (
@@ -1022,12 +1170,26 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
             imei: currentOrder.imei,
             appearance: currentOrder.appearance,
             prepayment: currentOrder.prepayment || 0,
-            created_at: currentOrder.created_at || ''
+            created_at: currentOrder.created_at || '',
+            tracking_token: currentOrder.tracking_token
           }}
           onClose={() => setShowReceipt(false)}
         />
       )}
 
+      {showDeviceTag && (
+        <DeviceTagModal
+          order={{
+            order_number: currentOrder.order_number || '',
+            client_name: currentOrder.client?.full_name || '',
+            device_type: currentOrder.device_type || '',
+            device_model: currentOrder.device_model || '',
+            created_at: currentOrder.created_at || ''
+          }}
+          onClose={() => setShowDeviceTag(false)}
+        />
+      )}
+
       {showDefektacijasAkts && (
         <DefektacijasAkts
           order={{
@@ -1042,10 +1204,21 @@ export default function OrderDetail({ order, onClose, onUpdate }: OrderDetailPro
         />
       )}
 
+      {unitPickerItem && (
+        <InventoryUnitPicker
+          item={unitPickerItem}
+          onSelect={(unit) => addInventoryItemToOrder(unitPickerItem, unit)}
+          onClose={() => setUnitPickerItem(null)}
+        />
+      )}
+
       {showInvoiceModal && (
         <InvoiceModal
           order={currentOrder}
-          onClose={() => setShowInvoiceModal(false)}
+          onClose={() => {
+            setShowInvoiceModal(false);
+            setInvoicesRefreshKey(key => key + 1);
+          }}
         />
       )}
     </>
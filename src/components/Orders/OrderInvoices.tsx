@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FileText, Printer, Plus, Ban, FileMinus, Wallet, X } from 'lucide-react';
+import { supabase, callRpc } from '../../lib/supabase';
+import { toast, handleSupabaseError } from '../../lib/toast';
+import InvoicePrint from './InvoicePrint';
+import type { Database } from '../../lib/database.types';
+
+type Invoice = Database['public']['Tables']['invoices']['Row'];
+type InvoiceLine = Database['public']['Tables']['invoice_lines']['Row'];
+
+interface InvoiceWithLines extends Invoice {
+  lines: InvoiceLine[];
+  credited_invoice?: { invoice_number: string } | null;
+}
+
+interface InvoiceReasonArgs {
+  p_invoice_id: string;
+  p_reason: string;
+}
+
+interface InvoicePaymentArgs {
+  p_invoice_id: string;
+  p_amount: number;
+}
+
+interface InvoiceActionResult {
+  success: boolean;
+  error?: string;
+  invoice_number?: string;
+}
+
+type PendingAction =
+  | { type: 'cancel' | 'credit'; invoice: InvoiceWithLines }
+  | { type: 'payment'; invoice: InvoiceWithLines };
+
+interface OrderInvoicesProps {
+  orderId: string;
+  refreshKey: number;
+  onCreateInvoice: () => void;
+}
+
+const invoiceStatusLabels: Record<Invoice['status'], { label: string; className: string }> = {
+  issued: { label: 'Izrakstīts', className: 'bg-blue-100 text-blue-700' },
+  paid: { label: 'Apmaksāts', className: 'bg-green-100 text-green-700' },
+  partially_paid: { label: 'Daļēji apmaksāts', className: 'bg-amber-100 text-amber-700' },
+  cancelled: { label: 'Anulēts', className: 'bg-neutral-200 text-neutral-600' },
+  credited: { label: 'Kreditēts', className: 'bg-purple-100 text-purple-700' },
+};
+
+export default function OrderInvoices({ orderId, refreshKey, onCreateInvoice }: OrderInvoicesProps) {
+  const [invoices, setInvoices] = useState<InvoiceWithLines[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [printInvoice, setPrintInvoice] = useState<InvoiceWithLines | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [paymentAmount, setPaymentAmount] = useState(0);
+  const [processing, setProcessing] = useState(false);
+
+  const loadInvoices = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*, lines:invoice_lines(*), credited_invoice:credited_invoice_id(invoice_number)')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      handleSupabaseError(error, 'Load invoices');
+    } else {
+      setInvoices((data || []) as InvoiceWithLines[]);
+    }
+    setLoading(false);
+  }, [orderId]);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices, refreshKey]);
+
+  /** Invoice total less its credit notes that were not cancelled. */
+  function getRemainingTotal(invoice: InvoiceWithLines) {
+    return invoices
+      .filter(i => i.credited_invoice_id === invoice.id && i.status !== 'cancelled')
+      .reduce((sum, creditNote) => sum + Number(creditNote.total_amount), Number(invoice.total_amount));
+  }
+
+  function openAction(action: PendingAction) {
+    setPendingAction(action);
+    setReason('');
+    setPaymentAmount(
+      action.type === 'payment'
+        ? Math.max(0, getRemainingTotal(action.invoice) - Number(action.invoice.paid_amount))
+        : 0
+    );
+  }
+
+  async function confirmAction() {
+    if (!pendingAction) return;
+
+    if (pendingAction.type !== 'payment' && !reason.trim()) {
+      toast.error('Norādiet iemeslu');
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const { invoice } = pendingAction;
+      const request = pendingAction.type === 'cancel'
+        ? callRpc<InvoiceActionResult, InvoiceReasonArgs>('cancel_invoice', { p_invoice_id: invoice.id, p_reason: reason.trim() })
+        : pendingAction.type === 'credit'
+        ? callRpc<InvoiceActionResult, InvoiceReasonArgs>('create_credit_note', { p_invoice_id: invoice.id, p_reason: reason.trim() })
+        : callRpc<InvoiceActionResult, InvoicePaymentArgs>('record_invoice_payment', { p_invoice_id: invoice.id, p_amount: paymentAmount });
+
+      const { data, error } = await request;
+      if (error) throw error;
+
+      const result = data as InvoiceActionResult;
+      if (!result.success) {
+        toast.error(result.error || 'Darbība neizdevās');
+        return;
+      }
+
+      if (pendingAction.type === 'cancel') {
+        toast.success(`Rēķins ${invoice.invoice_number} anulēts`);
+      } else if (pendingAction.type === 'credit') {
+        toast.success(`Kredītrēķins ${result.invoice_number} izrakstīts`);
+      } else {
+        toast.success('Maksājums reģistrēts');
+      }
+
+      setPendingAction(null);
+      await loadInvoices();
+    } catch (error) {
+      handleSupabaseError(error, 'Invoice action');
+    } finally {
+      setProcessing(false);
+    }
+  }
+
+  if (printInvoice) {
+    return <InvoicePrint invoice={printInvoice} onClose={() => setPrintInvoice(null)} />;
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-neutral-900">Rēķini un kredītrēķini</h3>
+        <button
+          onClick={onCreateInvoice}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Jauns rēķins
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-neutral-500">Ielādē...</div>
+      ) : invoices.length === 0 ? (
+        <div className="text-center py-12">
+          <FileText className="w-12 h-12 text-neutral-300 mx-auto mb-3" />
+          <p className="text-neutral-500">Rēķinu vēl nav</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {invoices.map(invoice => {
+            const isCreditNote = invoice.document_type === 'credit_note';
+            const status = invoiceStatusLabels[invoice.status];
+            const canPay = !isCreditNote && (invoice.status === 'issued' || invoice.status === 'partially_paid');
+            const canCredit = !isCreditNote && invoice.status !== 'cancelled' && invoice.status !== 'credited';
+            const canCancel = invoice.status === 'issued' && Number(invoice.paid_amount) === 0;
+
+            return (
+              <div
+                key={invoice.id}
+                className={`border rounded-lg p-4 ${isCreditNote ? 'border-purple-200 bg-purple-50/40' : 'border-neutral-200'}`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm font-semibold text-neutral-900">{invoice.invoice_number}</span>
+                      <span className="text-xs text-neutral-500">{isCreditNote ? 'Kredītrēķins' : 'Rēķins'}</span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                    <div className="text-xs text-neutral-500 mt-1">
+                      {new Date(invoice.issued_date).toLocaleDateString('lv-LV')} • {invoice.client_company_name}
+                      {isCreditNote && invoice.credited_invoice && ` • uz rēķinu ${invoice.credited_invoice.invoice_number}`}
+                    </div>
+                    {isCreditNote && invoice.notes && (
+                      <div className="text-xs text-neutral-600 mt-1">Iemesls: {invoice.notes}</div>
+                    )}
+                    {invoice.status === 'cancelled' && invoice.cancellation_reason && (
+                      <div className="text-xs text-neutral-600 mt-1">Anulēšanas iemesls: {invoice.cancellation_reason}</div>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <div className={`text-sm font-bold ${Number(invoice.total_amount) < 0 ? 'text-purple-700' : 'text-neutral-900'}`}>
+                      €{Number(invoice.total_amount).toFixed(2)}
+                    </div>
+                    {!isCreditNote && Number(invoice.paid_amount) > 0 && (
+                      <div className="text-xs text-green-700">Apmaksāts €{Number(invoice.paid_amount).toFixed(2)}</div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  <button
+                    onClick={() => setPrintInvoice(invoice)}
+                    className="px-2.5 py-1 text-xs border border-neutral-300 rounded-lg hover:bg-neutral-50 flex items-center gap-1"
+                  >
+                    <Printer className="w-3.5 h-3.5" />
+                    Drukāt
+                  </button>
+                  {canPay && (
+                    <button
+                      onClick={() => openAction({ type: 'payment', invoice })}
+                      className="px-2.5 py-1 text-xs border border-green-300 text-green-700 rounded-lg hover:bg-green-50 flex items-center gap-1"
+                    >
+                      <Wallet className="w-3.5 h-3.5" />
+                      Reģistrēt maksājumu
+                    </button>
+                  )}
+                  {canCredit && (
+                    <button
+                      onClick={() => openAction({ type: 'credit', invoice })}
+                      className="px-2.5 py-1 text-xs border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 flex items-center gap-1"
+                    >
+                      <FileMinus className="w-3.5 h-3.5" />
+                      Kredītrēķins
+                    </button>
+                  )}
+                  {canCancel && (
+                    <button
+                      onClick={() => openAction({ type: 'cancel', invoice })}
+                      className="px-2.5 py-1 text-xs border border-red-300 text-red-700 rounded-lg hover:bg-red-50 flex items-center gap-1"
+                    >
+                      <Ban className="w-3.5 h-3.5" />
+                      Anulēt
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {pendingAction && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4">
+          <div className="bg-white rounded-xl max-w-md w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">
+                {pendingAction.type === 'cancel' && `Anulēt ${pendingAction.invoice.invoice_number}`}
+                {pendingAction.type === 'credit' && `Kredītrēķins uz ${pendingAction.invoice.invoice_number}`}
+                {pendingAction.type === 'payment' && `Maksājums ${pendingAction.invoice.invoice_number}`}
+              </h3>
+              <button onClick={() => setPendingAction(null)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {pendingAction.type === 'payment' ? (
+              <div>
+                <label className="block text-sm font-medium mb-1.5">Summa (EUR)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max={Math.max(0, getRemainingTotal(pendingAction.invoice) - Number(pendingAction.invoice.paid_amount))}
+                  step="0.01"
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(parseFloat(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+            ) : (
+              <div>
+                {pendingAction.type === 'credit' && (
+                  <p className="text-sm text-neutral-600 mb-3">
+                    Tiks izrakstīts kredītrēķins ar negatīvām pozīcijām par atlikušo rēķina summu
+                    (€{getRemainingTotal(pendingAction.invoice).toFixed(2)}).
+                  </p>
+                )}
+                <label className="block text-sm font-medium mb-1.5">Iemesls</label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-4">
+              <button onClick={() => setPendingAction(null)} className="flex-1 px-4 py-2 border rounded-lg">
+                Atcelt
+              </button>
+              <button
+                onClick={confirmAction}
+                disabled={processing}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg disabled:opacity-50"
+              >
+                Apstiprināt
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
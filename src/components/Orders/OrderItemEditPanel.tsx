@@ -11,11 +11,12 @@ type InventoryItem = Database['public']['Tables']['inventory']['Row'];
 interface OrderItemEditPanelProps {
   orderId: string;
   item: OrderItem | null;
+  awaitingApproval?: boolean;
   onClose: () => void;
   onSave: () => void;
 }
 
-export default function OrderItemEditPanel({ orderId, item, onClose, onSave }: OrderItemEditPanelProps) {
+export default function OrderItemEditPanel({ orderId, item, awaitingApproval = false, onClose, onSave }: OrderItemEditPanelProps) {
   const { profile } = useAuth();
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
@@ -34,6 +35,7 @@ export default function OrderItemEditPanel({ orderId, item, onClose, onSave }: O
   const [itemComment, setItemComment] = useState('');
   const [itemType, setItemType] = useState('service');
   const [inventoryId, setInventoryId] = useState<string | null>(null);
+  const [isProposed, setIsProposed] = useState(false);
 
   useEffect(() => {
     loadProfiles();
@@ -51,10 +53,12 @@ export default function OrderItemEditPanel({ orderId, item, onClose, onSave }: O
       setItemComment(item.item_comment || '');
       setItemType(item.item_type);
       setInventoryId(item.inventory_id);
+      setIsProposed(item.approval_status === 'proposed');
     } else {
       setAssignedTechnicianId(profile?.id || '');
+      setIsProposed(awaitingApproval);
     }
-  }, [item, profile]);
+  }, [item, profile, awaitingApproval]);
 
   useEffect(() => {
     if (itemType === 'part' && name.trim() && !inventoryId) {
@@ -118,6 +122,7 @@ export default function OrderItemEditPanel({ orderId, item, onClose, onSave }: O
     const profit = calculateProfit();
     const costPrice = unitCost * quantity;
     const sellingPrice = unitPrice * quantity;
+    const approvedByStaff = item?.approval_status === 'proposed' && !isProposed;
 
     const itemData = {
       order_id: orderId,
@@ -137,6 +142,11 @@ export default function OrderItemEditPanel({ orderId, item, onClose, onSave }: O
       selling_price: sellingPrice,
       total_price: totalPrice,
       profit: profit,
+      // Declined lines keep their status; only undecided lines can be toggled
+      approval_status: item?.approval_status === 'declined'
+        ? item.approval_status
+        : isProposed ? 'proposed' as const : 'approved' as const,
+      approval_decided_at: approvedByStaff ? new Date().toISOString() : item?.approval_decided_at ?? null,
     };
 
     if (item) {
@@ -144,6 +154,15 @@ export default function OrderItemEditPanel({ orderId, item, onClose, onSave }: O
         .from('order_items')
         .update(itemData)
         .eq('id', item.id);
+
+      if (approvedByStaff && profile) {
+        await supabase.from('order_history').insert({
+          order_id: orderId,
+          user_id: profile.id,
+          event_type: 'estimate_approved',
+          description: `Согласовано с клиентом: ${name} (${totalPrice.toFixed(2)} €)`
+        });
+      }
     } else {
       await supabase
         .from('order_items')
@@ -422,6 +441,30 @@ export default function OrderItemEditPanel({ orderId, item, onClose, onSave }: O
           />
         </div>
 
+        {(!item || item.approval_status === 'proposed') && (
+          <label className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isProposed}
+              onChange={(e) => setIsProposed(e.target.checked)}
+              className="mt-0.5 rounded border-neutral-300"
+            />
+            <span className="text-sm text-amber-900">
+              Предложить клиенту на согласование
+              <span className="block text-xs text-amber-700">
+                Позиция не войдет в сумму заказа, пока клиент ее не одобрит
+              </span>
+            </span>
+          </label>
+        )}
+
+        {item?.approval_status === 'declined' && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Клиент отказался от этой позиции
+            {item.approval_decided_at && ` ${new Date(item.approval_decided_at).toLocaleString('ru-RU')}`}
+          </div>
+        )}
+
         <div className="bg-neutral-50 rounded-lg p-4 space-y-2">
           <div className="flex justify-between text-sm">
             <span className="text-neutral-600">Subtotal:</span>
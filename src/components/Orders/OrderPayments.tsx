@@ -0,0 +1,282 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Wallet, Plus, CheckCircle } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { toast, handleSupabaseError } from '../../lib/toast';
+import type { PaymentMethod } from '../../lib/orderStages';
+import {
+  PAYMENT_METHODS,
+  PAYMENT_TYPE_LABELS,
+  calculateChange,
+  getPaymentMethodLabel,
+  recordOrderPayments,
+  type OrderPaymentInput,
+  type OrderPaymentType,
+} from '../../lib/orderPayments';
+import type { Database } from '../../lib/database.types';
+
+type OrderPayment = Database['public']['Tables']['order_payments']['Row'];
+
+interface OrderPaymentWithUser extends OrderPayment {
+  created_by_profile?: { full_name: string } | null;
+}
+
+interface OrderPaymentsProps {
+  order: {
+    id: string;
+    final_cost: number;
+    estimated_cost: number;
+    paid_amount: number;
+    balance_due: number;
+    is_paid: boolean;
+  };
+  onChange: () => void;
+}
+
+const emptyPayment: OrderPaymentInput = {
+  payment_type: 'payment',
+  payment_method: 'cash',
+  amount: 0,
+  tendered_amount: null,
+  notes: '',
+};
+
+export default function OrderPayments({ order, onChange }: OrderPaymentsProps) {
+  const [payments, setPayments] = useState<OrderPaymentWithUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newPayment, setNewPayment] = useState<OrderPaymentInput>(emptyPayment);
+  const [saving, setSaving] = useState(false);
+
+  const orderTotal = Number(order.final_cost || order.estimated_cost || 0);
+  const paidAmount = Number(order.paid_amount || 0);
+  const overpaid = Math.max(0, Math.round((paidAmount - orderTotal) * 100) / 100);
+
+  const loadPayments = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('order_payments')
+      .select('*, created_by_profile:created_by(full_name)')
+      .eq('order_id', order.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      handleSupabaseError(error, 'Load payments');
+    } else {
+      setPayments((data || []) as OrderPaymentWithUser[]);
+    }
+    setLoading(false);
+  }, [order.id]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments, order.paid_amount]);
+
+  function startAdding(type: OrderPaymentType) {
+    setNewPayment({
+      ...emptyPayment,
+      payment_type: type,
+      amount: type === 'refund' ? overpaid : Number(order.balance_due || 0),
+    });
+    setIsAdding(true);
+  }
+
+  async function handleSave() {
+    if (newPayment.amount <= 0) {
+      toast.error('Укажите сумму');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await recordOrderPayments(order.id, [newPayment]);
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    toast.success(`${PAYMENT_TYPE_LABELS[newPayment.payment_type]}: €${newPayment.amount.toFixed(2)}`);
+    setIsAdding(false);
+    onChange();
+  }
+
+  return (
+    <div className="p-6 border-b border-neutral-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-neutral-900 flex items-center gap-2">
+          <Wallet className="w-4 h-4" />
+          Оплаты
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => startAdding('deposit')}
+            className="px-3 py-1.5 text-sm border border-neutral-300 rounded-lg hover:bg-neutral-50"
+          >
+            Депозит
+          </button>
+          <button
+            onClick={() => startAdding('payment')}
+            className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Оплата
+          </button>
+          <button
+            onClick={() => startAdding('refund')}
+            disabled={paidAmount <= 0}
+            className="px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+          >
+            Возврат
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        <div className="bg-neutral-50 rounded-lg p-3">
+          <div className="text-xs text-neutral-500">Сумма заказа</div>
+          <div className="text-lg font-semibold text-neutral-900">€{orderTotal.toFixed(2)}</div>
+        </div>
+        <div className="bg-green-50 rounded-lg p-3">
+          <div className="text-xs text-green-700">Оплачено</div>
+          <div className="text-lg font-semibold text-green-700">€{paidAmount.toFixed(2)}</div>
+        </div>
+        <div className={`rounded-lg p-3 ${order.is_paid ? 'bg-green-50' : 'bg-blue-50'}`}>
+          <div className={`text-xs ${order.is_paid ? 'text-green-700' : 'text-blue-700'}`}>
+            {overpaid > 0 ? 'Переплата' : 'К оплате'}
+          </div>
+          <div className={`text-lg font-semibold flex items-center gap-1 ${order.is_paid ? 'text-green-700' : 'text-blue-700'}`}>
+            {order.is_paid && <CheckCircle className="w-4 h-4" />}
+            €{(overpaid > 0 ? overpaid : Number(order.balance_due || 0)).toFixed(2)}
+          </div>
+        </div>
+      </div>
+
+      {isAdding && (
+        <div className="border border-blue-200 bg-blue-50/40 rounded-lg p-4 mb-4 space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-neutral-600 mb-1">Тип</label>
+              <select
+                value={newPayment.payment_type}
+                onChange={(e) => setNewPayment({ ...newPayment, payment_type: e.target.value as OrderPaymentType })}
+                className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+              >
+                {(Object.keys(PAYMENT_TYPE_LABELS) as OrderPaymentType[]).map(type => (
+                  <option key={type} value={type}>{PAYMENT_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-neutral-600 mb-1">Способ</label>
+              <select
+                value={newPayment.payment_method}
+                onChange={(e) => setNewPayment({ ...newPayment, payment_method: e.target.value as PaymentMethod })}
+                className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+              >
+                {PAYMENT_METHODS.map(method => (
+                  <option key={method.value} value={method.value}>{method.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-neutral-600 mb-1">Сумма (€)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={newPayment.amount || ''}
+                onChange={(e) => setNewPayment({ ...newPayment, amount: parseFloat(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+              />
+            </div>
+          </div>
+
+          {newPayment.payment_method === 'cash' && newPayment.payment_type !== 'refund' && (
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-neutral-600">Получено от клиента</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={newPayment.tendered_amount ?? ''}
+                onChange={(e) => setNewPayment({
+                  ...newPayment,
+                  tendered_amount: e.target.value === '' ? null : parseFloat(e.target.value) || 0,
+                })}
+                className="w-28 px-3 py-1.5 border border-neutral-300 rounded-lg text-right"
+              />
+              {newPayment.tendered_amount != null && (
+                <span>Сдача: <span className="font-semibold">€{calculateChange(newPayment).toFixed(2)}</span></span>
+              )}
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={newPayment.notes || ''}
+            onChange={(e) => setNewPayment({ ...newPayment, notes: e.target.value })}
+            placeholder="Комментарий"
+            className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+          />
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1.5 text-sm border border-neutral-300 rounded-lg hover:bg-neutral-50"
+            >
+              Отмена
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Сохранить
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-6 text-sm text-neutral-500">Загрузка...</div>
+      ) : payments.length === 0 ? (
+        <div className="text-center py-6 text-sm text-neutral-500">Оплат пока нет</div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-neutral-500 border-b border-neutral-200">
+              <th className="py-2 font-medium">Дата</th>
+              <th className="py-2 font-medium">Тип</th>
+              <th className="py-2 font-medium">Способ</th>
+              <th className="py-2 font-medium">Сотрудник</th>
+              <th className="py-2 font-medium text-right">Сумма</th>
+            </tr>
+          </thead>
+          <tbody>
+            {payments.map(payment => (
+              <tr key={payment.id} className="border-b border-neutral-100">
+                <td className="py-2 text-neutral-600">{new Date(payment.created_at).toLocaleString('ru-RU')}</td>
+                <td className="py-2">
+                  {PAYMENT_TYPE_LABELS[payment.payment_type]}
+                  {payment.notes && <div className="text-xs text-neutral-500">{payment.notes}</div>}
+                </td>
+                <td className="py-2">
+                  {getPaymentMethodLabel(payment.payment_method)}
+                  {payment.tendered_amount != null && (
+                    <div className="text-xs text-neutral-500">
+                      Получено €{Number(payment.tendered_amount).toFixed(2)}, сдача €{Number(payment.change_amount).toFixed(2)}
+                    </div>
+                  )}
+                </td>
+                <td className="py-2 text-neutral-600">{payment.created_by_profile?.full_name || '—'}</td>
+                <td className={`py-2 text-right font-medium ${payment.payment_type === 'refund' ? 'text-red-600' : 'text-green-700'}`}>
+                  {payment.payment_type === 'refund' ? '-' : ''}€{Number(payment.amount).toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
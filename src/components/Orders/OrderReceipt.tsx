@@ -1,4 +1,5 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { getTrackingQrDataUrl } from '../../lib/orderTracking';
 
 interface OrderReceiptProps {
   order: {
@@ -14,11 +15,21 @@ interface OrderReceiptProps {
     appearance: string | null;
     prepayment: number;
     created_at: string;
+    tracking_token?: string | null;
   };
   onClose: () => void;
 }
 
 export default function OrderReceipt({ order, onClose }: OrderReceiptProps) {
+  const [trackingQr, setTrackingQr] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!order.tracking_token) return;
+    getTrackingQrDataUrl(order.tracking_token)
+      .then(setTrackingQr)
+      .catch(error => console.error('QR code error:', error));
+  }, [order.tracking_token]);
+
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose();
@@ -113,6 +124,18 @@ export default function OrderReceipt({ order, onClose }: OrderReceiptProps) {
         </ol>
       </div>
 
+      {trackingQr && (
+        <div className="mb-6 flex items-center gap-4">
+          <img src={trackingQr} alt="Remonta statuss" className="w-24 h-24" />
+          <div>
+            <h3 className="text-xs font-bold text-neutral-700 uppercase mb-1">Remonta statuss tiešsaistē</h3>
+            <p className="text-xs text-neutral-600">
+              Noskenējiet QR kodu vai atveriet {window.location.host}/track un ievadiet kvīts numuru un tālruni.
+            </p>
+          </div>
+        </div>
+      )}
+
       <div className="flex justify-between items-end mt-8 pt-6 border-t border-neutral-300">
         <div className="text-center">
           <div className="border-t border-neutral-400 w-48 mb-1"></div>
@@ -1,8 +1,13 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
+import { handleSupabaseError, toast } from '../../lib/toast';
+import { changeOrderStage, isClosedStage, validateStageChange } from '../../lib/orderStages';
+import type { OrderPaymentInput } from '../../lib/orderPayments';
 import { Search, Filter, Calendar, User, Package, AlertCircle, DollarSign, ChevronDown } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
 import { useLocation } from '../../contexts/LocationContext';
 import type { Database } from '../../lib/database.types';
+import PaymentMethodModal from './PaymentMethodModal';
 
 type Order = Database['public']['Tables']['orders']['Row'];
 type Client = Database['public']['Tables']['clients']['Row'];
@@ -13,11 +18,24 @@ interface OrderWithDetails extends Order {
   stage?: OrderStage;
 }
 
+interface DropTarget {
+  stageId: string;
+  index: number;
+}
+
 interface OrdersKanbanProps {
   onOrderClick: (order: OrderWithDetails) => void;
 }
 
+function compareBoardPosition(a: OrderWithDetails, b: OrderWithDetails) {
+  if (a.board_position != null && b.board_position != null) return a.board_position - b.board_position;
+  if (a.board_position != null) return -1;
+  if (b.board_position != null) return 1;
+  return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+}
+
 export default function OrdersKanban({ onOrderClick }: OrdersKanbanProps) {
+  const { profile } = useAuth();
   const { currentLocation } = useLocation();
   const [orders, setOrders] = useState<OrderWithDetails[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<OrderWithDetails[]>([]);
@@ -33,6 +51,10 @@ export default function OrdersKanban({ onOrderClick }: OrdersKanbanProps) {
 
   const [stages, setStages] = useState<OrderStage[]>([]);
 
+  const [draggedOrderId, setDraggedOrderId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [pendingClose, setPendingClose] = useState<(DropTarget & { orderId: string }) | null>(null);
+
   useEffect(() => {
     loadData();
   }, [currentLocation]);
@@ -133,6 +155,131 @@ export default function OrdersKanban({ onOrderClick }: OrdersKanbanProps) {
     setMaxAmount('');
   }
 
+  function getColumnOrders(stageId: string) {
+    return filteredOrders
+      .filter(order => order.stage_id === stageId)
+      .sort(compareBoardPosition);
+  }
+
+  function handleDragStart(e: React.DragEvent<HTMLDivElement>, orderId: string) {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', orderId);
+    setDraggedOrderId(orderId);
+  }
+
+  function handleDragEnd() {
+    setDraggedOrderId(null);
+    setDropTarget(null);
+  }
+
+  function handleCardDragOver(e: React.DragEvent<HTMLDivElement>, stageId: string, index: number) {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const insertIndex = e.clientY > rect.top + rect.height / 2 ? index + 1 : index;
+    if (dropTarget?.stageId !== stageId || dropTarget.index !== insertIndex) {
+      setDropTarget({ stageId, index: insertIndex });
+    }
+  }
+
+  function handleColumnDragOver(e: React.DragEvent<HTMLDivElement>, stageId: string, columnLength: number) {
+    e.preventDefault();
+    if (dropTarget?.stageId !== stageId) {
+      setDropTarget({ stageId, index: columnLength });
+    }
+  }
+
+  function handleDrop(e: React.DragEvent<HTMLDivElement>, stageId: string) {
+    e.preventDefault();
+    const orderId = draggedOrderId || e.dataTransfer.getData('text/plain');
+    const index = dropTarget?.stageId === stageId ? dropTarget.index : getColumnOrders(stageId).length;
+    setDraggedOrderId(null);
+    setDropTarget(null);
+
+    const order = orders.find(o => o.id === orderId);
+    const stage = stages.find(s => s.id === stageId);
+    if (!order || !stage) return;
+
+    if (order.stage_id !== stageId) {
+      const ruleError = validateStageChange(order, order.stage, stage);
+      if (ruleError) {
+        toast.error(ruleError);
+        return;
+      }
+    }
+
+    if (order.stage_id !== stageId && isClosedStage(stage)) {
+      setPendingClose({ orderId, stageId, index });
+      return;
+    }
+
+    moveOrder(orderId, stageId, index);
+  }
+
+  async function moveOrder(orderId: string, stageId: string, index: number, payments: OrderPaymentInput[] = []) {
+    const order = orders.find(o => o.id === orderId);
+    const newStage = stages.find(s => s.id === stageId);
+    if (!order || !newStage) return;
+
+    const stageChanged = order.stage_id !== stageId;
+    const targetColumn = getColumnOrders(stageId);
+    const oldIndex = targetColumn.findIndex(o => o.id === orderId);
+    const targetIndex = oldIndex !== -1 && oldIndex < index ? index - 1 : index;
+
+    if (!stageChanged && oldIndex === targetIndex) return;
+
+    const column = targetColumn.filter(o => o.id !== orderId);
+    column.splice(targetIndex, 0, order);
+    const positions = new Map(column.map((o, i) => [o.id, i + 1]));
+
+    const previousOrders = orders;
+    setOrders(prev => prev.map(o => {
+      if (o.id === orderId) {
+        return { ...o, stage_id: stageId, stage: newStage, board_position: positions.get(o.id) ?? null };
+      }
+      return positions.has(o.id) ? { ...o, board_position: positions.get(o.id) ?? null } : o;
+    }));
+
+    // The stage change can be rejected by workflow rules, so positions are
+    // only saved once it has gone through
+    if (stageChanged) {
+      const { error, paymentError } = await changeOrderStage(order, newStage, profile?.id || null, payments);
+      if (error) {
+        setOrders(previousOrders);
+        handleSupabaseError(error, 'Move order');
+        return;
+      }
+      if (paymentError) {
+        toast.error(`Статус изменён, но оплата не записана: ${paymentError.message}`);
+      }
+      toast.success(`Заказ ${order.order_number} перемещён в "${newStage.name}"`);
+    }
+
+    try {
+      const repositioned = column.filter(o => o.id === orderId || o.board_position !== positions.get(o.id));
+      const results = await Promise.all(
+        repositioned.map(o =>
+          supabase
+            .from('orders')
+            .update({ board_position: positions.get(o.id) })
+            .eq('id', o.id)
+        )
+      );
+      const failed = results.find(result => result.error);
+      if (failed?.error) throw failed.error;
+    } catch (error) {
+      handleSupabaseError(error, 'Move order');
+      loadData();
+    }
+  }
+
+  function confirmPendingClose(payments: OrderPaymentInput[]) {
+    if (pendingClose) {
+      moveOrder(pendingClose.orderId, pendingClose.stageId, pendingClose.index, payments);
+    }
+    setPendingClose(null);
+  }
+
   const getStageColor = (color: string | null) => {
     const colors: Record<string, string> = {
       blue: 'bg-gradient-to-br from-blue-50 to-blue-100 text-blue-700 border-blue-300',
@@ -306,98 +453,124 @@ export default function OrdersKanban({ onOrderClick }: OrdersKanbanProps) {
           <p className="text-neutral-500 text-lg">Заказы не найдены</p>
         </div>
       ) : (
-        <div className="space-y-2">
-          {filteredOrders.map((order) => {
-            const isClosed = order.stage?.name === 'Закрыт';
-            const amount = order.final_cost || order.estimated_cost || 0;
-
-            return (
-              <div
-                key={order.id}
-                onClick={() => onOrderClick(order)}
-                className="group bg-white border border-neutral-200 rounded-lg p-3 cursor-pointer transition-all duration-200 hover:shadow-lg hover:border-fuchsia-300 hover:-translate-y-0.5"
-              >
-                <div className="flex items-start gap-3">
-                  <div className="flex-shrink-0">
-                    <div className="px-2 py-1 bg-gradient-to-br from-fuchsia-50 to-pink-50 border border-fuchsia-200 rounded-md group-hover:shadow-md group-hover:shadow-fuchsia-100 transition-all duration-200">
-                      <div className="text-[9px] font-medium text-fuchsia-600 mb-0.5 uppercase tracking-wide">Заказ</div>
-                      <div className="font-mono text-xs font-bold text-fuchsia-700">
-                        {order.order_number}
-                      </div>
-                    </div>
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {stages
+            .filter(stage => !selectedStage || stage.id === selectedStage)
+            .map((stage) => {
+              const columnOrders = getColumnOrders(stage.id);
+              const isDropColumn = dropTarget?.stageId === stage.id;
+
+              return (
+                <div
+                  key={stage.id}
+                  onDragOver={(e) => handleColumnDragOver(e, stage.id, columnOrders.length)}
+                  onDrop={(e) => handleDrop(e, stage.id)}
+                  className={`flex-shrink-0 w-72 rounded-xl border-2 p-2 transition-colors ${
+                    isDropColumn ? 'border-fuchsia-300 bg-fuchsia-50/50' : 'border-transparent bg-neutral-100/60'
+                  }`}
+                >
+                  <div className={`flex items-center justify-between px-3 py-2 mb-2 rounded-lg border ${getStageColor(stage.color)}`}>
+                    <span className="text-xs font-semibold uppercase tracking-wide">{stage.name}</span>
+                    <span className="text-xs font-bold">{columnOrders.length}</span>
                   </div>
 
-                  <div className="flex-1 min-w-0 grid grid-cols-1 md:grid-cols-5 gap-3">
-                    <div>
-                      <div className="text-[10px] font-medium text-neutral-500 mb-0.5 uppercase tracking-wide">Дата</div>
-                      <div className="flex items-center gap-1 text-xs text-neutral-900">
-                        <Calendar className="w-3 h-3 text-neutral-400" />
-                        {new Date(order.created_at).toLocaleDateString('ru-RU', {
-                          day: '2-digit',
-                          month: '2-digit',
-                          year: 'numeric'
-                        })}
-                      </div>
-                    </div>
-
-                    <div>
-                      <div className="text-[10px] font-medium text-neutral-500 mb-0.5 uppercase tracking-wide">Клиент</div>
-                      <div className="flex items-center gap-1.5">
-                        <div className="w-5 h-5 bg-gradient-to-br from-blue-100 to-blue-50 rounded-full flex items-center justify-center flex-shrink-0">
-                          <User className="w-2.5 h-2.5 text-blue-600" />
-                        </div>
-                        <span className="text-xs font-medium text-neutral-900 truncate">
-                          {order.client?.full_name}
-                        </span>
-                      </div>
-                    </div>
-
-                    <div>
-                      <div className="text-[10px] font-medium text-neutral-500 mb-0.5 uppercase tracking-wide">Устройство</div>
-                      <div className="text-xs">
-                        <div className="font-semibold text-neutral-900">{order.device_type}</div>
-                        {order.device_model && (
-                          <div className="text-[10px] text-neutral-500 mt-0.5">{order.device_model}</div>
-                        )}
-                      </div>
-                    </div>
-
-                    <div>
-                      <div className="text-[10px] font-medium text-neutral-500 mb-0.5 uppercase tracking-wide">Проблема</div>
-                      <div className="text-xs text-neutral-700 line-clamp-2">
-                        {order.issue_description}
-                      </div>
-                      {order.waiting_for_parts && (
-                        <div className="mt-1">
-                          <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-800 border border-amber-200">
-                            ⏳ Gaida detaļu
-                          </span>
-                        </div>
-                      )}
-                    </div>
-
-                    <div className="flex flex-col items-start md:items-end gap-1.5">
-                      <span className={`inline-flex px-2 py-1 text-[10px] font-semibold rounded-md border transition-all ${getStageColor(order.stage?.color || null)}`}>
-                        {order.stage?.name}
-                      </span>
-                      {isClosed ? (
-                        <div className="inline-flex items-center gap-1 px-2 py-1 bg-gradient-to-br from-green-50 to-emerald-50 border border-green-200 rounded-md">
-                          <DollarSign className="w-3 h-3 text-green-600" />
-                          <span className="text-xs font-bold text-green-700">
-                            {amount.toLocaleString('ru-RU')} ₽
-                          </span>
+                  <div className="space-y-2 min-h-[4rem]">
+                    {columnOrders.map((order, index) => {
+                      const isClosed = isClosedStage(order.stage);
+                      const amount = order.final_cost || order.estimated_cost || 0;
+                      const showIndicatorBefore = isDropColumn && dropTarget.index === index && draggedOrderId !== order.id;
+
+                      return (
+                        <div key={order.id}>
+                          {showIndicatorBefore && <div className="h-1 mb-2 rounded-full bg-fuchsia-400" />}
+                          <div
+                            draggable
+                            onDragStart={(e) => handleDragStart(e, order.id)}
+                            onDragEnd={handleDragEnd}
+                            onDragOver={(e) => handleCardDragOver(e, stage.id, index)}
+                            onClick={() => onOrderClick(order)}
+                            className={`group bg-white border rounded-lg p-3 cursor-grab active:cursor-grabbing transition-all duration-200 hover:shadow-lg hover:border-fuchsia-300 ${
+                              order.is_overdue ? 'border-red-300 ring-1 ring-red-200' : 'border-neutral-200'
+                            } ${draggedOrderId === order.id ? 'opacity-40' : ''}`}
+                          >
+                            <div className="flex items-start justify-between gap-2 mb-2">
+                              <div className="flex items-center gap-1.5">
+                                <span className="font-mono text-xs font-bold text-fuchsia-700">{order.order_number}</span>
+                                {order.is_overdue && (
+                                  <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-100 text-red-700">
+                                    <AlertCircle className="w-3 h-3" />
+                                    Просрочен
+                                  </span>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-1 text-[10px] text-neutral-500">
+                                <Calendar className="w-3 h-3 text-neutral-400" />
+                                {new Date(order.created_at).toLocaleDateString('ru-RU', {
+                                  day: '2-digit',
+                                  month: '2-digit',
+                                  year: 'numeric'
+                                })}
+                              </div>
+                            </div>
+
+                            <div className="flex items-center gap-1.5 mb-1.5">
+                              <div className="w-5 h-5 bg-gradient-to-br from-blue-100 to-blue-50 rounded-full flex items-center justify-center flex-shrink-0">
+                                <User className="w-2.5 h-2.5 text-blue-600" />
+                              </div>
+                              <span className="text-xs font-medium text-neutral-900 truncate">
+                                {order.client?.full_name}
+                              </span>
+                            </div>
+
+                            <div className="text-xs mb-1">
+                              <span className="font-semibold text-neutral-900">{order.device_type}</span>
+                              {order.device_model && (
+                                <span className="text-neutral-500"> {order.device_model}</span>
+                              )}
+                            </div>
+
+                            <div className="text-xs text-neutral-700 line-clamp-2">
+                              {order.issue_description}
+                            </div>
+
+                            <div className="flex items-center justify-between mt-2">
+                              <span className={`text-[10px] font-medium ${getPriorityColor(order.priority)}`}>
+                                {getPriorityLabel(order.priority)}
+                              </span>
+                              {isClosed ? (
+                                <div className="inline-flex items-center gap-1 px-2 py-0.5 bg-gradient-to-br from-green-50 to-emerald-50 border border-green-200 rounded-md">
+                                  <DollarSign className="w-3 h-3 text-green-600" />
+                                  <span className="text-xs font-bold text-green-700">
+                                    {amount.toLocaleString('ru-RU')} ₽
+                                  </span>
+                                </div>
+                              ) : order.waiting_for_parts && (
+                                <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-800 border border-amber-200">
+                                  ⏳ Gaida detaļu
+                                </span>
+                              )}
+                            </div>
+                          </div>
                         </div>
-                      ) : (
-                        <span className="text-[10px] text-neutral-400 px-2 py-1">Не завершен</span>
-                      )}
-                    </div>
+                      );
+                    })}
+                    {isDropColumn && dropTarget.index >= columnOrders.length && (
+                      <div className="h-1 rounded-full bg-fuchsia-400" />
+                    )}
                   </div>
                 </div>
-              </div>
-            );
-          })}
+              );
+            })}
         </div>
       )}
+
+      {pendingClose && (
+        <PaymentMethodModal
+          amountDue={orders.find(o => o.id === pendingClose.orderId)?.balance_due || 0}
+          onConfirm={confirmPendingClose}
+          onCancel={() => setPendingClose(null)}
+        />
+      )}
     </div>
   );
 }
@@ -290,12 +290,19 @@ export default function OrdersTable({ onOrderClick }: OrdersTableProps) {
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: index * 0.05, duration: 0.3 }}
                     onClick={() => onOrderClick(order)}
-                    className="hover:bg-primary-50/50 cursor-pointer transition-all border-b border-slate-100"
+                    className={`cursor-pointer transition-all border-b border-slate-100 ${
+                      order.is_overdue ? 'bg-red-50/70 hover:bg-red-100/60' : 'hover:bg-primary-50/50'
+                    }`}
                   >
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-bold text-primary-600">
                         {order.order_number || `#${order.id.slice(0, 8)}`}
                       </div>
+                      {order.is_overdue && (
+                        <div className="text-xs font-medium text-red-600 mt-0.5">
+                          Просрочен{order.due_date && ` · срок ${formatDate(order.due_date)}`}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-slate-900">
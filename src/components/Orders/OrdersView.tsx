@@ -1,7 +1,8 @@
 import { useState } from 'react';
-import { LayoutGrid, List } from 'lucide-react';
+import { LayoutGrid, List, Users } from 'lucide-react';
 import OrdersKanban from './OrdersKanban';
 import OrdersTable from './OrdersTable';
+import WorkloadBoard from './WorkloadBoard';
 import type { Database } from '../../lib/database.types';
 import { motion } from 'framer-motion';
 
@@ -19,7 +20,7 @@ interface OrdersViewProps {
 }
 
 export default function OrdersView({ onOrderClick }: OrdersViewProps) {
-  const [viewMode, setViewMode] = useState<'kanban' | 'table'>('kanban');
+  const [viewMode, setViewMode] = useState<'kanban' | 'table' | 'workload'>('kanban');
 
   return (
     <div className="h-full flex flex-col bg-gradient-to-br from-slate-50 via-slate-100 to-slate-200">
@@ -59,6 +60,17 @@ export default function OrdersView({ onOrderClick }: OrdersViewProps) {
               <List className="w-4 h-4" />
               <span className="text-sm font-medium">Таблица</span>
             </button>
+            <button
+              onClick={() => setViewMode('workload')}
+              className={`flex items-center gap-2 px-4 py-2.5 rounded-lg transition-all ${
+                viewMode === 'workload'
+                  ? 'bg-gradient-to-r from-primary-500 to-primary-600 text-white shadow-glow'
+                  : 'text-slate-600 hover:text-slate-900 hover:bg-white/50'
+              }`}
+            >
+              <Users className="w-4 h-4" />
+              <span className="text-sm font-medium">Загрузка</span>
+            </button>
           </div>
         </div>
       </motion.div>
@@ -66,8 +78,10 @@ export default function OrdersView({ onOrderClick }: OrdersViewProps) {
       <div className="flex-1 overflow-hidden">
         {viewMode === 'kanban' ? (
           <OrdersKanban onOrderClick={onOrderClick} />
-        ) : (
+        ) : viewMode === 'table' ? (
           <OrdersTable onOrderClick={onOrderClick} />
+        ) : (
+          <WorkloadBoard onOrderClick={onOrderClick} />
         )}
       </div>
     </div>
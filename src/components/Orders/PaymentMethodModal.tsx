@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { PaymentMethod } from '../../lib/orderStages';
+import { PAYMENT_METHODS, calculateChange, type OrderPaymentInput } from '../../lib/orderPayments';
+
+interface PaymentMethodModalProps {
+  amountDue: number;
+  onConfirm: (payments: OrderPaymentInput[]) => void;
+  onCancel: () => void;
+}
+
+interface TenderRow {
+  payment_method: PaymentMethod;
+  amount: number;
+  tendered_amount: number | null;
+}
+
+export default function PaymentMethodModal({ amountDue, onConfirm, onCancel }: PaymentMethodModalProps) {
+  const [tenders, setTenders] = useState<TenderRow[]>([
+    { payment_method: 'cash', amount: amountDue, tendered_amount: null },
+  ]);
+
+  const collected = Math.round(tenders.reduce((sum, t) => sum + (t.amount || 0), 0) * 100) / 100;
+  const remaining = Math.round((amountDue - collected) * 100) / 100;
+
+  function updateTender(index: number, changes: Partial<TenderRow>) {
+    setTenders(prev => prev.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+  }
+
+  function addTender() {
+    setTenders(prev => [
+      ...prev,
+      { payment_method: 'bank', amount: Math.max(remaining, 0), tendered_amount: null },
+    ]);
+  }
+
+  function handleConfirm() {
+    if (remaining > 0 && !confirm(`Остаток €${remaining.toFixed(2)} не оплачен. Закрыть заказ с долгом?`)) {
+      return;
+    }
+
+    onConfirm(
+      tenders
+        .filter(t => t.amount > 0)
+        .map(t => ({
+          payment_type: 'payment' as const,
+          payment_method: t.payment_method,
+          amount: t.amount,
+          tendered_amount: t.payment_method === 'cash' ? t.tendered_amount : null,
+        }))
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-lg w-full p-6">
+        <h3 className="text-lg font-semibold text-neutral-900 mb-1">Оплата и закрытие заказа</h3>
+        <p className="text-sm text-neutral-500 mb-4">
+          К оплате: <span className="font-semibold text-neutral-900">€{amountDue.toFixed(2)}</span>
+        </p>
+
+        <div className="space-y-3 mb-4">
+          {tenders.map((tender, index) => (
+            <div key={index} className="p-3 border border-neutral-200 rounded-lg space-y-2">
+              <div className="flex items-center gap-2">
+                <select
+                  value={tender.payment_method}
+                  onChange={(e) => updateTender(index, { payment_method: e.target.value as PaymentMethod })}
+                  className="flex-1 px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+                >
+                  {PAYMENT_METHODS.map(method => (
+                    <option key={method.value} value={method.value}>{method.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={tender.amount || ''}
+                  onChange={(e) => updateTender(index, { amount: parseFloat(e.target.value) || 0 })}
+                  className="w-28 px-3 py-2 border border-neutral-300 rounded-lg text-sm text-right"
+                />
+                {tenders.length > 1 && (
+                  <button
+                    onClick={() => setTenders(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              {tender.payment_method === 'cash' && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-neutral-600">Получено от клиента</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={tender.tendered_amount ?? ''}
+                    onChange={(e) => updateTender(index, {
+                      tendered_amount: e.target.value === '' ? null : parseFloat(e.target.value) || 0,
+                    })}
+                    className="w-28 px-3 py-1.5 border border-neutral-300 rounded-lg text-right"
+                  />
+                  {tender.tendered_amount != null && (
+                    <span className="ml-auto text-neutral-900">
+                      Сдача: <span className="font-semibold">€{calculateChange(tender).toFixed(2)}</span>
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={addTender}
+          className="mb-4 text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Разделить оплату
+        </button>
+
+        <div className="bg-neutral-50 rounded-lg p-3 mb-6 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-neutral-600">Принято</span>
+            <span className="font-medium">€{collected.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-neutral-600">{remaining >= 0 ? 'Остаток' : 'Переплата'}</span>
+            <span className={`font-semibold ${remaining > 0 ? 'text-red-600' : remaining < 0 ? 'text-amber-600' : 'text-green-600'}`}>
+              €{Math.abs(remaining).toFixed(2)}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 bg-neutral-100 text-neutral-700 rounded-lg hover:bg-neutral-200 transition-colors font-medium"
+          >
+            Отмена
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="flex-1 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors font-medium"
+          >
+            Закрыть заказ
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
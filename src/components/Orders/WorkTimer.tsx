@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Pause, Play } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { handleSupabaseError } from '../../lib/toast';
+import {
+  formatDuration,
+  getEntrySeconds,
+  isOvernightEntry,
+  isRunning,
+  pauseWorkTimer,
+  startWorkTimer,
+  type WorkTimeEntry,
+} from '../../lib/workTimers';
+
+interface WorkTimerProps {
+  orderId: string;
+  orderItemId?: string | null;
+  /** Entries of this order or item only. */
+  entries: WorkTimeEntry[];
+  estimatedMinutes?: number;
+  disabled?: boolean;
+  onChange: () => void;
+}
+
+export default function WorkTimer({ orderId, orderItemId = null, entries, estimatedMinutes, disabled, onChange }: WorkTimerProps) {
+  const { profile } = useAuth();
+  const [now, setNow] = useState(() => new Date());
+  const [saving, setSaving] = useState(false);
+
+  const running = entries.filter(isRunning);
+  const ownRunning = running.find(entry => entry.technician_id === profile?.id);
+  const overnight = entries.some(entry => isOvernightEntry(entry, now));
+  const totalSeconds = entries.reduce((sum, entry) => sum + getEntrySeconds(entry, now), 0);
+
+  useEffect(() => {
+    if (running.length === 0) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [running.length]);
+
+  async function handleToggle(e: React.MouseEvent) {
+    e.stopPropagation();
+    if (!profile || saving) return;
+
+    setSaving(true);
+    const { error } = ownRunning
+      ? await pauseWorkTimer(ownRunning.id)
+      : await startWorkTimer(orderId, orderItemId, profile.id);
+    setSaving(false);
+
+    if (error) {
+      handleSupabaseError(error, ownRunning ? 'Pause timer' : 'Start timer');
+      return;
+    }
+    setNow(new Date());
+    onChange();
+  }
+
+  const overEstimate = estimatedMinutes != null && estimatedMinutes > 0 && totalSeconds / 60 > estimatedMinutes;
+
+  return (
+    <div className="inline-flex items-center gap-2">
+      <button
+        onClick={handleToggle}
+        disabled={disabled || saving || !profile}
+        title={ownRunning ? 'Пауза' : entries.length > 0 ? 'Продолжить' : 'Старт'}
+        className={`p-1.5 rounded-lg transition-colors disabled:opacity-40 ${
+          ownRunning ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'bg-green-100 text-green-700 hover:bg-green-200'
+        }`}
+      >
+        {ownRunning ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+      </button>
+      <span className={`font-mono text-xs ${running.length > 0 ? 'text-green-700 font-semibold' : overEstimate ? 'text-red-600' : 'text-neutral-600'}`}>
+        {formatDuration(totalSeconds)}
+        {estimatedMinutes != null && estimatedMinutes > 0 && (
+          <span className="text-neutral-400 font-normal"> / {estimatedMinutes} мин</span>
+        )}
+      </span>
+      {overnight && (
+        <span title="Таймер работал через ночь — проверьте время">
+          <AlertTriangle className="w-3.5 h-3.5 text-red-500" />
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Calendar, Clock, User, UserX } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { handleSupabaseError, toast } from '../../lib/toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLocation } from '../../contexts/LocationContext';
+import {
+  OPEN_STAGE_KINDS,
+  formatMinutes,
+  getRemainingMinutes,
+  reassignOrder,
+} from '../../lib/workload';
+import {
+  DEFAULT_APPOINTMENT_HOURS,
+  addDays,
+  isSameDay,
+  loadAppointmentHours,
+  parseTimeToMinutes,
+  type AppointmentHours,
+} from '../../lib/appointments';
+import type { Database } from '../../lib/database.types';
+
+type Order = Database['public']['Tables']['orders']['Row'];
+type Client = Database['public']['Tables']['clients']['Row'];
+type OrderStage = Database['public']['Tables']['order_stages']['Row'];
+type OrderItem = Database['public']['Tables']['order_items']['Row'];
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+interface WorkloadOrder extends Order {
+  client?: Client;
+  stage?: OrderStage;
+  items?: Pick<OrderItem, 'item_type' | 'estimated_minutes' | 'approval_status'>[];
+}
+
+interface WorkloadBoardProps {
+  onOrderClick: (order: WorkloadOrder) => void;
+}
+
+interface DayLoad {
+  key: string;
+  label: string;
+  minutes: number;
+  overdue?: boolean;
+}
+
+const UNASSIGNED = 'unassigned';
+const FORECAST_DAYS = 5;
+
+export default function WorkloadBoard({ onOrderClick }: WorkloadBoardProps) {
+  const { profile } = useAuth();
+  const { currentLocation } = useLocation();
+  const [orders, setOrders] = useState<WorkloadOrder[]>([]);
+  const [technicians, setTechnicians] = useState<Profile[]>([]);
+  const [hours, setHours] = useState<AppointmentHours>(DEFAULT_APPOINTMENT_HOURS);
+  const [loading, setLoading] = useState(true);
+  const [draggedOrderId, setDraggedOrderId] = useState<string | null>(null);
+  const [dropColumn, setDropColumn] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAppointmentHours().then(setHours);
+  }, []);
+
+  const loadData = useCallback(async () => {
+    if (!currentLocation) return;
+
+    try {
+      const [stagesRes, profilesRes] = await Promise.all([
+        supabase.from('order_stages').select('id').in('kind', OPEN_STAGE_KINDS),
+        supabase.from('profiles').select('*').eq('location_id', currentLocation.id).order('full_name')
+      ]);
+
+      const openStageIds = ((stagesRes.data as { id: string }[] | null) || []).map(stage => stage.id);
+      if (profilesRes.data) setTechnicians(profilesRes.data);
+
+      if (openStageIds.length === 0) {
+        setOrders([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          *,
+          client:clients(*),
+          stage:order_stages(*),
+          items:order_items(item_type, estimated_minutes, approval_status)
+        `)
+        .eq('location_id', currentLocation.id)
+        .in('stage_id', openStageIds)
+        .order('due_date', { ascending: true, nullsFirst: false });
+
+      if (error) {
+        console.error('Error loading workload:', error);
+        return;
+      }
+      setOrders((data as WorkloadOrder[]) || []);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentLocation]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const dailyCapacity = Math.max(0, parseTimeToMinutes(hours.close) - parseTimeToMinutes(hours.open));
+
+  function getColumnOrders(columnId: string) {
+    return orders.filter(order => (order.assigned_to || UNASSIGNED) === columnId);
+  }
+
+  /** Remaining minutes grouped by due date: overdue, the next days, later and undated. */
+  function getDayLoads(columnOrders: WorkloadOrder[]): DayLoad[] {
+    const loads: DayLoad[] = [
+      { key: 'overdue', label: 'Просрочено', minutes: 0, overdue: true },
+      ...Array.from({ length: FORECAST_DAYS }, (_, index) => {
+        const day = addDays(today, index);
+        return {
+          key: day.toISOString(),
+          label: index === 0 ? 'Сегодня' : day.toLocaleDateString('ru-RU', { weekday: 'short', day: 'numeric' }),
+          minutes: 0,
+        };
+      }),
+      { key: 'later', label: 'Позже', minutes: 0 },
+      { key: 'none', label: 'Без срока', minutes: 0 },
+    ];
+
+    for (const order of columnOrders) {
+      const minutes = getRemainingMinutes(order.items);
+      if (!order.due_date) {
+        loads[loads.length - 1].minutes += minutes;
+        continue;
+      }
+      const due = new Date(order.due_date);
+      if (due < today) {
+        loads[0].minutes += minutes;
+        continue;
+      }
+      const dayIndex = Array.from({ length: FORECAST_DAYS }, (_, index) => addDays(today, index))
+        .findIndex(day => isSameDay(day, due));
+      loads[dayIndex === -1 ? loads.length - 2 : dayIndex + 1].minutes += minutes;
+    }
+
+    return loads.filter(load => load.minutes > 0);
+  }
+
+  function handleDragStart(e: React.DragEvent<HTMLDivElement>, orderId: string) {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', orderId);
+    setDraggedOrderId(orderId);
+  }
+
+  function handleDragEnd() {
+    setDraggedOrderId(null);
+    setDropColumn(null);
+  }
+
+  function handleColumnDragOver(e: React.DragEvent<HTMLDivElement>, columnId: string) {
+    e.preventDefault();
+    if (dropColumn !== columnId) {
+      setDropColumn(columnId);
+    }
+  }
+
+  async function handleDrop(e: React.DragEvent<HTMLDivElement>, columnId: string) {
+    e.preventDefault();
+    const orderId = draggedOrderId || e.dataTransfer.getData('text/plain');
+    setDraggedOrderId(null);
+    setDropColumn(null);
+
+    const order = orders.find(o => o.id === orderId);
+    if (!order || (order.assigned_to || UNASSIGNED) === columnId) return;
+
+    const technician = technicians.find(t => t.id === columnId) || null;
+    const previousOrders = orders;
+    setOrders(prev => prev.map(o => o.id === orderId ? { ...o, assigned_to: technician?.id ?? null } : o));
+
+    const { error } = await reassignOrder(orderId, technician, profile?.id || null);
+    if (error) {
+      setOrders(previousOrders);
+      handleSupabaseError(error, 'Reassign order');
+      return;
+    }
+    toast.success(technician
+      ? `Заказ ${order.order_number} передан: ${technician.full_name}`
+      : `Заказ ${order.order_number} снят с мастера`);
+  }
+
+  const assignedIds = new Set(orders.map(order => order.assigned_to).filter(Boolean));
+  const columns = [
+    ...technicians
+      .filter(t => t.role === 'technician' || assignedIds.has(t.id))
+      .map(t => ({ id: t.id, label: t.full_name })),
+    { id: UNASSIGNED, label: 'Не назначен' },
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-neutral-500">Загрузка...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 h-full overflow-auto">
+      <div className="flex items-center gap-2 mb-4 text-xs text-neutral-500">
+        <Clock className="w-4 h-4" />
+        Оставшееся время считается по длительности услуг в открытых заказах. Рабочий день: {formatMinutes(dailyCapacity)}.
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map(column => {
+          const columnOrders = getColumnOrders(column.id);
+          const totalMinutes = columnOrders.reduce((sum, order) => sum + getRemainingMinutes(order.items), 0);
+          const dayLoads = getDayLoads(columnOrders);
+          const isUnassigned = column.id === UNASSIGNED;
+
+          return (
+            <div
+              key={column.id}
+              onDragOver={(e) => handleColumnDragOver(e, column.id)}
+              onDrop={(e) => handleDrop(e, column.id)}
+              className={`flex-shrink-0 w-72 rounded-xl border-2 p-2 transition-colors ${
+                dropColumn === column.id ? 'border-fuchsia-300 bg-fuchsia-50/50' : 'border-transparent bg-neutral-100/60'
+              }`}
+            >
+              <div className="px-3 py-2 mb-2 rounded-lg border bg-white border-neutral-200">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1.5 text-sm font-semibold text-neutral-900 truncate">
+                    {isUnassigned ? <UserX className="w-4 h-4 text-neutral-400" /> : <User className="w-4 h-4 text-blue-600" />}
+                    {column.label}
+                  </span>
+                  <span className="text-xs font-bold text-neutral-600">{columnOrders.length}</span>
+                </div>
+                <div className="text-xs text-neutral-500 mt-1">
+                  Осталось: <span className="font-semibold text-neutral-800">{formatMinutes(totalMinutes)}</span>
+                </div>
+                {dayLoads.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {dayLoads.map(load => {
+                      const overloaded = load.overdue || (dailyCapacity > 0 && load.minutes > dailyCapacity);
+                      return (
+                        <span
+                          key={load.key}
+                          className={`px-1.5 py-0.5 rounded text-[10px] font-medium border ${
+                            overloaded
+                              ? 'bg-red-50 text-red-700 border-red-200'
+                              : 'bg-neutral-50 text-neutral-600 border-neutral-200'
+                          }`}
+                        >
+                          {load.label}: {formatMinutes(load.minutes)}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2 min-h-[4rem]">
+                {columnOrders.map(order => {
+                  const remaining = getRemainingMinutes(order.items);
+                  const isOverdue = order.due_date != null && new Date(order.due_date) < today;
+
+                  return (
+                    <div
+                      key={order.id}
+                      draggable
+                      onDragStart={(e) => handleDragStart(e, order.id)}
+                      onDragEnd={handleDragEnd}
+                      onClick={() => onOrderClick(order)}
+                      className={`bg-white border border-neutral-200 rounded-lg p-3 cursor-grab active:cursor-grabbing transition-all hover:shadow-lg hover:border-fuchsia-300 ${
+                        draggedOrderId === order.id ? 'opacity-40' : ''
+                      }`}
+                    >
+                      <div className="flex items-start justify-between gap-2 mb-1.5">
+                        <div className="font-mono text-xs font-bold text-fuchsia-700">{order.order_number}</div>
+                        <span className="text-[10px] text-neutral-500 truncate">{order.stage?.name}</span>
+                      </div>
+                      <div className="text-xs font-medium text-neutral-900 truncate">{order.client?.full_name}</div>
+                      <div className="text-xs text-neutral-500 truncate mb-2">
+                        {[order.device_type, order.device_model].filter(Boolean).join(' ')}
+                      </div>
+                      <div className="flex items-center justify-between text-[10px]">
+                        <span className="flex items-center gap-1 text-neutral-600">
+                          <Clock className="w-3 h-3 text-neutral-400" />
+                          {remaining > 0 ? formatMinutes(remaining) : '—'}
+                        </span>
+                        {order.due_date && (
+                          <span className={`flex items-center gap-1 ${isOverdue ? 'text-red-600 font-medium' : 'text-neutral-500'}`}>
+                            {isOverdue ? <AlertCircle className="w-3 h-3" /> : <Calendar className="w-3 h-3" />}
+                            {new Date(order.due_date).toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit' })}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,31 @@
 import { useState, useEffect } from 'react';
-import { DollarSign, TrendingUp, Users, Calendar } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { DollarSign, TrendingUp, Users, Calendar, Lock, Unlock, Printer } from 'lucide-react';
+import { supabase, callRpc } from '../../lib/supabase';
 import { useLocation } from '../../contexts/LocationContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { BONUS_BASIS_LABELS, type BonusBasis } from '../../lib/bonusSchemes';
+import { toast, handleSupabaseError } from '../../lib/toast';
+import { BonusSchemes } from './BonusSchemes';
+import Payslip from './Payslip';
+import type { Database } from '../../lib/database.types';
+
+type PayrollRun = Database['public']['Tables']['payroll_runs']['Row'];
+type PayslipRow = Database['public']['Tables']['payslips']['Row'];
+
+interface ClosePayrollArgs {
+  p_month: string;
+  p_location_id: number | null;
+}
+
+interface ReopenPayrollArgs {
+  p_run_id: string;
+  p_reason: string;
+}
+
+interface PayrollActionResult {
+  success: boolean;
+  error?: string;
+}
 
 interface TechnicianBonus {
   technician_id: string;
@@ -10,11 +34,40 @@ interface TechnicianBonus {
   bonus_amount: number;
   status: string;
   quota_progress: number;
+  basis: BonusBasis;
+  basis_amount: number;
+  quota: number;
+  scheme_id: string | null;
+  scheme_name: string | null;
+  payslip?: PayslipRow;
+}
+
+function payslipToBonus(payslip: PayslipRow): TechnicianBonus {
+  const basisAmount = Number(payslip.bonus_basis_amount);
+  const quota = Number(payslip.bonus_quota);
+  return {
+    technician_id: payslip.profile_id || payslip.id,
+    technician_name: payslip.employee_name,
+    total_labor: Number(payslip.labor_total),
+    bonus_amount: Number(payslip.bonus_amount),
+    status: quota > 0 && basisAmount >= quota ? 'Quota Reached' : basisAmount > 0 ? 'Active' : 'No Activity',
+    quota_progress: quota > 0 ? (basisAmount / quota) * 100 : 0,
+    basis: (payslip.bonus_basis || 'labor_revenue') as BonusBasis,
+    basis_amount: basisAmount,
+    quota,
+    scheme_id: payslip.bonus_scheme_id,
+    scheme_name: payslip.bonus_scheme_name,
+    payslip,
+  };
 }
 
 export function BonusControlPanel() {
   const { currentLocation } = useLocation();
+  const { isAdmin } = useAuth();
   const [bonuses, setBonuses] = useState<TechnicianBonus[]>([]);
+  const [payrollRun, setPayrollRun] = useState<PayrollRun | null>(null);
+  const [printingPayslip, setPrintingPayslip] = useState<PayslipRow | null>(null);
+  const [processing, setProcessing] = useState(false);
   const [loading, setLoading] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState(() => {
     const now = new Date();
@@ -31,6 +84,28 @@ export function BonusControlPanel() {
       const targetDate = `${selectedMonth}-01`;
       const locationId = currentLocation?.id ? Number(currentLocation.id) : null;
 
+      let runQuery = supabase
+        .from('payroll_runs')
+        .select('*')
+        .eq('period_month', targetDate);
+      runQuery = locationId ? runQuery.eq('location_id', locationId) : runQuery.is('location_id', null);
+      const { data: runData } = await runQuery.maybeSingle();
+      const run = runData as PayrollRun | null;
+      setPayrollRun(run);
+
+      // A closed period shows its snapshot, not a live recalculation
+      if (run?.status === 'closed') {
+        const { data: payslips, error: payslipsError } = await supabase
+          .from('payslips')
+          .select('*')
+          .eq('payroll_run_id', run.id)
+          .order('total_pay', { ascending: false });
+
+        if (payslipsError) throw payslipsError;
+        setBonuses(((payslips || []) as PayslipRow[]).map(payslipToBonus));
+        return;
+      }
+
       const { data, error } = await supabase.rpc('get_technician_bonuses', {
         target_month: targetDate,
         target_location_id: locationId
@@ -45,6 +120,62 @@ export function BonusControlPanel() {
     }
   };
 
+  const isClosed = payrollRun?.status === 'closed';
+  const isPastMonth = selectedMonth < (() => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  })();
+
+  const handleClosePeriod = async () => {
+    if (!confirm(`Close payroll for ${formatMonthYear(selectedMonth)}? Orders of this period will be locked against price edits.`)) return;
+
+    setProcessing(true);
+    const { data, error } = await callRpc<PayrollActionResult, ClosePayrollArgs>('close_payroll_period', {
+      p_month: `${selectedMonth}-01`,
+      p_location_id: currentLocation?.id ? Number(currentLocation.id) : null
+    });
+    setProcessing(false);
+
+    if (error) {
+      handleSupabaseError(error, 'Close payroll');
+      return;
+    }
+    const result = data as PayrollActionResult;
+    if (!result.success) {
+      toast.error(result.error || 'Failed to close payroll');
+      return;
+    }
+
+    toast.success('Payroll period closed');
+    loadBonuses();
+  };
+
+  const handleReopenPeriod = async () => {
+    if (!payrollRun) return;
+    const reason = prompt('Reason for reopening this payroll period:');
+    if (!reason?.trim()) return;
+
+    setProcessing(true);
+    const { data, error } = await callRpc<PayrollActionResult, ReopenPayrollArgs>('reopen_payroll_period', {
+      p_run_id: payrollRun.id,
+      p_reason: reason.trim()
+    });
+    setProcessing(false);
+
+    if (error) {
+      handleSupabaseError(error, 'Reopen payroll');
+      return;
+    }
+    const result = data as PayrollActionResult;
+    if (!result.success) {
+      toast.error(result.error || 'Failed to reopen payroll');
+      return;
+    }
+
+    toast.success('Payroll period reopened');
+    loadBonuses();
+  };
+
   const totalBonuses = bonuses.reduce((sum, b) => sum + b.bonus_amount, 0);
   const totalLabor = bonuses.reduce((sum, b) => sum + b.total_labor, 0);
   const techniciansOverQuota = bonuses.filter(b => b.status === 'Quota Reached').length;
@@ -92,9 +223,40 @@ export function BonusControlPanel() {
                   className="pl-10 pr-4 py-2 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
                 />
               </div>
+              {isAdmin() && isClosed && (
+                <button
+                  onClick={handleReopenPeriod}
+                  disabled={processing}
+                  className="px-4 py-2 border border-neutral-300 rounded-lg hover:bg-neutral-50 disabled:opacity-50 text-sm font-medium flex items-center gap-2"
+                >
+                  <Unlock className="w-4 h-4" />
+                  Reopen Period
+                </button>
+              )}
+              {isAdmin() && !isClosed && isPastMonth && (
+                <button
+                  onClick={handleClosePeriod}
+                  disabled={processing || loading}
+                  className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 text-sm font-medium flex items-center gap-2"
+                >
+                  <Lock className="w-4 h-4" />
+                  Close Period
+                </button>
+              )}
             </div>
           </div>
 
+          {payrollRun && (
+            <div className={`mb-4 px-4 py-3 rounded-lg border text-sm flex items-center gap-2 ${
+              isClosed ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-amber-50 border-amber-200 text-amber-800'
+            }`}>
+              {isClosed ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+              {isClosed
+                ? `Closed on ${new Date(payrollRun.closed_at || '').toLocaleDateString('en-GB')}. Figures below are the payroll snapshot; orders of this period are locked.`
+                : `Reopened on ${new Date(payrollRun.reopened_at || '').toLocaleDateString('en-GB')}: ${payrollRun.reopen_reason}. Figures are live until the period is closed again.`}
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
             <div className="bg-white rounded-xl border border-neutral-200 p-4">
               <div className="flex items-center justify-between">
@@ -166,7 +328,7 @@ export function BonusControlPanel() {
           <div className="px-6 py-4 border-b border-neutral-200">
             <h2 className="text-lg font-semibold text-neutral-900">Technician Bonuses</h2>
             <p className="text-sm text-neutral-600 mt-1">
-              Quota: €6,000 | Bonus Rate: 25% of revenue above quota
+              Each technician is paid by the bonus scheme in effect for {formatMonthYear(selectedMonth)}
             </p>
           </div>
 
@@ -194,6 +356,9 @@ export function BonusControlPanel() {
                     <th className="text-right px-6 py-3 text-xs font-semibold text-neutral-600 uppercase tracking-wider">
                       Total Labor
                     </th>
+                    <th className="text-left px-6 py-3 text-xs font-semibold text-neutral-600 uppercase tracking-wider">
+                      Scheme
+                    </th>
                     <th className="px-6 py-3 text-xs font-semibold text-neutral-600 uppercase tracking-wider">
                       Progress to Quota
                     </th>
@@ -203,6 +368,7 @@ export function BonusControlPanel() {
                     <th className="text-center px-6 py-3 text-xs font-semibold text-neutral-600 uppercase tracking-wider">
                       Status
                     </th>
+                    {isClosed && <th className="px-6 py-3 w-16"></th>}
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-neutral-200">
@@ -223,6 +389,12 @@ export function BonusControlPanel() {
                           {formatCurrency(bonus.total_labor)}
                         </span>
                       </td>
+                      <td className="px-6 py-4">
+                        <p className="text-sm text-neutral-900">{bonus.scheme_name || '—'}</p>
+                        <p className="text-xs text-neutral-500">
+                          {BONUS_BASIS_LABELS[bonus.basis]}: {formatCurrency(bonus.basis_amount)} / {formatCurrency(bonus.quota)}
+                        </p>
+                      </td>
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-3">
                           <div className="flex-1 bg-neutral-100 rounded-full h-2.5 overflow-hidden">
@@ -248,6 +420,19 @@ export function BonusControlPanel() {
                           </span>
                         </div>
                       </td>
+                      {isClosed && (
+                        <td className="px-6 py-4 text-center">
+                          {bonus.payslip && (
+                            <button
+                              onClick={() => setPrintingPayslip(bonus.payslip!)}
+                              className="p-1.5 hover:bg-neutral-100 rounded-lg"
+                              title="Print payslip"
+                            >
+                              <Printer className="w-4 h-4 text-neutral-600" />
+                            </button>
+                          )}
+                        </td>
+                      )}
                     </tr>
                   ))}
                 </tbody>
@@ -260,19 +445,30 @@ export function BonusControlPanel() {
           <h3 className="text-lg font-semibold text-neutral-900 mb-2">How Bonuses Work</h3>
           <div className="grid md:grid-cols-3 gap-4 text-sm text-neutral-700">
             <div>
-              <p className="font-medium text-neutral-900 mb-1">Monthly Quota</p>
-              <p>Technicians must exceed €6,000 in labor revenue to earn bonuses.</p>
+              <p className="font-medium text-neutral-900 mb-1">Schemes</p>
+              <p>The most specific active scheme applies: employee, then role, then everyone; a location override wins over a global one.</p>
             </div>
             <div>
               <p className="font-medium text-neutral-900 mb-1">Bonus Calculation</p>
-              <p>Earn 25% of all revenue above the €6,000 quota threshold.</p>
+              <p>Each tier rate applies to the labor revenue or gross profit between its threshold and the next tier.</p>
             </div>
             <div>
               <p className="font-medium text-neutral-900 mb-1">Example</p>
-              <p>€8,000 labor = €500 bonus ((8000 - 6000) × 0.25)</p>
+              <p>Tiers 25% above €6,000 and 30% above €10,000: €11,000 = €1,300 bonus (4000 × 0.25 + 1000 × 0.30)</p>
             </div>
           </div>
         </div>
+
+        {isAdmin() && <BonusSchemes onChange={loadBonuses} />}
+
+        {printingPayslip && payrollRun && (
+          <Payslip
+            payslip={printingPayslip}
+            run={payrollRun}
+            locationName={currentLocation?.name || ''}
+            onClose={() => setPrintingPayslip(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,468 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Pencil, X, Layers } from 'lucide-react';
+import { supabase, callRpc } from '../../lib/supabase';
+import { useLocation } from '../../contexts/LocationContext';
+import { toast, handleSupabaseError } from '../../lib/toast';
+import { BONUS_BASIS_LABELS, describeBonusTiers, parseBonusTiers, type BonusBasis, type BonusTier } from '../../lib/bonusSchemes';
+import type { Database } from '../../lib/database.types';
+
+type BonusScheme = Database['public']['Tables']['bonus_schemes']['Row'];
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+interface BonusSchemesProps {
+  onChange: () => void;
+}
+
+interface SchemeForm {
+  name: string;
+  basis: BonusBasis;
+  quota: number;
+  tiers: BonusTier[];
+  role: string;
+  profile_id: string;
+  location_id: string;
+  effective_from: string;
+  is_active: boolean;
+  notes: string;
+}
+
+interface SaveSchemeArgs {
+  p_scheme_id: string | null;
+  p_scheme: Record<string, unknown>;
+}
+
+interface SaveSchemeResult {
+  success: boolean;
+  error?: string;
+  versioned?: boolean;
+}
+
+const ROLES = ['technician', 'manager', 'admin', 'owner'];
+
+const emptyForm = (): SchemeForm => ({
+  name: '',
+  basis: 'labor_revenue',
+  quota: 6000,
+  tiers: [{ from: 6000, rate: 0.25 }],
+  role: '',
+  profile_id: '',
+  location_id: '',
+  effective_from: new Date().toISOString().split('T')[0],
+  is_active: true,
+  notes: '',
+});
+
+export function BonusSchemes({ onChange }: BonusSchemesProps) {
+  const { locations } = useLocation();
+  const [schemes, setSchemes] = useState<BonusScheme[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SchemeForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSchemes();
+  }, []);
+
+  const loadSchemes = async () => {
+    const [schemesRes, profilesRes] = await Promise.all([
+      supabase
+        .from('bonus_schemes')
+        .select('*')
+        .order('effective_from', { ascending: false }),
+      supabase
+        .from('profiles')
+        .select('*')
+        .order('full_name'),
+    ]);
+
+    if (schemesRes.error) {
+      handleSupabaseError(schemesRes.error, 'Load bonus schemes');
+      return;
+    }
+    setSchemes(schemesRes.data || []);
+    setProfiles(profilesRes.data || []);
+  };
+
+  const openEditor = (scheme?: BonusScheme) => {
+    if (!scheme) {
+      setEditingId(null);
+      setForm(emptyForm());
+      return;
+    }
+    setEditingId(scheme.id);
+    setForm({
+      name: scheme.name,
+      basis: scheme.basis,
+      quota: Number(scheme.quota),
+      tiers: parseBonusTiers(scheme.tiers),
+      role: scheme.role || '',
+      profile_id: scheme.profile_id || '',
+      location_id: scheme.location_id != null ? String(scheme.location_id) : '',
+      effective_from: scheme.effective_from,
+      is_active: scheme.is_active,
+      notes: scheme.notes || '',
+    });
+  };
+
+  const updateTier = (index: number, field: keyof BonusTier, value: number) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      tiers: form.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      toast.error('Scheme name is required');
+      return;
+    }
+    if (form.tiers.some(tier => tier.from < 0 || tier.rate < 0 || tier.rate > 1)) {
+      toast.error('Tier thresholds must be positive and rates between 0% and 100%');
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      name: form.name.trim(),
+      basis: form.basis,
+      quota: form.quota,
+      tiers: [...form.tiers].sort((a, b) => a.from - b.from),
+      role: form.role || null,
+      profile_id: form.profile_id || null,
+      location_id: form.location_id ? Number(form.location_id) : null,
+      effective_from: form.effective_from,
+      is_active: form.is_active,
+      notes: form.notes.trim() || null,
+    };
+
+    // Rule changes to a scheme already used for past months become a new version
+    const { data, error } = await callRpc<SaveSchemeResult, SaveSchemeArgs>('save_bonus_scheme', {
+      p_scheme_id: editingId,
+      p_scheme: payload
+    });
+    setSaving(false);
+
+    if (error) {
+      handleSupabaseError(error, 'Save bonus scheme');
+      return;
+    }
+    const result = data as SaveSchemeResult;
+    if (!result.success) {
+      toast.error(result.error || 'Failed to save bonus scheme');
+      return;
+    }
+
+    toast.success(result.versioned
+      ? `New version saved, effective from ${new Date(form.effective_from).toLocaleDateString('en-GB')}`
+      : 'Bonus scheme saved');
+    setForm(null);
+    await loadSchemes();
+    onChange();
+  };
+
+  const handleDelete = async (scheme: BonusScheme) => {
+    if (!confirm(`Delete bonus scheme "${scheme.name}"?`)) return;
+
+    const { error } = await supabase.from('bonus_schemes').delete().eq('id', scheme.id);
+    if (error) {
+      handleSupabaseError(error, 'Delete bonus scheme');
+      return;
+    }
+
+    toast.success('Bonus scheme deleted');
+    await loadSchemes();
+    onChange();
+  };
+
+  const describeScope = (scheme: BonusScheme) => {
+    const parts: string[] = [];
+    if (scheme.profile_id) {
+      parts.push(profiles.find(p => p.id === scheme.profile_id)?.full_name || 'Employee');
+    } else if (scheme.role) {
+      parts.push(`Role: ${scheme.role}`);
+    } else {
+      parts.push('Everyone');
+    }
+    if (scheme.location_id != null) {
+      parts.push(locations.find(l => l.id === scheme.location_id)?.name || `Location #${scheme.location_id}`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-xl border border-neutral-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-neutral-200 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-emerald-600" />
+          <h2 className="text-lg font-semibold text-neutral-900">Bonus Schemes</h2>
+        </div>
+        <button
+          onClick={() => openEditor()}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          New Scheme
+        </button>
+      </div>
+
+      {schemes.length === 0 ? (
+        <div className="p-8 text-center text-sm text-neutral-500">No bonus schemes configured</div>
+      ) : (
+        <table className="w-full">
+          <thead className="bg-neutral-50 border-b border-neutral-200">
+            <tr>
+              <th className="text-left px-6 py-3 text-xs font-semibold text-neutral-600 uppercase tracking-wider">Scheme</th>
+              <th className="text-left px-6 py-3 text-xs font-semibold text-neutral-600 uppercase tracking-wider">Applies To</th>
+              <th className="text-left px-6 py-3 text-xs font-semibold text-neutral-600 uppercase tracking-wider">Rules</th>
+              <th className="text-left px-6 py-3 text-xs font-semibold text-neutral-600 uppercase tracking-wider">Effective</th>
+              <th className="px-6 py-3 w-24"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-neutral-200">
+            {schemes.map(scheme => (
+              <tr key={scheme.id} className={`hover:bg-neutral-50 ${scheme.is_active && !scheme.effective_to ? '' : 'opacity-50'}`}>
+                <td className="px-6 py-3">
+                  <p className="font-medium text-neutral-900">{scheme.name}</p>
+                  <p className="text-xs text-neutral-500">{BONUS_BASIS_LABELS[scheme.basis]}</p>
+                </td>
+                <td className="px-6 py-3 text-sm text-neutral-700">{describeScope(scheme)}</td>
+                <td className="px-6 py-3 text-sm text-neutral-700">
+                  <p>Quota €{Number(scheme.quota).toLocaleString('en-IE')}</p>
+                  <p className="text-xs text-neutral-500">{describeBonusTiers(parseBonusTiers(scheme.tiers))}</p>
+                </td>
+                <td className="px-6 py-3 text-sm text-neutral-700">
+                  {new Date(scheme.effective_from).toLocaleDateString('en-GB')}
+                  {scheme.effective_to && ` – ${new Date(scheme.effective_to).toLocaleDateString('en-GB')}`}
+                  {!scheme.is_active && <span className="ml-2 text-xs text-neutral-500">(inactive)</span>}
+                </td>
+                <td className="px-6 py-3">
+                  <div className="flex justify-end gap-1">
+                    <button
+                      onClick={() => openEditor(scheme)}
+                      disabled={!!scheme.effective_to}
+                      className="p-1.5 hover:bg-neutral-100 rounded-lg disabled:opacity-30 disabled:hover:bg-transparent"
+                      title={scheme.effective_to ? 'Replaced by a newer version' : 'Edit'}
+                    >
+                      <Pencil className="w-4 h-4 text-neutral-600" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(scheme)}
+                      className="p-1.5 hover:bg-red-50 rounded-lg"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {form && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-neutral-200 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-neutral-900">
+                {editingId ? 'Edit Bonus Scheme' : 'New Bonus Scheme'}
+              </h3>
+              <button onClick={() => setForm(null)} className="p-1.5 hover:bg-neutral-100 rounded-lg">
+                <X className="w-5 h-5 text-neutral-500" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-1">Bonus Basis</label>
+                  <select
+                    value={form.basis}
+                    onChange={(e) => setForm({ ...form, basis: e.target.value as BonusBasis })}
+                    className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    {(Object.keys(BONUS_BASIS_LABELS) as BonusBasis[]).map(basis => (
+                      <option key={basis} value={basis}>{BONUS_BASIS_LABELS[basis]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-1">Role</label>
+                  <select
+                    value={form.role}
+                    onChange={(e) => setForm({ ...form, role: e.target.value })}
+                    disabled={!!form.profile_id}
+                    className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:bg-neutral-50"
+                  >
+                    <option value="">Any role</option>
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-1">Employee</label>
+                  <select
+                    value={form.profile_id}
+                    onChange={(e) => setForm({ ...form, profile_id: e.target.value, role: e.target.value ? '' : form.role })}
+                    className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    <option value="">Any employee</option>
+                    {profiles.map(p => (
+                      <option key={p.id} value={p.id}>{p.full_name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-1">Location</label>
+                  <select
+                    value={form.location_id}
+                    onChange={(e) => setForm({ ...form, location_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    <option value="">All locations</option>
+                    {locations.map(location => (
+                      <option key={location.id} value={location.id}>{location.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-1">Monthly Quota (€)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={form.quota}
+                    onChange={(e) => setForm({ ...form, quota: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-1">Effective From</label>
+                  <input
+                    type="date"
+                    value={form.effective_from}
+                    onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                    className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                  {editingId && (
+                    <p className="text-xs text-neutral-500 mt-1">
+                      Changed rules apply from this date; earlier months keep the current version
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-neutral-700">Tiers</label>
+                  <button
+                    type="button"
+                    onClick={() => setForm({
+                      ...form,
+                      tiers: [...form.tiers, { from: (form.tiers[form.tiers.length - 1]?.from || form.quota) + 2000, rate: 0.3 }],
+                    })}
+                    className="text-sm text-emerald-700 hover:text-emerald-800 flex items-center gap-1"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    Add tier
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {form.tiers.map((tier, index) => (
+                    <div key={index} className="flex items-center gap-2 text-sm">
+                      <span className="text-neutral-600">Above €</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="100"
+                        value={tier.from}
+                        onChange={(e) => updateTier(index, 'from', Number(e.target.value))}
+                        className="w-32 px-3 py-1.5 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                      />
+                      <span className="text-neutral-600">pay</span>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        value={Math.round(tier.rate * 1000) / 10}
+                        onChange={(e) => updateTier(index, 'rate', Number(e.target.value) / 100)}
+                        className="w-24 px-3 py-1.5 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                      />
+                      <span className="text-neutral-600">%</span>
+                      <button
+                        type="button"
+                        onClick={() => setForm({ ...form, tiers: form.tiers.filter((_, i) => i !== index) })}
+                        className="p-1.5 hover:bg-red-50 rounded-lg"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </button>
+                    </div>
+                  ))}
+                  {form.tiers.length === 0 && (
+                    <p className="text-sm text-neutral-500">No tiers: this scheme pays no bonus.</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-1">Notes</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-neutral-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-neutral-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                  className="rounded border-neutral-300"
+                />
+                Active
+              </label>
+            </div>
+
+            <div className="px-6 py-4 border-t border-neutral-200 flex justify-end gap-3">
+              <button
+                onClick={() => setForm(null)}
+                className="px-4 py-2 border border-neutral-300 rounded-lg hover:bg-neutral-50 text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 text-sm font-medium"
+              >
+                {saving ? 'Saving...' : 'Save Scheme'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
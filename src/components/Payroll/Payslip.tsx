@@ -0,0 +1,167 @@
+import { useEffect } from 'react';
+import { BONUS_BASIS_LABELS, type BonusBasis } from '../../lib/bonusSchemes';
+import type { Database } from '../../lib/database.types';
+
+type PayrollRun = Database['public']['Tables']['payroll_runs']['Row'];
+type PayslipRow = Database['public']['Tables']['payslips']['Row'];
+
+interface PayslipProps {
+  payslip: PayslipRow;
+  run: PayrollRun;
+  locationName: string;
+  onClose: () => void;
+}
+
+export default function Payslip({ payslip, run, locationName, onClose }: PayslipProps) {
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—';
+    const date = new Date(dateString);
+    return `${String(date.getDate()).padStart(2, '0')}.${String(date.getMonth() + 1).padStart(2, '0')}.${date.getFullYear()}`;
+  };
+
+  const periodLabel = new Date(run.period_month).toLocaleDateString('lv-LV', { month: 'long', year: 'numeric' });
+
+  const handlePrint = () => {
+    window.print();
+  };
+
+  const row = (label: string, amount: number, className = '') => (
+    <div className={`flex justify-between text-sm py-1 ${className}`}>
+      <span>{label}</span>
+      <span className="font-medium">{amount.toFixed(2)} EUR</span>
+    </div>
+  );
+
+  return (
+    <>
+      <style>{`
+        @media print {
+          body * {
+            visibility: hidden;
+          }
+          .receipt-print-area,
+          .receipt-print-area * {
+            visibility: visible;
+          }
+          .receipt-print-area {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 100%;
+          }
+          .no-print {
+            display: none !important;
+          }
+          .receipt-content {
+            padding: 20mm !important;
+            max-width: 210mm !important;
+            box-shadow: none !important;
+          }
+        }
+        @page {
+          size: A4;
+          margin: 0;
+        }
+      `}</style>
+
+      <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+        <div className="bg-neutral-100 rounded-lg shadow-2xl w-full max-w-[230mm] max-h-[95vh] overflow-y-auto">
+          <div className="no-print sticky top-0 bg-white border-b border-neutral-200 px-6 py-4 flex items-center justify-between z-10 rounded-t-lg">
+            <div>
+              <h2 className="text-lg font-semibold text-neutral-900">Algas lapiņa</h2>
+              <p className="text-sm text-neutral-500 mt-0.5">{payslip.employee_name} · {periodLabel}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handlePrint}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+              >
+                Drukāt
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors text-sm font-medium"
+              >
+                Aizvērt
+              </button>
+            </div>
+          </div>
+
+          <div className="receipt-print-area p-8">
+            <div className="receipt-content bg-white p-8 max-w-[210mm] mx-auto">
+              <div className="flex justify-between items-start mb-8">
+                <div className="flex items-start gap-4">
+                  <div className="w-16 h-16 bg-neutral-200 rounded flex items-center justify-center">
+                    <span className="text-2xl font-bold text-neutral-600">iS</span>
+                  </div>
+                  <div>
+                    <h1 className="text-xl font-bold text-neutral-900">iSupport</h1>
+                    <p className="text-sm text-neutral-600 mt-1">{locationName}</p>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <h2 className="text-2xl font-bold text-neutral-900">Algas lapiņa</h2>
+                  <p className="text-sm text-neutral-600 mt-1">Periods: {periodLabel}</p>
+                  <p className="text-sm text-neutral-600">Slēgts: {formatDate(run.closed_at)}</p>
+                </div>
+              </div>
+
+              <div className="mb-6">
+                <span className="text-xs font-semibold text-neutral-500 uppercase">Darbinieks</span>
+                <p className="text-lg font-semibold text-neutral-900 mt-1">{payslip.employee_name}</p>
+              </div>
+
+              <div className="border-t-2 border-b-2 border-neutral-300 py-6 mb-6 grid grid-cols-2 gap-x-8">
+                <div>
+                  <span className="text-xs font-semibold text-neutral-500 uppercase">Darba apjoms</span>
+                  <div className="mt-2">
+                    <div className="flex justify-between text-sm py-1">
+                      <span>Pasūtījumi</span>
+                      <span className="font-medium">{payslip.orders_count}</span>
+                    </div>
+                    {row('Darba ieņēmumi', Number(payslip.labor_total))}
+                    {payslip.bonus_basis && payslip.bonus_basis !== 'labor_revenue' && row(
+                      BONUS_BASIS_LABELS[payslip.bonus_basis as BonusBasis] || payslip.bonus_basis,
+                      Number(payslip.bonus_basis_amount)
+                    )}
+                    {row('Mērķis', Number(payslip.bonus_quota), 'text-neutral-600')}
+                    {payslip.bonus_scheme_name && (
+                      <p className="text-xs text-neutral-500 mt-1">Bonusu shēma: {payslip.bonus_scheme_name}</p>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-xs font-semibold text-neutral-500 uppercase">Izmaksa</span>
+                  <div className="mt-2">
+                    {row('Komisija', Number(payslip.commission_total))}
+                    {row('Bonuss', Number(payslip.bonus_amount))}
+                    {row('Kopā', Number(payslip.total_pay), 'border-t border-neutral-300 mt-1 pt-2 font-semibold')}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-between items-end mt-8 pt-6 border-t border-neutral-300">
+                <div className="text-center">
+                  <div className="border-t border-neutral-400 w-48 mb-1"></div>
+                  <p className="text-xs text-neutral-600">Darbinieks (Paraksts)</p>
+                </div>
+                <div className="text-center">
+                  <div className="border-t border-neutral-400 w-48 mb-1"></div>
+                  <p className="text-xs text-neutral-600">Vadītājs (Paraksts)</p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
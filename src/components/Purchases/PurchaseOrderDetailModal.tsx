@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
 import { X, Package, CheckCircle, Edit2, Save } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { reserveReceivedParts } from '../../lib/partRequests';
 import type { Database } from '../../lib/database.types';
 
 type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row'];
@@ -15,6 +16,11 @@ interface PurchaseOrderWithDetails extends PurchaseOrder {
 
 interface PurchaseOrderItemWithInventory extends PurchaseOrderItem {
   inventory?: InventoryItem;
+  order_items?: {
+    quantity: number;
+    stock_reserved: boolean;
+    order: { order_number: string } | null;
+  }[];
 }
 
 interface PurchaseOrderDetailModalProps {
@@ -25,7 +31,7 @@ interface PurchaseOrderDetailModalProps {
 }
 
 const carriers = ['DHL', 'FedEx', 'UPS', 'USPS', 'DPD', 'TNT', 'Другой'];
-const statuses = ['Pending', 'In Transit', 'Delivered', 'Delayed', 'Cancelled'];
+const statuses = ['Draft', 'Pending', 'In Transit', 'Delivered', 'Delayed', 'Cancelled'];
 
 export default function PurchaseOrderDetailModal({
   order,
@@ -52,7 +58,7 @@ export default function PurchaseOrderDetailModal({
   async function loadOrderItems() {
     const { data, error } = await supabase
       .from('purchase_order_items')
-      .select('*, inventory(*)')
+      .select('*, inventory(*), order_items(quantity, stock_reserved, order:orders(order_number))')
       .eq('purchase_order_id', order.id);
 
     if (!error && data) {
@@ -126,6 +132,7 @@ export default function PurchaseOrderDetailModal({
             inventory_id: item.inventory_id,
             movement_type: 'incoming',
             quantity: quantityToReceive,
+            cost_per_unit: item.unit_cost,
             reference_type: 'purchase_order',
             reference_number: order.order_number,
             notes: `Прием товара по заказу ${order.order_number}`,
@@ -145,7 +152,13 @@ export default function PurchaseOrderDetailModal({
 
       if (orderError) throw orderError;
 
-      alert('Все товары успешно приняты на склад!');
+      const { data: reservation, error: reserveError } = await reserveReceivedParts(order.id);
+      if (reserveError) throw reserveError;
+
+      alert(
+        'Все товары успешно приняты на склад!' +
+        (reservation?.reserved ? `\n\nЗарезервировано для ожидающих заказов: ${reservation.reserved} поз. (${reservation.orders} заказ.)` : '')
+      );
       onUpdate();
     } catch (error) {
       console.error('Error receiving items:', error);
@@ -369,6 +382,17 @@ export default function PurchaseOrderDetailModal({
                             <div className="text-xs text-neutral-500">
                               SKU: {item.inventory?.sku || '—'}
                             </div>
+                            {item.order_items && item.order_items.length > 0 && (
+                              <div className="text-xs text-amber-700 mt-0.5">
+                                Для заказов:{' '}
+                                {item.order_items.map((line, index) => (
+                                  <span key={index} className={line.stock_reserved ? 'text-green-600' : ''}>
+                                    {index > 0 && ', '}
+                                    {line.order?.order_number} × {line.quantity}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </td>
@@ -1,11 +1,12 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Plus, Package, Truck, Calendar, AlertCircle, CheckCircle, Clock, Search, ChevronDown } from 'lucide-react';
+import { Plus, Package, Truck, Calendar, AlertCircle, CheckCircle, Clock, Search, ChevronDown, ClipboardList } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLocation } from '../../contexts/LocationContext';
 import type { Database } from '../../lib/database.types';
 import NewPurchaseOrderModal from './NewPurchaseOrderModal';
 import PurchaseOrderDetailModal from './PurchaseOrderDetailModal';
+import ReorderPlannerModal from './ReorderPlannerModal';
 
 type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row'];
 type Supplier = Database['public']['Tables']['suppliers']['Row'];
@@ -22,6 +23,7 @@ export default function PurchasesList() {
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [loading, setLoading] = useState(true);
   const [showNewOrderModal, setShowNewOrderModal] = useState(false);
+  const [showReorderPlanner, setShowReorderPlanner] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<PurchaseOrderWithDetails | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
@@ -82,6 +84,8 @@ export default function PurchasesList() {
         return 'bg-blue-100 text-blue-700';
       case 'Pending':
         return 'bg-amber-100 text-amber-700';
+      case 'Draft':
+        return 'bg-violet-100 text-violet-700';
       case 'Delayed':
         return 'bg-red-100 text-red-700';
       case 'Cancelled':
@@ -118,6 +122,7 @@ export default function PurchasesList() {
 
   const statusCounts = {
     all: purchaseOrders.length,
+    Draft: purchaseOrders.filter(o => o.status === 'Draft').length,
     Pending: purchaseOrders.filter(o => o.status === 'Pending').length,
     'In Transit': purchaseOrders.filter(o => o.status === 'In Transit').length,
     Delivered: purchaseOrders.filter(o => o.status === 'Delivered').length,
@@ -132,13 +137,22 @@ export default function PurchasesList() {
             <h1 className="text-3xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 bg-clip-text text-transparent">Закупки</h1>
             <p className="text-sm text-slate-600 mt-2 font-medium">Управление заказами поставщикам</p>
           </div>
-          <button
-            onClick={() => setShowNewOrderModal(true)}
-            className="btn-primary flex items-center gap-2"
-          >
-            <Plus className="w-4 h-4" />
-            Новый заказ
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowReorderPlanner(true)}
+              className="px-4 py-2 bg-white/60 border border-slate-200 text-slate-700 rounded-xl hover:bg-white/80 transition-all font-semibold text-sm flex items-center gap-2"
+            >
+              <ClipboardList className="w-4 h-4" />
+              План закупок
+            </button>
+            <button
+              onClick={() => setShowNewOrderModal(true)}
+              className="btn-primary flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Новый заказ
+            </button>
+          </div>
         </div>
 
         <div className="flex items-center gap-4">
@@ -262,6 +276,17 @@ export default function PurchasesList() {
         />
       )}
 
+      {showReorderPlanner && (
+        <ReorderPlannerModal
+          onClose={() => setShowReorderPlanner(false)}
+          onSuccess={() => {
+            setShowReorderPlanner(false);
+            setStatusFilter('Draft');
+            loadPurchaseOrders();
+          }}
+        />
+      )}
+
       {selectedOrder && (
         <PurchaseOrderDetailModal
           order={selectedOrder}
@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X, RefreshCw, ClipboardList } from 'lucide-react';
+import { useLocation } from '../../contexts/LocationContext';
+import { handleSupabaseError, toast } from '../../lib/toast';
+import { createReorderPurchaseOrders, loadReorderSuggestions, type ReorderSuggestion } from '../../lib/reorder';
+
+interface ReorderPlannerModalProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+interface PlannedLine extends ReorderSuggestion {
+  selected: boolean;
+  order_quantity: number;
+}
+
+const HISTORY_WEEKS = [2, 4, 8, 12];
+
+export default function ReorderPlannerModal({ onClose, onSuccess }: ReorderPlannerModalProps) {
+  const { currentLocation } = useLocation();
+  const [weeks, setWeeks] = useState(4);
+  const [coverWeeks, setCoverWeeks] = useState(2);
+  const [lines, setLines] = useState<PlannedLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadSuggestions = useCallback(async () => {
+    if (!currentLocation) return;
+
+    setLoading(true);
+    const { data, error } = await loadReorderSuggestions(currentLocation.id, weeks, coverWeeks);
+    if (error) {
+      handleSupabaseError(error, 'Load reorder suggestions');
+    }
+    setLines(data.map(suggestion => ({
+      ...suggestion,
+      selected: true,
+      order_quantity: suggestion.suggested_quantity
+    })));
+    setLoading(false);
+  }, [currentLocation, weeks, coverWeeks]);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  function updateLine(inventoryId: string, changes: Partial<PlannedLine>) {
+    setLines(prev => prev.map(line => line.inventory_id === inventoryId ? { ...line, ...changes } : line));
+  }
+
+  const groups = lines.reduce<Array<{ key: string; name: string; lines: PlannedLine[] }>>((acc, line) => {
+    const key = line.supplier_id || 'none';
+    const group = acc.find(g => g.key === key);
+    if (group) {
+      group.lines.push(line);
+    } else {
+      acc.push({ key, name: line.supplier_name || 'Без поставщика', lines: [line] });
+    }
+    return acc;
+  }, []);
+
+  const selectedLines = lines.filter(line => line.selected && line.order_quantity > 0);
+  const selectedTotal = selectedLines.reduce((sum, line) => sum + line.order_quantity * line.unit_cost, 0);
+
+  async function handleCreate() {
+    if (!currentLocation || selectedLines.length === 0) return;
+
+    setSaving(true);
+    const { data, error } = await createReorderPurchaseOrders(
+      currentLocation.id,
+      selectedLines.map(line => ({
+        inventory_id: line.inventory_id,
+        quantity: line.order_quantity,
+        unit_cost: line.unit_cost
+      }))
+    );
+    setSaving(false);
+
+    if (error) {
+      handleSupabaseError(error, 'Create purchase orders');
+      return;
+    }
+
+    toast.success(`Черновики заказов: ${data?.purchase_orders || 0}, позиций: ${data?.lines || 0}`);
+    onSuccess();
+  }
+
+  function handleOverlayClick(e: React.MouseEvent<HTMLDivElement>) {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={handleOverlayClick}
+    >
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-neutral-200">
+          <div>
+            <h2 className="text-xl font-semibold text-neutral-900">План закупок</h2>
+            <p className="text-sm text-neutral-500 mt-0.5">
+              Товары, которых с учётом резервов и открытых заказов поставщикам не хватит до нормы остатка
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-neutral-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-neutral-200 flex items-center gap-6 text-sm">
+          <label className="flex items-center gap-2 text-neutral-700">
+            Расход за
+            <select
+              value={weeks}
+              onChange={(e) => setWeeks(parseInt(e.target.value))}
+              className="px-2 py-1.5 border border-neutral-200 rounded-lg bg-white"
+            >
+              {HISTORY_WEEKS.map(w => (
+                <option key={w} value={w}>{w} нед.</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-neutral-700">
+            Запас на
+            <input
+              type="number"
+              min={0}
+              max={26}
+              value={coverWeeks}
+              onChange={(e) => setCoverWeeks(Math.max(parseInt(e.target.value) || 0, 0))}
+              className="w-16 px-2 py-1.5 border border-neutral-200 rounded-lg"
+            />
+            нед.
+          </label>
+          <button
+            onClick={loadSuggestions}
+            className="ml-auto p-2 rounded-lg hover:bg-neutral-100 transition-colors"
+            title="Обновить"
+          >
+            <RefreshCw className="w-4 h-4 text-neutral-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          {loading ? (
+            <div className="text-center py-12 text-neutral-500">Загрузка...</div>
+          ) : groups.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-neutral-500">
+              <ClipboardList className="w-12 h-12 mb-3 text-neutral-400" />
+              <p className="font-medium">Пополнять нечего</p>
+              <p className="text-sm mt-1">Все товары выше точки заказа</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {groups.map(group => (
+                <div key={group.key} className="border border-neutral-200 rounded-lg overflow-hidden">
+                  <div className="px-4 py-2.5 bg-neutral-50 border-b border-neutral-200 flex items-center justify-between">
+                    <span className="font-medium text-neutral-900">{group.name}</span>
+                    <span className="text-sm text-neutral-600">
+                      €{group.lines
+                        .filter(line => line.selected)
+                        .reduce((sum, line) => sum + line.order_quantity * line.unit_cost, 0)
+                        .toFixed(2)}
+                    </span>
+                  </div>
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-xs text-neutral-500">
+                        <th className="w-10 px-4 py-2" />
+                        <th className="text-left px-2 py-2 font-medium">Товар</th>
+                        <th className="text-right px-2 py-2 font-medium">Доступно</th>
+                        <th className="text-right px-2 py-2 font-medium">В пути</th>
+                        <th className="text-right px-2 py-2 font-medium">Расход/нед.</th>
+                        <th className="text-right px-2 py-2 font-medium">Мин / Макс</th>
+                        <th className="text-right px-2 py-2 font-medium">Цена</th>
+                        <th className="text-right px-4 py-2 font-medium">Заказать</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.lines.map(line => (
+                        <tr key={line.inventory_id} className={`border-t border-neutral-100 ${line.selected ? '' : 'opacity-50'}`}>
+                          <td className="px-4 py-2">
+                            <input
+                              type="checkbox"
+                              checked={line.selected}
+                              onChange={(e) => updateLine(line.inventory_id, { selected: e.target.checked })}
+                              className="w-4 h-4 text-blue-600 rounded"
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <div className="text-sm text-neutral-900">{line.part_name}</div>
+                            <div className="text-xs text-neutral-500">
+                              {line.sku && <span>SKU: {line.sku} · </span>}
+                              на складе {line.quantity}, в резерве {line.reserved_quantity}
+                            </div>
+                          </td>
+                          <td className="px-2 py-2 text-right text-sm text-neutral-900">{line.available_quantity}</td>
+                          <td className="px-2 py-2 text-right text-sm text-neutral-700">{line.on_order || '—'}</td>
+                          <td className="px-2 py-2 text-right text-sm text-neutral-700">{Number(line.weekly_usage).toFixed(1)}</td>
+                          <td className="px-2 py-2 text-right text-sm text-neutral-700">
+                            {line.min_quantity} / {line.max_quantity ?? '—'}
+                          </td>
+                          <td className="px-2 py-2 text-right text-sm text-neutral-700">€{Number(line.unit_cost).toFixed(2)}</td>
+                          <td className="px-4 py-2 text-right">
+                            <input
+                              type="number"
+                              min={0}
+                              value={line.order_quantity}
+                              onChange={(e) => updateLine(line.inventory_id, { order_quantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                              className="w-20 px-2 py-1 border border-neutral-200 rounded-lg text-sm text-right"
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-neutral-200 bg-neutral-50">
+          <div className="text-sm text-neutral-600">
+            Позиций: {selectedLines.length} · €{selectedTotal.toFixed(2)}
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-neutral-700 hover:text-neutral-900 transition-colors"
+            >
+              Отмена
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving || selectedLines.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Создание...' : 'Создать черновики заказов'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,542 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, callRpc } from '../../lib/supabase';
+import { toast } from '../../lib/toast';
+import { X, Trash2, Package, Search, User } from 'lucide-react';
+import { useLocation } from '../../contexts/LocationContext';
+import InventoryUnitPicker from '../common/InventoryUnitPicker';
+import { UNIT_GRADE_LABELS, getUnitCode, type InventoryUnit } from '../../lib/inventoryUnits';
+import type { Database } from '../../lib/database.types';
+
+type InventoryItem = Database['public']['Tables']['inventory']['Row'];
+type Client = Database['public']['Tables']['clients']['Row'];
+
+type PaymentMethod = 'cash' | 'bank' | 'bs_cash';
+
+interface NewSaleModalProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+interface CartLine {
+  inventory_id: string;
+  inventory_item: InventoryItem;
+  unit?: InventoryUnit;
+  quantity: number;
+  unit_price: number;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+}
+
+interface CreateSaleArgs {
+  p_sale: Record<string, unknown>;
+}
+
+interface CreateSaleResult {
+  success: boolean;
+  sale_id?: string;
+  sale_number?: string;
+  error?: string;
+}
+
+const paymentMethods: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Касса' },
+  { value: 'bank', label: 'Банк/терминал' },
+  { value: 'bs_cash', label: 'БС Касса' },
+];
+
+function calculateLineDiscount(line: CartLine) {
+  const subtotal = line.unit_price * line.quantity;
+  return line.discount_type === 'percent'
+    ? subtotal * (Math.min(line.discount_value, 100) / 100)
+    : Math.min(line.discount_value, subtotal);
+}
+
+export default function NewSaleModal({ onClose, onSuccess }: NewSaleModalProps) {
+  const { currentLocation } = useLocation();
+  const [lines, setLines] = useState<CartLine[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [customerName, setCustomerName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [inventorySearch, setInventorySearch] = useState('');
+  const [inventoryResults, setInventoryResults] = useState<InventoryItem[]>([]);
+  const [showInventoryDropdown, setShowInventoryDropdown] = useState(false);
+  const [unitPickerItem, setUnitPickerItem] = useState<InventoryItem | null>(null);
+
+  const [clientSearch, setClientSearch] = useState('');
+  const [clientResults, setClientResults] = useState<Client[]>([]);
+  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+
+  const searchInventory = useCallback(async (query: string) => {
+    if (!currentLocation) return;
+
+    const { data, error } = await supabase
+      .from('inventory')
+      .select('*')
+      .eq('location_id', currentLocation.id)
+      .or(`part_name.ilike.%${query}%,sku.ilike.%${query}%,barcode.ilike.%${query}%`)
+      .gt('available_quantity', 0)
+      .order('part_name')
+      .limit(10);
+
+    if (!error && data) {
+      setInventoryResults(data);
+      setShowInventoryDropdown(data.length > 0);
+    }
+  }, [currentLocation]);
+
+  useEffect(() => {
+    if (inventorySearch.trim().length >= 2) {
+      searchInventory(inventorySearch.trim());
+    } else {
+      setInventoryResults([]);
+      setShowInventoryDropdown(false);
+    }
+  }, [inventorySearch, searchInventory]);
+
+  useEffect(() => {
+    if (!selectedClient && clientSearch.trim().length >= 2) {
+      searchClients(clientSearch.trim());
+    } else {
+      setClientResults([]);
+    }
+  }, [clientSearch, selectedClient]);
+
+  async function searchClients(query: string) {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('*')
+      .or(`full_name.ilike.%${query}%,phone.ilike.%${query}%`)
+      .order('full_name')
+      .limit(5);
+
+    if (!error && data) {
+      setClientResults(data);
+    }
+  }
+
+  function addInventoryItem(item: InventoryItem) {
+    if (item.is_serialized) {
+      setUnitPickerItem(item);
+      setInventorySearch('');
+      setShowInventoryDropdown(false);
+      return;
+    }
+
+    const existingIndex = lines.findIndex(line => line.inventory_id === item.id);
+    if (existingIndex >= 0) {
+      updateLine(existingIndex, { quantity: Math.min(lines[existingIndex].quantity + 1, item.available_quantity) });
+    } else {
+      setLines([
+        ...lines,
+        {
+          inventory_id: item.id,
+          inventory_item: item,
+          quantity: 1,
+          unit_price: Math.round(item.unit_cost * 1.5 * 100) / 100,
+          discount_type: 'percent',
+          discount_value: 0
+        }
+      ]);
+    }
+
+    setInventorySearch('');
+    setShowInventoryDropdown(false);
+  }
+
+  function addUnit(unit: InventoryUnit) {
+    if (!unitPickerItem) return;
+
+    setLines([
+      ...lines,
+      {
+        inventory_id: unitPickerItem.id,
+        inventory_item: unitPickerItem,
+        unit,
+        quantity: 1,
+        unit_price: Math.round(unit.cost * 1.5 * 100) / 100,
+        discount_type: 'percent',
+        discount_value: 0
+      }
+    ]);
+    setUnitPickerItem(null);
+  }
+
+  function updateLine(index: number, changes: Partial<CartLine>) {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  }
+
+  function removeLine(index: number) {
+    setLines(lines.filter((_, i) => i !== index));
+  }
+
+  function selectClient(client: Client) {
+    setSelectedClient(client);
+    setClientSearch(client.full_name);
+    setCustomerName(client.full_name);
+    setClientResults([]);
+  }
+
+  function clearClient() {
+    setSelectedClient(null);
+    setClientSearch('');
+    setCustomerName('');
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.unit_price * line.quantity, 0);
+  const totalDiscount = lines.reduce((sum, line) => sum + calculateLineDiscount(line), 0);
+  const totalAmount = subtotal - totalDiscount;
+  const hasStockProblem = lines.some(line => line.quantity > line.inventory_item.available_quantity);
+
+  async function handleSubmit() {
+    if (!currentLocation) return;
+
+    if (lines.length === 0) {
+      toast.error('Добавьте хотя бы один товар');
+      return;
+    }
+
+    if (hasStockProblem) {
+      toast.error('Недостаточно товара на складе');
+      return;
+    }
+
+    setSaving(true);
+
+    const { data, error } = await callRpc<CreateSaleResult, CreateSaleArgs>('create_sale', {
+      p_sale: {
+        location_id: currentLocation.id,
+        client_id: selectedClient?.id || null,
+        customer_name: customerName.trim() || null,
+        payment_method: paymentMethod,
+        notes: notes.trim() || null,
+        items: lines.map(line => ({
+          inventory_id: line.inventory_id,
+          inventory_unit_id: line.unit?.id || null,
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          discount_type: line.discount_type,
+          discount_value: line.discount_value
+        }))
+      }
+    });
+
+    setSaving(false);
+
+    if (error) {
+      console.error('Error creating sale:', error);
+      toast.error('Ошибка при создании продажи');
+      return;
+    }
+
+    const result = data as CreateSaleResult;
+    if (result.success) {
+      toast.success(`Продажа ${result.sale_number} оформлена`);
+      onSuccess();
+    } else {
+      toast.error(result.error || 'Ошибка при создании продажи');
+    }
+  }
+
+  function handleOverlayClick(e: React.MouseEvent<HTMLDivElement>) {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={handleOverlayClick}
+    >
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-neutral-200">
+          <h2 className="text-xl font-semibold text-neutral-900">Новая продажа</h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-neutral-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-2">
+              Товары *
+            </label>
+
+            <div className="relative mb-4">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+              <input
+                type="text"
+                value={inventorySearch}
+                onChange={(e) => setInventorySearch(e.target.value)}
+                placeholder="Название, штрихкод или SKU товара..."
+                className="w-full pl-10 pr-4 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+                autoFocus
+              />
+
+              {showInventoryDropdown && inventoryResults.length > 0 && (
+                <div className="absolute top-full left-0 right-0 mt-2 bg-white border border-neutral-200 rounded-lg shadow-xl z-50 max-h-60 overflow-y-auto">
+                  {inventoryResults.map((item) => (
+                    <button
+                      key={item.id}
+                      type="button"
+                      onClick={() => addInventoryItem(item)}
+                      className="w-full text-left px-4 py-3 hover:bg-fuchsia-50 transition-colors border-b border-neutral-100 last:border-0"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="text-sm font-medium text-neutral-900">{item.part_name}</div>
+                          <div className="text-xs text-neutral-500 mt-1">
+                            SKU: {item.sku || '—'} | Цена продажи: €{(item.unit_cost * 1.5).toFixed(2)}
+                          </div>
+                        </div>
+                        <div className="text-xs text-neutral-500">
+                          Доступно: {item.available_quantity} шт
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {lines.length === 0 ? (
+              <div className="text-center py-8 bg-neutral-50 rounded-lg border-2 border-dashed border-neutral-200">
+                <Package className="w-8 h-8 text-neutral-400 mx-auto mb-2" />
+                <p className="text-sm text-neutral-500">Добавьте товары в чек</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {lines.map((line, index) => (
+                  <div
+                    key={line.unit?.id || line.inventory_id}
+                    className="flex items-center gap-3 p-4 bg-neutral-50 rounded-lg border border-neutral-200"
+                  >
+                    <div className="flex-1">
+                      <div className="text-sm font-medium text-neutral-900">
+                        {line.inventory_item.part_name}
+                      </div>
+                      {line.unit ? (
+                        <div className="text-xs mt-1 text-neutral-500">
+                          <span className="font-mono">{getUnitCode(line.unit)}</span> · {UNIT_GRADE_LABELS[line.unit.grade]}
+                        </div>
+                      ) : (
+                        <div className={`text-xs mt-1 ${
+                          line.quantity > line.inventory_item.available_quantity ? 'text-red-600' : 'text-neutral-500'
+                        }`}>
+                          Доступно: {line.inventory_item.available_quantity} шт
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="w-20">
+                      <label className="block text-xs text-neutral-600 mb-1">Кол-во</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max={line.unit ? 1 : line.inventory_item.available_quantity}
+                        value={line.quantity}
+                        disabled={!!line.unit}
+                        onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 1 })}
+                        className="w-full px-2 py-1 border border-neutral-200 rounded text-sm focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+                      />
+                    </div>
+
+                    <div className="w-24">
+                      <label className="block text-xs text-neutral-600 mb-1">Цена за ед.</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unit_price}
+                        onChange={(e) => updateLine(index, { unit_price: parseFloat(e.target.value) || 0 })}
+                        className="w-full px-2 py-1 border border-neutral-200 rounded text-sm focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+                      />
+                    </div>
+
+                    <div className="w-32">
+                      <label className="block text-xs text-neutral-600 mb-1">Скидка</label>
+                      <div className="flex gap-1">
+                        <input
+                          type="number"
+                          min="0"
+                          max={line.discount_type === 'percent' ? 100 : undefined}
+                          step="0.01"
+                          value={line.discount_value}
+                          onChange={(e) => updateLine(index, { discount_value: parseFloat(e.target.value) || 0 })}
+                          className="w-full px-2 py-1 border border-neutral-200 rounded text-sm focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updateLine(index, {
+                            discount_type: line.discount_type === 'percent' ? 'fixed' : 'percent'
+                          })}
+                          className="px-2 py-1 border border-neutral-200 rounded text-xs font-medium text-neutral-700 hover:bg-white transition-colors"
+                        >
+                          {line.discount_type === 'percent' ? '%' : '€'}
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="w-24 text-right">
+                      <div className="text-xs text-neutral-600 mb-1">Сумма</div>
+                      <div className="text-sm font-medium text-neutral-900">
+                        €{(line.unit_price * line.quantity - calculateLineDiscount(line)).toFixed(2)}
+                      </div>
+                    </div>
+
+                    <button
+                      type="button"
+                      onClick={() => removeLine(index)}
+                      className="text-red-600 hover:text-red-700 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="relative">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  Клиент (необязательно)
+                </label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+                  <input
+                    type="text"
+                    value={clientSearch}
+                    onChange={(e) => {
+                      setSelectedClient(null);
+                      setClientSearch(e.target.value);
+                      setCustomerName(e.target.value);
+                    }}
+                    placeholder="Имя или телефон клиента"
+                    className="w-full pl-10 pr-10 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+                  />
+                  {clientSearch && (
+                    <button
+                      type="button"
+                      onClick={clearClient}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-neutral-400 hover:text-neutral-600"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {selectedClient && (
+                  <p className="text-xs text-green-600 mt-1">
+                    Продажа будет привязана к клиенту {selectedClient.phone}
+                  </p>
+                )}
+
+                {clientResults.length > 0 && (
+                  <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-neutral-200 rounded-lg shadow-xl z-50 max-h-48 overflow-y-auto">
+                    {clientResults.map((client) => (
+                      <button
+                        key={client.id}
+                        type="button"
+                        onClick={() => selectClient(client)}
+                        className="w-full text-left px-4 py-2 hover:bg-fuchsia-50 transition-colors border-b border-neutral-100 last:border-0"
+                      >
+                        <div className="text-sm font-medium text-neutral-900">{client.full_name}</div>
+                        <div className="text-xs text-neutral-500">{client.phone}</div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  Примечание (необязательно)
+                </label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                  placeholder="Дополнительная информация..."
+                  className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500 resize-none"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  Способ оплаты
+                </label>
+                <div className="space-y-2">
+                  {paymentMethods.map((method) => (
+                    <label
+                      key={method.value}
+                      className="flex items-center gap-3 p-3 border border-neutral-200 rounded-lg cursor-pointer hover:bg-neutral-50 transition-colors"
+                    >
+                      <input
+                        type="radio"
+                        name="sale-payment"
+                        value={method.value}
+                        checked={paymentMethod === method.value}
+                        onChange={() => setPaymentMethod(method.value)}
+                        className="w-4 h-4"
+                      />
+                      <span className="font-medium text-neutral-900">{method.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bg-neutral-50 rounded-xl p-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-neutral-600">Сумма</span>
+                  <span className="font-medium text-neutral-900">€{subtotal.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-neutral-600">Скидка</span>
+                  <span className="font-medium text-red-600">-€{totalDiscount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-lg font-bold border-t pt-2 mt-2">
+                  <span>Итого к оплате</span>
+                  <span className="text-green-700">€{totalAmount.toFixed(2)}</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-neutral-200 bg-neutral-50">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-neutral-700 hover:text-neutral-900 transition-colors"
+          >
+            Отмена
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving || lines.length === 0 || hasStockProblem}
+            className="px-4 py-2 bg-gradient-to-r from-fuchsia-500 to-pink-500 text-white rounded-lg hover:from-fuchsia-600 hover:to-pink-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Оформление...' : `Продать за €${totalAmount.toFixed(2)}`}
+          </button>
+        </div>
+      </div>
+
+      {unitPickerItem && (
+        <InventoryUnitPicker
+          item={unitPickerItem}
+          excludeUnitIds={lines.filter(line => line.unit).map(line => line.unit!.id)}
+          onSelect={addUnit}
+          onClose={() => setUnitPickerItem(null)}
+        />
+      )}
+    </div>
+  );
+}
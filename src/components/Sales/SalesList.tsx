@@ -1,122 +1,100 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Fragment } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Plus, ShoppingCart, Calendar, DollarSign, Package, Search, Filter, X } from 'lucide-react';
-import { useAuth } from '../../contexts/AuthContext';
+import { Plus, ShoppingCart, Calendar, DollarSign, Package, Search, Filter, X, ChevronDown, ChevronRight } from 'lucide-react';
 import { useLocation } from '../../contexts/LocationContext';
 import type { Database } from '../../lib/database.types';
+import NewSaleModal from './NewSaleModal';
 
-type InventoryItem = Database['public']['Tables']['inventory']['Row'];
+type SaleRow = Database['public']['Tables']['sales']['Row'];
+type SaleItem = Database['public']['Tables']['sale_items']['Row'];
 
-interface Sale {
-  id: string;
-  item_id: string;
-  quantity: number;
-  sale_price: number;
-  total_amount: number;
-  customer_name: string | null;
-  notes: string | null;
-  created_at: string;
-  user_id: string;
-  item?: InventoryItem;
+interface Sale extends SaleRow {
+  client?: {
+    full_name: string;
+    phone: string;
+  } | null;
+  items?: SaleItem[];
 }
 
+const paymentMethodLabels: Record<string, string> = {
+  cash: 'Касса',
+  bank: 'Банк/терминал',
+  bs_cash: 'БС Касса',
+};
+
 export default function SalesList() {
-  const { profile } = useAuth();
   const { currentLocation } = useLocation();
   const [sales, setSales] = useState<Sale[]>([]);
-  const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
   const [showNewSale, setShowNewSale] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
-
-  const [selectedItemId, setSelectedItemId] = useState('');
-  const [quantity, setQuantity] = useState(1);
-  const [salePrice, setSalePrice] = useState('');
-  const [customerName, setCustomerName] = useState('');
-  const [notes, setNotes] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [paymentFilter, setPaymentFilter] = useState('');
+  const [expandedSaleId, setExpandedSaleId] = useState<string | null>(null);
 
   useEffect(() => {
     if (currentLocation) {
-      loadData();
+      loadSales();
     }
-  }, [currentLocation]);
+  }, [currentLocation, dateFrom, dateTo, paymentFilter]);
 
-  async function loadData() {
+  async function loadSales() {
     if (!currentLocation) return;
 
     setLoading(true);
-    await Promise.all([loadSales(), loadInventory()]);
-    setLoading(false);
-  }
-
-  async function loadSales() {
-    if (!currentLocation) return;
 
-    const { data } = await supabase
-      .from('inventory')
-      .select('*')
+    let query = supabase
+      .from('sales')
+      .select(`
+        *,
+        client:clients(full_name, phone),
+        items:sale_items(*)
+      `)
       .eq('location_id', currentLocation.id)
       .order('created_at', { ascending: false });
 
-    if (data) {
-      setSales([]);
+    if (dateFrom) {
+      query = query.gte('created_at', new Date(`${dateFrom}T00:00:00`).toISOString());
     }
-  }
-
-  async function loadInventory() {
-    if (!currentLocation) return;
-
-    const { data } = await supabase
-      .from('inventory')
-      .select('*')
-      .eq('location_id', currentLocation.id)
-      .gt('quantity', 0)
-      .order('part_name');
-
-    if (data) {
-      setInventoryItems(data);
+    if (dateTo) {
+      query = query.lte('created_at', new Date(`${dateTo}T23:59:59`).toISOString());
     }
-  }
-
-  async function handleCreateSale() {
-    if (!profile || !selectedItemId || quantity <= 0 || !salePrice) return;
-
-    const selectedItem = inventoryItems.find(item => item.id === selectedItemId);
-    if (!selectedItem || selectedItem.quantity < quantity) {
-      alert('Недостаточно товара на складе');
-      return;
+    if (paymentFilter) {
+      query = query.eq('payment_method', paymentFilter);
     }
 
-    const totalAmount = parseFloat(salePrice) * quantity;
+    const { data, error } = await query;
 
-    setShowNewSale(false);
-    resetForm();
-    loadData();
-  }
+    if (error) {
+      console.error('Error loading sales:', error);
+    } else if (data) {
+      setSales(data);
+    }
 
-  function resetForm() {
-    setSelectedItemId('');
-    setQuantity(1);
-    setSalePrice('');
-    setCustomerName('');
-    setNotes('');
+    setLoading(false);
   }
 
-  function handleItemChange(itemId: string) {
-    setSelectedItemId(itemId);
-    const item = inventoryItems.find(i => i.id === itemId);
-    if (item && item.price) {
-      setSalePrice(item.price.toString());
-    }
+  function resetFilters() {
+    setDateFrom('');
+    setDateTo('');
+    setPaymentFilter('');
   }
 
+  const search = searchTerm.toLowerCase();
   const filteredSales = sales.filter(sale =>
-    sale.customer_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    sale.item?.name.toLowerCase().includes(searchTerm.toLowerCase())
+    !search ||
+    sale.sale_number.toLowerCase().includes(search) ||
+    sale.customer_name?.toLowerCase().includes(search) ||
+    sale.client?.full_name.toLowerCase().includes(search) ||
+    sale.client?.phone.includes(search) ||
+    sale.items?.some(item => item.name.toLowerCase().includes(search))
   );
 
-  const totalRevenue = sales.reduce((sum, sale) => sum + sale.total_amount, 0);
-  const totalSales = sales.length;
+  const totalRevenue = filteredSales.reduce((sum, sale) => sum + sale.total_amount, 0);
+  const totalSales = filteredSales.length;
+  const hasActiveFilters = Boolean(dateFrom || dateTo || paymentFilter);
 
   return (
     <div className="p-6 max-w-7xl mx-auto">
@@ -142,7 +120,7 @@ export default function SalesList() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-xs font-medium text-green-600 mb-1">Общая выручка</p>
-                <p className="text-2xl font-bold text-green-900">{totalRevenue.toLocaleString('ru-RU')} ₽</p>
+                <p className="text-2xl font-bold text-green-900">€{totalRevenue.toFixed(2)}</p>
               </div>
               <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
                 <DollarSign className="w-6 h-6 text-green-600" />
@@ -167,7 +145,7 @@ export default function SalesList() {
               <div>
                 <p className="text-xs font-medium text-purple-600 mb-1">Средний чек</p>
                 <p className="text-2xl font-bold text-purple-900">
-                  {totalSales > 0 ? Math.round(totalRevenue / totalSales).toLocaleString('ru-RU') : 0} ₽
+                  €{totalSales > 0 ? (totalRevenue / totalSales).toFixed(2) : '0.00'}
                 </p>
               </div>
               <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center">
@@ -184,15 +162,65 @@ export default function SalesList() {
               type="text"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
-              placeholder="Поиск по клиенту или товару..."
+              placeholder="Поиск по номеру, клиенту или товару..."
               className="w-full pl-10 pr-4 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
             />
           </div>
-          <button className="px-4 py-2 border border-neutral-200 rounded-lg hover:bg-neutral-50 transition-colors flex items-center gap-2">
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`px-4 py-2 border rounded-lg transition-colors flex items-center gap-2 ${
+              hasActiveFilters ? 'border-fuchsia-300 bg-fuchsia-50' : 'border-neutral-200 hover:bg-neutral-50'
+            }`}
+          >
             <Filter className="w-4 h-4 text-neutral-600" />
             <span className="text-sm text-neutral-600">Фильтры</span>
           </button>
         </div>
+
+        {showFilters && (
+          <div className="flex flex-wrap items-end gap-3 p-4 bg-neutral-50 rounded-lg border border-neutral-200">
+            <div>
+              <label className="block text-xs font-medium text-neutral-600 mb-1">С даты</label>
+              <input
+                type="date"
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="px-3 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-neutral-600 mb-1">По дату</label>
+              <input
+                type="date"
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="px-3 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-neutral-600 mb-1">Способ оплаты</label>
+              <select
+                value={paymentFilter}
+                onChange={(e) => setPaymentFilter(e.target.value)}
+                className="px-3 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+              >
+                <option value="">Все</option>
+                {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {hasActiveFilters && (
+              <button
+                onClick={resetFilters}
+                className="px-3 py-2 text-sm text-neutral-600 hover:text-neutral-900 flex items-center gap-1"
+              >
+                <X className="w-4 h-4" />
+                Сбросить
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {loading ? (
@@ -219,44 +247,82 @@ export default function SalesList() {
             <table className="w-full">
               <thead className="bg-neutral-50 border-b border-neutral-200">
                 <tr>
+                  <th className="w-8 px-4 py-3"></th>
                   <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600">Дата</th>
-                  <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600">Товар</th>
+                  <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600">Номер</th>
+                  <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600">Товары</th>
                   <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600">Клиент</th>
-                  <th className="text-right px-4 py-3 text-xs font-medium text-neutral-600">Количество</th>
-                  <th className="text-right px-4 py-3 text-xs font-medium text-neutral-600">Цена</th>
+                  <th className="text-left px-4 py-3 text-xs font-medium text-neutral-600">Оплата</th>
+                  <th className="text-right px-4 py-3 text-xs font-medium text-neutral-600">Скидка</th>
                   <th className="text-right px-4 py-3 text-xs font-medium text-neutral-600">Сумма</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-neutral-200">
                 {filteredSales.map((sale) => (
-                  <tr key={sale.id} className="hover:bg-neutral-50 transition-colors">
-                    <td className="px-4 py-3 text-xs text-neutral-600">
-                      <div className="flex items-center gap-1.5">
-                        <Calendar className="w-3.5 h-3.5 text-neutral-400" />
-                        {new Date(sale.created_at).toLocaleDateString('ru-RU')}
-                      </div>
-                    </td>
-                    <td className="px-4 py-3">
-                      <div className="text-xs font-medium text-neutral-900">
-                        {sale.item?.name || 'Удаленный товар'}
-                      </div>
-                      {sale.notes && (
-                        <div className="text-xs text-neutral-500 mt-0.5">{sale.notes}</div>
-                      )}
-                    </td>
-                    <td className="px-4 py-3 text-xs text-neutral-600">
-                      {sale.customer_name || '—'}
-                    </td>
-                    <td className="px-4 py-3 text-xs text-neutral-900 text-right font-medium">
-                      {sale.quantity} шт.
-                    </td>
-                    <td className="px-4 py-3 text-xs text-neutral-900 text-right">
-                      {sale.sale_price.toLocaleString('ru-RU')} ₽
-                    </td>
-                    <td className="px-4 py-3 text-xs font-semibold text-green-600 text-right">
-                      {sale.total_amount.toLocaleString('ru-RU')} ₽
-                    </td>
-                  </tr>
+                  <Fragment key={sale.id}>
+                    <tr
+                      onClick={() => setExpandedSaleId(expandedSaleId === sale.id ? null : sale.id)}
+                      className="hover:bg-neutral-50 transition-colors cursor-pointer"
+                    >
+                      <td className="px-4 py-3 text-neutral-400">
+                        {expandedSaleId === sale.id
+                          ? <ChevronDown className="w-4 h-4" />
+                          : <ChevronRight className="w-4 h-4" />}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-neutral-600">
+                        <div className="flex items-center gap-1.5">
+                          <Calendar className="w-3.5 h-3.5 text-neutral-400" />
+                          {new Date(sale.created_at).toLocaleString('ru-RU')}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-xs font-medium text-neutral-900">
+                        {sale.sale_number}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="text-xs font-medium text-neutral-900">
+                          {sale.items?.map(item => item.name).join(', ') || '—'}
+                        </div>
+                        {sale.notes && (
+                          <div className="text-xs text-neutral-500 mt-0.5">{sale.notes}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-neutral-600">
+                        {sale.client?.full_name || sale.customer_name || '—'}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-neutral-600">
+                        {paymentMethodLabels[sale.payment_method] || sale.payment_method}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-red-600 text-right">
+                        {sale.total_discount > 0 ? `-€${sale.total_discount.toFixed(2)}` : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-xs font-semibold text-green-600 text-right">
+                        €{sale.total_amount.toFixed(2)}
+                      </td>
+                    </tr>
+                    {expandedSaleId === sale.id && (
+                      <tr className="bg-neutral-50">
+                        <td></td>
+                        <td colSpan={7} className="px-4 py-3">
+                          <table className="w-full">
+                            <tbody>
+                              {sale.items?.map((item) => (
+                                <tr key={item.id}>
+                                  <td className="py-1 text-xs text-neutral-900">{item.name}</td>
+                                  <td className="py-1 text-xs text-neutral-600 text-right">{item.quantity} шт. × €{item.unit_price.toFixed(2)}</td>
+                                  <td className="py-1 text-xs text-neutral-500 text-right">
+                                    {item.discount_value > 0
+                                      ? `скидка ${item.discount_value}${item.discount_type === 'percent' ? '%' : ' €'}`
+                                      : ''}
+                                  </td>
+                                  <td className="py-1 text-xs font-medium text-neutral-900 text-right">€{item.total_price.toFixed(2)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 ))}
               </tbody>
             </table>
@@ -265,124 +331,13 @@ export default function SalesList() {
       )}
 
       {showNewSale && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-xl max-w-md w-full p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-neutral-900">Новая продажа</h3>
-              <button
-                onClick={() => {
-                  setShowNewSale(false);
-                  resetForm();
-                }}
-                className="w-8 h-8 rounded-lg hover:bg-neutral-100 flex items-center justify-center"
-              >
-                <X className="w-5 h-5 text-neutral-500" />
-              </button>
-            </div>
-
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-neutral-700 mb-1.5">
-                  Выберите товар
-                </label>
-                <select
-                  value={selectedItemId}
-                  onChange={(e) => handleItemChange(e.target.value)}
-                  className="w-full px-3 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
-                >
-                  <option value="">Выберите товар...</option>
-                  {inventoryItems.map((item) => (
-                    <option key={item.id} value={item.id}>
-                      {item.name} (В наличии: {item.quantity} шт.)
-                    </option>
-                  ))}
-                </select>
-              </div>
-
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label className="block text-sm font-medium text-neutral-700 mb-1.5">
-                    Количество
-                  </label>
-                  <input
-                    type="number"
-                    min="1"
-                    value={quantity}
-                    onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
-                    className="w-full px-3 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-neutral-700 mb-1.5">
-                    Цена продажи
-                  </label>
-                  <input
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={salePrice}
-                    onChange={(e) => setSalePrice(e.target.value)}
-                    placeholder="0.00"
-                    className="w-full px-3 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
-                  />
-                </div>
-              </div>
-
-              {salePrice && quantity > 0 && (
-                <div className="bg-green-50 border border-green-200 rounded-lg p-3">
-                  <p className="text-xs text-green-600 mb-1">Итого к оплате:</p>
-                  <p className="text-xl font-bold text-green-900">
-                    {(parseFloat(salePrice) * quantity).toLocaleString('ru-RU')} ₽
-                  </p>
-                </div>
-              )}
-
-              <div>
-                <label className="block text-sm font-medium text-neutral-700 mb-1.5">
-                  Покупатель (необязательно)
-                </label>
-                <input
-                  type="text"
-                  value={customerName}
-                  onChange={(e) => setCustomerName(e.target.value)}
-                  placeholder="Имя покупателя"
-                  className="w-full px-3 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-neutral-700 mb-1.5">
-                  Примечание (необязательно)
-                </label>
-                <textarea
-                  value={notes}
-                  onChange={(e) => setNotes(e.target.value)}
-                  placeholder="Дополнительная информация..."
-                  className="w-full px-3 py-2 text-sm border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-fuchsia-500 h-20 resize-none"
-                />
-              </div>
-
-              <div className="flex gap-3 pt-2">
-                <button
-                  onClick={() => {
-                    setShowNewSale(false);
-                    resetForm();
-                  }}
-                  className="flex-1 px-4 py-2 text-sm border border-neutral-200 rounded-lg hover:bg-neutral-50 transition-colors"
-                >
-                  Отмена
-                </button>
-                <button
-                  onClick={handleCreateSale}
-                  disabled={!selectedItemId || quantity <= 0 || !salePrice}
-                  className="flex-1 px-4 py-2 text-sm bg-gradient-to-r from-fuchsia-500 to-pink-500 text-white rounded-lg hover:from-fuchsia-600 hover:to-pink-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Продать
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+        <NewSaleModal
+          onClose={() => setShowNewSale(false)}
+          onSuccess={() => {
+            setShowNewSale(false);
+            loadSales();
+          }}
+        />
       )}
     </div>
   );
@@ -1,6 +1,12 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Plug, Key, Plus, Eye, EyeOff, X, Trash2 } from 'lucide-react';
+import { Plug, Key, Plus, Eye, EyeOff, X, Trash2, Bell, Download } from 'lucide-react';
+import {
+  clearNotificationOutbox,
+  downloadNotificationOutbox,
+  getNotificationProviders,
+  getOutboxSize
+} from '../../lib/notifications';
 
 interface APIKey {
   id: string;
@@ -18,6 +24,8 @@ export default function APIIntegrations() {
   const [serviceName, setServiceName] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [showKeys, setShowKeys] = useState<Record<string, boolean>>({});
+  const [notificationProvider, setNotificationProvider] = useState('console');
+  const [outboxSize, setOutboxSize] = useState(0);
 
   const availableServices = [
     { value: 'imeidb', label: 'IMEI Database', description: 'Поиск устройств по IMEI' },
@@ -30,8 +38,38 @@ export default function APIIntegrations() {
 
   useEffect(() => {
     loadAPIKeys();
+    loadNotificationProvider();
+    setOutboxSize(getOutboxSize());
   }, []);
 
+  async function loadNotificationProvider() {
+    const { data } = await supabase
+      .from('system_settings')
+      .select('value')
+      .eq('key', 'notification_provider')
+      .maybeSingle();
+    if (data) setNotificationProvider((data as { value: { provider?: string } }).value.provider || 'console');
+  }
+
+  async function handleProviderChange(provider: string) {
+    setNotificationProvider(provider);
+    await supabase
+      .from('system_settings')
+      .upsert({
+        key: 'notification_provider',
+        value: { provider },
+        category: 'notifications',
+        description: 'Провайдер уведомлений клиентам',
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'key' });
+  }
+
+  function handleClearOutbox() {
+    if (!confirm('Очистить локальный outbox?')) return;
+    clearNotificationOutbox();
+    setOutboxSize(0);
+  }
+
   async function loadAPIKeys() {
     setLoading(true);
     const { data } = await supabase
@@ -180,6 +218,47 @@ export default function APIIntegrations() {
         </div>
       )}
 
+      <div className="mt-6 border border-neutral-200 rounded-lg p-4">
+        <div className="flex items-center gap-2 mb-1">
+          <Bell className="w-4 h-4 text-blue-600" />
+          <h3 className="text-sm font-semibold text-neutral-900">Уведомления клиентам</h3>
+        </div>
+        <p className="text-xs text-neutral-500 mb-3">
+          Шаблоны задаются для каждого статуса заказа. Все сообщения записываются в историю коммуникаций клиента.
+        </p>
+        <div className="flex items-center gap-3">
+          <select
+            value={notificationProvider}
+            onChange={(e) => handleProviderChange(e.target.value)}
+            className="flex-1 px-3 py-2 border border-neutral-200 rounded-lg text-sm"
+          >
+            {getNotificationProviders().map((provider) => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+            <option value="disabled">Отключено</option>
+          </select>
+          {notificationProvider === 'file' && (
+            <>
+              <button
+                onClick={downloadNotificationOutbox}
+                disabled={outboxSize === 0}
+                className="px-3 py-2 border border-neutral-200 rounded-lg text-sm hover:bg-neutral-50 disabled:opacity-50 flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Outbox ({outboxSize})
+              </button>
+              <button
+                onClick={handleClearOutbox}
+                disabled={outboxSize === 0}
+                className="px-3 py-2 border border-neutral-200 rounded-lg text-sm hover:bg-neutral-50 disabled:opacity-50"
+              >
+                Очистить
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
       <div className="mt-6 p-4 bg-purple-50 border border-purple-200 rounded-lg">
         <div className="flex items-start gap-3">
           <Key className="w-5 h-5 text-purple-600 flex-shrink-0 mt-0.5" />
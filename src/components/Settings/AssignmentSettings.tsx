@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { handleSupabaseError, toast } from '../../lib/toast';
+import { useLocation } from '../../contexts/LocationContext';
+import { AUTO_ASSIGN_RULES, loadAutoAssignRule, saveAutoAssignRule, type AutoAssignRule } from '../../lib/workload';
+import type { Database } from '../../lib/database.types';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type RepairType = Database['public']['Tables']['repair_types']['Row'];
+
+export default function AssignmentSettings() {
+  const { currentLocation } = useLocation();
+  const [rule, setRule] = useState<AutoAssignRule>('off');
+  const [technicians, setTechnicians] = useState<Profile[]>([]);
+  const [repairTypes, setRepairTypes] = useState<RepairType[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    let techniciansQuery = supabase
+      .from('profiles')
+      .select('*')
+      .eq('role', 'technician')
+      .order('full_name');
+
+    if (currentLocation) {
+      techniciansQuery = techniciansQuery.eq('location_id', currentLocation.id);
+    }
+
+    const [currentRule, techniciansRes, repairTypesRes] = await Promise.all([
+      loadAutoAssignRule(),
+      techniciansQuery,
+      supabase.from('repair_types').select('*').eq('is_active', true).order('name')
+    ]);
+
+    setRule(currentRule);
+    if (techniciansRes.data) setTechnicians(techniciansRes.data);
+    if (repairTypesRes.data) setRepairTypes(repairTypesRes.data);
+    setLoading(false);
+  }, [currentLocation]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  async function handleRuleChange(value: AutoAssignRule) {
+    const previous = rule;
+    setRule(value);
+    const { error } = await saveAutoAssignRule(value);
+    if (error) {
+      setRule(previous);
+      handleSupabaseError(error, 'Save auto-assign rule');
+      return;
+    }
+    toast.success('Правило распределения сохранено');
+  }
+
+  async function toggleSkill(technician: Profile, repairTypeId: string) {
+    const current = technician.repair_type_ids || [];
+    const repairTypeIds = current.includes(repairTypeId)
+      ? current.filter(id => id !== repairTypeId)
+      : [...current, repairTypeId];
+
+    setTechnicians(prev => prev.map(t => t.id === technician.id ? { ...t, repair_type_ids: repairTypeIds } : t));
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ repair_type_ids: repairTypeIds })
+      .eq('id', technician.id);
+
+    if (error) {
+      setTechnicians(prev => prev.map(t => t.id === technician.id ? { ...t, repair_type_ids: current } : t));
+      handleSupabaseError(error, 'Update technician skills');
+    }
+  }
+
+  if (loading) {
+    return <div className="text-center py-8 text-neutral-500">Загрузка...</div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-lg font-semibold text-neutral-900">Распределение заказов</h2>
+        <p className="text-sm text-neutral-500 mt-1">
+          Кому назначается новый заказ, если мастер не выбран при приёме
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-4">
+          {AUTO_ASSIGN_RULES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => handleRuleChange(option.value)}
+              className={`text-left p-4 rounded-lg border-2 transition-all ${
+                rule === option.value
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-neutral-200 hover:border-neutral-300'
+              }`}
+            >
+              <p className="text-sm font-semibold text-neutral-900">{option.label}</p>
+              <p className="text-xs text-neutral-500 mt-1">{option.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-base font-semibold text-neutral-900">Навыки мастеров</h3>
+        <p className="text-sm text-neutral-500 mt-1">
+          Типы ремонта, которые выполняет мастер. Используются правилом «По навыкам».
+        </p>
+
+        {technicians.length === 0 ? (
+          <p className="text-sm text-neutral-500 mt-4">В этой локации нет сотрудников с ролью мастера</p>
+        ) : repairTypes.length === 0 ? (
+          <p className="text-sm text-neutral-500 mt-4">Типы ремонта не настроены</p>
+        ) : (
+          <div className="mt-4 space-y-3">
+            {technicians.map(technician => (
+              <div key={technician.id} className="p-4 border border-neutral-200 rounded-lg">
+                <p className="text-sm font-medium text-neutral-900 mb-2">{technician.full_name}</p>
+                <div className="flex flex-wrap gap-2">
+                  {repairTypes.map(repairType => {
+                    const active = (technician.repair_type_ids || []).includes(repairType.id);
+                    return (
+                      <button
+                        key={repairType.id}
+                        onClick={() => toggleSkill(technician, repairType.id)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                          active
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-neutral-600 border-neutral-200 hover:border-blue-300'
+                        }`}
+                      >
+                        {repairType.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import { DollarSign, Save } from 'lucide-react';
+import { DollarSign, Layers, Save } from 'lucide-react';
+import { COSTING_METHODS, type CostingMethod } from '../../lib/costLayers';
 
 interface SystemSetting {
   key: string;
@@ -14,6 +15,7 @@ export default function FinanceSettings() {
   const [vatRate, setVatRate] = useState(21);
   const [vatEnabled, setVatEnabled] = useState(true);
   const [cashBalance, setCashBalance] = useState(0);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>('fifo');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -26,7 +28,7 @@ export default function FinanceSettings() {
     const { data } = await supabase
       .from('system_settings')
       .select('*')
-      .in('key', ['currency', 'vat_rate', 'cash_balance']);
+      .in('key', ['currency', 'vat_rate', 'cash_balance', 'inventory_costing']);
 
     if (data) {
       data.forEach((setting) => {
@@ -37,6 +39,8 @@ export default function FinanceSettings() {
           setVatEnabled(setting.value.enabled !== false);
         } else if (setting.key === 'cash_balance') {
           setCashBalance(setting.value.amount || 0);
+        } else if (setting.key === 'inventory_costing') {
+          setCostingMethod(setting.value.method || 'fifo');
         }
       });
     }
@@ -64,6 +68,12 @@ export default function FinanceSettings() {
         value: { amount: cashBalance },
         category: 'finance',
         description: 'Начальный баланс кассы'
+      },
+      {
+        key: 'inventory_costing',
+        value: { method: costingMethod },
+        category: 'finance',
+        description: 'Метод оценки себестоимости склада'
       }
     ];
 
@@ -172,7 +182,34 @@ export default function FinanceSettings() {
                 className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
               <p className="text-xs text-neutral-500 mt-1.5">
-                Установите начальную сумму в кассе для корректного учета
+                Размен для первой смены. Следующие смены начинаются с суммы, посчитанной при закрытии предыдущей (раздел «Касса»)
+              </p>
+            </div>
+          </div>
+
+          <div className="border border-neutral-200 rounded-lg p-5">
+            <h3 className="text-sm font-semibold text-neutral-900 mb-4 flex items-center gap-2">
+              <Layers className="w-4 h-4" />
+              Себестоимость склада
+            </h3>
+            <div className="space-y-3">
+              {COSTING_METHODS.map(method => (
+                <label key={method.value} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="costing_method"
+                    checked={costingMethod === method.value}
+                    onChange={() => setCostingMethod(method.value)}
+                    className="mt-0.5 w-4 h-4 text-blue-600 border-neutral-300 focus:ring-blue-500"
+                  />
+                  <div>
+                    <div className="text-sm font-medium text-neutral-900">{method.label}</div>
+                    <div className="text-xs text-neutral-500">{method.description}</div>
+                  </div>
+                </label>
+              ))}
+              <p className="text-xs text-neutral-500">
+                Каждое поступление на склад создаёт партию со своей ценой закупки. Смена метода применяется к следующим списаниям; уже закрытые заказы не пересчитываются
               </p>
             </div>
           </div>
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
+import { REQUIRED_FIELD_OPTIONS, STAGE_KINDS, type StageKind } from '../../lib/orderStages';
+import { NOTIFICATION_CHANNELS, TEMPLATE_PLACEHOLDERS, type NotificationChannel } from '../../lib/notifications';
 import { List, Plus, Edit, Trash2, ArrowLeft, X, GripVertical } from 'lucide-react';
 
 type MasterDataType = 'order_stages' | 'repair_types' | 'services' | 'traffic_sources';
@@ -9,6 +11,16 @@ interface OrderStage {
   name: string;
   position: number;
   color: string | null;
+  kind: StageKind;
+  allowed_next_stage_ids: string[] | null;
+  required_fields: string[];
+}
+
+interface StageTemplate {
+  id?: string;
+  subject: string;
+  body: string;
+  is_active: boolean;
 }
 
 interface RepairType {
@@ -103,6 +115,12 @@ function OrderStagesManager({ onBack }: { onBack: () => void }) {
   const [editingStage, setEditingStage] = useState<OrderStage | null>(null);
   const [stageName, setStageName] = useState('');
   const [stageColor, setStageColor] = useState('blue');
+  const [stageKind, setStageKind] = useState<StageKind>('open');
+  const [restrictTransitions, setRestrictTransitions] = useState(false);
+  const [allowedNextStageIds, setAllowedNextStageIds] = useState<string[]>([]);
+  const [requiredFields, setRequiredFields] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<Partial<Record<NotificationChannel, StageTemplate>>>({});
+  const [templatedStageIds, setTemplatedStageIds] = useState<string[]>([]);
 
   const colors = [
     { value: 'blue', label: 'Синий', class: 'bg-blue-500' },
@@ -125,29 +143,105 @@ function OrderStagesManager({ onBack }: { onBack: () => void }) {
       .select('*')
       .order('position');
     if (data) setStages(data);
+
+    const { data: templateRows } = await supabase
+      .from('notification_templates')
+      .select('stage_id')
+      .eq('is_active', true);
+    setTemplatedStageIds((templateRows || []).map((t: { stage_id: string }) => t.stage_id));
     setLoading(false);
   }
 
+  async function loadTemplates(stageId: string) {
+    const { data } = await supabase
+      .from('notification_templates')
+      .select('*')
+      .eq('stage_id', stageId);
+
+    const byChannel: Partial<Record<NotificationChannel, StageTemplate>> = {};
+    (data || []).forEach((t: { id: string; channel: NotificationChannel; subject: string | null; body: string; is_active: boolean }) => {
+      byChannel[t.channel] = { id: t.id, subject: t.subject || '', body: t.body, is_active: t.is_active };
+    });
+    setTemplates(byChannel);
+  }
+
+  function updateTemplate(channel: NotificationChannel, changes: Partial<StageTemplate>) {
+    setTemplates(prev => ({
+      ...prev,
+      [channel]: { subject: '', body: '', is_active: true, ...prev[channel], ...changes },
+    }));
+  }
+
+  async function saveTemplates(stageId: string) {
+    for (const { value: channel } of NOTIFICATION_CHANNELS) {
+      const template = templates[channel];
+      if (!template) continue;
+
+      if (!template.body.trim()) {
+        if (template.id) {
+          await supabase.from('notification_templates').delete().eq('id', template.id);
+        }
+        continue;
+      }
+
+      await supabase
+        .from('notification_templates')
+        .upsert({
+          stage_id: stageId,
+          channel,
+          subject: template.subject.trim() || null,
+          body: template.body.trim(),
+          is_active: template.is_active,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'stage_id,channel' });
+    }
+  }
+
   async function handleSave() {
     if (!stageName.trim()) return;
 
+    const stageData = {
+      name: stageName.trim(),
+      color: stageColor,
+      kind: stageKind,
+      allowed_next_stage_ids: restrictTransitions ? allowedNextStageIds : null,
+      required_fields: requiredFields,
+    };
+
     if (editingStage) {
       await supabase
         .from('order_stages')
-        .update({ name: stageName.trim(), color: stageColor })
+        .update(stageData)
         .eq('id', editingStage.id);
+      await saveTemplates(editingStage.id);
     } else {
       const maxPosition = stages.length > 0 ? Math.max(...stages.map(s => s.position)) : 0;
-      await supabase
+      const { data: created } = await supabase
         .from('order_stages')
-        .insert({ name: stageName.trim(), position: maxPosition + 1, color: stageColor });
+        .insert({ ...stageData, position: maxPosition + 1 })
+        .select('id')
+        .single();
+      if (created) await saveTemplates((created as { id: string }).id);
     }
 
+    closeModal();
+    loadStages();
+  }
+
+  function closeModal() {
     setShowModal(false);
     setEditingStage(null);
     setStageName('');
     setStageColor('blue');
-    loadStages();
+    setStageKind('open');
+    setRestrictTransitions(false);
+    setAllowedNextStageIds([]);
+    setRequiredFields([]);
+    setTemplates({});
+  }
+
+  function toggleValue(list: string[], value: string) {
+    return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
   }
 
   async function handleDelete(id: string) {
@@ -160,6 +254,11 @@ function OrderStagesManager({ onBack }: { onBack: () => void }) {
     setEditingStage(stage);
     setStageName(stage.name);
     setStageColor(stage.color || 'blue');
+    setStageKind(stage.kind || 'open');
+    setRestrictTransitions(stage.allowed_next_stage_ids != null);
+    setAllowedNextStageIds(stage.allowed_next_stage_ids || []);
+    setRequiredFields(stage.required_fields || []);
+    loadTemplates(stage.id);
     setShowModal(true);
   }
 
@@ -205,6 +304,29 @@ function OrderStagesManager({ onBack }: { onBack: () => void }) {
               <span className={`px-3 py-1 text-xs font-medium rounded-full ${getColorClass(stage.color || 'blue')}`}>
                 {stage.name}
               </span>
+              <span className="text-xs text-neutral-500">
+                {STAGE_KINDS.find(k => k.value === stage.kind)?.label}
+              </span>
+              {stage.allowed_next_stage_ids != null && (
+                <span className="text-xs text-neutral-500">
+                  → {stage.allowed_next_stage_ids
+                    .map(id => stages.find(s => s.id === id)?.name)
+                    .filter(Boolean)
+                    .join(', ') || 'нет переходов'}
+                </span>
+              )}
+              {stage.required_fields?.length > 0 && (
+                <span className="text-xs text-amber-700 bg-amber-50 px-2 py-0.5 rounded">
+                  Обязательно: {stage.required_fields
+                    .map(field => REQUIRED_FIELD_OPTIONS.find(o => o.value === field)?.label || field)
+                    .join(', ')}
+                </span>
+              )}
+              {templatedStageIds.includes(stage.id) && (
+                <span className="text-xs text-blue-700 bg-blue-50 px-2 py-0.5 rounded">
+                  Уведомление клиенту
+                </span>
+              )}
               <div className="ml-auto flex gap-2">
                 <button onClick={() => openEditModal(stage)} className="p-2 hover:bg-neutral-100 rounded">
                   <Edit className="w-4 h-4" />
@@ -220,12 +342,12 @@ function OrderStagesManager({ onBack }: { onBack: () => void }) {
 
       {showModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-xl max-w-md w-full p-6">
+          <div className="bg-white rounded-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold">
                 {editingStage ? 'Редактировать статус' : 'Новый статус'}
               </h3>
-              <button onClick={() => setShowModal(false)}>
+              <button onClick={closeModal}>
                 <X className="w-5 h-5" />
               </button>
             </div>
@@ -256,8 +378,110 @@ function OrderStagesManager({ onBack }: { onBack: () => void }) {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium mb-1.5">Тип статуса</label>
+                <select
+                  value={stageKind}
+                  onChange={(e) => setStageKind(e.target.value as StageKind)}
+                  className="w-full px-3 py-2 border rounded-lg"
+                >
+                  {STAGE_KINDS.map((kind) => (
+                    <option key={kind.value} value={kind.value}>{kind.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-neutral-500 mt-1">
+                  Определяет поведение статуса: закрытие заказа, списание склада и аналитику
+                </p>
+              </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-1.5">
+                  <input
+                    type="checkbox"
+                    checked={restrictTransitions}
+                    onChange={(e) => setRestrictTransitions(e.target.checked)}
+                  />
+                  Ограничить переходы
+                </label>
+                {restrictTransitions && (
+                  <div className="space-y-1 pl-6">
+                    {stages
+                      .filter(s => s.id !== editingStage?.id)
+                      .map((s) => (
+                        <label key={s.id} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={allowedNextStageIds.includes(s.id)}
+                            onChange={() => setAllowedNextStageIds(toggleValue(allowedNextStageIds, s.id))}
+                          />
+                          {s.name}
+                        </label>
+                      ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1.5">Обязательные поля для перехода в статус</label>
+                <div className="space-y-1">
+                  {REQUIRED_FIELD_OPTIONS.map((field) => (
+                    <label key={field.value} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={requiredFields.includes(field.value)}
+                        onChange={() => setRequiredFields(toggleValue(requiredFields, field.value))}
+                      />
+                      {field.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1.5">Уведомление клиенту при переходе в статус</label>
+                <p className="text-xs text-neutral-500 mb-2">
+                  Переменные: {TEMPLATE_PLACEHOLDERS.join(', ')}. Пустой текст — не отправлять.
+                </p>
+                <div className="space-y-3">
+                  {NOTIFICATION_CHANNELS.map(({ value: channel, label }) => {
+                    const template = templates[channel];
+                    return (
+                      <div key={channel} className="border rounded-lg p-3">
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-sm font-medium">{label}</span>
+                          <label className="flex items-center gap-2 text-xs text-neutral-600">
+                            <input
+                              type="checkbox"
+                              checked={template?.is_active ?? true}
+                              onChange={(e) => updateTemplate(channel, { is_active: e.target.checked })}
+                            />
+                            Активно
+                          </label>
+                        </div>
+                        {channel === 'email' && (
+                          <input
+                            type="text"
+                            value={template?.subject || ''}
+                            onChange={(e) => updateTemplate(channel, { subject: e.target.value })}
+                            placeholder="Тема письма"
+                            className="w-full px-3 py-2 border rounded-lg text-sm mb-2"
+                          />
+                        )}
+                        <textarea
+                          value={template?.body || ''}
+                          onChange={(e) => updateTemplate(channel, { body: e.target.value })}
+                          rows={2}
+                          placeholder="Ваше устройство готово к выдаче, заказ #{order_number}"
+                          className="w-full px-3 py-2 border rounded-lg text-sm"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
               <div className="flex gap-3 pt-2">
-                <button onClick={() => setShowModal(false)} className="flex-1 px-4 py-2 border rounded-lg">
+                <button onClick={closeModal} className="flex-1 px-4 py-2 border rounded-lg">
                   Отмена
                 </button>
                 <button onClick={handleSave} className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg">
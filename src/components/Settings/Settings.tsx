@@ -11,7 +11,10 @@ import {
   Shield,
   Activity,
   ChevronRight,
-  Truck
+  Truck,
+  UserCog,
+  Timer,
+  Wallet
 } from 'lucide-react';
 import { usePermissions } from '../../hooks/usePermissions';
 import CompanyProfile from './CompanyProfile';
@@ -23,9 +26,12 @@ import DataExport from './DataExport';
 import RolesPermissions from './RolesPermissions';
 import SystemLogs from './SystemLogs';
 import SuppliersManager from './SuppliersManager';
+import AssignmentSettings from './AssignmentSettings';
+import SlaSettings from './SlaSettings';
+import FinanceSettings from './FinanceSettings';
 import { motion } from 'framer-motion';
 
-type SettingsTab = 'company' | 'services' | 'suppliers' | 'team' | 'permissions' | 'sources' | 'templates' | 'logs' | 'export';
+type SettingsTab = 'company' | 'services' | 'suppliers' | 'finance' | 'team' | 'assignment' | 'sla' | 'permissions' | 'sources' | 'templates' | 'logs' | 'export';
 
 export default function Settings() {
   const { canManageUsers, canEditTemplates, canManageLocations } = usePermissions();
@@ -35,7 +41,10 @@ export default function Settings() {
     { id: 'company' as SettingsTab, label: 'Профиль компании', icon: Building2, description: 'Реквизиты, брендинг, валюта', requiresPermission: false },
     { id: 'services' as SettingsTab, label: 'Каталог услуг', icon: Wrench, description: 'Услуги и ремонты', requiresPermission: false },
     { id: 'suppliers' as SettingsTab, label: 'Поставщики', icon: Truck, description: 'Управление поставщиками', requiresPermission: false },
+    { id: 'finance' as SettingsTab, label: 'Финансы', icon: Wallet, description: 'НДС, касса, себестоимость', requiresPermission: true, checkPermission: () => canManageUsers() },
     { id: 'team' as SettingsTab, label: 'Команда', icon: Users, description: 'Сотрудники и роли', requiresPermission: true, checkPermission: () => canManageUsers() },
+    { id: 'assignment' as SettingsTab, label: 'Распределение заказов', icon: UserCog, description: 'Автоназначение и навыки мастеров', requiresPermission: true, checkPermission: () => canManageUsers() },
+    { id: 'sla' as SettingsTab, label: 'Сроки и SLA', icon: Timer, description: 'Сроки заказов и эскалация', requiresPermission: true, checkPermission: () => canManageUsers() },
     { id: 'permissions' as SettingsTab, label: 'Права доступа', icon: Shield, description: 'Управление правами (RBAC)', requiresPermission: true, checkPermission: () => canManageUsers() },
     { id: 'sources' as SettingsTab, label: 'Источники лидов', icon: Target, description: 'Маркетинговые каналы', requiresPermission: false },
     { id: 'templates' as SettingsTab, label: 'Шаблоны документов', icon: FileText, description: 'Квитанции и договоры', requiresPermission: true, checkPermission: () => canEditTemplates() },
@@ -107,7 +116,10 @@ export default function Settings() {
               {activeTab === 'company' && <CompanyProfile />}
               {activeTab === 'services' && <ServiceCatalogManager />}
               {activeTab === 'suppliers' && <SuppliersManager />}
+              {activeTab === 'finance' && <FinanceSettings />}
               {activeTab === 'team' && <UsersManagement />}
+              {activeTab === 'assignment' && <AssignmentSettings />}
+              {activeTab === 'sla' && <SlaSettings />}
               {activeTab === 'permissions' && <RolesPermissions />}
               {activeTab === 'sources' && <LeadSourcesManager />}
               {activeTab === 'templates' && <DocumentTemplates />}
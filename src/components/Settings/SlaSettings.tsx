@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { handleSupabaseError, toast } from '../../lib/toast';
+import { useLocation } from '../../contexts/LocationContext';
+import { ORDER_PRIORITY_LABELS, formatSlaHours, loadSlaRules, type OrderPriority, type SlaRule } from '../../lib/sla';
+import type { Database } from '../../lib/database.types';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type RepairType = Database['public']['Tables']['repair_types']['Row'];
+
+type DurationUnit = 'hours' | 'days';
+
+export default function SlaSettings() {
+  const { currentLocation } = useLocation();
+  const [rules, setRules] = useState<SlaRule[]>([]);
+  const [repairTypes, setRepairTypes] = useState<RepairType[]>([]);
+  const [employees, setEmployees] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [newRepairTypeId, setNewRepairTypeId] = useState('');
+  const [newPriority, setNewPriority] = useState('');
+  const [newDuration, setNewDuration] = useState(24);
+  const [newUnit, setNewUnit] = useState<DurationUnit>('hours');
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    let employeesQuery = supabase.from('profiles').select('*').order('full_name');
+    if (currentLocation) {
+      employeesQuery = employeesQuery.eq('location_id', currentLocation.id);
+    }
+
+    const [slaRules, repairTypesRes, employeesRes] = await Promise.all([
+      loadSlaRules(),
+      supabase.from('repair_types').select('*').order('name'),
+      employeesQuery
+    ]);
+
+    setRules(slaRules);
+    if (repairTypesRes.data) setRepairTypes(repairTypesRes.data);
+    if (employeesRes.data) setEmployees(employeesRes.data);
+    setLoading(false);
+  }, [currentLocation]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  function getRepairTypeName(id: string | null) {
+    if (!id) return 'Любой тип ремонта';
+    return repairTypes.find(t => t.id === id)?.name || '—';
+  }
+
+  async function handleAddRule() {
+    if (newDuration <= 0) {
+      toast.error('Укажите срок больше нуля');
+      return;
+    }
+
+    const { error } = await supabase.from('sla_rules').insert({
+      repair_type_id: newRepairTypeId || null,
+      priority: (newPriority || null) as OrderPriority | null,
+      resolution_hours: newUnit === 'days' ? newDuration * 24 : newDuration
+    });
+
+    if (error) {
+      handleSupabaseError(error, 'Create SLA rule');
+      return;
+    }
+
+    setNewRepairTypeId('');
+    setNewPriority('');
+    setNewDuration(24);
+    setNewUnit('hours');
+    toast.success('Правило SLA добавлено');
+    loadData();
+  }
+
+  async function toggleRule(rule: SlaRule) {
+    const { error } = await supabase
+      .from('sla_rules')
+      .update({ is_active: !rule.is_active })
+      .eq('id', rule.id);
+
+    if (error) {
+      handleSupabaseError(error, 'Update SLA rule');
+      return;
+    }
+    loadData();
+  }
+
+  async function deleteRule(rule: SlaRule) {
+    if (!confirm('Удалить это правило SLA?')) return;
+
+    const { error } = await supabase.from('sla_rules').delete().eq('id', rule.id);
+    if (error) {
+      handleSupabaseError(error, 'Delete SLA rule');
+      return;
+    }
+    loadData();
+  }
+
+  async function updateManager(employee: Profile, managerId: string) {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ manager_id: managerId || null })
+      .eq('id', employee.id);
+
+    if (error) {
+      handleSupabaseError(error, 'Update manager');
+      return;
+    }
+    setEmployees(prev => prev.map(e => e.id === employee.id ? { ...e, manager_id: managerId || null } : e));
+  }
+
+  if (loading) {
+    return <div className="text-center py-8 text-neutral-500">Загрузка...</div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-lg font-semibold text-neutral-900">Сроки выполнения (SLA)</h2>
+        <p className="text-sm text-neutral-500 mt-1">
+          Срок заказа рассчитывается от даты приёма по самому точному правилу: тип ремонта и приоритет, затем только тип, только приоритет, правило по умолчанию.
+          Срок, указанный вручную, не пересчитывается.
+        </p>
+
+        <div className="mt-4 border border-neutral-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-neutral-50">
+              <tr>
+                <th className="text-left px-4 py-2 text-xs font-medium text-neutral-600">Тип ремонта</th>
+                <th className="text-left px-4 py-2 text-xs font-medium text-neutral-600">Приоритет</th>
+                <th className="text-left px-4 py-2 text-xs font-medium text-neutral-600">Срок</th>
+                <th className="text-center px-4 py-2 text-xs font-medium text-neutral-600">Активно</th>
+                <th className="w-12" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map(rule => (
+                <tr key={rule.id} className={`border-t border-neutral-100 ${rule.is_active ? '' : 'opacity-50'}`}>
+                  <td className="px-4 py-2 text-sm text-neutral-900">{getRepairTypeName(rule.repair_type_id)}</td>
+                  <td className="px-4 py-2 text-sm text-neutral-700">
+                    {rule.priority ? ORDER_PRIORITY_LABELS[rule.priority] : 'Любой'}
+                  </td>
+                  <td className="px-4 py-2 text-sm font-medium text-neutral-900">{formatSlaHours(rule.resolution_hours)}</td>
+                  <td className="px-4 py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={rule.is_active}
+                      onChange={() => toggleRule(rule)}
+                      className="w-4 h-4 text-blue-600 rounded"
+                    />
+                  </td>
+                  <td className="px-2 py-2 text-center">
+                    <button onClick={() => deleteRule(rule)} className="p-1.5 hover:bg-red-50 rounded-lg">
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-sm text-neutral-500">
+                    Правил нет — срок заказа указывается вручную
+                  </td>
+                </tr>
+              )}
+              <tr className="border-t border-neutral-200 bg-neutral-50/60">
+                <td className="px-4 py-2">
+                  <select
+                    value={newRepairTypeId}
+                    onChange={(e) => setNewRepairTypeId(e.target.value)}
+                    className="w-full px-2 py-1.5 border border-neutral-200 rounded-lg text-sm bg-white"
+                  >
+                    <option value="">Любой тип ремонта</option>
+                    {repairTypes.map(type => (
+                      <option key={type.id} value={type.id}>{type.name}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-4 py-2">
+                  <select
+                    value={newPriority}
+                    onChange={(e) => setNewPriority(e.target.value)}
+                    className="w-full px-2 py-1.5 border border-neutral-200 rounded-lg text-sm bg-white"
+                  >
+                    <option value="">Любой</option>
+                    {(Object.keys(ORDER_PRIORITY_LABELS) as OrderPriority[]).map(priority => (
+                      <option key={priority} value={priority}>{ORDER_PRIORITY_LABELS[priority]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-4 py-2">
+                  <div className="flex gap-1">
+                    <input
+                      type="number"
+                      min={1}
+                      value={newDuration}
+                      onChange={(e) => setNewDuration(parseInt(e.target.value) || 0)}
+                      className="w-20 px-2 py-1.5 border border-neutral-200 rounded-lg text-sm"
+                    />
+                    <select
+                      value={newUnit}
+                      onChange={(e) => setNewUnit(e.target.value as DurationUnit)}
+                      className="px-2 py-1.5 border border-neutral-200 rounded-lg text-sm bg-white"
+                    >
+                      <option value="hours">ч</option>
+                      <option value="days">дн</option>
+                    </select>
+                  </div>
+                </td>
+                <td colSpan={2} className="px-4 py-2 text-right">
+                  <button
+                    onClick={handleAddRule}
+                    className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium inline-flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Добавить
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-base font-semibold text-neutral-900">Эскалация просрочек</h3>
+        <p className="text-sm text-neutral-500 mt-1">
+          Когда заказ просрочен, руководитель ответственного мастера получает задачу.
+          Если руководитель не указан, задача уходит менеджеру или администратору локации.
+        </p>
+
+        <div className="mt-4 space-y-2">
+          {employees.filter(e => e.role === 'technician').map(employee => (
+            <div key={employee.id} className="flex items-center justify-between gap-4 p-3 border border-neutral-200 rounded-lg">
+              <span className="text-sm font-medium text-neutral-900">{employee.full_name}</span>
+              <select
+                value={employee.manager_id || ''}
+                onChange={(e) => updateManager(employee, e.target.value)}
+                className="px-3 py-1.5 border border-neutral-200 rounded-lg text-sm bg-white min-w-[200px]"
+              >
+                <option value="">Менеджер локации</option>
+                {employees.filter(e => e.id !== employee.id && e.role !== 'technician').map(manager => (
+                  <option key={manager.id} value={manager.id}>{manager.full_name}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
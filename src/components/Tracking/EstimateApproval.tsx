@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Smartphone, Check, X, CheckCircle2 } from 'lucide-react';
+import {
+  loadOrderEstimate,
+  submitEstimateDecisions,
+  type EstimateDecision,
+  type OrderEstimate,
+} from '../../lib/estimateApproval';
+
+export default function EstimateApproval() {
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token') || '');
+  const [estimate, setEstimate] = useState<OrderEstimate | null>(null);
+  const [decisions, setDecisions] = useState<Record<string, EstimateDecision>>({});
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadEstimate = useCallback(async () => {
+    if (!token) {
+      setError('Saite nav derīga');
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const result = await loadOrderEstimate(token);
+    setLoading(false);
+
+    if (!result.success || !result.estimate) {
+      setError('Tāme nav atrasta. Lūdzu, sazinieties ar servisu.');
+      return;
+    }
+    setEstimate(result.estimate);
+    setDecisions({});
+  }, [token]);
+
+  useEffect(() => {
+    loadEstimate();
+  }, [loadEstimate]);
+
+  function setDecision(itemId: string, decision: EstimateDecision) {
+    setDecisions(prev => ({ ...prev, [itemId]: decision }));
+  }
+
+  async function handleSubmit() {
+    if (Object.keys(decisions).length === 0) return;
+
+    setSubmitting(true);
+    const result = await submitEstimateDecisions(token, decisions);
+    setSubmitting(false);
+
+    if (!result.success) {
+      setError(result.error === 'order_closed'
+        ? 'Pasūtījums jau ir slēgts. Lūdzu, sazinieties ar servisu.'
+        : 'Neizdevās saglabāt lēmumu. Mēģiniet vēlreiz.');
+      return;
+    }
+    setError('');
+    await loadEstimate();
+  }
+
+  const formatDateTime = (dateString: string | null) => {
+    if (!dateString) return '';
+    const date = new Date(dateString);
+    return `${String(date.getDate()).padStart(2, '0')}.${String(date.getMonth() + 1).padStart(2, '0')}.${date.getFullYear()} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+  };
+
+  const proposedItems = estimate?.items.filter(item => item.approval_status === 'proposed') || [];
+  const decidedItems = estimate?.items.filter(item => item.approval_status !== 'proposed') || [];
+  const selectedTotal = proposedItems
+    .filter(item => decisions[item.id] === 'approved')
+    .reduce((sum, item) => sum + Number(item.total_price || 0), 0);
+
+  return (
+    <div className="min-h-screen bg-neutral-50 flex items-start justify-center p-4 pt-12">
+      <div className="w-full max-w-md">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-12 h-12 bg-neutral-200 rounded flex items-center justify-center">
+            <span className="text-xl font-bold text-neutral-600">iS</span>
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-neutral-900">iSupport</h1>
+            <p className="text-sm text-neutral-500">Papildu darbu saskaņošana</p>
+          </div>
+        </div>
+
+        {loading && <p className="text-sm text-neutral-500 text-center py-8">Ielādē...</p>}
+
+        {!loading && error && !estimate && (
+          <div className="bg-white rounded-xl border border-neutral-200 p-5 text-sm text-red-600">{error}</div>
+        )}
+
+        {!loading && estimate && (
+          <div className="bg-white rounded-xl border border-neutral-200 p-5">
+            <p className="text-xs text-neutral-500 uppercase font-semibold">Pasūtījums № {estimate.order_number}</p>
+            <p className="text-sm text-neutral-700 mt-1 mb-4 flex items-center gap-1.5">
+              <Smartphone className="w-4 h-4 text-neutral-400" />
+              {estimate.device || '—'}
+            </p>
+
+            {proposedItems.length > 0 ? (
+              <>
+                <p className="text-sm text-neutral-700 mb-3">
+                  Remonta laikā atklāti papildu bojājumi. Lūdzu, apstipriniet vai noraidiet katru pozīciju.
+                </p>
+                <div className="space-y-2 mb-4">
+                  {proposedItems.map(item => (
+                    <div key={item.id} className="border border-neutral-200 rounded-lg p-3">
+                      <div className="flex justify-between gap-3">
+                        <div>
+                          <p className="text-sm font-medium text-neutral-900">{item.name}</p>
+                          {item.quantity > 1 && <p className="text-xs text-neutral-500">{item.quantity} gab.</p>}
+                          {item.comment && <p className="text-xs text-neutral-500 mt-1">{item.comment}</p>}
+                        </div>
+                        <p className="text-sm font-semibold text-neutral-900 whitespace-nowrap">
+                          {Number(item.total_price || 0).toFixed(2)} EUR
+                        </p>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2 mt-3">
+                        <button
+                          onClick={() => setDecision(item.id, 'approved')}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-1.5 border ${
+                            decisions[item.id] === 'approved'
+                              ? 'bg-green-600 border-green-600 text-white'
+                              : 'border-neutral-200 text-neutral-700 hover:bg-green-50'
+                          }`}
+                        >
+                          <Check className="w-4 h-4" />
+                          Apstiprināt
+                        </button>
+                        <button
+                          onClick={() => setDecision(item.id, 'declined')}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-1.5 border ${
+                            decisions[item.id] === 'declined'
+                              ? 'bg-red-600 border-red-600 text-white'
+                              : 'border-neutral-200 text-neutral-700 hover:bg-red-50'
+                          }`}
+                        >
+                          <X className="w-4 h-4" />
+                          Noraidīt
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex justify-between text-sm mb-3">
+                  <span className="text-neutral-500">Apstiprināts papildus</span>
+                  <span className="font-semibold text-neutral-900">{selectedTotal.toFixed(2)} EUR</span>
+                </div>
+                <button
+                  onClick={handleSubmit}
+                  disabled={submitting || Object.keys(decisions).length === 0}
+                  className="w-full px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+                >
+                  {submitting ? 'Saglabā...' : 'Apstiprināt izvēli'}
+                </button>
+                {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+              </>
+            ) : (
+              <p className="text-sm text-neutral-700 flex items-center gap-2 mb-2">
+                <CheckCircle2 className="w-5 h-5 text-green-600" />
+                Paldies! Nav pozīciju, kas gaida jūsu lēmumu.
+              </p>
+            )}
+
+            {decidedItems.length > 0 && (
+              <div className="mt-5 pt-4 border-t border-neutral-200">
+                <p className="text-xs text-neutral-500 uppercase font-semibold mb-2">Jūsu lēmumi</p>
+                <div className="space-y-1.5">
+                  {decidedItems.map(item => (
+                    <div key={item.id} className="flex justify-between gap-3 text-sm">
+                      <span className={item.approval_status === 'declined' ? 'text-neutral-400 line-through' : 'text-neutral-900'}>
+                        {item.name}
+                      </span>
+                      <span className={`whitespace-nowrap text-xs ${item.approval_status === 'declined' ? 'text-red-600' : 'text-green-600'}`}>
+                        {item.approval_status === 'declined' ? 'Noraidīts' : 'Apstiprināts'} {formatDateTime(item.approval_decided_at)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-between text-sm mt-4 pt-3 border-t border-neutral-200">
+              <span className="text-neutral-500">Remonta summa</span>
+              <span className="font-semibold text-neutral-900">{Number(estimate.approved_total || 0).toFixed(2)} EUR</span>
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-neutral-400 text-center mt-6">Tel.: (+371) 233 033 37 · Pirm.-Svētd. 10:00-21:00</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { Search, Smartphone, CheckCircle2, Clock, Wrench, Package, XCircle } from 'lucide-react';
+import { lookupPublicOrderStatus, type PublicOrderStatus } from '../../lib/orderTracking';
+
+const PROGRESS_STEPS = [
+  { kind: 'open', label: 'Pieņemts' },
+  { kind: 'in_progress', label: 'Remontā' },
+  { kind: 'ready', label: 'Gatavs' },
+  { kind: 'closed', label: 'Izsniegts' },
+];
+
+function getStepIndex(kind: string | null) {
+  if (kind === 'waiting') return 1;
+  const index = PROGRESS_STEPS.findIndex(step => step.kind === kind);
+  return index === -1 ? 0 : index;
+}
+
+function getStageIcon(kind: string | null) {
+  switch (kind) {
+    case 'ready': return <Package className="w-6 h-6 text-green-600" />;
+    case 'closed': return <CheckCircle2 className="w-6 h-6 text-green-600" />;
+    case 'cancelled': return <XCircle className="w-6 h-6 text-red-600" />;
+    case 'waiting': return <Clock className="w-6 h-6 text-amber-600" />;
+    default: return <Wrench className="w-6 h-6 text-blue-600" />;
+  }
+}
+
+export default function OrderTracking() {
+  const [orderNumber, setOrderNumber] = useState('');
+  const [phone, setPhone] = useState('');
+  const [status, setStatus] = useState<PublicOrderStatus | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('token');
+    if (params.get('order')) setOrderNumber(params.get('order') || '');
+    if (token) {
+      runLookup({ token });
+    }
+  }, []);
+
+  async function runLookup(lookup: { token: string } | { orderNumber: string; phone: string }) {
+    setLoading(true);
+    setError('');
+    const result = await lookupPublicOrderStatus(lookup);
+    setLoading(false);
+
+    if (!result.success || !result.order) {
+      setStatus(null);
+      setError(result.error === 'invalid_request'
+        ? 'Ievadiet pasūtījuma numuru un tālruņa numuru'
+        : 'Pasūtījums nav atrasts. Pārbaudiet numuru un tālruni.');
+      return;
+    }
+    setStatus(result.order);
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    runLookup({ orderNumber, phone });
+  }
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—';
+    const date = new Date(dateString);
+    return `${String(date.getDate()).padStart(2, '0')}.${String(date.getMonth() + 1).padStart(2, '0')}.${date.getFullYear()}`;
+  };
+
+  const stepIndex = getStepIndex(status?.stage_kind || null);
+
+  return (
+    <div className="min-h-screen bg-neutral-50 flex items-start justify-center p-4 pt-12">
+      <div className="w-full max-w-md">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-12 h-12 bg-neutral-200 rounded flex items-center justify-center">
+            <span className="text-xl font-bold text-neutral-600">iS</span>
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-neutral-900">iSupport</h1>
+            <p className="text-sm text-neutral-500">Remonta statuss</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-neutral-200 p-5 space-y-3 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">Pasūtījuma numurs</label>
+            <input
+              type="text"
+              value={orderNumber}
+              onChange={(e) => setOrderNumber(e.target.value)}
+              placeholder="ORD-000123"
+              className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-neutral-700 mb-1">Tālrunis</label>
+            <input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="+371 2XXXXXXX"
+              className="w-full px-3 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium flex items-center justify-center gap-2"
+          >
+            <Search className="w-4 h-4" />
+            {loading ? 'Meklē...' : 'Pārbaudīt statusu'}
+          </button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </form>
+
+        {status && (
+          <div className="bg-white rounded-xl border border-neutral-200 p-5">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <p className="text-xs text-neutral-500 uppercase font-semibold">Pasūtījums № {status.order_number}</p>
+                <p className="text-sm text-neutral-700 mt-1 flex items-center gap-1.5">
+                  <Smartphone className="w-4 h-4 text-neutral-400" />
+                  {status.device || '—'}
+                </p>
+              </div>
+              {getStageIcon(status.stage_kind)}
+            </div>
+
+            <div className="mb-5">
+              <p className="text-lg font-semibold text-neutral-900">{status.stage_name || '—'}</p>
+              {status.stage_kind !== 'cancelled' && (
+                <div className="flex items-center gap-1 mt-3">
+                  {PROGRESS_STEPS.map((step, index) => (
+                    <div key={step.kind} className="flex-1">
+                      <div className={`h-1.5 rounded-full ${index <= stepIndex ? 'bg-blue-600' : 'bg-neutral-200'}`} />
+                      <p className={`text-[11px] mt-1 ${index <= stepIndex ? 'text-neutral-900' : 'text-neutral-400'}`}>
+                        {step.label}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <dl className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-neutral-500">Plānotais termiņš</dt>
+                <dd className="font-medium text-neutral-900">{formatDate(status.due_date)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-neutral-500">Tāme</dt>
+                <dd className="font-medium text-neutral-900">{Number(status.estimate || 0).toFixed(2)} EUR</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-neutral-500">Apmaksājams</dt>
+                <dd className="font-semibold text-neutral-900">{Number(status.balance_due || 0).toFixed(2)} EUR</dd>
+              </div>
+              {status.completed_at && (
+                <div className="flex justify-between">
+                  <dt className="text-neutral-500">Pabeigts</dt>
+                  <dd className="font-medium text-neutral-900">{formatDate(status.completed_at)}</dd>
+                </div>
+              )}
+            </dl>
+          </div>
+        )}
+
+        <p className="text-xs text-neutral-400 text-center mt-6">Tel.: (+371) 233 033 37 · Pirm.-Svētd. 10:00-21:00</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { ShieldCheck } from 'lucide-react';
+import { getWarrantyDaysLeft, type WarrantyOrder } from '../../lib/warranties';
+
+interface ActiveWarrantiesProps {
+  warranties: WarrantyOrder[];
+  onStartClaim?: (warranty: WarrantyOrder) => void;
+}
+
+export function ActiveWarranties({ warranties, onStartClaim }: ActiveWarrantiesProps) {
+  if (warranties.length === 0) return null;
+
+  function formatDate(dateString: string) {
+    return new Date(dateString).toLocaleDateString('lv-LV', { day: '2-digit', month: '2-digit', year: 'numeric' });
+  }
+
+  return (
+    <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <ShieldCheck className="w-4 h-4 text-emerald-600" />
+        <span className="text-sm font-semibold text-emerald-900">Aktīvās garantijas ({warranties.length})</span>
+      </div>
+
+      <div className="space-y-2">
+        {warranties.map(warranty => (
+          <div key={warranty.order_id} className="p-2 bg-white rounded-lg border border-emerald-100 text-xs">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="font-medium text-gray-900">
+                  #{warranty.order_number} · {warranty.device_type} {warranty.device_model}
+                </div>
+                <div className="text-gray-500">
+                  Pabeigts {formatDate(warranty.completed_at)}
+                  {warranty.imei && ` · IMEI ${warranty.imei}`}
+                </div>
+              </div>
+              {onStartClaim && (
+                <button
+                  type="button"
+                  onClick={() => onStartClaim(warranty)}
+                  className="px-2 py-1 text-xs font-medium text-emerald-700 bg-emerald-50 border border-emerald-300 rounded hover:bg-emerald-100 whitespace-nowrap"
+                >
+                  Garantijas gadījums
+                </button>
+              )}
+            </div>
+            <ul className="mt-1 space-y-0.5">
+              {warranty.items.map(item => (
+                <li key={item.order_item_id} className="flex justify-between text-gray-700">
+                  <span>{item.item_name}</span>
+                  <span className="text-emerald-700">
+                    līdz {formatDate(item.warranty_expires_at)} ({getWarrantyDaysLeft(item.warranty_expires_at)} d.)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+import JsBarcode from 'jsbarcode';
+import QRCode from 'qrcode';
+import { getBarcodeFormat, type LabelCodeType } from '../../lib/labels';
+
+interface BarcodeImageProps {
+  value: string;
+  type: LabelCodeType;
+  /** Height of the bars or side of the QR code, millimetres. */
+  sizeMm: number;
+  className?: string;
+}
+
+export default function BarcodeImage({ value, type, sizeMm, className = '' }: BarcodeImageProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (type === 'qr') {
+      QRCode.toDataURL(value, { margin: 0, width: 256 })
+        .then(setQrDataUrl)
+        .catch(error => console.error('QR code error:', error));
+      return;
+    }
+
+    if (!svgRef.current) return;
+    try {
+      JsBarcode(svgRef.current, value, {
+        format: getBarcodeFormat(value),
+        displayValue: true,
+        fontSize: 14,
+        textMargin: 0,
+        margin: 0,
+        height: 60
+      });
+    } catch (error) {
+      console.error('Barcode error:', error);
+    }
+  }, [value, type]);
+
+  if (type === 'qr') {
+    return qrDataUrl ? (
+      <img src={qrDataUrl} alt={value} className={className} style={{ width: `${sizeMm}mm`, height: `${sizeMm}mm` }} />
+    ) : null;
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      className={className}
+      style={{ width: '100%', height: `${sizeMm}mm` }}
+    />
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Search, User, CheckCircle2, AlertTriangle, Star, TrendingUp, TrendingDown } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { getActiveWarranties, type WarrantyOrder } from '../../lib/warranties';
+import { ActiveWarranties } from './ActiveWarranties';
 import type { Database } from '../../lib/database.types';
 
 type Client = Database['public']['Tables']['clients']['Row'];
@@ -15,12 +17,14 @@ interface ClientWithHistory extends Client {
   }[];
   orderCount?: number;
   totalSpent?: number;
+  warranties?: WarrantyOrder[];
 }
 
 interface CustomerRecognitionProps {
   phoneNumber: string;
   onClientSelect: (client: Client) => void;
   onNewClient: () => void;
+  onWarrantyClaim?: (warranty: WarrantyOrder, client: Client) => void;
   disabled?: boolean;
 }
 
@@ -28,6 +32,7 @@ export function CustomerRecognition({
   phoneNumber,
   onClientSelect,
   onNewClient,
+  onWarrantyClaim,
   disabled = false
 }: CustomerRecognitionProps) {
   const [isSearching, setIsSearching] = useState(false);
@@ -60,7 +65,7 @@ export function CustomerRecognition({
       if (clients && clients.length > 0) {
         const clientsWithHistory = await Promise.all(
           clients.map(async (client) => {
-            const [ordersResult, statsResult] = await Promise.all([
+            const [ordersResult, statsResult, warranties] = await Promise.all([
               supabase
                 .from('orders')
                 .select(`
@@ -77,7 +82,8 @@ export function CustomerRecognition({
               supabase
                 .from('orders')
                 .select('total_price')
-                .eq('client_id', client.id)
+                .eq('client_id', client.id),
+              getActiveWarranties({ clientId: client.id })
             ]);
 
             const recentOrders = ordersResult.data?.map(order => ({
@@ -96,7 +102,8 @@ export function CustomerRecognition({
               ...client,
               recentOrders,
               orderCount: statsResult.data?.length || 0,
-              totalSpent
+              totalSpent,
+              warranties
             };
           })
         );
@@ -270,6 +277,14 @@ export function CustomerRecognition({
         </div>
       </div>
 
+      <ActiveWarranties
+        warranties={client.warranties || []}
+        onStartClaim={onWarrantyClaim && ((warranty) => {
+          handleLoadClient(client);
+          onWarrantyClaim(warranty, client);
+        })}
+      />
+
       {showDetails && client.recentOrders && client.recentOrders.length > 0 && (
         <div className="p-4 bg-white border border-gray-200 rounded-lg">
           <h4 className="text-sm font-semibold text-gray-900 mb-3">Pēdējie 3 pasūtījumi</h4>
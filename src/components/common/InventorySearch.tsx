@@ -2,13 +2,14 @@ import { useState, useEffect } from 'react';
 import { Search, Package, AlertCircle } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useLocation } from '../../contexts/LocationContext';
+import { matchesCode } from '../../lib/labels';
 import type { Database } from '../../lib/database.types';
 
 type InventoryItem = Database['public']['Tables']['inventory']['Row'];
 
 interface InventorySearchProps {
   onItemSelect: (item: InventoryItem) => void;
-  onRequestPart?: (partName: string) => void;
+  onRequestPart?: (item: InventoryItem) => void;
 }
 
 export default function InventorySearch({ onItemSelect, onRequestPart }: InventorySearchProps) {
@@ -28,7 +29,8 @@ export default function InventorySearch({ onItemSelect, onRequestPart }: Invento
     if (searchTerm.trim()) {
       const filtered = inventory.filter(item =>
         item.part_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (item.sku && item.sku.toLowerCase().includes(searchTerm.toLowerCase()))
+        (item.sku && item.sku.toLowerCase().includes(searchTerm.toLowerCase())) ||
+        (item.barcode && item.barcode.includes(searchTerm.trim()))
       );
       setFilteredInventory(filtered);
       setShowResults(true);
@@ -45,7 +47,7 @@ export default function InventorySearch({ onItemSelect, onRequestPart }: Invento
       .from('inventory')
       .select('*')
       .eq('location_id', currentLocation.id)
-      .order('quantity', { ascending: false })
+      .order('available_quantity', { ascending: false })
       .order('part_name');
 
     if (data) setInventory(data);
@@ -57,6 +59,23 @@ export default function InventorySearch({ onItemSelect, onRequestPart }: Invento
     setShowResults(false);
   }
 
+  /** A scanner types the code and presses Enter: take the exact match. */
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const match = inventory.find(item => matchesCode(item, searchTerm));
+    if (!match) return;
+
+    if (match.available_quantity > 0) {
+      handleSelect(match);
+    } else if (onRequestPart) {
+      onRequestPart(match);
+      setSearchTerm('');
+      setShowResults(false);
+    }
+  }
+
   return (
     <div className="relative">
       <label className="block text-sm font-medium text-neutral-700 mb-1.5">
@@ -68,8 +87,9 @@ export default function InventorySearch({ onItemSelect, onRequestPart }: Invento
           type="text"
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
+          onKeyDown={handleKeyDown}
           onFocus={() => searchTerm && setShowResults(true)}
-          placeholder="Поиск по названию или SKU (например: 11 Pro)"
+          placeholder="Поиск по названию, SKU или штрихкоду (например: 11 Pro)"
           className="w-full pl-10 pr-4 py-2 border border-neutral-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
         />
       </div>
@@ -77,8 +97,8 @@ export default function InventorySearch({ onItemSelect, onRequestPart }: Invento
       {showResults && filteredInventory.length > 0 && (
         <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-neutral-200 rounded-lg shadow-lg z-50 max-h-80 overflow-y-auto">
           {filteredInventory.map((item) => {
-            const isInStock = item.quantity > 0;
-            const isLowStock = item.quantity <= item.min_quantity && item.quantity > 0;
+            const isInStock = item.available_quantity > 0;
+            const isLowStock = item.available_quantity <= item.min_quantity && item.available_quantity > 0;
 
             return (
               <div
@@ -103,12 +123,17 @@ export default function InventorySearch({ onItemSelect, onRequestPart }: Invento
                         isLowStock ? 'text-amber-700' : 'text-green-700'
                       }`}>
                         <Package className="w-3.5 h-3.5 inline mr-1" />
-                        Pieejams ({item.quantity} gab.)
+                        Pieejams ({item.available_quantity} gab.)
+                        {item.reserved_quantity > 0 && (
+                          <span className="text-xs font-normal text-neutral-500 ml-1">
+                            · rezervēts {item.reserved_quantity}
+                          </span>
+                        )}
                       </div>
                     ) : (
                       <div className="text-sm font-medium text-red-700 mt-1 flex items-center gap-1">
                         <AlertCircle className="w-3.5 h-3.5" />
-                        Nav noliktavā
+                        {item.quantity > 0 ? `Viss rezervēts (${item.quantity} gab.)` : 'Nav noliktavā'}
                       </div>
                     )}
                   </div>
@@ -125,7 +150,7 @@ export default function InventorySearch({ onItemSelect, onRequestPart }: Invento
                       <button
                         type="button"
                         onClick={() => {
-                          if (onRequestPart) onRequestPart(item.part_name);
+                          if (onRequestPart) onRequestPart(item);
                           setShowResults(false);
                         }}
                         className="px-3 py-1.5 bg-orange-600 text-white text-sm rounded hover:bg-orange-700 whitespace-nowrap"
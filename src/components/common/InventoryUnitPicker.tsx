@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { Barcode, X } from 'lucide-react';
+import {
+  UNIT_GRADE_LABELS,
+  getUnitCode,
+  loadInStockUnits,
+  validateUnitIdentifiers,
+  type InventoryUnit,
+} from '../../lib/inventoryUnits';
+import type { Database } from '../../lib/database.types';
+
+type InventoryItem = Database['public']['Tables']['inventory']['Row'];
+
+interface InventoryUnitPickerProps {
+  item: InventoryItem;
+  /** Units already on the current order or receipt. */
+  excludeUnitIds?: string[];
+  onSelect: (unit: InventoryUnit) => void;
+  onClose: () => void;
+}
+
+export default function InventoryUnitPicker({ item, excludeUnitIds = [], onSelect, onClose }: InventoryUnitPickerProps) {
+  const [inStockUnits, setInStockUnits] = useState<InventoryUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadInStockUnits(item.id).then(data => {
+      setInStockUnits(data);
+      setLoading(false);
+    });
+  }, [item.id]);
+
+  const units = inStockUnits.filter(unit => !excludeUnitIds.includes(unit.id));
+
+  function handleScan(e: React.FormEvent) {
+    e.preventDefault();
+    e.stopPropagation();
+    const value = code.trim();
+    if (!value) return;
+
+    const isImei = /^\d{15}$/.test(value.replace(/\s/g, ''));
+    const validationError = isImei ? validateUnitIdentifiers(value, '') : null;
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const unit = units.find(u =>
+      u.imei === value.replace(/\s/g, '') || u.serial_number === value.toUpperCase()
+    );
+    if (!unit) {
+      setError(`Экземпляр ${value} не найден на складе`);
+      return;
+    }
+    onSelect(unit);
+  }
+
+  function handleOverlayClick(e: React.MouseEvent<HTMLDivElement>) {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4"
+      onClick={handleOverlayClick}
+    >
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col">
+        <div className="px-5 py-4 border-b border-neutral-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-base font-semibold text-neutral-900">Выберите экземпляр</h3>
+            <p className="text-sm text-neutral-500">{item.part_name}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded-lg hover:bg-neutral-100 transition-colors"
+          >
+            <X className="w-5 h-5 text-neutral-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleScan} className="px-5 py-3 border-b border-neutral-100">
+          <div className="relative">
+            <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value);
+                setError('');
+              }}
+              placeholder="Сканируйте IMEI или серийный номер"
+              className="w-full pl-10 pr-3 py-2 border border-neutral-200 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+          </div>
+          {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+        </form>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {loading ? (
+            <div className="text-center py-6 text-sm text-neutral-500">Загрузка...</div>
+          ) : units.length === 0 ? (
+            <div className="text-center py-6 text-sm text-neutral-500">Нет экземпляров на складе</div>
+          ) : (
+            units.map(unit => (
+              <button
+                key={unit.id}
+                type="button"
+                onClick={() => onSelect(unit)}
+                className="w-full text-left px-3 py-2.5 rounded-lg hover:bg-blue-50 transition-colors flex items-center justify-between gap-3"
+              >
+                <div>
+                  <div className="font-mono text-sm text-neutral-900">{getUnitCode(unit)}</div>
+                  {unit.imei && unit.serial_number && (
+                    <div className="font-mono text-xs text-neutral-500">S/N {unit.serial_number}</div>
+                  )}
+                </div>
+                <div className="text-right">
+                  <div className="text-xs text-neutral-700">{UNIT_GRADE_LABELS[unit.grade]}</div>
+                  <div className="text-xs text-neutral-500">€{unit.cost.toFixed(2)}</div>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
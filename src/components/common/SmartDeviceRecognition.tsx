@@ -3,6 +3,8 @@ import { Search, CheckCircle, AlertCircle, Camera, Sparkles } from 'lucide-react
 import { supabase } from '../../lib/supabase';
 import { lookupByTAC, validateIMEI, formatSerialNumber } from '../../lib/tacDatabase';
 import { toast } from '../../lib/toast';
+import { getActiveWarranties, type WarrantyOrder } from '../../lib/warranties';
+import { ActiveWarranties } from './ActiveWarranties';
 
 interface DeviceInfo {
   brand: string;
@@ -14,6 +16,7 @@ interface DeviceInfo {
 
 interface SmartDeviceRecognitionProps {
   onDeviceRecognized: (device: DeviceInfo) => void;
+  onWarrantyClaim?: (warranty: WarrantyOrder) => void;
   initialIMEI?: string;
   initialSerialNumber?: string;
 }
@@ -44,6 +47,7 @@ const COMMON_COLORS = [
 
 export default function SmartDeviceRecognition({
   onDeviceRecognized,
+  onWarrantyClaim,
   initialIMEI = '',
   initialSerialNumber = '',
 }: SmartDeviceRecognitionProps) {
@@ -56,6 +60,7 @@ export default function SmartDeviceRecognition({
   const [recognitionSource, setRecognitionSource] = useState<RecognitionSource | null>(null);
   const [isLookingUp, setIsLookingUp] = useState(false);
   const [showColorPicker, setShowColorPicker] = useState(false);
+  const [warranties, setWarranties] = useState<WarrantyOrder[]>([]);
 
   useEffect(() => {
     if (imei.length >= 8) {
@@ -63,6 +68,14 @@ export default function SmartDeviceRecognition({
     }
   }, [imei]);
 
+  useEffect(() => {
+    if (imei.length === 15) {
+      getActiveWarranties({ device: imei }).then(setWarranties);
+    } else {
+      setWarranties([]);
+    }
+  }, [imei]);
+
   useEffect(() => {
     if (imei.length === 15) {
       const isValid = validateIMEI(imei);
@@ -177,6 +190,11 @@ export default function SmartDeviceRecognition({
       } else {
         toast.info('No previous orders found for this serial number');
       }
+
+      const serialWarranties = await getActiveWarranties({ device: formatSerialNumber(serialNumber) });
+      if (serialWarranties.length > 0) {
+        setWarranties(serialWarranties);
+      }
     } catch (error) {
       console.error('Serial number lookup error:', error);
       toast.error('Failed to lookup serial number');
@@ -285,6 +303,9 @@ export default function SmartDeviceRecognition({
         </div>
       )}
 
+      {/* Active warranties for this device */}
+      <ActiveWarranties warranties={warranties} onStartClaim={onWarrantyClaim} />
+
       {/* Brand Input */}
       <div>
         <label className="block text-sm font-medium text-neutral-700 mb-1.5">
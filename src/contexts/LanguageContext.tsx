@@ -15,10 +15,12 @@ const translations = {
     // Navigation
     'nav.dashboard': 'Панель управления',
     'nav.orders': 'Заказы',
+    'nav.appointments': 'Запись клиентов',
     'nav.clients': 'Клиенты',
     'nav.inventory': 'Склад',
     'nav.purchases': 'Закупки',
     'nav.sales': 'Продажи',
+    'nav.cashRegister': 'Касса',
     'nav.analytics': 'Аналитика',
     'nav.settings': 'Настройки',
     'nav.logout': 'Выход',
@@ -123,6 +125,7 @@ const translations = {
     'inventory.supplier': 'Поставщик',
     'inventory.movement': 'Движение',
     'inventory.audit': 'Инвентаризация',
+    'inventory.transfers': 'Перемещения',
 
     // Suppliers
     'suppliers.title': 'Поставщики',
@@ -169,10 +172,12 @@ const translations = {
     // Navigation
     'nav.dashboard': 'Instrumentu panelis',
     'nav.orders': 'Pasūtījumi',
+    'nav.appointments': 'Klientu pieraksts',
     'nav.clients': 'Klienti',
     'nav.inventory': 'Noliktava',
     'nav.purchases': 'Pirkumi',
     'nav.sales': 'Pārdošana',
+    'nav.cashRegister': 'Kase',
     'nav.analytics': 'Analītika',
     'nav.settings': 'Iestatījumi',
     'nav.logout': 'Iziet',
@@ -277,6 +282,7 @@ const translations = {
     'inventory.supplier': 'Piegādātājs',
     'inventory.movement': 'Kustība',
     'inventory.audit': 'Inventarizācija',
+    'inventory.transfers': 'Pārvietojumi',
 
     // Suppliers
     'suppliers.title': 'Piegādātāji',
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+
+/** USB scanners type faster than this between keys; people do not. */
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+function isEditable(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Calls `onScan` when a USB barcode scanner (a keyboard that types the code and
+ * presses Enter) is used while no text field has focus. Scans into a text
+ * field arrive as ordinary typing followed by Enter and are handled by that
+ * field.
+ */
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditable(e.target) || e.ctrlKey || e.altKey || e.metaKey) return;
+
+      const now = Date.now();
+      const fast = now - lastKeyAt <= MAX_KEY_INTERVAL_MS;
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (fast && buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+        return;
+      }
+
+      if (e.key.length === 1) {
+        buffer = fast ? buffer + e.key : e.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,144 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type Appointment = Database['public']['Tables']['appointments']['Row'];
+export type AppointmentStatus = Appointment['status'];
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Записан',
+  arrived: 'Пришел',
+  converted: 'Заказ создан',
+  cancelled: 'Отменен',
+  no_show: 'Не пришел',
+};
+
+export const APPOINTMENT_STATUS_COLORS: Record<AppointmentStatus, string> = {
+  scheduled: 'bg-blue-100 border-blue-300 text-blue-900',
+  arrived: 'bg-amber-100 border-amber-300 text-amber-900',
+  converted: 'bg-green-100 border-green-300 text-green-900',
+  cancelled: 'bg-neutral-100 border-neutral-300 text-neutral-500 line-through',
+  no_show: 'bg-red-50 border-red-200 text-red-700',
+};
+
+/** Opening hours used to build the calendar grid and propose slots. */
+export interface AppointmentHours {
+  open: string;
+  close: string;
+  slot_minutes: number;
+}
+
+export const DEFAULT_APPOINTMENT_HOURS: AppointmentHours = { open: '10:00', close: '21:00', slot_minutes: 30 };
+
+export interface AppointmentSlot {
+  start: Date;
+  technicianId: string | null;
+}
+
+// system_settings is admin-only, so the hours are read through an RPC
+export async function loadAppointmentHours(): Promise<AppointmentHours> {
+  const { data, error } = await supabase.rpc('get_appointment_hours');
+  if (error) {
+    console.error('Appointment hours error:', error);
+  }
+  return { ...DEFAULT_APPOINTMENT_HOURS, ...((data as Partial<AppointmentHours> | null) || {}) };
+}
+
+/** Appointments that still occupy their time slot. */
+export function isActiveAppointment(appointment: Appointment) {
+  return appointment.status === 'scheduled' || appointment.status === 'arrived';
+}
+
+export function getAppointmentEnd(appointment: Pick<Appointment, 'starts_at' | 'duration_minutes'>) {
+  return new Date(new Date(appointment.starts_at).getTime() + appointment.duration_minutes * 60000);
+}
+
+export function parseTimeToMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function atMinutes(day: Date, minutes: number) {
+  const date = new Date(day);
+  date.setHours(0, 0, 0, 0);
+  date.setMinutes(minutes);
+  return date;
+}
+
+export function startOfWeek(date: Date) {
+  const monday = new Date(date);
+  monday.setHours(0, 0, 0, 0);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+}
+
+export function addDays(date: Date, days: number) {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function isSameDay(a: Date, b: Date) {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+export function formatTime(date: Date) {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function overlaps(start: Date, end: Date, appointment: Appointment) {
+  return new Date(appointment.starts_at) < end && start < getAppointmentEnd(appointment);
+}
+
+/**
+ * Proposes free start times on a day for an appointment of the given length.
+ * With a technician only their bookings count; without one a slot is free
+ * when any of the candidate technicians is free, and that technician is
+ * returned with the slot.
+ */
+export function findFreeSlots({
+  day,
+  durationMinutes,
+  hours,
+  appointments,
+  technicianIds,
+  technicianId = null,
+  excludeId,
+}: {
+  day: Date;
+  durationMinutes: number;
+  hours: AppointmentHours;
+  appointments: Appointment[];
+  technicianIds: string[];
+  technicianId?: string | null;
+  excludeId?: string;
+}): AppointmentSlot[] {
+  const open = parseTimeToMinutes(hours.open);
+  const close = parseTimeToMinutes(hours.close);
+  const step = Math.max(5, hours.slot_minutes);
+  const duration = Math.max(step, durationMinutes);
+  const now = new Date();
+  const busy = appointments.filter(a => isActiveAppointment(a) && a.id !== excludeId);
+  const candidates = technicianId ? [technicianId] : technicianIds;
+
+  const slots: AppointmentSlot[] = [];
+  for (let minutes = open; minutes + duration <= close; minutes += step) {
+    const start = atMinutes(day, minutes);
+    if (start < now) continue;
+    const end = new Date(start.getTime() + duration * 60000);
+
+    if (candidates.length === 0) {
+      if (!busy.some(a => overlaps(start, end, a))) {
+        slots.push({ start, technicianId: null });
+      }
+      continue;
+    }
+
+    const freeTechnician = candidates.find(id =>
+      !busy.some(a => a.technician_id === id && overlaps(start, end, a))
+    );
+    if (freeTechnician) {
+      slots.push({ start, technicianId: freeTechnician });
+    }
+  }
+  return slots;
+}
@@ -0,0 +1,39 @@
+import type { Database } from './database.types';
+
+type BonusScheme = Database['public']['Tables']['bonus_schemes']['Row'];
+
+export type BonusBasis = BonusScheme['basis'];
+
+export interface BonusTier {
+  from: number;
+  rate: number;
+}
+
+export const BONUS_BASIS_LABELS: Record<BonusBasis, string> = {
+  labor_revenue: 'Labor revenue',
+  gross_profit: 'Gross profit',
+};
+
+export function parseBonusTiers(tiers: BonusScheme['tiers']): BonusTier[] {
+  if (!Array.isArray(tiers)) return [];
+  return (tiers as unknown as BonusTier[])
+    .map(tier => ({ from: Number(tier.from) || 0, rate: Number(tier.rate) || 0 }))
+    .sort((a, b) => a.from - b.from);
+}
+
+/** Same marginal formula as calculate_tiered_bonus() in the database. */
+export function calculateTieredBonus(amount: number, tiers: BonusTier[]) {
+  const sorted = [...tiers].sort((a, b) => a.from - b.from);
+  const bonus = sorted.reduce((sum, tier, index) => {
+    const upper = index < sorted.length - 1 ? Math.min(amount, sorted[index + 1].from) : amount;
+    return sum + Math.max(upper - tier.from, 0) * tier.rate;
+  }, 0);
+  return Math.round(bonus * 100) / 100;
+}
+
+export function describeBonusTiers(tiers: BonusTier[]) {
+  if (tiers.length === 0) return 'No bonus';
+  return tiers
+    .map(tier => `${(tier.rate * 100).toFixed(tier.rate * 100 % 1 === 0 ? 0 : 1)}% above €${tier.from.toLocaleString('en-IE')}`)
+    .join(', ');
+}
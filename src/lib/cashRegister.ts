@@ -0,0 +1,46 @@
+import type { Database } from './database.types';
+
+type CashMovement = Database['public']['Tables']['cash_movements']['Row'];
+
+export type CashMovementType = CashMovement['movement_type'];
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  order_payment: 'Оплата заказа',
+  order_refund: 'Возврат по заказу',
+  sale: 'Продажа',
+  cash_in: 'Внесение',
+  cash_out: 'Изъятие',
+};
+
+export function isCashOut(type: CashMovementType) {
+  return type === 'order_refund' || type === 'cash_out';
+}
+
+export interface CashSessionSummary {
+  orderPayments: number;
+  orderRefunds: number;
+  sales: number;
+  cashIn: number;
+  cashOut: number;
+  expected: number;
+}
+
+/** Same formula as calculate_cash_session_expected() in the database. */
+export function summarizeCashMovements(openingFloat: number, movements: Pick<CashMovement, 'movement_type' | 'amount'>[]): CashSessionSummary {
+  const sumOf = (type: CashMovementType) =>
+    movements.filter(m => m.movement_type === type).reduce((sum, m) => sum + Number(m.amount), 0);
+
+  const summary = {
+    orderPayments: sumOf('order_payment'),
+    orderRefunds: sumOf('order_refund'),
+    sales: sumOf('sale'),
+    cashIn: sumOf('cash_in'),
+    cashOut: sumOf('cash_out'),
+  };
+
+  const expected = openingFloat
+    + summary.orderPayments + summary.sales + summary.cashIn
+    - summary.orderRefunds - summary.cashOut;
+
+  return { ...summary, expected: Math.round(expected * 100) / 100 };
+}
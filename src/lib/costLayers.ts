@@ -0,0 +1,33 @@
+import { callRpc } from './supabase';
+
+export type CostingMethod = 'fifo' | 'weighted_average';
+
+export const COSTING_METHODS: { value: CostingMethod; label: string; description: string }[] = [
+  { value: 'fifo', label: 'FIFO', description: 'Списывается себестоимость самых старых партий; остаток оценивается по последним закупкам' },
+  { value: 'weighted_average', label: 'Средневзвешенная', description: 'Каждое поступление пересчитывает среднюю себестоимость, по ней списываются и оцениваются остатки' },
+];
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: 'FIFO',
+  weighted_average: 'средневзвешенная',
+};
+
+export interface InventoryValuation {
+  method: CostingMethod;
+  total_value: number;
+}
+
+interface InventoryValuationArgs {
+  p_location_id: number;
+}
+
+/** Stock value of a location by the costing method set in finance settings. */
+export async function getInventoryValuation(locationId: number): Promise<InventoryValuation | null> {
+  const { data: result, error } = await callRpc<{ success: boolean } & InventoryValuation, InventoryValuationArgs>(
+    'get_inventory_valuation',
+    { p_location_id: locationId }
+  );
+  if (error || !result) return null;
+
+  return result.success ? { method: result.method, total_value: Number(result.total_value) } : null;
+}
@@ -17,6 +17,8 @@ export interface Database {
           phone: string | null
           avatar_url: string | null
           created_at: string
+          repair_type_ids: string[]
+          manager_id: string | null
         }
         Insert: {
           id: string
@@ -25,6 +27,8 @@ export interface Database {
           phone?: string | null
           avatar_url?: string | null
           created_at?: string
+          repair_type_ids?: string[]
+          manager_id?: string | null
         }
         Update: {
           id?: string
@@ -33,6 +37,8 @@ export interface Database {
           phone?: string | null
           avatar_url?: string | null
           created_at?: string
+          repair_type_ids?: string[]
+          manager_id?: string | null
         }
       }
       clients: {
@@ -80,6 +86,9 @@ export interface Database {
           position: number
           color: string
           created_at: string
+          kind: string
+          allowed_next_stage_ids: string[] | null
+          required_fields: string[]
         }
         Insert: {
           id?: string
@@ -87,6 +96,9 @@ export interface Database {
           position: number
           color?: string
           created_at?: string
+          kind?: string
+          allowed_next_stage_ids?: string[] | null
+          required_fields?: string[]
         }
         Update: {
           id?: string
@@ -94,6 +106,9 @@ export interface Database {
           position?: number
           color?: string
           created_at?: string
+          kind?: string
+          allowed_next_stage_ids?: string[] | null
+          required_fields?: string[]
         }
       }
       orders: {
@@ -126,6 +141,18 @@ export interface Database {
           total_discount: number
           estimated_profit: number
           created_at: string
+          board_position: number | null
+          prepayment: number
+          balance_due: number
+          paid_amount: number
+          order_type: 'repair' | 'warranty_claim'
+          original_order_id: string | null
+          payroll_run_id: string | null
+          order_number: string
+          tracking_token: string
+          awaiting_approval: boolean
+          approval_token: string
+          sla_rule_id: string | null
         }
         Insert: {
           id?: string
@@ -156,6 +183,18 @@ export interface Database {
           total_discount?: number
           estimated_profit?: number
           created_at?: string
+          board_position?: number | null
+          prepayment?: number
+          balance_due?: number
+          paid_amount?: number
+          order_type?: 'repair' | 'warranty_claim'
+          original_order_id?: string | null
+          payroll_run_id?: string | null
+          order_number?: string
+          tracking_token?: string
+          awaiting_approval?: boolean
+          approval_token?: string
+          sla_rule_id?: string | null
         }
         Update: {
           id?: string
@@ -186,6 +225,18 @@ export interface Database {
           total_discount?: number
           estimated_profit?: number
           created_at?: string
+          board_position?: number | null
+          prepayment?: number
+          balance_due?: number
+          paid_amount?: number
+          order_type?: 'repair' | 'warranty_claim'
+          original_order_id?: string | null
+          payroll_run_id?: string | null
+          order_number?: string
+          tracking_token?: string
+          awaiting_approval?: boolean
+          approval_token?: string
+          sla_rule_id?: string | null
         }
       }
       order_history: {
@@ -228,6 +279,11 @@ export interface Database {
           location: string
           min_quantity: number
           created_at: string
+          supplier_id: string | null
+          reserved_quantity: number
+          available_quantity: number
+          is_serialized: boolean
+          max_quantity: number | null
         }
         Insert: {
           id?: string
@@ -239,6 +295,11 @@ export interface Database {
           location?: string
           min_quantity?: number
           created_at?: string
+          supplier_id?: string | null
+          reserved_quantity?: number
+          available_quantity?: number
+          is_serialized?: boolean
+          max_quantity?: number | null
         }
         Update: {
           id?: string
@@ -250,6 +311,11 @@ export interface Database {
           location?: string
           min_quantity?: number
           created_at?: string
+          supplier_id?: string | null
+          reserved_quantity?: number
+          available_quantity?: number
+          is_serialized?: boolean
+          max_quantity?: number | null
         }
       }
       inventory_movements: {
@@ -262,6 +328,7 @@ export interface Database {
           quantity: number
           notes: string | null
           created_at: string
+          cost_per_unit: number
         }
         Insert: {
           id?: string
@@ -272,6 +339,7 @@ export interface Database {
           quantity: number
           notes?: string | null
           created_at?: string
+          cost_per_unit?: number
         }
         Update: {
           id?: string
@@ -282,6 +350,7 @@ export interface Database {
           quantity?: number
           notes?: string | null
           created_at?: string
+          cost_per_unit?: number
         }
       }
       order_items: {
@@ -305,6 +374,15 @@ export interface Database {
           item_comment: string | null
           unit_cost: number
           created_at: string
+          warranty_expires_at: string | null
+          approval_status: 'approved' | 'proposed' | 'declined'
+          approval_decided_at: string | null
+          service_id: string | null
+          estimated_minutes: number
+          stock_reserved: boolean
+          purchase_order_item_id: string | null
+          stock_consumed: boolean
+          inventory_unit_id: string | null
         }
         Insert: {
           id?: string
@@ -326,6 +404,15 @@ export interface Database {
           item_comment?: string | null
           unit_cost?: number
           created_at?: string
+          warranty_expires_at?: string | null
+          approval_status?: 'approved' | 'proposed' | 'declined'
+          approval_decided_at?: string | null
+          service_id?: string | null
+          estimated_minutes?: number
+          stock_reserved?: boolean
+          purchase_order_item_id?: string | null
+          stock_consumed?: boolean
+          inventory_unit_id?: string | null
         }
         Update: {
           id?: string
@@ -347,6 +434,15 @@ export interface Database {
           item_comment?: string | null
           unit_cost?: number
           created_at?: string
+          warranty_expires_at?: string | null
+          approval_status?: 'approved' | 'proposed' | 'declined'
+          approval_decided_at?: string | null
+          service_id?: string | null
+          estimated_minutes?: number
+          stock_reserved?: boolean
+          purchase_order_item_id?: string | null
+          stock_consumed?: boolean
+          inventory_unit_id?: string | null
         }
       }
       communications: {
@@ -359,6 +455,10 @@ export interface Database {
           message: string
           status: string
           created_at: string
+          recipient: string | null
+          provider: string | null
+          template_id: string | null
+          error: string | null
         }
         Insert: {
           id?: string
@@ -369,6 +469,10 @@ export interface Database {
           message: string
           status?: string
           created_at?: string
+          recipient?: string | null
+          provider?: string | null
+          template_id?: string | null
+          error?: string | null
         }
         Update: {
           id?: string
@@ -379,6 +483,10 @@ export interface Database {
           message?: string
           status?: string
           created_at?: string
+          recipient?: string | null
+          provider?: string | null
+          template_id?: string | null
+          error?: string | null
         }
       }
       traffic_sources: {
@@ -647,6 +755,882 @@ export interface Database {
           created_at?: string
         }
       }
+      sales: {
+        Row: {
+          id: string
+          sale_number: string
+          location_id: number
+          client_id: string | null
+          customer_name: string | null
+          payment_method: string
+          subtotal: number
+          total_discount: number
+          total_amount: number
+          total_cost: number
+          notes: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          sale_number?: string
+          location_id: number
+          client_id?: string | null
+          customer_name?: string | null
+          payment_method?: string
+          subtotal?: number
+          total_discount?: number
+          total_amount?: number
+          total_cost?: number
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          sale_number?: string
+          location_id?: number
+          client_id?: string | null
+          customer_name?: string | null
+          payment_method?: string
+          subtotal?: number
+          total_discount?: number
+          total_amount?: number
+          total_cost?: number
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      sale_items: {
+        Row: {
+          id: string
+          sale_id: string
+          inventory_id: string | null
+          name: string
+          quantity: number
+          unit_price: number
+          unit_cost: number
+          discount_type: string
+          discount_value: number
+          total_price: number
+          created_at: string
+          inventory_unit_id: string | null
+        }
+        Insert: {
+          id?: string
+          sale_id: string
+          inventory_id?: string | null
+          name: string
+          quantity?: number
+          unit_price?: number
+          unit_cost?: number
+          discount_type?: string
+          discount_value?: number
+          total_price?: number
+          created_at?: string
+          inventory_unit_id?: string | null
+        }
+        Update: {
+          id?: string
+          sale_id?: string
+          inventory_id?: string | null
+          name?: string
+          quantity?: number
+          unit_price?: number
+          unit_cost?: number
+          discount_type?: string
+          discount_value?: number
+          total_price?: number
+          created_at?: string
+          inventory_unit_id?: string | null
+        }
+      }
+      stock_transfers: {
+        Row: {
+          id: string
+          transfer_number: string
+          source_location_id: number
+          destination_location_id: number
+          source_inventory_id: string | null
+          destination_inventory_id: string | null
+          part_name: string
+          sku: string | null
+          quantity_requested: number
+          quantity_shipped: number | null
+          quantity_received: number | null
+          discrepancy: number | null
+          discrepancy_notes: string | null
+          status: 'requested' | 'shipped' | 'received' | 'cancelled'
+          notes: string | null
+          requested_by: string | null
+          shipped_by: string | null
+          received_by: string | null
+          cancelled_by: string | null
+          requested_at: string
+          shipped_at: string | null
+          received_at: string | null
+          cancelled_at: string | null
+          created_at: string
+          unit_cost: number | null
+        }
+        Insert: {
+          id?: string
+          transfer_number?: string
+          source_location_id: number
+          destination_location_id: number
+          source_inventory_id?: string | null
+          destination_inventory_id?: string | null
+          part_name: string
+          sku?: string | null
+          quantity_requested: number
+          quantity_shipped?: number | null
+          quantity_received?: number | null
+          discrepancy?: number | null
+          discrepancy_notes?: string | null
+          status?: 'requested' | 'shipped' | 'received' | 'cancelled'
+          notes?: string | null
+          requested_by?: string | null
+          shipped_by?: string | null
+          received_by?: string | null
+          cancelled_by?: string | null
+          requested_at?: string
+          shipped_at?: string | null
+          received_at?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          unit_cost?: number | null
+        }
+        Update: {
+          id?: string
+          transfer_number?: string
+          source_location_id?: number
+          destination_location_id?: number
+          source_inventory_id?: string | null
+          destination_inventory_id?: string | null
+          part_name?: string
+          sku?: string | null
+          quantity_requested?: number
+          quantity_shipped?: number | null
+          quantity_received?: number | null
+          discrepancy?: number | null
+          discrepancy_notes?: string | null
+          status?: 'requested' | 'shipped' | 'received' | 'cancelled'
+          notes?: string | null
+          requested_by?: string | null
+          shipped_by?: string | null
+          received_by?: string | null
+          cancelled_by?: string | null
+          requested_at?: string
+          shipped_at?: string | null
+          received_at?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          unit_cost?: number | null
+        }
+      }
+      invoices: {
+        Row: {
+          id: string
+          invoice_number: string
+          order_id: string | null
+          location_id: number
+          client_company_name: string
+          client_registration_number: string
+          client_pvn_number: string | null
+          client_legal_address: string
+          service_type: string
+          service_description: string
+          quantity: number
+          unit_price: number
+          subtotal: number
+          vat_rate: number
+          vat_amount: number
+          total_amount: number
+          total_in_words: string | null
+          payment_due_date: string
+          bank_name: string
+          bank_iban: string
+          notes: string | null
+          created_by: string | null
+          issued_date: string
+          created_at: string
+          document_type: 'invoice' | 'credit_note'
+          credited_invoice_id: string | null
+          status: 'issued' | 'paid' | 'partially_paid' | 'cancelled' | 'credited'
+          paid_amount: number
+          cancelled_at: string | null
+          cancelled_by: string | null
+          cancellation_reason: string | null
+        }
+        Insert: {
+          id?: string
+          invoice_number: string
+          order_id?: string | null
+          location_id: number
+          client_company_name: string
+          client_registration_number: string
+          client_pvn_number?: string | null
+          client_legal_address: string
+          service_type: string
+          service_description: string
+          quantity?: number
+          unit_price?: number
+          subtotal?: number
+          vat_rate?: number
+          vat_amount?: number
+          total_amount?: number
+          total_in_words?: string | null
+          payment_due_date: string
+          bank_name?: string
+          bank_iban?: string
+          notes?: string | null
+          created_by?: string | null
+          issued_date?: string
+          created_at?: string
+          document_type?: 'invoice' | 'credit_note'
+          credited_invoice_id?: string | null
+          status?: 'issued' | 'paid' | 'partially_paid' | 'cancelled' | 'credited'
+          paid_amount?: number
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          cancellation_reason?: string | null
+        }
+        Update: {
+          id?: string
+          invoice_number?: string
+          order_id?: string | null
+          location_id?: number
+          client_company_name?: string
+          client_registration_number?: string
+          client_pvn_number?: string | null
+          client_legal_address?: string
+          service_type?: string
+          service_description?: string
+          quantity?: number
+          unit_price?: number
+          subtotal?: number
+          vat_rate?: number
+          vat_amount?: number
+          total_amount?: number
+          total_in_words?: string | null
+          payment_due_date?: string
+          bank_name?: string
+          bank_iban?: string
+          notes?: string | null
+          created_by?: string | null
+          issued_date?: string
+          created_at?: string
+          document_type?: 'invoice' | 'credit_note'
+          credited_invoice_id?: string | null
+          status?: 'issued' | 'paid' | 'partially_paid' | 'cancelled' | 'credited'
+          paid_amount?: number
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          cancellation_reason?: string | null
+        }
+      }
+      invoice_lines: {
+        Row: {
+          id: string
+          invoice_id: string
+          position: number
+          order_item_id: string | null
+          item_type: string
+          description: string
+          quantity: number
+          unit_price: number
+          discount_type: 'percent' | 'fixed'
+          discount_value: number
+          vat_rate: number
+          net_amount: number
+          vat_amount: number
+          total_amount: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          invoice_id: string
+          position?: number
+          order_item_id?: string | null
+          item_type?: string
+          description: string
+          quantity?: number
+          unit_price?: number
+          discount_type?: 'percent' | 'fixed'
+          discount_value?: number
+          vat_rate?: number
+          net_amount?: number
+          vat_amount?: number
+          total_amount?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          invoice_id?: string
+          position?: number
+          order_item_id?: string | null
+          item_type?: string
+          description?: string
+          quantity?: number
+          unit_price?: number
+          discount_type?: 'percent' | 'fixed'
+          discount_value?: number
+          vat_rate?: number
+          net_amount?: number
+          vat_amount?: number
+          total_amount?: number
+          created_at?: string
+        }
+      }
+      order_payments: {
+        Row: {
+          id: string
+          order_id: string
+          location_id: number | null
+          payment_type: 'deposit' | 'payment' | 'refund'
+          payment_method: 'cash' | 'bank' | 'bs_cash'
+          amount: number
+          tendered_amount: number | null
+          change_amount: number
+          notes: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          location_id?: number | null
+          payment_type?: 'deposit' | 'payment' | 'refund'
+          payment_method?: 'cash' | 'bank' | 'bs_cash'
+          amount: number
+          tendered_amount?: number | null
+          change_amount?: number
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          location_id?: number | null
+          payment_type?: 'deposit' | 'payment' | 'refund'
+          payment_method?: 'cash' | 'bank' | 'bs_cash'
+          amount?: number
+          tendered_amount?: number | null
+          change_amount?: number
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      cash_register_sessions: {
+        Row: {
+          id: string
+          session_number: string
+          location_id: number
+          status: 'open' | 'closed'
+          opening_float: number
+          expected_cash: number | null
+          counted_cash: number | null
+          discrepancy: number | null
+          closing_notes: string | null
+          opened_by: string | null
+          opened_at: string
+          closed_by: string | null
+          closed_at: string | null
+        }
+        Insert: {
+          id?: string
+          session_number?: string
+          location_id: number
+          status?: 'open' | 'closed'
+          opening_float?: number
+          expected_cash?: number | null
+          counted_cash?: number | null
+          discrepancy?: number | null
+          closing_notes?: string | null
+          opened_by?: string | null
+          opened_at?: string
+          closed_by?: string | null
+          closed_at?: string | null
+        }
+        Update: {
+          id?: string
+          session_number?: string
+          location_id?: number
+          status?: 'open' | 'closed'
+          opening_float?: number
+          expected_cash?: number | null
+          counted_cash?: number | null
+          discrepancy?: number | null
+          closing_notes?: string | null
+          opened_by?: string | null
+          opened_at?: string
+          closed_by?: string | null
+          closed_at?: string | null
+        }
+      }
+      cash_movements: {
+        Row: {
+          id: string
+          session_id: string | null
+          location_id: number
+          movement_type: 'order_payment' | 'order_refund' | 'sale' | 'cash_in' | 'cash_out'
+          amount: number
+          order_payment_id: string | null
+          sale_id: string | null
+          reason: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          session_id?: string | null
+          location_id: number
+          movement_type: 'order_payment' | 'order_refund' | 'sale' | 'cash_in' | 'cash_out'
+          amount: number
+          order_payment_id?: string | null
+          sale_id?: string | null
+          reason?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string | null
+          location_id?: number
+          movement_type?: 'order_payment' | 'order_refund' | 'sale' | 'cash_in' | 'cash_out'
+          amount?: number
+          order_payment_id?: string | null
+          sale_id?: string | null
+          reason?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      bonus_schemes: {
+        Row: {
+          id: string
+          name: string
+          basis: 'labor_revenue' | 'gross_profit'
+          quota: number
+          tiers: Json
+          role: string | null
+          profile_id: string | null
+          location_id: number | null
+          effective_from: string
+          is_active: boolean
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          effective_to: string | null
+          previous_version_id: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          basis?: 'labor_revenue' | 'gross_profit'
+          quota?: number
+          tiers?: Json
+          role?: string | null
+          profile_id?: string | null
+          location_id?: number | null
+          effective_from?: string
+          is_active?: boolean
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          effective_to?: string | null
+          previous_version_id?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          basis?: 'labor_revenue' | 'gross_profit'
+          quota?: number
+          tiers?: Json
+          role?: string | null
+          profile_id?: string | null
+          location_id?: number | null
+          effective_from?: string
+          is_active?: boolean
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          effective_to?: string | null
+          previous_version_id?: string | null
+        }
+      }
+      payroll_runs: {
+        Row: {
+          id: string
+          period_month: string
+          location_id: number | null
+          status: 'closed' | 'reopened'
+          total_labor: number
+          total_commission: number
+          total_bonus: number
+          closed_by: string | null
+          closed_at: string
+          reopened_by: string | null
+          reopened_at: string | null
+          reopen_reason: string | null
+        }
+        Insert: {
+          id?: string
+          period_month: string
+          location_id?: number | null
+          status?: 'closed' | 'reopened'
+          total_labor?: number
+          total_commission?: number
+          total_bonus?: number
+          closed_by?: string | null
+          closed_at?: string
+          reopened_by?: string | null
+          reopened_at?: string | null
+          reopen_reason?: string | null
+        }
+        Update: {
+          id?: string
+          period_month?: string
+          location_id?: number | null
+          status?: 'closed' | 'reopened'
+          total_labor?: number
+          total_commission?: number
+          total_bonus?: number
+          closed_by?: string | null
+          closed_at?: string
+          reopened_by?: string | null
+          reopened_at?: string | null
+          reopen_reason?: string | null
+        }
+      }
+      payslips: {
+        Row: {
+          id: string
+          payroll_run_id: string
+          profile_id: string | null
+          employee_name: string
+          orders_count: number
+          labor_total: number
+          commission_total: number
+          bonus_basis: string | null
+          bonus_basis_amount: number
+          bonus_quota: number
+          bonus_amount: number
+          bonus_scheme_id: string | null
+          bonus_scheme_name: string | null
+          total_pay: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          payroll_run_id: string
+          profile_id?: string | null
+          employee_name: string
+          orders_count?: number
+          labor_total?: number
+          commission_total?: number
+          bonus_basis?: string | null
+          bonus_basis_amount?: number
+          bonus_quota?: number
+          bonus_amount?: number
+          bonus_scheme_id?: string | null
+          bonus_scheme_name?: string | null
+          total_pay?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          payroll_run_id?: string
+          profile_id?: string | null
+          employee_name?: string
+          orders_count?: number
+          labor_total?: number
+          commission_total?: number
+          bonus_basis?: string | null
+          bonus_basis_amount?: number
+          bonus_quota?: number
+          bonus_amount?: number
+          bonus_scheme_id?: string | null
+          bonus_scheme_name?: string | null
+          total_pay?: number
+          created_at?: string
+        }
+      }
+      notification_templates: {
+        Row: {
+          id: string
+          stage_id: string
+          channel: 'sms' | 'whatsapp' | 'email'
+          subject: string | null
+          body: string
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          stage_id: string
+          channel?: 'sms' | 'whatsapp' | 'email'
+          subject?: string | null
+          body: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          stage_id?: string
+          channel?: 'sms' | 'whatsapp' | 'email'
+          subject?: string | null
+          body?: string
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      appointments: {
+        Row: {
+          id: string
+          location_id: number
+          technician_id: string | null
+          client_id: string | null
+          client_name: string
+          client_phone: string
+          device_type: string | null
+          device_model: string | null
+          issue_description: string | null
+          service_ids: string[]
+          starts_at: string
+          duration_minutes: number
+          status: 'scheduled' | 'arrived' | 'converted' | 'cancelled' | 'no_show'
+          order_id: string | null
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          location_id: number
+          technician_id?: string | null
+          client_id?: string | null
+          client_name?: string
+          client_phone?: string
+          device_type?: string | null
+          device_model?: string | null
+          issue_description?: string | null
+          service_ids?: string[]
+          starts_at: string
+          duration_minutes?: number
+          status?: 'scheduled' | 'arrived' | 'converted' | 'cancelled' | 'no_show'
+          order_id?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          location_id?: number
+          technician_id?: string | null
+          client_id?: string | null
+          client_name?: string
+          client_phone?: string
+          device_type?: string | null
+          device_model?: string | null
+          issue_description?: string | null
+          service_ids?: string[]
+          starts_at?: string
+          duration_minutes?: number
+          status?: 'scheduled' | 'arrived' | 'converted' | 'cancelled' | 'no_show'
+          order_id?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      work_time_entries: {
+        Row: {
+          id: string
+          order_id: string
+          order_item_id: string | null
+          technician_id: string
+          location_id: number | null
+          started_at: string
+          ended_at: string | null
+          duration_seconds: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          order_item_id?: string | null
+          technician_id?: string
+          location_id?: number | null
+          started_at?: string
+          ended_at?: string | null
+          duration_seconds?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          order_item_id?: string | null
+          technician_id?: string
+          location_id?: number | null
+          started_at?: string
+          ended_at?: string | null
+          duration_seconds?: number | null
+          created_at?: string
+        }
+      }
+      sla_rules: {
+        Row: {
+          id: string
+          repair_type_id: string | null
+          priority: 'low' | 'medium' | 'high' | 'urgent' | null
+          resolution_hours: number
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          repair_type_id?: string | null
+          priority?: 'low' | 'medium' | 'high' | 'urgent' | null
+          resolution_hours: number
+          is_active?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          repair_type_id?: string | null
+          priority?: 'low' | 'medium' | 'high' | 'urgent' | null
+          resolution_hours?: number
+          is_active?: boolean
+          created_at?: string
+        }
+      }
+      inventory_units: {
+        Row: {
+          id: string
+          inventory_id: string
+          location_id: number | null
+          imei: string | null
+          serial_number: string | null
+          grade: 'new' | 'a' | 'b' | 'c' | 'parts'
+          cost: number
+          status: 'in_stock' | 'reserved' | 'sold' | 'in_repair'
+          order_item_id: string | null
+          sale_item_id: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          inventory_id: string
+          location_id?: number | null
+          imei?: string | null
+          serial_number?: string | null
+          grade?: 'new' | 'a' | 'b' | 'c' | 'parts'
+          cost?: number
+          status?: 'in_stock' | 'reserved' | 'sold' | 'in_repair'
+          order_item_id?: string | null
+          sale_item_id?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          inventory_id?: string
+          location_id?: number | null
+          imei?: string | null
+          serial_number?: string | null
+          grade?: 'new' | 'a' | 'b' | 'c' | 'parts'
+          cost?: number
+          status?: 'in_stock' | 'reserved' | 'sold' | 'in_repair'
+          order_item_id?: string | null
+          sale_item_id?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      inventory_unit_events: {
+        Row: {
+          id: string
+          unit_id: string
+          event_type: string
+          status: string | null
+          order_id: string | null
+          sale_id: string | null
+          user_id: string | null
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          unit_id: string
+          event_type: string
+          status?: string | null
+          order_id?: string | null
+          sale_id?: string | null
+          user_id?: string | null
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          unit_id?: string
+          event_type?: string
+          status?: string | null
+          order_id?: string | null
+          sale_id?: string | null
+          user_id?: string | null
+          notes?: string | null
+          created_at?: string
+        }
+      }
+      inventory_cost_layers: {
+        Row: {
+          id: string
+          inventory_id: string
+          movement_id: string | null
+          source: string
+          quantity: number
+          quantity_remaining: number
+          unit_cost: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          inventory_id: string
+          movement_id?: string | null
+          source: string
+          quantity: number
+          quantity_remaining: number
+          unit_cost?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          inventory_id?: string
+          movement_id?: string | null
+          source?: string
+          quantity?: number
+          quantity_remaining?: number
+          unit_cost?: number
+          created_at?: string
+        }
+      }
     }
   }
 }
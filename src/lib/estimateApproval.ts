@@ -0,0 +1,78 @@
+import { callRpc } from './supabase';
+import type { Database } from './database.types';
+
+export const APPROVAL_PATH = '/approve';
+
+export type ItemApprovalStatus = Database['public']['Tables']['order_items']['Row']['approval_status'];
+export type EstimateDecision = 'approved' | 'declined';
+
+export interface EstimateLine {
+  id: string;
+  name: string;
+  item_type: string;
+  quantity: number;
+  total_price: number;
+  comment: string | null;
+  approval_status: ItemApprovalStatus;
+  approval_decided_at: string | null;
+}
+
+/** What the client sees on the approval page. */
+export interface OrderEstimate {
+  order_number: string;
+  device: string;
+  awaiting_approval: boolean;
+  approved_total: number;
+  items: EstimateLine[];
+}
+
+interface OrderEstimateResult {
+  success: boolean;
+  error?: 'not_found';
+  estimate?: OrderEstimate;
+}
+
+interface DecideEstimateResult {
+  success: boolean;
+  error?: 'not_found' | 'invalid_request' | 'order_closed';
+  decided?: number;
+}
+
+interface DecideEstimateArgs {
+  p_token: string;
+  p_decisions: { item_id: string; decision: EstimateDecision }[];
+}
+
+export function isApprovalRoute() {
+  return window.location.pathname.replace(/\/+$/, '') === APPROVAL_PATH;
+}
+
+export function getApprovalUrl(token: string) {
+  return `${window.location.origin}${APPROVAL_PATH}?token=${encodeURIComponent(token)}`;
+}
+
+export async function loadOrderEstimate(token: string): Promise<OrderEstimateResult> {
+  const { data, error } = await callRpc<OrderEstimateResult, { p_token: string }>('get_order_estimate', { p_token: token });
+  if (error || !data) {
+    console.error('Estimate lookup error:', error);
+    return { success: false, error: 'not_found' };
+  }
+  return data;
+}
+
+export async function submitEstimateDecisions(
+  token: string,
+  decisions: Record<string, EstimateDecision>
+): Promise<DecideEstimateResult> {
+  const payload = Object.entries(decisions).map(([itemId, decision]) => ({ item_id: itemId, decision }));
+
+  const { data, error } = await callRpc<DecideEstimateResult, DecideEstimateArgs>('decide_estimate_items', {
+    p_token: token,
+    p_decisions: payload,
+  });
+  if (error || !data) {
+    console.error('Estimate decision error:', error);
+    return { success: false, error: 'invalid_request' };
+  }
+  return data;
+}
@@ -0,0 +1,101 @@
+import { supabase, callRpc } from './supabase';
+import { validateIMEI } from './tacDatabase';
+import type { Database } from './database.types';
+
+export type InventoryUnit = Database['public']['Tables']['inventory_units']['Row'];
+export type InventoryUnitEvent = Database['public']['Tables']['inventory_unit_events']['Row'];
+export type UnitGrade = InventoryUnit['grade'];
+export type UnitStatus = InventoryUnit['status'];
+
+export const UNIT_GRADE_LABELS: Record<UnitGrade, string> = {
+  new: 'Новый',
+  a: 'A — как новый',
+  b: 'B — следы использования',
+  c: 'C — заметные дефекты',
+  parts: 'На запчасти',
+};
+
+export const UNIT_STATUS_LABELS: Record<UnitStatus, string> = {
+  in_stock: 'На складе',
+  reserved: 'Зарезервирован',
+  sold: 'Продан',
+  in_repair: 'В ремонте',
+};
+
+export const UNIT_STATUS_COLORS: Record<UnitStatus, string> = {
+  in_stock: 'bg-green-100 text-green-700',
+  reserved: 'bg-amber-100 text-amber-700',
+  sold: 'bg-neutral-100 text-neutral-600',
+  in_repair: 'bg-blue-100 text-blue-700',
+};
+
+export function getUnitCode(unit: Pick<InventoryUnit, 'imei' | 'serial_number'>) {
+  return unit.imei || unit.serial_number || '—';
+}
+
+/**
+ * Checks the identifiers of a unit before it is saved or looked up. An IMEI
+ * must pass the Luhn check; a serial number is only required when there is no
+ * IMEI. Returns an error message or null.
+ */
+export function validateUnitIdentifiers(imei: string, serialNumber: string): string | null {
+  const cleanImei = imei.replace(/\s/g, '');
+  if (!cleanImei && !serialNumber.trim()) {
+    return 'Укажите IMEI или серийный номер';
+  }
+  if (cleanImei && !validateIMEI(cleanImei)) {
+    return 'Некорректный IMEI: нужно 15 цифр с верной контрольной суммой';
+  }
+  return null;
+}
+
+export async function loadInStockUnits(inventoryId: string) {
+  const { data } = await supabase
+    .from('inventory_units')
+    .select('*')
+    .eq('inventory_id', inventoryId)
+    .eq('status', 'in_stock')
+    .order('created_at');
+  return (data as InventoryUnit[]) || [];
+}
+
+export async function loadItemUnits(inventoryId: string) {
+  const { data } = await supabase
+    .from('inventory_units')
+    .select('*')
+    .eq('inventory_id', inventoryId)
+    .order('created_at', { ascending: false });
+  return (data as InventoryUnit[]) || [];
+}
+
+export async function loadUnitEvents(unitId: string) {
+  const { data } = await supabase
+    .from('inventory_unit_events')
+    .select('*')
+    .eq('unit_id', unitId)
+    .order('created_at', { ascending: false });
+  return (data as InventoryUnitEvent[]) || [];
+}
+
+interface AddUnitInput {
+  inventory_id: string;
+  imei: string;
+  serial_number: string;
+  grade: UnitGrade;
+  cost: number;
+  notes: string;
+  add_to_stock: boolean;
+}
+
+interface AddUnitArgs {
+  p_unit: Omit<AddUnitInput, 'imei' | 'serial_number'> & { imei: string | null; serial_number: string | null };
+}
+
+export async function addInventoryUnit(input: AddUnitInput): Promise<{ error: { message: string } | null }> {
+  const { data: result, error } = await callRpc<{ success: boolean; error?: string }, AddUnitArgs>('add_inventory_unit', {
+    p_unit: { ...input, imei: input.imei.replace(/\s/g, '') || null, serial_number: input.serial_number.trim() || null }
+  });
+  if (error) return { error };
+
+  return { error: result?.success ? null : { message: result?.error || 'Failed to add unit' } };
+}
@@ -0,0 +1,62 @@
+export const VAT_RATES = [21, 12, 5, 0];
+
+export interface InvoiceLineInput {
+  order_item_id?: string | null;
+  item_type: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+  vat_rate: number;
+}
+
+export interface LineAmounts {
+  net: number;
+  vat: number;
+  total: number;
+}
+
+export interface VatBreakdownRow {
+  rate: number;
+  net: number;
+  vat: number;
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/** Same rounding as the calculate_invoice_line_amounts trigger. */
+export function calculateLineAmounts(line: Pick<InvoiceLineInput, 'quantity' | 'unit_price' | 'discount_type' | 'discount_value' | 'vat_rate'>): LineAmounts {
+  const gross = line.quantity * line.unit_price;
+  const discount = line.discount_type === 'percent'
+    ? gross * line.discount_value / 100
+    : Math.sign(gross) * Math.min(line.discount_value, Math.abs(gross));
+  const net = round2(gross - discount);
+  const vat = round2(net * line.vat_rate / 100);
+  return { net, vat, total: round2(net + vat) };
+}
+
+export function calculateVatBreakdown(lines: { vat_rate: number; net: number; vat: number }[]): VatBreakdownRow[] {
+  const byRate = new Map<number, VatBreakdownRow>();
+  lines.forEach(line => {
+    const row = byRate.get(line.vat_rate) || { rate: line.vat_rate, net: 0, vat: 0 };
+    row.net = round2(row.net + line.net);
+    row.vat = round2(row.vat + line.vat);
+    byRate.set(line.vat_rate, row);
+  });
+  return Array.from(byRate.values()).sort((a, b) => b.rate - a.rate);
+}
+
+export function calculateInvoiceTotals(lines: InvoiceLineInput[]) {
+  const amounts = lines.map(line => ({ vat_rate: line.vat_rate, ...calculateLineAmounts(line) }));
+  const subtotal = round2(amounts.reduce((sum, line) => sum + line.net, 0));
+  const vatAmount = round2(amounts.reduce((sum, line) => sum + line.vat, 0));
+  return {
+    subtotal,
+    vatAmount,
+    total: round2(subtotal + vatAmount),
+    vatBreakdown: calculateVatBreakdown(amounts),
+  };
+}
@@ -0,0 +1,141 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type InventoryItem = Database['public']['Tables']['inventory']['Row'];
+
+export interface LabelSize {
+  id: string;
+  label: string;
+  /** Millimetres. */
+  width: number;
+  height: number;
+  /** Printed three across on A4 sheets instead of a roll. */
+  sheet?: boolean;
+}
+
+export type LabelCodeType = 'barcode' | 'qr';
+
+export const LABEL_SIZES: LabelSize[] = [
+  { id: '40x25', label: '40 × 25 мм', width: 40, height: 25 },
+  { id: '50x30', label: '50 × 30 мм', width: 50, height: 30 },
+  { id: '58x40', label: '58 × 40 мм', width: 58, height: 40 },
+  { id: '70x37', label: '70 × 37 мм (лист A4, 3 × 8)', width: 70, height: 37, sheet: true },
+];
+
+const LABEL_SIZE_KEY = 'labelSize';
+
+/** The label printer is per workstation, so the size is kept in the browser. */
+export function loadLabelSize(): LabelSize {
+  const saved = localStorage.getItem(LABEL_SIZE_KEY);
+  return LABEL_SIZES.find(size => size.id === saved) || LABEL_SIZES[0];
+}
+
+export function saveLabelSize(size: LabelSize) {
+  localStorage.setItem(LABEL_SIZE_KEY, size.id);
+}
+
+function ean13CheckDigit(digits: string) {
+  const sum = digits
+    .split('')
+    .reduce((acc, digit, index) => acc + parseInt(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return ((10 - (sum % 10)) % 10).toString();
+}
+
+export function isValidEan13(value: string) {
+  return /^\d{13}$/.test(value) && ean13CheckDigit(value.slice(0, 12)) === value[12];
+}
+
+export function getBarcodeFormat(value: string) {
+  return isValidEan13(value) ? 'EAN13' : 'CODE128';
+}
+
+/** EAN-13 in the 2xx range reserved for in-store numbering. */
+export function generateInternalBarcode() {
+  let digits = '2';
+  for (let i = 0; i < 11; i++) {
+    digits += Math.floor(Math.random() * 10).toString();
+  }
+  return digits + ean13CheckDigit(digits);
+}
+
+export function getItemCode(item: Pick<InventoryItem, 'barcode' | 'sku'>) {
+  return item.barcode || item.sku || '';
+}
+
+/** A scanned code matches the barcode or the SKU of an item. */
+export function matchesCode(item: Pick<InventoryItem, 'barcode' | 'sku'>, code: string) {
+  const value = code.trim();
+  return value !== '' && (item.barcode === value || item.sku?.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * Gives items without a barcode or SKU an internal barcode so their labels can
+ * be scanned back. Returns the items with the codes they are printed with.
+ */
+export async function ensureItemBarcodes(items: InventoryItem[]) {
+  const result: InventoryItem[] = [];
+  for (const item of items) {
+    if (getItemCode(item)) {
+      result.push(item);
+      continue;
+    }
+
+    const barcode = generateInternalBarcode();
+    const { error } = await supabase.from('inventory').update({ barcode }).eq('id', item.id);
+    if (error) return { data: result, error };
+    result.push({ ...item, barcode });
+  }
+  return { data: result, error: null };
+}
+
+export async function findInventoryByCode(code: string, locationId?: number) {
+  const value = code.trim().replace(/[,()]/g, '');
+  if (!value) return null;
+
+  let query = supabase
+    .from('inventory')
+    .select('*')
+    .or(`barcode.eq.${value},sku.ilike.${value}`);
+  if (locationId) {
+    query = query.eq('location_id', locationId);
+  }
+
+  const { data } = await query.limit(1).maybeSingle();
+  return (data as InventoryItem | null) || null;
+}
+
+/**
+ * Print stylesheet for a `.label-print-area` of `.label` elements: one label
+ * per page on roll printers, a 3-column grid on A4 sheets.
+ */
+export function getLabelPrintStyle(size: LabelSize) {
+  return `
+    @media print {
+      body * {
+        visibility: hidden;
+      }
+      .label-print-area,
+      .label-print-area * {
+        visibility: visible;
+      }
+      .label-print-area {
+        position: absolute;
+        left: 0;
+        top: 0;
+        ${size.sheet ? 'display: grid; grid-template-columns: repeat(3, 70mm); padding: 0;' : 'display: block; padding: 0;'}
+      }
+      .label-print-area .label {
+        border: none !important;
+        margin: 0 !important;
+        ${size.sheet ? '' : 'page-break-after: always;'}
+      }
+      .no-print {
+        display: none !important;
+      }
+    }
+    @page {
+      size: ${size.sheet ? 'A4' : `${size.width}mm ${size.height}mm`};
+      margin: 0;
+    }
+  `;
+}
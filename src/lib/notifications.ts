@@ -0,0 +1,207 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type Order = Database['public']['Tables']['orders']['Row'];
+type OrderStage = Database['public']['Tables']['order_stages']['Row'];
+type Client = Database['public']['Tables']['clients']['Row'];
+type NotificationTemplate = Database['public']['Tables']['notification_templates']['Row'];
+
+export type NotificationChannel = NotificationTemplate['channel'];
+
+export const NOTIFICATION_CHANNELS: { value: NotificationChannel; label: string }[] = [
+  { value: 'sms', label: 'SMS' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'email', label: 'Email' },
+];
+
+/** Placeholders available in notification_templates.body. */
+export const TEMPLATE_PLACEHOLDERS = [
+  '{order_number}',
+  '{client_name}',
+  '{device}',
+  '{stage}',
+  '{total}',
+  '{balance_due}',
+];
+
+export interface OutgoingNotification {
+  channel: NotificationChannel;
+  recipient: string;
+  subject: string | null;
+  message: string;
+  orderId: string;
+  clientId: string | null;
+}
+
+export interface NotificationResult {
+  status: 'sent' | 'failed';
+  error?: string;
+}
+
+/**
+ * A delivery backend for customer notifications. Real gateways (WhatsApp,
+ * SendGrid, an SMS API) implement the same interface and are added with
+ * registerNotificationProvider().
+ */
+export interface NotificationProvider {
+  id: string;
+  label: string;
+  send(notification: OutgoingNotification): Promise<NotificationResult>;
+}
+
+const OUTBOX_STORAGE_KEY = 'notification_outbox';
+
+const consoleProvider: NotificationProvider = {
+  id: 'console',
+  label: 'Консоль браузера (тест)',
+  async send(notification) {
+    console.info(`[notification:${notification.channel}] → ${notification.recipient}\n${notification.message}`);
+    return { status: 'sent' };
+  },
+};
+
+// The browser cannot append to a file on disk, so messages are collected in
+// localStorage and downloaded as a text file with downloadNotificationOutbox().
+const fileProvider: NotificationProvider = {
+  id: 'file',
+  label: 'Локальный файл outbox (тест)',
+  async send(notification) {
+    try {
+      const outbox = JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) || '[]');
+      outbox.push({ ...notification, sent_at: new Date().toISOString() });
+      localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+      return { status: 'sent' };
+    } catch (error) {
+      return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+  },
+};
+
+const providers = new Map<string, NotificationProvider>([
+  [consoleProvider.id, consoleProvider],
+  [fileProvider.id, fileProvider],
+]);
+
+export function registerNotificationProvider(provider: NotificationProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getNotificationProviders(): NotificationProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getOutboxSize(): number {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) || '[]').length;
+  } catch {
+    return 0;
+  }
+}
+
+export function downloadNotificationOutbox() {
+  const outbox: (OutgoingNotification & { sent_at: string })[] = JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY) || '[]');
+  const text = outbox
+    .map(n => `${n.sent_at}\t${n.channel}\t${n.recipient}${n.subject ? `\t${n.subject}` : ''}\n${n.message}\n`)
+    .join('\n');
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `notification-outbox-${new Date().toISOString().split('T')[0]}.txt`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function clearNotificationOutbox() {
+  localStorage.removeItem(OUTBOX_STORAGE_KEY);
+}
+
+export function renderNotificationTemplate(body: string, values: Record<string, string>) {
+  return body.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key] : match));
+}
+
+// system_settings is admin-only, so the provider is read through an RPC
+async function getActiveProviderId(): Promise<string> {
+  const { data, error } = await supabase.rpc('get_notification_provider');
+  if (error) throw error;
+  return (data as string | null) || 'console';
+}
+
+/**
+ * Sends the active templates of a stage to the order's client and logs every
+ * attempt in communications. Never throws: a failed notification must not
+ * undo a stage change.
+ */
+export async function sendStageNotifications(orderId: string, stage: OrderStage): Promise<void> {
+  try {
+    const { data: templates } = await supabase
+      .from('notification_templates')
+      .select('*')
+      .eq('stage_id', stage.id)
+      .eq('is_active', true);
+
+    if (!templates || templates.length === 0) return;
+
+    // Re-read the order so totals reflect payments taken with the stage change
+    const { data: orderData } = await supabase.from('orders').select('*').eq('id', orderId).maybeSingle();
+    const order = orderData as Order | null;
+    if (!order?.client_id) return;
+
+    const [{ data: clientData }, providerId] = await Promise.all([
+      supabase.from('clients').select('*').eq('id', order.client_id).maybeSingle(),
+      getActiveProviderId(),
+    ]);
+    const client = clientData as Client | null;
+
+    const values: Record<string, string> = {
+      order_number: order.order_number || '',
+      client_name: client?.full_name || '',
+      device: [order.device_type, order.device_model].filter(Boolean).join(' '),
+      stage: stage.name,
+      total: Number(order.final_cost || order.estimated_cost || 0).toFixed(2),
+      balance_due: Number(order.balance_due || 0).toFixed(2),
+    };
+
+    for (const template of templates as NotificationTemplate[]) {
+      const recipient = template.channel === 'email' ? client?.email : client?.phone;
+      const message = renderNotificationTemplate(template.body, values);
+      const provider = providers.get(providerId);
+
+      let status: 'sent' | 'failed' | 'skipped' = 'skipped';
+      let error: string | undefined;
+      if (!recipient) {
+        error = template.channel === 'email' ? 'Нет email клиента' : 'Нет телефона клиента';
+      } else if (!provider) {
+        error = providerId === 'disabled' ? 'Уведомления отключены' : `Провайдер "${providerId}" не найден`;
+      } else {
+        const result = await provider.send({
+          channel: template.channel,
+          recipient,
+          subject: template.subject ? renderNotificationTemplate(template.subject, values) : null,
+          message,
+          orderId: order.id,
+          clientId: order.client_id,
+        });
+        status = result.status;
+        error = result.error;
+      }
+
+      const { error: logError } = await supabase.from('communications').insert({
+        client_id: order.client_id,
+        order_id: order.id,
+        channel: template.channel,
+        direction: 'outbound',
+        message,
+        status,
+        recipient: recipient || null,
+        provider: providerId,
+        template_id: template.id,
+        error: error || null,
+      });
+      if (logError) {
+        console.error('Communication log error:', logError);
+      }
+    }
+  } catch (error) {
+    console.error('Stage notification error:', error);
+  }
+}
@@ -0,0 +1,98 @@
+import { callRpc } from './supabase';
+import type { PaymentMethod } from './orderStages';
+
+export type OrderPaymentType = 'deposit' | 'payment' | 'refund';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Касса' },
+  { value: 'bank', label: 'Банк/терминал' },
+  { value: 'bs_cash', label: 'БС Касса' },
+];
+
+export const PAYMENT_TYPE_LABELS: Record<OrderPaymentType, string> = {
+  deposit: 'Депозит',
+  payment: 'Оплата',
+  refund: 'Возврат',
+};
+
+export interface OrderPaymentInput {
+  payment_type: OrderPaymentType;
+  payment_method: PaymentMethod;
+  amount: number;
+  tendered_amount?: number | null;
+  notes?: string;
+}
+
+interface RecordPaymentsResult {
+  success: boolean;
+  error?: string;
+  paid_amount?: number;
+  balance_due?: number;
+  is_paid?: boolean;
+}
+
+interface RecordPaymentsArgs {
+  p_order_id: string;
+  p_payments: OrderPaymentInput[];
+}
+
+export function getPaymentMethodLabel(method: string | null) {
+  return PAYMENT_METHODS.find(m => m.value === method)?.label || method || '—';
+}
+
+/** Change to give back for a cash tender; never negative. */
+export function calculateChange(payment: Pick<OrderPaymentInput, 'amount' | 'tendered_amount'>) {
+  if (payment.tendered_amount == null) return 0;
+  return Math.max(0, Math.round((payment.tendered_amount - payment.amount) * 100) / 100);
+}
+
+/**
+ * The method that took the largest share of a split payment. Stored on
+ * orders.payment_method so reports that only know one method keep working.
+ */
+export function getPrimaryPaymentMethod(payments: OrderPaymentInput[]): PaymentMethod | undefined {
+  const totals = new Map<PaymentMethod, number>();
+  payments
+    .filter(p => p.payment_type !== 'refund')
+    .forEach(p => totals.set(p.payment_method, (totals.get(p.payment_method) || 0) + p.amount));
+
+  let primary: PaymentMethod | undefined;
+  totals.forEach((amount, method) => {
+    if (!primary || amount > (totals.get(primary) || 0)) {
+      primary = method;
+    }
+  });
+  return primary;
+}
+
+/**
+ * Records one or more ledger entries for an order in a single transaction.
+ * The order's paid amount, balance and paid flag are recalculated in the database.
+ */
+export async function recordOrderPayments(
+  orderId: string,
+  payments: OrderPaymentInput[]
+): Promise<{ error: { message: string } | null }> {
+  const entries = payments.filter(p => p.amount > 0);
+  if (entries.length === 0) {
+    return { error: null };
+  }
+
+  const { data: result, error } = await callRpc<RecordPaymentsResult, RecordPaymentsArgs>('record_order_payments', {
+    p_order_id: orderId,
+    p_payments: entries.map(p => ({
+      ...p,
+      tendered_amount: p.payment_method === 'cash' ? p.tendered_amount ?? null : null,
+    })),
+  });
+
+  if (error) {
+    return { error };
+  }
+
+  if (!result?.success) {
+    return { error: { message: result?.error || 'Не удалось записать оплату' } };
+  }
+
+  return { error: null };
+}
@@ -0,0 +1,138 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { getPrimaryPaymentMethod, recordOrderPayments, type OrderPaymentInput } from './orderPayments';
+import { sendStageNotifications } from './notifications';
+
+type Order = Database['public']['Tables']['orders']['Row'];
+type OrderStage = Database['public']['Tables']['order_stages']['Row'];
+
+export type PaymentMethod = 'bank' | 'cash' | 'bs_cash';
+
+export type StageKind = 'open' | 'in_progress' | 'waiting' | 'ready' | 'closed' | 'cancelled';
+
+export const STAGE_KINDS: { value: StageKind; label: string }[] = [
+  { value: 'open', label: 'Открыт' },
+  { value: 'in_progress', label: 'В работе' },
+  { value: 'waiting', label: 'Ожидание' },
+  { value: 'ready', label: 'Готов' },
+  { value: 'closed', label: 'Закрыт' },
+  { value: 'cancelled', label: 'Отменён' },
+];
+
+/** Order fields that can be made mandatory for entering a stage. */
+export const REQUIRED_FIELD_OPTIONS: { value: keyof Order; label: string }[] = [
+  { value: 'technician_notes', label: 'Заметки мастера' },
+  { value: 'client_recommendations', label: 'Рекомендации клиенту' },
+  { value: 'assigned_to', label: 'Ответственный мастер' },
+  { value: 'imei', label: 'IMEI' },
+  { value: 'serial_number', label: 'Серийный номер' },
+  { value: 'due_date', label: 'Срок выполнения' },
+];
+
+export function isClosedStage(stage?: Pick<OrderStage, 'kind'> | null): boolean {
+  return stage?.kind === 'closed';
+}
+
+export function isCancelledStage(stage?: Pick<OrderStage, 'kind'> | null): boolean {
+  return stage?.kind === 'cancelled';
+}
+
+export function canTransition(fromStage: OrderStage | null | undefined, toStage: OrderStage): boolean {
+  if (!fromStage || fromStage.id === toStage.id) return true;
+  return fromStage.allowed_next_stage_ids == null || fromStage.allowed_next_stage_ids.includes(toStage.id);
+}
+
+export function getMissingRequiredFields(order: Order, stage: OrderStage): string[] {
+  return (stage.required_fields || [])
+    .filter(field => {
+      const value = order[field as keyof Order];
+      return value == null || String(value).trim() === '';
+    })
+    .map(field => REQUIRED_FIELD_OPTIONS.find(option => option.value === field)?.label || field);
+}
+
+/**
+ * Checks the workflow rules of order_stages before a stage change.
+ * Returns a user-facing message, or null when the change is allowed.
+ * The validate_order_stage_change trigger applies the same rules in the database.
+ */
+export function validateStageChange(
+  order: Order,
+  fromStage: OrderStage | null | undefined,
+  toStage: OrderStage,
+  pendingFields: Partial<Order> = {}
+): string | null {
+  if (!canTransition(fromStage, toStage)) {
+    return `Переход из "${fromStage?.name}" в "${toStage.name}" не разрешён`;
+  }
+
+  const missing = getMissingRequiredFields({ ...order, ...pendingFields }, toStage);
+  if (missing.length > 0) {
+    return `Для статуса "${toStage.name}" нужно заполнить: ${missing.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Moves an order to another stage and records the change in order_history.
+ * Workflow rules are checked first. Closing an order also stamps completed_at
+ * and the final cost, and records the tendered payments in order_payments once
+ * the stage change has been saved, so a rejected change never leaves payments
+ * behind. A payment that fails after that is returned as `paymentError`; the
+ * order keeps its new stage. The client is then notified with the stage's
+ * notification templates.
+ * Used by both OrderDetail and the Kanban board so every stage change behaves the same.
+ */
+export async function changeOrderStage(
+  order: Order & { stage?: OrderStage | null },
+  newStage: OrderStage,
+  userId: string | null,
+  payments: OrderPaymentInput[] = []
+): Promise<{ error: { message: string } | null; paymentError?: { message: string } | null }> {
+  const updateData: Record<string, unknown> = {
+    stage_id: newStage.id,
+  };
+
+  if (isClosedStage(newStage) && !order.completed_at) {
+    const finalAmount = (order.subtotal || 0) - (order.total_discount || 0);
+    updateData.completed_at = new Date().toISOString();
+    updateData.final_cost = finalAmount || order.estimated_cost;
+    updateData.total_profit = order.estimated_profit || 0;
+    const paymentMethod = getPrimaryPaymentMethod(payments);
+    if (paymentMethod) {
+      updateData.payment_method = paymentMethod;
+    }
+  }
+
+  const ruleError = validateStageChange(order, order.stage, newStage, updateData as Partial<Order>);
+  if (ruleError) {
+    return { error: { message: ruleError } };
+  }
+
+  const { error } = await supabase
+    .from('orders')
+    .update(updateData)
+    .eq('id', order.id);
+
+  if (error) {
+    return { error };
+  }
+
+  if (userId) {
+    await supabase.from('order_history').insert({
+      order_id: order.id,
+      user_id: userId,
+      event_type: 'status_change',
+      description: `Статус изменен на "${newStage.name}"`
+    });
+  }
+
+  const { error: paymentError } = await recordOrderPayments(order.id, payments);
+
+  if (order.stage_id !== newStage.id) {
+    await sendStageNotifications(order.id, newStage);
+  }
+
+  return { error: null, paymentError };
+}
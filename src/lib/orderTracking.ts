@@ -0,0 +1,51 @@
+import QRCode from 'qrcode';
+import { callRpc } from './supabase';
+
+export const TRACKING_PATH = '/track';
+
+/** Everything the public tracking page is allowed to show. */
+export interface PublicOrderStatus {
+  order_number: string;
+  device: string;
+  stage_name: string | null;
+  stage_kind: string | null;
+  due_date: string | null;
+  balance_due: number;
+  estimate: number;
+  completed_at: string | null;
+}
+
+interface PublicOrderStatusResult {
+  success: boolean;
+  error?: 'invalid_request' | 'not_found';
+  order?: PublicOrderStatus;
+}
+
+type PublicOrderStatusArgs = { p_token: string } | { p_order_number: string; p_phone: string };
+
+export function isTrackingRoute() {
+  return window.location.pathname.replace(/\/+$/, '') === TRACKING_PATH;
+}
+
+export function getTrackingUrl(token: string) {
+  return `${window.location.origin}${TRACKING_PATH}?token=${encodeURIComponent(token)}`;
+}
+
+export function getTrackingQrDataUrl(token: string) {
+  return QRCode.toDataURL(getTrackingUrl(token), { margin: 1, width: 160 });
+}
+
+export async function lookupPublicOrderStatus(
+  lookup: { token: string } | { orderNumber: string; phone: string }
+): Promise<PublicOrderStatusResult> {
+  const params: PublicOrderStatusArgs = 'token' in lookup
+    ? { p_token: lookup.token }
+    : { p_order_number: lookup.orderNumber.trim(), p_phone: lookup.phone.trim() };
+
+  const { data, error } = await callRpc<PublicOrderStatusResult, PublicOrderStatusArgs>('get_public_order_status', params);
+  if (error || !data) {
+    console.error('Order tracking lookup error:', error);
+    return { success: false, error: 'not_found' };
+  }
+  return data;
+}
@@ -0,0 +1,31 @@
+import { callRpc } from './supabase';
+import type { Database } from './database.types';
+
+type OrderItem = Database['public']['Tables']['order_items']['Row'];
+
+interface PartRequestResult {
+  success: boolean;
+  error?: string;
+  reserved?: number;
+  orders?: number;
+}
+
+/** A requested part that has not arrived and been reserved yet. */
+export function isAwaitingPart(item: Pick<OrderItem, 'purchase_order_item_id' | 'stock_reserved' | 'approval_status'>) {
+  return item.purchase_order_item_id != null && !item.stock_reserved && item.approval_status !== 'declined';
+}
+
+/**
+ * Reserves the received parts of a purchase order for the orders waiting on
+ * them. Orders with nothing left on order are released and their technician
+ * gets a task.
+ */
+export async function reserveReceivedParts(purchaseOrderId: string): Promise<{ data: PartRequestResult | null; error: { message: string } | null }> {
+  const { data: result, error } = await callRpc<PartRequestResult, { p_purchase_order_id: string }>(
+    'reserve_received_parts',
+    { p_purchase_order_id: purchaseOrderId }
+  );
+  if (error) return { data: null, error };
+
+  return { data: result, error: result?.success ? null : { message: result?.error || 'Failed to reserve parts' } };
+}
@@ -0,0 +1,68 @@
+import { callRpc } from './supabase';
+
+export interface ReorderSuggestion {
+  inventory_id: string;
+  part_name: string;
+  sku: string | null;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  unit_cost: number;
+  quantity: number;
+  reserved_quantity: number;
+  available_quantity: number;
+  min_quantity: number;
+  max_quantity: number | null;
+  on_order: number;
+  weekly_usage: number;
+  reorder_point: number;
+  suggested_quantity: number;
+}
+
+export interface ReorderLine {
+  inventory_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+interface ReorderResult {
+  success: boolean;
+  error?: string;
+  purchase_orders?: number;
+  lines?: number;
+}
+
+interface ReorderSuggestionsArgs {
+  p_location_id: number;
+  p_weeks: number;
+  p_cover_weeks: number;
+}
+
+interface ReorderPurchaseOrdersArgs {
+  p_location_id: number;
+  p_items: ReorderLine[];
+}
+
+/**
+ * Items whose available stock plus open purchase orders is below the reorder
+ * point: min quantity plus the usage of the last `weeks` weeks projected over
+ * `coverWeeks` weeks.
+ */
+export async function loadReorderSuggestions(locationId: number, weeks: number, coverWeeks: number) {
+  const { data, error } = await callRpc<ReorderSuggestion[], ReorderSuggestionsArgs>('get_reorder_suggestions', {
+    p_location_id: locationId,
+    p_weeks: weeks,
+    p_cover_weeks: coverWeeks
+  });
+  return { data: data || [], error };
+}
+
+/** Adds the lines to the draft purchase order of each item's supplier. */
+export async function createReorderPurchaseOrders(locationId: number, lines: ReorderLine[]): Promise<{ data: ReorderResult | null; error: { message: string } | null }> {
+  const { data: result, error } = await callRpc<ReorderResult, ReorderPurchaseOrdersArgs>('create_reorder_purchase_orders', {
+    p_location_id: locationId,
+    p_items: lines
+  });
+  if (error) return { data: null, error };
+
+  return { data: result, error: result?.success ? null : { message: result?.error || 'Failed to create purchase orders' } };
+}
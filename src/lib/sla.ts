@@ -0,0 +1,50 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type SlaRule = Database['public']['Tables']['sla_rules']['Row'];
+export type OrderPriority = NonNullable<SlaRule['priority']>;
+
+export const ORDER_PRIORITY_LABELS: Record<OrderPriority, string> = {
+  low: 'Низкий',
+  medium: 'Средний',
+  high: 'Высокий',
+  urgent: 'Срочно',
+};
+
+export async function loadSlaRules(): Promise<SlaRule[]> {
+  const { data } = await supabase
+    .from('sla_rules')
+    .select('*')
+    .order('resolution_hours');
+  return (data as SlaRule[]) || [];
+}
+
+/**
+ * Most specific active rule for an order, the same order of preference as the
+ * find_sla_rule database function: repair type and priority, repair type,
+ * priority, then the default rule.
+ */
+export function findSlaRule(rules: SlaRule[], repairTypeId: string | null, priority: string | null) {
+  return rules
+    .filter(rule =>
+      rule.is_active &&
+      (rule.repair_type_id == null || rule.repair_type_id === repairTypeId) &&
+      (rule.priority == null || rule.priority === priority)
+    )
+    .sort((a, b) =>
+      Number(b.repair_type_id != null) - Number(a.repair_type_id != null) ||
+      Number(b.priority != null) - Number(a.priority != null)
+    )[0] || null;
+}
+
+export function getSlaDueDate(rule: Pick<SlaRule, 'resolution_hours'>, from = new Date()) {
+  return new Date(from.getTime() + rule.resolution_hours * 3600000);
+}
+
+export function formatSlaHours(hours: number) {
+  if (hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} ${days === 1 ? 'день' : days < 5 ? 'дня' : 'дней'}`;
+  }
+  return `${hours} ч`;
+}
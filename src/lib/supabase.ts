@@ -9,3 +9,12 @@ if (!supabaseUrl || !supabaseAnonKey) {
 }
 
 export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Calls a Postgres function with typed arguments and result. The generated
+ * types don't include `Functions`, so supabase.rpc can't check either side.
+ */
+export async function callRpc<TResult, TArgs extends object = Record<string, never>>(fn: string, args?: TArgs) {
+  const { data, error } = await supabase.rpc(fn as never, args as never);
+  return { data: data as TResult | null, error };
+}
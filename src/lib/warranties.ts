@@ -0,0 +1,80 @@
+import { callRpc } from './supabase';
+
+export type OrderType = 'repair' | 'warranty_claim';
+
+export interface ActiveWarranty {
+  order_id: string;
+  order_number: string;
+  client_id: string | null;
+  device_type: string | null;
+  device_model: string | null;
+  imei: string | null;
+  serial_number: string | null;
+  completed_at: string;
+  order_item_id: string;
+  item_name: string;
+  item_type: string;
+  warranty_expires_at: string;
+}
+
+/** One original order with all of its items that are still under warranty. */
+export interface WarrantyOrder {
+  order_id: string;
+  order_number: string;
+  client_id: string | null;
+  device_type: string | null;
+  device_model: string | null;
+  imei: string | null;
+  serial_number: string | null;
+  completed_at: string;
+  items: ActiveWarranty[];
+}
+
+/** Mirrors calculate_warranty_expiry() in the database. */
+export function calculateWarrantyExpiry(completedAt: string | null, months: number, days: number): Date | null {
+  if (!completedAt || (!months && !days)) return null;
+  const expiry = new Date(completedAt);
+  expiry.setMonth(expiry.getMonth() + (months || 0));
+  expiry.setDate(expiry.getDate() + (days || 0));
+  return expiry;
+}
+
+export function getWarrantyDaysLeft(expiresAt: string) {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24)));
+}
+
+interface ActiveWarrantiesArgs {
+  p_client_id: string | null;
+  p_device: string | null;
+}
+
+export async function getActiveWarranties(filter: { clientId?: string; device?: string }): Promise<WarrantyOrder[]> {
+  const { data, error } = await callRpc<ActiveWarranty[], ActiveWarrantiesArgs>('get_active_warranties', {
+    p_client_id: filter.clientId || null,
+    p_device: filter.device || null,
+  });
+
+  if (error) {
+    console.error('Warranty lookup error:', error);
+    return [];
+  }
+
+  const byOrder = new Map<string, WarrantyOrder>();
+  (data || []).forEach(row => {
+    const order = byOrder.get(row.order_id) || {
+      order_id: row.order_id,
+      order_number: row.order_number,
+      client_id: row.client_id,
+      device_type: row.device_type,
+      device_model: row.device_model,
+      imei: row.imei,
+      serial_number: row.serial_number,
+      completed_at: row.completed_at,
+      items: [],
+    };
+    order.items.push(row);
+    byOrder.set(row.order_id, order);
+  });
+
+  return Array.from(byOrder.values());
+}
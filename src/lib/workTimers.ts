@@ -0,0 +1,86 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type WorkTimeEntry = Database['public']['Tables']['work_time_entries']['Row'];
+
+export function isRunning(entry: Pick<WorkTimeEntry, 'ended_at'>) {
+  return entry.ended_at == null;
+}
+
+/** Seconds of an entry; a running entry counts up to `now`. */
+export function getEntrySeconds(entry: Pick<WorkTimeEntry, 'started_at' | 'ended_at' | 'duration_seconds'>, now = new Date()) {
+  if (entry.duration_seconds != null) return entry.duration_seconds;
+  const end = entry.ended_at ? new Date(entry.ended_at) : now;
+  return Math.max(0, Math.round((end.getTime() - new Date(entry.started_at).getTime()) / 1000));
+}
+
+export function sumEntryMinutes(entries: WorkTimeEntry[], now = new Date()) {
+  return Math.round(entries.reduce((sum, entry) => sum + getEntrySeconds(entry, now), 0) / 60);
+}
+
+/**
+ * A timer that ran past midnight: still running from a previous day, or
+ * stopped on a later day than it was started. These usually mean someone
+ * forgot to pause and the entry needs checking.
+ */
+export function isOvernightEntry(entry: Pick<WorkTimeEntry, 'started_at' | 'ended_at'>, now = new Date()) {
+  const start = new Date(entry.started_at);
+  const end = entry.ended_at ? new Date(entry.ended_at) : now;
+  return start.toDateString() !== end.toDateString();
+}
+
+export function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(rest).padStart(2, '0')}`;
+}
+
+export async function loadOrderTimeEntries(orderId: string) {
+  const { data } = await supabase
+    .from('work_time_entries')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('started_at');
+  return (data as WorkTimeEntry[]) || [];
+}
+
+/**
+ * Starts a timer on an order or one of its items. A technician runs one timer
+ * at a time, so their running timer on any other order is paused first.
+ */
+export async function startWorkTimer(
+  orderId: string,
+  orderItemId: string | null,
+  technicianId: string
+): Promise<{ error: { message: string } | null }> {
+  const { error: pauseError } = await supabase
+    .from('work_time_entries')
+    .update({ ended_at: new Date().toISOString() })
+    .eq('technician_id', technicianId)
+    .is('ended_at', null);
+
+  if (pauseError) {
+    return { error: pauseError };
+  }
+
+  const { error } = await supabase
+    .from('work_time_entries')
+    .insert({
+      order_id: orderId,
+      order_item_id: orderItemId,
+      technician_id: technicianId
+    });
+
+  return { error };
+}
+
+export async function pauseWorkTimer(entryId: string): Promise<{ error: { message: string } | null }> {
+  const { error } = await supabase
+    .from('work_time_entries')
+    .update({ ended_at: new Date().toISOString() })
+    .eq('id', entryId)
+    .is('ended_at', null);
+
+  return { error };
+}
@@ -0,0 +1,81 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import type { StageKind } from './orderStages';
+
+type OrderItem = Database['public']['Tables']['order_items']['Row'];
+
+export type AutoAssignRule = 'off' | 'least_loaded' | 'skill';
+
+export const AUTO_ASSIGN_RULES: { value: AutoAssignRule; label: string; description: string }[] = [
+  { value: 'off', label: 'Вручную', description: 'Заказ назначается на сотрудника, который его создал' },
+  { value: 'least_loaded', label: 'Наименее загруженный', description: 'Мастер с наименьшим количеством оставшихся минут по открытым заказам' },
+  { value: 'skill', label: 'По навыкам', description: 'Наименее загруженный мастер, владеющий типом ремонта заказа; если таких нет, любой мастер' },
+];
+
+/** Stage kinds whose orders still take technician time. */
+export const OPEN_STAGE_KINDS: StageKind[] = ['open', 'in_progress', 'waiting'];
+
+export async function loadAutoAssignRule(): Promise<AutoAssignRule> {
+  const { data } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('key', 'auto_assign')
+    .maybeSingle();
+  return (data as { value: { rule?: AutoAssignRule } } | null)?.value.rule || 'off';
+}
+
+export async function saveAutoAssignRule(rule: AutoAssignRule) {
+  return supabase
+    .from('system_settings')
+    .upsert({
+      key: 'auto_assign',
+      value: { rule },
+      category: 'orders',
+      description: 'Автоматическое назначение мастера на новые заказы',
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'key' });
+}
+
+/** Labor minutes still to be done on an order: approved service lines only. */
+export function getRemainingMinutes(items: Pick<OrderItem, 'item_type' | 'estimated_minutes' | 'approval_status'>[] = []) {
+  return items
+    .filter(item => item.item_type === 'service' && item.approval_status === 'approved')
+    .reduce((sum, item) => sum + (item.estimated_minutes || 0), 0);
+}
+
+export function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} мин`;
+  return rest === 0 ? `${hours} ч` : `${hours} ч ${rest} мин`;
+}
+
+/**
+ * Moves an order to another technician (or unassigns it) and records the
+ * change in order_history.
+ */
+export async function reassignOrder(
+  orderId: string,
+  technician: { id: string; full_name: string } | null,
+  userId: string | null
+): Promise<{ error: { message: string } | null }> {
+  const { error } = await supabase
+    .from('orders')
+    .update({ assigned_to: technician?.id ?? null })
+    .eq('id', orderId);
+
+  if (error) {
+    return { error };
+  }
+
+  if (userId) {
+    await supabase.from('order_history').insert({
+      order_id: orderId,
+      user_id: userId,
+      event_type: 'assigned',
+      description: technician ? `Назначен мастер: ${technician.full_name}` : 'Мастер снят с заказа'
+    });
+  }
+
+  return { error: null };
+}
@@ -0,0 +1,375 @@
+/*
+  # Create Point-of-Sale System
+
+  ## Overview
+  Over-the-counter sales of accessories and parts. A sale has one or more
+  line items, an optional link to a client, a payment method and per-line
+  discounts. Stock is deducted atomically through `create_sale()`.
+
+  ## 1. New Tables
+    - `sales`
+      - `id` (uuid, primary key)
+      - `sale_number` (text, unique, format S-YYYYMMDD-XXX)
+      - `location_id` (bigint, foreign key to locations)
+      - `client_id` (uuid, optional foreign key to clients)
+      - `customer_name` (text, free-text buyer name for walk-in customers)
+      - `payment_method` (text, 'cash' | 'bank' | 'bs_cash')
+      - `subtotal` (numeric, sum of lines before discount)
+      - `total_discount` (numeric, sum of line discounts)
+      - `total_amount` (numeric, amount paid)
+      - `total_cost` (numeric, cost of goods sold)
+      - `notes` (text)
+      - `created_by` (uuid, seller)
+      - `created_at` (timestamptz)
+    - `sale_items`
+      - `id` (uuid, primary key)
+      - `sale_id` (uuid, foreign key to sales)
+      - `inventory_id` (uuid, foreign key to inventory)
+      - `name` (text, item name at the moment of sale)
+      - `quantity` (integer)
+      - `unit_price` (numeric, selling price per unit)
+      - `unit_cost` (numeric, purchase cost per unit)
+      - `discount_type` (text, 'percent' | 'fixed')
+      - `discount_value` (numeric)
+      - `total_price` (numeric, line total after discount)
+
+  ## 2. Functions
+    - `generate_sale_number()`: S-YYYYMMDD-XXX sequence per day
+    - `create_sale(p_sale jsonb)`: validates stock, inserts the sale with its
+      lines, deducts inventory and records `sale` movements in one transaction
+
+  ## 3. Security
+    - RLS enabled on both tables
+    - All authenticated users can view and create sales
+    - Only admins can delete sales
+*/
+
+-- =====================================================
+-- PART 1: Tables
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS sales (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_number text UNIQUE NOT NULL,
+  location_id bigint NOT NULL REFERENCES locations(id),
+  client_id uuid REFERENCES clients(id) ON DELETE SET NULL,
+  customer_name text,
+  payment_method text NOT NULL DEFAULT 'cash' CHECK (payment_method IN ('cash', 'bank', 'bs_cash')),
+  subtotal numeric NOT NULL DEFAULT 0,
+  total_discount numeric NOT NULL DEFAULT 0,
+  total_amount numeric NOT NULL DEFAULT 0,
+  total_cost numeric NOT NULL DEFAULT 0,
+  notes text,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS sale_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  inventory_id uuid REFERENCES inventory(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price numeric NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  unit_cost numeric NOT NULL DEFAULT 0,
+  discount_type text NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value numeric NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  total_price numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_location ON sales(location_id);
+CREATE INDEX IF NOT EXISTS idx_sales_client ON sales(client_id);
+CREATE INDEX IF NOT EXISTS idx_sales_created_at ON sales(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sales_created_by ON sales(created_by);
+CREATE INDEX IF NOT EXISTS idx_sale_items_sale ON sale_items(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_items_inventory ON sale_items(inventory_id);
+
+-- Link stock movements back to the sale that caused them
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory_movements' AND column_name = 'sale_id'
+  ) THEN
+    ALTER TABLE inventory_movements ADD COLUMN sale_id uuid REFERENCES sales(id) ON DELETE SET NULL;
+    CREATE INDEX IF NOT EXISTS idx_inventory_movements_sale_id ON inventory_movements(sale_id);
+  END IF;
+END $$;
+
+-- =====================================================
+-- PART 2: Sale Number Generation
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION generate_sale_number()
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  date_prefix text;
+  counter integer;
+BEGIN
+  date_prefix := 'S-' || to_char(now(), 'YYYYMMDD');
+
+  SELECT COALESCE(MAX(CAST(SUBSTRING(sale_number FROM '\d+$') AS integer)), 0) + 1
+  INTO counter
+  FROM sales
+  WHERE sale_number LIKE date_prefix || '%';
+
+  RETURN date_prefix || '-' || LPAD(counter::text, 3, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_sale_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sale_number IS NULL OR NEW.sale_number = '' THEN
+    NEW.sale_number := generate_sale_number();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_sale_number ON sales;
+CREATE TRIGGER trigger_set_sale_number
+  BEFORE INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION set_sale_number();
+
+-- =====================================================
+-- PART 3: Atomic Sale Creation
+-- =====================================================
+
+/*
+  Expected payload:
+  {
+    "location_id": 1,
+    "client_id": "uuid" | null,
+    "customer_name": "text" | null,
+    "payment_method": "cash" | "bank" | "bs_cash",
+    "notes": "text" | null,
+    "items": [
+      { "inventory_id": "uuid", "quantity": 1, "unit_price": 10,
+        "discount_type": "percent", "discount_value": 0 }
+    ]
+  }
+*/
+CREATE OR REPLACE FUNCTION create_sale(p_sale jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id uuid;
+  v_sale_number text;
+  v_location_id bigint;
+  v_item jsonb;
+  v_inventory RECORD;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_discount_type text;
+  v_discount_value numeric;
+  v_line_subtotal numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_discount numeric := 0;
+  v_total_cost numeric := 0;
+  v_stock record;
+BEGIN
+  v_location_id := (p_sale->>'location_id')::bigint;
+
+  IF v_location_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Location is required');
+  END IF;
+
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF NOT can_access_location(v_location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_sale->'items', '[]'::jsonb)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Sale must contain at least one item');
+  END IF;
+
+  -- Validate every line before writing anything
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_sale->'items')
+  LOOP
+    v_quantity := COALESCE((v_item->>'quantity')::integer, 0);
+
+    IF v_quantity <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+    END IF;
+
+    IF COALESCE(v_item->>'discount_type', 'percent') = 'percent'
+       AND COALESCE((v_item->>'discount_value')::numeric, 0) > 100 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Percent discount cannot exceed 100');
+    END IF;
+
+    SELECT id, part_name, location_id INTO v_inventory
+    FROM inventory
+    WHERE id = (v_item->>'inventory_id')::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Inventory item not found');
+    END IF;
+
+    IF v_inventory.location_id IS DISTINCT FROM v_location_id THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('"%s" is not stocked at this location', v_inventory.part_name)
+      );
+    END IF;
+  END LOOP;
+
+  -- Lines of the same item draw on the same stock, so check the summed quantity
+  FOR v_stock IN
+    SELECT
+      i.id,
+      i.part_name,
+      i.quantity AS available,
+      req.requested
+    FROM (
+      SELECT (item->>'inventory_id')::uuid AS inventory_id, SUM((item->>'quantity')::integer) AS requested
+      FROM jsonb_array_elements(p_sale->'items') AS item
+      GROUP BY 1
+    ) req
+    JOIN inventory i ON i.id = req.inventory_id
+    ORDER BY i.id
+    FOR UPDATE OF i
+  LOOP
+    IF v_stock.available < v_stock.requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": %s available, %s requested',
+                        v_stock.part_name, v_stock.available, v_stock.requested)
+      );
+    END IF;
+  END LOOP;
+
+  INSERT INTO sales (
+    location_id,
+    client_id,
+    customer_name,
+    payment_method,
+    notes,
+    created_by
+  ) VALUES (
+    v_location_id,
+    NULLIF(p_sale->>'client_id', '')::uuid,
+    NULLIF(p_sale->>'customer_name', ''),
+    COALESCE(p_sale->>'payment_method', 'cash'),
+    NULLIF(p_sale->>'notes', ''),
+    auth.uid()
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_sale->'items')
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := COALESCE((v_item->>'unit_price')::numeric, 0);
+    v_discount_type := COALESCE(v_item->>'discount_type', 'percent');
+    v_discount_value := COALESCE((v_item->>'discount_value')::numeric, 0);
+
+    SELECT id, part_name, unit_cost INTO v_inventory
+    FROM inventory
+    WHERE id = (v_item->>'inventory_id')::uuid;
+
+    v_line_subtotal := v_unit_price * v_quantity;
+    v_line_discount := CASE
+      WHEN v_discount_type = 'percent' THEN v_line_subtotal * v_discount_value / 100
+      ELSE LEAST(v_discount_value, v_line_subtotal)
+    END;
+
+    INSERT INTO sale_items (
+      sale_id,
+      inventory_id,
+      name,
+      quantity,
+      unit_price,
+      unit_cost,
+      discount_type,
+      discount_value,
+      total_price
+    ) VALUES (
+      v_sale_id,
+      v_inventory.id,
+      v_inventory.part_name,
+      v_quantity,
+      v_unit_price,
+      COALESCE(v_inventory.unit_cost, 0),
+      v_discount_type,
+      v_discount_value,
+      v_line_subtotal - v_line_discount
+    );
+
+    UPDATE inventory
+    SET quantity = quantity - v_quantity
+    WHERE id = v_inventory.id;
+
+    INSERT INTO inventory_movements (
+      inventory_id,
+      sale_id,
+      user_id,
+      movement_type,
+      quantity,
+      notes,
+      location_id
+    ) VALUES (
+      v_inventory.id,
+      v_sale_id,
+      auth.uid(),
+      'sale',
+      -v_quantity,
+      'Counter sale ' || v_sale_number,
+      v_location_id
+    );
+
+    v_subtotal := v_subtotal + v_line_subtotal;
+    v_total_discount := v_total_discount + v_line_discount;
+    v_total_cost := v_total_cost + COALESCE(v_inventory.unit_cost, 0) * v_quantity;
+  END LOOP;
+
+  UPDATE sales
+  SET
+    subtotal = v_subtotal,
+    total_discount = v_total_discount,
+    total_amount = v_subtotal - v_total_discount,
+    total_cost = v_total_cost
+  WHERE id = v_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'sale_id', v_sale_id,
+    'sale_number', v_sale_number,
+    'total_amount', v_subtotal - v_total_discount
+  );
+END;
+$$;
+
+-- =====================================================
+-- PART 4: Row Level Security
+-- =====================================================
+
+ALTER TABLE sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sales_select" ON sales FOR SELECT TO authenticated USING (true);
+CREATE POLICY "sales_insert" ON sales FOR INSERT TO authenticated WITH CHECK ((SELECT is_staff()));
+CREATE POLICY "sales_update" ON sales FOR UPDATE TO authenticated USING ((SELECT is_staff())) WITH CHECK ((SELECT is_staff()));
+CREATE POLICY "sales_delete" ON sales FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+CREATE POLICY "sale_items_select" ON sale_items FOR SELECT TO authenticated USING (true);
+CREATE POLICY "sale_items_insert" ON sale_items FOR INSERT TO authenticated WITH CHECK ((SELECT is_staff()));
+CREATE POLICY "sale_items_update" ON sale_items FOR UPDATE TO authenticated USING ((SELECT is_staff())) WITH CHECK ((SELECT is_staff()));
+CREATE POLICY "sale_items_delete" ON sale_items FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+COMMENT ON FUNCTION create_sale(jsonb) IS
+  'Creates a counter sale with its line items, deducts stock and records sale movements in a single transaction.';
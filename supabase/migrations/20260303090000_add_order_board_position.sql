@@ -0,0 +1,30 @@
+/*
+  # Add Kanban Board Position to Orders
+
+  ## Overview
+  Orders can now be dragged between and within the columns of the orders
+  Kanban board. The manual order of cards inside a stage column is stored
+  on the order itself.
+
+  ## Changes
+    - `orders.board_position` (integer, nullable): position of the card inside
+      its stage column. NULL means "not manually ordered"; such cards are
+      shown after positioned ones, newest first.
+
+  ## Indexes
+    - Composite index on (stage_id, board_position) for column ordering
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'board_position'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN board_position integer;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_stage_board_position ON orders(stage_id, board_position);
+
+COMMENT ON COLUMN orders.board_position IS 'Manual position of the order card inside its Kanban stage column (NULL = unsorted, shown newest first)';
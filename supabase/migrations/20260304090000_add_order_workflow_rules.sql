@@ -0,0 +1,257 @@
+/*
+  # Configurable Order Workflow
+
+  ## Overview
+  Stage behaviour used to depend on literal stage names ('Закрыт', 'В работе').
+  Each stage now carries a kind, an optional list of stages it may move to and
+  a list of order fields that must be filled before an order enters it.
+  Renaming a stage no longer changes how closing, stock or analytics work.
+
+  ## Changes to order_stages
+    - `kind` (text): open / in_progress / waiting / ready / closed / cancelled
+    - `allowed_next_stage_ids` (uuid[], nullable): stages an order may move to
+      from this stage. NULL means any stage is allowed.
+    - `required_fields` (text[]): orders columns that must be non-empty before
+      an order is moved into this stage (e.g. technician_notes before Ready)
+
+  ## Data
+    - Existing stages get a kind derived from their current name
+
+  ## Enforcement
+    - `validate_order_stage_change` BEFORE UPDATE trigger on orders rejects
+      disallowed transitions and missing required fields
+    - `is_order_closed` and `handle_order_stage_stock` use the stage kind
+
+  ## Reporting
+    - `get_technician_performance(timestamptz)` and the
+      `completed_orders_analytics` view count orders in stages of kind closed
+      instead of stages named 'Закрыт'
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_stages' AND column_name = 'kind'
+  ) THEN
+    ALTER TABLE order_stages ADD COLUMN kind text NOT NULL DEFAULT 'open'
+      CHECK (kind IN ('open', 'in_progress', 'waiting', 'ready', 'closed', 'cancelled'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_stages' AND column_name = 'allowed_next_stage_ids'
+  ) THEN
+    ALTER TABLE order_stages ADD COLUMN allowed_next_stage_ids uuid[];
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_stages' AND column_name = 'required_fields'
+  ) THEN
+    ALTER TABLE order_stages ADD COLUMN required_fields text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+-- Backfill kinds from the names used so far
+UPDATE order_stages SET kind = 'closed'
+WHERE kind = 'open' AND name IN ('Закрыт', 'Completed', 'Closed');
+
+UPDATE order_stages SET kind = 'in_progress'
+WHERE kind = 'open' AND name IN ('В работе', 'In Progress');
+
+UPDATE order_stages SET kind = 'ready'
+WHERE kind = 'open' AND (name ILIKE 'Готов%' OR name = 'Ready');
+
+UPDATE order_stages SET kind = 'waiting'
+WHERE kind = 'open' AND (name ILIKE 'Ожида%' OR name ILIKE 'Жд%' OR name ILIKE 'Waiting%');
+
+UPDATE order_stages SET kind = 'cancelled'
+WHERE kind = 'open' AND (name ILIKE 'Отмен%' OR name ILIKE 'Cancel%');
+
+-- ============================================================================
+-- Transition and required field enforcement
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION validate_order_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_stage order_stages%ROWTYPE;
+  v_new_stage order_stages%ROWTYPE;
+  v_order jsonb;
+  v_field text;
+  v_missing text[] := '{}';
+BEGIN
+  IF NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id OR NEW.stage_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_new_stage FROM order_stages WHERE id = NEW.stage_id;
+
+  IF OLD.stage_id IS NOT NULL THEN
+    SELECT * INTO v_old_stage FROM order_stages WHERE id = OLD.stage_id;
+
+    IF v_old_stage.allowed_next_stage_ids IS NOT NULL
+       AND NOT (NEW.stage_id = ANY(v_old_stage.allowed_next_stage_ids)) THEN
+      RAISE EXCEPTION 'Transition from "%" to "%" is not allowed', v_old_stage.name, v_new_stage.name;
+    END IF;
+  END IF;
+
+  v_order := to_jsonb(NEW);
+
+  FOREACH v_field IN ARRAY COALESCE(v_new_stage.required_fields, '{}')
+  LOOP
+    IF NULLIF(btrim(v_order ->> v_field), '') IS NULL THEN
+      v_missing := array_append(v_missing, v_field);
+    END IF;
+  END LOOP;
+
+  IF array_length(v_missing, 1) > 0 THEN
+    RAISE EXCEPTION 'Stage "%" requires: %', v_new_stage.name, array_to_string(v_missing, ', ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_order_stage_change_trigger ON orders;
+CREATE TRIGGER validate_order_stage_change_trigger
+BEFORE UPDATE OF stage_id ON orders
+FOR EACH ROW
+EXECUTE FUNCTION validate_order_stage_change();
+
+-- ============================================================================
+-- Name-independent closing and stock reservation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION is_order_closed(order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM orders o
+    JOIN order_stages s ON s.id = o.stage_id
+    WHERE o.id = order_id
+      AND s.kind = 'closed'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_order_stage_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_stage_kind text;
+  old_stage_kind text;
+  item record;
+BEGIN
+  SELECT kind INTO new_stage_kind FROM order_stages WHERE id = NEW.stage_id;
+  IF OLD.stage_id IS NOT NULL THEN
+    SELECT kind INTO old_stage_kind FROM order_stages WHERE id = OLD.stage_id;
+  END IF;
+
+  -- Reserve stock once work starts on the order
+  IF new_stage_kind IN ('in_progress', 'waiting', 'ready', 'closed')
+     AND (old_stage_kind IS NULL OR old_stage_kind NOT IN ('in_progress', 'waiting', 'ready', 'closed')) THEN
+
+    FOR item IN
+      SELECT id, inventory_id, quantity, order_id
+      FROM order_items
+      WHERE order_id = NEW.id
+        AND inventory_id IS NOT NULL
+        AND stock_reserved = false
+    LOOP
+      PERFORM reserve_inventory_stock(
+        item.id,
+        item.inventory_id,
+        item.quantity,
+        item.order_id
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Name-independent reporting
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_technician_performance(target_month timestamptz)
+RETURNS TABLE (
+  total_labor_revenue numeric,
+  quota numeric,
+  remaining_to_plan numeric,
+  bonus_amount numeric,
+  percent_complete numeric,
+  plan_reached boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  month_start timestamptz;
+  month_end timestamptz;
+  labor_sum numeric;
+  quota_amount numeric := 6000;
+BEGIN
+  month_start := date_trunc('month', target_month);
+  month_end := date_trunc('month', target_month) + interval '1 month' - interval '1 second';
+
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN o.service_price > 0 THEN o.service_price
+      ELSE GREATEST(0, COALESCE(o.final_cost, 0) - COALESCE(o.parts_cost_total, 0))
+    END
+  ), 0) INTO labor_sum
+  FROM orders o
+  JOIN order_stages s ON s.id = o.stage_id
+  WHERE o.assigned_to = auth.uid()
+    AND s.kind = 'closed'
+    AND o.completed_at >= month_start
+    AND o.completed_at <= month_end;
+
+  RETURN QUERY SELECT
+    ROUND(labor_sum, 2) as total_labor_revenue,
+    quota_amount as quota,
+    ROUND(GREATEST(0, quota_amount - labor_sum), 2) as remaining_to_plan,
+    ROUND(CASE WHEN labor_sum > quota_amount THEN (labor_sum - quota_amount) * 0.25 ELSE 0 END, 2) as bonus_amount,
+    ROUND(LEAST(100, (labor_sum / quota_amount) * 100), 2) as percent_complete,
+    (labor_sum >= quota_amount) as plan_reached;
+END;
+$$;
+
+CREATE OR REPLACE VIEW completed_orders_analytics
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.completed_at,
+  o.final_cost,
+  o.total_profit,
+  o.assigned_to,
+  p.full_name as technician_name,
+  o.location_id
+FROM orders o
+JOIN order_stages s ON s.id = o.stage_id
+LEFT JOIN profiles p ON o.assigned_to = p.id
+WHERE s.kind = 'closed'
+  AND o.completed_at IS NOT NULL;
+
+COMMENT ON COLUMN order_stages.kind IS 'Workflow role of the stage: open, in_progress, waiting, ready, closed, cancelled';
+COMMENT ON COLUMN order_stages.allowed_next_stage_ids IS 'Stages an order may move to from this stage (NULL = any)';
+COMMENT ON COLUMN order_stages.required_fields IS 'orders columns that must be filled before an order enters this stage';
+COMMENT ON FUNCTION is_order_closed(UUID) IS 'Returns true if the order is in a stage of kind closed';
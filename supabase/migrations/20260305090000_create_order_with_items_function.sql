@@ -0,0 +1,164 @@
+/*
+  # Atomic Order Creation
+
+  ## Overview
+  New orders used to be created from the browser in three round trips
+  (client, order, order_items). A failure in a later step left an orphan
+  order or client behind. `create_order_with_items` does all of it in a
+  single transaction.
+
+  ## Function
+  `create_order_with_items(p_order jsonb)` accepts:
+    - `client_id` (uuid) of an existing client, or
+      `client` { full_name, phone, email, traffic_source } for a new one
+    - device fields: device_type, device_model, device_color, imei, serial_number
+    - issue_description, priority, due_date, estimated_cost, location_id,
+      prepayment, waiting_for_parts, assigned_to, stage_id (defaults to the first stage)
+    - `items`: array of { item_type, inventory_id, name, quantity, unit_price,
+      unit_cost, total_price, warranty_months }
+
+  Returns { success, order } with the created row (including order_number),
+  or { success: false, error } when validation fails.
+
+  ## Validation
+    - A client must be given (id or name + phone)
+    - Parts linked to inventory must have enough stock; rows are locked
+      while the order is created
+*/
+
+CREATE OR REPLACE FUNCTION create_order_with_items(p_order jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_stage_id uuid;
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_stock record;
+BEGIN
+  v_client_id := NULLIF(p_order->>'client_id', '')::uuid;
+
+  IF v_client_id IS NULL THEN
+    IF NULLIF(btrim(p_order->'client'->>'full_name'), '') IS NULL
+       OR NULLIF(btrim(p_order->'client'->>'phone'), '') IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Client name and phone are required');
+    END IF;
+  END IF;
+
+  v_stage_id := COALESCE(
+    NULLIF(p_order->>'stage_id', '')::uuid,
+    (SELECT id FROM order_stages ORDER BY position LIMIT 1)
+  );
+
+  IF v_stage_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No order stages found');
+  END IF;
+
+  -- Check stock for every inventory part before anything is written
+  FOR v_stock IN
+    SELECT
+      i.id,
+      i.part_name,
+      i.quantity AS available,
+      req.requested
+    FROM (
+      SELECT (item->>'inventory_id')::uuid AS inventory_id, SUM((item->>'quantity')::integer) AS requested
+      FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb)) AS item
+      WHERE NULLIF(item->>'inventory_id', '') IS NOT NULL
+      GROUP BY 1
+    ) req
+    JOIN inventory i ON i.id = req.inventory_id
+    ORDER BY i.id
+    FOR UPDATE OF i
+  LOOP
+    IF v_stock.available < v_stock.requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": available %s, requested %s',
+          v_stock.part_name, v_stock.available, v_stock.requested)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_client_id IS NULL THEN
+    INSERT INTO clients (full_name, phone, email, traffic_source, location_id)
+    VALUES (
+      btrim(p_order->'client'->>'full_name'),
+      btrim(p_order->'client'->>'phone'),
+      NULLIF(btrim(p_order->'client'->>'email'), ''),
+      COALESCE(p_order->'client'->>'traffic_source', 'direct'),
+      (p_order->>'location_id')::bigint
+    )
+    RETURNING id INTO v_client_id;
+  END IF;
+
+  INSERT INTO orders (
+    client_id,
+    assigned_to,
+    stage_id,
+    device_type,
+    device_model,
+    device_color,
+    imei,
+    serial_number,
+    issue_description,
+    priority,
+    estimated_cost,
+    due_date,
+    location_id,
+    prepayment,
+    waiting_for_parts
+  ) VALUES (
+    v_client_id,
+    COALESCE(NULLIF(p_order->>'assigned_to', '')::uuid, auth.uid()),
+    v_stage_id,
+    p_order->>'device_type',
+    p_order->>'device_model',
+    p_order->>'device_color',
+    NULLIF(p_order->>'imei', ''),
+    NULLIF(p_order->>'serial_number', ''),
+    p_order->>'issue_description',
+    COALESCE(p_order->>'priority', 'medium'),
+    COALESCE((p_order->>'estimated_cost')::numeric, 0),
+    NULLIF(p_order->>'due_date', '')::timestamptz,
+    (p_order->>'location_id')::bigint,
+    COALESCE((p_order->>'prepayment')::numeric, 0),
+    COALESCE((p_order->>'waiting_for_parts')::boolean, false)
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb))
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      item_type,
+      inventory_id,
+      name,
+      quantity,
+      unit_price,
+      unit_cost,
+      total_price,
+      warranty_months
+    ) VALUES (
+      v_order.id,
+      COALESCE(v_item->>'item_type', 'part'),
+      NULLIF(v_item->>'inventory_id', '')::uuid,
+      v_item->>'name',
+      COALESCE((v_item->>'quantity')::integer, 1),
+      COALESCE((v_item->>'unit_price')::numeric, 0),
+      COALESCE((v_item->>'unit_cost')::numeric, 0),
+      COALESCE((v_item->>'total_price')::numeric, 0),
+      COALESCE((v_item->>'warranty_months')::integer, 0)
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(jsonb) TO authenticated;
+
+COMMENT ON FUNCTION create_order_with_items(jsonb) IS 'Creates a client (optional), an order and its items in one transaction after checking part stock';
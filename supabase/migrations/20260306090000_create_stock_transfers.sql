@@ -0,0 +1,375 @@
+/*
+  # Stock Transfers Between Locations
+
+  ## Overview
+  Inter-location transfers used to be four separate writes from the browser
+  (decrement source, look up target by SKU, insert/update target, log movement).
+  They failed for items without an SKU and could lose or double-count stock.
+  Transfers are now documents with an in-transit state, driven by a single
+  `transfer_inventory` RPC.
+
+  ## New Tables
+    - `stock_transfers`
+      - `transfer_number` (text, unique): TR-YYYYMMDD-001
+      - `source_location_id`, `destination_location_id` (bigint)
+      - `source_inventory_id` (uuid): item shipped from the source branch
+      - `destination_inventory_id` (uuid): item credited at the destination
+      - `part_name`, `sku`: snapshot of the item
+      - `quantity_requested`, `quantity_shipped`, `quantity_received` (integer)
+      - `unit_cost` (numeric): cost of the shipped stock as it left the source;
+        the receipt and a cancel return are booked at this cost
+      - `discrepancy` (integer): shipped minus received, set on receipt
+      - `discrepancy_notes` (text)
+      - `status`: requested → shipped → received (or cancelled)
+      - who/when for each step
+
+  ## Function
+  `transfer_inventory(p_action text, p_payload jsonb)` with actions:
+    - `request`  { inventory_id, destination_location_id, quantity, notes, ship_now }
+    - `ship`     { transfer_id }: stock leaves the source
+    - `receive`  { transfer_id, quantity_received, discrepancy_notes }:
+                 stock arrives at the destination, matched by SKU, then by name,
+                 or created as a new inventory row
+    - `cancel`   { transfer_id }: shipped stock is returned to the source
+
+  Every stock change is logged in inventory_movements with movement_type 'transfer'.
+
+  ## Changes to inventory
+    - The global UNIQUE on `sku` becomes UNIQUE (sku, location_id), so the same
+      item can be stocked under its SKU at every branch
+
+  ## Security
+    - RLS enabled; staff can read and create, admins/owners can delete
+    - `transfer_inventory` requires staff; request, ship and cancel need access
+      to the source location, receive to the destination location
+*/
+
+ALTER TABLE inventory DROP CONSTRAINT IF EXISTS inventory_sku_key;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'inventory_sku_location_id_key'
+  ) THEN
+    ALTER TABLE inventory ADD CONSTRAINT inventory_sku_location_id_key UNIQUE (sku, location_id);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_number text UNIQUE,
+  source_location_id bigint NOT NULL REFERENCES locations(id),
+  destination_location_id bigint NOT NULL REFERENCES locations(id),
+  source_inventory_id uuid REFERENCES inventory(id) ON DELETE SET NULL,
+  destination_inventory_id uuid REFERENCES inventory(id) ON DELETE SET NULL,
+  part_name text NOT NULL,
+  sku text,
+  quantity_requested integer NOT NULL CHECK (quantity_requested > 0),
+  quantity_shipped integer,
+  quantity_received integer,
+  unit_cost numeric(12,2),
+  discrepancy integer,
+  discrepancy_notes text,
+  status text NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'shipped', 'received', 'cancelled')),
+  notes text,
+  requested_by uuid REFERENCES profiles(id),
+  shipped_by uuid REFERENCES profiles(id),
+  received_by uuid REFERENCES profiles(id),
+  cancelled_by uuid REFERENCES profiles(id),
+  requested_at timestamptz DEFAULT now(),
+  shipped_at timestamptz,
+  received_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (source_location_id <> destination_location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_source_location ON stock_transfers(source_location_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_destination_location ON stock_transfers(destination_location_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers(status);
+
+-- Generate transfer number: TR-YYYYMMDD-001
+CREATE OR REPLACE FUNCTION generate_transfer_number()
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  date_prefix text;
+  next_num integer;
+BEGIN
+  date_prefix := 'TR-' || to_char(now(), 'YYYYMMDD') || '-';
+
+  SELECT COALESCE(MAX(CAST(substring(transfer_number FROM length(date_prefix) + 1) AS integer)), 0) + 1
+  INTO next_num
+  FROM stock_transfers
+  WHERE transfer_number LIKE date_prefix || '%';
+
+  RETURN date_prefix || lpad(next_num::text, 3, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_transfer_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.transfer_number IS NULL THEN
+    NEW.transfer_number := generate_transfer_number();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_transfer_number_trigger ON stock_transfers;
+CREATE TRIGGER set_transfer_number_trigger
+  BEFORE INSERT ON stock_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION set_transfer_number();
+
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stock_transfers_select" ON stock_transfers FOR SELECT TO authenticated USING (true);
+CREATE POLICY "stock_transfers_insert" ON stock_transfers FOR INSERT TO authenticated WITH CHECK ((SELECT is_staff()));
+CREATE POLICY "stock_transfers_update" ON stock_transfers FOR UPDATE TO authenticated USING ((SELECT is_staff())) WITH CHECK ((SELECT is_staff()));
+CREATE POLICY "stock_transfers_delete" ON stock_transfers FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+-- ============================================================================
+-- transfer_inventory RPC
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION transfer_inventory(p_action text, p_payload jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer stock_transfers%ROWTYPE;
+  v_source inventory%ROWTYPE;
+  v_target_id uuid;
+  v_quantity integer;
+  v_received integer;
+  v_unit_cost numeric;
+  v_result jsonb;
+BEGIN
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF p_action = 'request' THEN
+    v_quantity := (p_payload->>'quantity')::integer;
+
+    SELECT * INTO v_source FROM inventory WHERE id = (p_payload->>'inventory_id')::uuid;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Inventory item not found');
+    END IF;
+
+    IF NOT can_access_location(v_source.location_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'No access to the source location');
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+    END IF;
+
+    IF v_source.location_id = (p_payload->>'destination_location_id')::bigint THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Source and destination must differ');
+    END IF;
+
+    INSERT INTO stock_transfers (
+      source_location_id,
+      destination_location_id,
+      source_inventory_id,
+      part_name,
+      sku,
+      quantity_requested,
+      notes,
+      requested_by
+    ) VALUES (
+      v_source.location_id,
+      (p_payload->>'destination_location_id')::bigint,
+      v_source.id,
+      v_source.part_name,
+      NULLIF(v_source.sku, ''),
+      v_quantity,
+      NULLIF(p_payload->>'notes', ''),
+      auth.uid()
+    )
+    RETURNING * INTO v_transfer;
+
+    -- A failed shipment must not leave the request behind
+    IF COALESCE((p_payload->>'ship_now')::boolean, false) THEN
+      v_result := transfer_inventory('ship', jsonb_build_object('transfer_id', v_transfer.id));
+      IF NOT (v_result->>'success')::boolean THEN
+        RAISE EXCEPTION '%', v_result->>'error';
+      END IF;
+      RETURN v_result;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'transfer_id', v_transfer.id, 'transfer_number', v_transfer.transfer_number);
+  END IF;
+
+  SELECT * INTO v_transfer
+  FROM stock_transfers
+  WHERE id = (p_payload->>'transfer_id')::uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transfer not found');
+  END IF;
+
+  IF p_action = 'receive' THEN
+    IF NOT can_access_location(v_transfer.destination_location_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'No access to the destination location');
+    END IF;
+  ELSIF NOT can_access_location(v_transfer.source_location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to the source location');
+  END IF;
+
+  IF p_action = 'ship' THEN
+    IF v_transfer.status <> 'requested' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Only requested transfers can be shipped');
+    END IF;
+
+    SELECT * INTO v_source FROM inventory WHERE id = v_transfer.source_inventory_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Source inventory item no longer exists');
+    END IF;
+
+    IF v_source.quantity < v_transfer.quantity_requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": available %s, requested %s',
+          v_source.part_name, v_source.quantity, v_transfer.quantity_requested)
+      );
+    END IF;
+
+    UPDATE inventory
+    SET quantity = quantity - v_transfer.quantity_requested
+    WHERE id = v_source.id;
+
+    -- The stored cost is what the stock cost when it left the source
+    INSERT INTO inventory_movements (
+      inventory_id, user_id, movement_type, quantity, cost_per_unit, location_id, destination_location_id, notes
+    ) VALUES (
+      v_source.id, auth.uid(), 'transfer', -v_transfer.quantity_requested, COALESCE(v_source.unit_cost, 0),
+      v_transfer.source_location_id, v_transfer.destination_location_id,
+      'Transfer ' || v_transfer.transfer_number || ' shipped'
+    )
+    RETURNING cost_per_unit INTO v_unit_cost;
+
+    UPDATE stock_transfers
+    SET status = 'shipped',
+        quantity_shipped = v_transfer.quantity_requested,
+        unit_cost = v_unit_cost,
+        shipped_by = auth.uid(),
+        shipped_at = now()
+    WHERE id = v_transfer.id;
+
+  ELSIF p_action = 'receive' THEN
+    IF v_transfer.status <> 'shipped' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Only shipped transfers can be received');
+    END IF;
+
+    v_received := COALESCE((p_payload->>'quantity_received')::integer, v_transfer.quantity_shipped);
+    IF v_received < 0 OR v_received > v_transfer.quantity_shipped THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Received quantity must be between 0 and %s', v_transfer.quantity_shipped)
+      );
+    END IF;
+
+    SELECT * INTO v_source FROM inventory WHERE id = v_transfer.source_inventory_id;
+
+    -- Match the destination item by SKU, then by name; create it if missing
+    SELECT id INTO v_target_id
+    FROM inventory
+    WHERE location_id = v_transfer.destination_location_id
+      AND (
+        (v_transfer.sku IS NOT NULL AND sku = v_transfer.sku)
+        OR (v_transfer.sku IS NULL AND part_name = v_transfer.part_name)
+      )
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_target_id IS NULL THEN
+      INSERT INTO inventory (
+        part_name, sku, barcode, quantity, unit_cost, location, min_quantity, supplier_id, location_id
+      ) VALUES (
+        v_transfer.part_name,
+        v_transfer.sku,
+        v_source.barcode,
+        0,
+        COALESCE(v_transfer.unit_cost, v_source.unit_cost, 0),
+        v_source.location,
+        COALESCE(v_source.min_quantity, 0),
+        v_source.supplier_id,
+        v_transfer.destination_location_id
+      )
+      RETURNING id INTO v_target_id;
+    END IF;
+
+    IF v_received > 0 THEN
+      UPDATE inventory
+      SET quantity = quantity + v_received
+      WHERE id = v_target_id;
+
+      INSERT INTO inventory_movements (
+        inventory_id, user_id, movement_type, quantity, cost_per_unit, location_id, notes
+      ) VALUES (
+        v_target_id, auth.uid(), 'transfer', v_received, v_transfer.unit_cost,
+        v_transfer.destination_location_id,
+        'Transfer ' || v_transfer.transfer_number || ' received'
+      );
+    END IF;
+
+    UPDATE stock_transfers
+    SET status = 'received',
+        destination_inventory_id = v_target_id,
+        quantity_received = v_received,
+        discrepancy = v_transfer.quantity_shipped - v_received,
+        discrepancy_notes = NULLIF(p_payload->>'discrepancy_notes', ''),
+        received_by = auth.uid(),
+        received_at = now()
+    WHERE id = v_transfer.id;
+
+  ELSIF p_action = 'cancel' THEN
+    IF v_transfer.status NOT IN ('requested', 'shipped') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Transfer can no longer be cancelled');
+    END IF;
+
+    IF v_transfer.status = 'shipped' AND v_transfer.source_inventory_id IS NOT NULL THEN
+      UPDATE inventory
+      SET quantity = quantity + v_transfer.quantity_shipped
+      WHERE id = v_transfer.source_inventory_id;
+
+      INSERT INTO inventory_movements (
+        inventory_id, user_id, movement_type, quantity, cost_per_unit, location_id, notes
+      ) VALUES (
+        v_transfer.source_inventory_id, auth.uid(), 'transfer', v_transfer.quantity_shipped, v_transfer.unit_cost,
+        v_transfer.source_location_id,
+        'Transfer ' || v_transfer.transfer_number || ' cancelled, stock returned'
+      );
+    END IF;
+
+    UPDATE stock_transfers
+    SET status = 'cancelled',
+        cancelled_by = auth.uid(),
+        cancelled_at = now()
+    WHERE id = v_transfer.id;
+
+  ELSE
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown action: ' || p_action);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'transfer_id', v_transfer.id, 'transfer_number', v_transfer.transfer_number);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transfer_inventory(text, jsonb) TO authenticated;
+
+COMMENT ON TABLE stock_transfers IS 'Inter-location stock transfers: requested → shipped (stock leaves source) → received (stock arrives at destination)';
+COMMENT ON FUNCTION transfer_inventory(text, jsonb) IS 'Requests, ships, receives or cancels a stock transfer in one transaction';
@@ -0,0 +1,279 @@
+/*
+  # Multi-line, Multi-VAT Invoices
+
+  ## Overview
+  Invoices only held a single service description with quantity 1 and one
+  price, while orders are already itemized in order_items. Invoices now have
+  their own lines, each with its own discount and VAT rate. Business clients
+  receive a proper itemized invoice with a VAT breakdown.
+
+  ## New Tables
+    - `invoice_lines`
+      - `invoice_id` (uuid, FK invoices, cascade delete)
+      - `position` (integer): line order on the printed invoice
+      - `order_item_id` (uuid, FK order_items, nullable): source order item
+      - `item_type` (text): service / part / other
+      - `description` (text)
+      - `quantity` (numeric), `unit_price` (numeric, excl. VAT)
+      - `discount_type` ('percent' | 'fixed'), `discount_value` (numeric,
+        0–100 for percent discounts)
+      - `vat_rate` (numeric, %)
+      - `net_amount`, `vat_amount`, `total_amount` (numeric): computed by trigger
+
+  ## Functions
+    - `calculate_invoice_line_amounts()`: BEFORE trigger on invoice_lines,
+      computes net, VAT and total for the line
+    - `calculate_invoice_totals(p_invoice_id uuid)`: recomputes the invoice
+      subtotal, VAT and total from its lines (replaces the old single-line
+      trigger of the same name). Called automatically when lines change.
+    - `create_invoice(p_invoice jsonb)`: inserts an invoice with its lines in
+      one transaction and returns the calculated totals
+
+  ## Security
+    - RLS on invoice_lines follows the parent invoice's location
+    - `create_invoice` requires staff with access to the invoice's location
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 1,
+  order_item_id uuid REFERENCES order_items(id) ON DELETE SET NULL,
+  item_type text NOT NULL DEFAULT 'service',
+  description text NOT NULL,
+  quantity numeric(10,2) NOT NULL DEFAULT 1,
+  unit_price numeric(10,2) NOT NULL DEFAULT 0,
+  discount_type text NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value numeric(10,2) NOT NULL DEFAULT 0,
+  vat_rate numeric(5,2) NOT NULL DEFAULT 21,
+  net_amount numeric(10,2) NOT NULL DEFAULT 0,
+  vat_amount numeric(10,2) NOT NULL DEFAULT 0,
+  total_amount numeric(10,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percent' OR discount_value BETWEEN 0 AND 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice ON invoice_lines(invoice_id, position);
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_order_item ON invoice_lines(order_item_id);
+
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "invoice_lines_select" ON invoice_lines FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM invoices i WHERE i.id = invoice_id AND (SELECT can_access_location(i.location_id))));
+CREATE POLICY "invoice_lines_insert" ON invoice_lines FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM invoices i WHERE i.id = invoice_id AND (SELECT can_access_location(i.location_id))));
+CREATE POLICY "invoice_lines_update" ON invoice_lines FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM invoices i WHERE i.id = invoice_id AND (SELECT can_access_location(i.location_id))))
+  WITH CHECK (EXISTS (SELECT 1 FROM invoices i WHERE i.id = invoice_id AND (SELECT can_access_location(i.location_id))));
+CREATE POLICY "invoice_lines_delete" ON invoice_lines FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+-- ============================================================================
+-- Line amounts
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_invoice_line_amounts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_gross numeric;
+  v_discount numeric;
+BEGIN
+  v_gross := NEW.quantity * NEW.unit_price;
+
+  IF NEW.discount_type = 'percent' THEN
+    v_discount := v_gross * NEW.discount_value / 100;
+  ELSE
+    v_discount := sign(v_gross) * LEAST(NEW.discount_value, abs(v_gross));
+  END IF;
+
+  NEW.net_amount := ROUND(v_gross - v_discount, 2);
+  NEW.vat_amount := ROUND(NEW.net_amount * NEW.vat_rate / 100, 2);
+  NEW.total_amount := NEW.net_amount + NEW.vat_amount;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_calculate_invoice_line_amounts ON invoice_lines;
+CREATE TRIGGER trigger_calculate_invoice_line_amounts
+  BEFORE INSERT OR UPDATE ON invoice_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION calculate_invoice_line_amounts();
+
+-- ============================================================================
+-- Invoice totals from lines
+-- ============================================================================
+
+-- The old trigger computed totals from the single quantity/unit_price pair
+DROP TRIGGER IF EXISTS trigger_calculate_invoice_totals ON invoices;
+DROP FUNCTION IF EXISTS calculate_invoice_totals();
+
+CREATE OR REPLACE FUNCTION calculate_invoice_totals(p_invoice_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subtotal numeric;
+  v_vat numeric;
+  v_total numeric;
+BEGIN
+  SELECT
+    COALESCE(SUM(net_amount), 0),
+    COALESCE(SUM(vat_amount), 0),
+    COALESCE(SUM(total_amount), 0)
+  INTO v_subtotal, v_vat, v_total
+  FROM invoice_lines
+  WHERE invoice_id = p_invoice_id;
+
+  -- quantity/unit_price are kept for readers of the old single-line layout
+  UPDATE invoices
+  SET subtotal = v_subtotal,
+      vat_amount = v_vat,
+      total_amount = v_total,
+      quantity = 1,
+      unit_price = v_subtotal
+  WHERE id = p_invoice_id;
+
+  RETURN jsonb_build_object('subtotal', v_subtotal, 'vat_amount', v_vat, 'total_amount', v_total);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_invoice_lines_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM calculate_invoice_totals(COALESCE(NEW.invoice_id, OLD.invoice_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_invoice_lines_change ON invoice_lines;
+CREATE TRIGGER trigger_invoice_lines_change
+  AFTER INSERT OR UPDATE OR DELETE ON invoice_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_invoice_lines_change();
+
+-- ============================================================================
+-- Atomic invoice creation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_invoice(p_invoice jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid;
+  v_invoice_number text;
+  v_line jsonb;
+  v_position integer := 0;
+  v_totals jsonb;
+BEGIN
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF NOT can_access_location((p_invoice->>'location_id')::bigint) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_invoice->'lines', '[]'::jsonb)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invoice must have at least one line');
+  END IF;
+
+  v_invoice_number := COALESCE(NULLIF(p_invoice->>'invoice_number', ''), generate_invoice_number());
+
+  INSERT INTO invoices (
+    invoice_number,
+    order_id,
+    location_id,
+    client_company_name,
+    client_registration_number,
+    client_pvn_number,
+    client_legal_address,
+    service_type,
+    service_description,
+    quantity,
+    unit_price,
+    vat_rate,
+    total_in_words,
+    payment_due_date,
+    bank_name,
+    bank_iban,
+    notes,
+    created_by
+  ) VALUES (
+    v_invoice_number,
+    NULLIF(p_invoice->>'order_id', '')::uuid,
+    (p_invoice->>'location_id')::bigint,
+    p_invoice->>'client_company_name',
+    p_invoice->>'client_registration_number',
+    NULLIF(p_invoice->>'client_pvn_number', ''),
+    p_invoice->>'client_legal_address',
+    p_invoice->>'service_type',
+    p_invoice->>'service_description',
+    1,
+    0,
+    COALESCE((p_invoice->>'vat_rate')::numeric, 21),
+    p_invoice->>'total_in_words',
+    (p_invoice->>'payment_due_date')::date,
+    COALESCE(p_invoice->>'bank_name', 'Swedbank'),
+    COALESCE(p_invoice->>'bank_iban', 'LV12HABA0551234567890'),
+    NULLIF(p_invoice->>'notes', ''),
+    auth.uid()
+  )
+  RETURNING id INTO v_invoice_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_invoice->'lines')
+  LOOP
+    v_position := v_position + 1;
+
+    INSERT INTO invoice_lines (
+      invoice_id,
+      position,
+      order_item_id,
+      item_type,
+      description,
+      quantity,
+      unit_price,
+      discount_type,
+      discount_value,
+      vat_rate
+    ) VALUES (
+      v_invoice_id,
+      v_position,
+      NULLIF(v_line->>'order_item_id', '')::uuid,
+      COALESCE(v_line->>'item_type', 'service'),
+      v_line->>'description',
+      COALESCE((v_line->>'quantity')::numeric, 1),
+      COALESCE((v_line->>'unit_price')::numeric, 0),
+      COALESCE(v_line->>'discount_type', 'percent'),
+      COALESCE((v_line->>'discount_value')::numeric, 0),
+      COALESCE((v_line->>'vat_rate')::numeric, 21)
+    );
+  END LOOP;
+
+  v_totals := calculate_invoice_totals(v_invoice_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'invoice_id', v_invoice_id,
+    'invoice_number', v_invoice_number
+  ) || v_totals;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_invoice_totals(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_invoice(jsonb) TO authenticated;
+
+COMMENT ON TABLE invoice_lines IS 'Itemized invoice lines, each with its own discount and VAT rate';
+COMMENT ON FUNCTION calculate_invoice_totals(uuid) IS 'Recomputes invoice subtotal, VAT and total from invoice_lines';
+COMMENT ON FUNCTION create_invoice(jsonb) IS 'Creates an invoice with its lines in one transaction';
@@ -0,0 +1,429 @@
+/*
+  # Invoice Status, Cancellation and Credit Notes
+
+  ## Overview
+  Once an invoice number was issued there was no way to correct or void the
+  invoice, and deleting it would leave a gap in the numbering. Invoices now
+  have a status, can be cancelled with a recorded reason, and can be
+  corrected with credit notes (kredītrēķini) that carry negative lines and
+  use their own number series.
+
+  ## Changes to invoices
+    - `document_type` (text): 'invoice' or 'credit_note'
+    - `credited_invoice_id` (uuid): original invoice of a credit note
+    - `status` (text): issued / paid / partially_paid / cancelled / credited
+    - `paid_amount` (numeric): amount received so far
+    - `cancelled_at`, `cancelled_by`, `cancellation_reason`
+
+  ## Functions
+    - `generate_credit_note_number()`: KR-YYYYMM-001
+    - `create_credit_note(p_invoice_id, p_reason, p_lines)`: credits what is
+      left of the invoice (default) or the given lines; lines may not credit
+      more than the remaining balance. The original becomes 'credited' once it
+      is fully offset
+    - `cancel_invoice(p_invoice_id, p_reason)`: voids an unpaid invoice
+    - `record_invoice_payment(p_invoice_id, p_amount)`: adds a payment of at
+      most the outstanding balance (total less credit notes and payments) and
+      derives paid / partially_paid
+
+  ## Security
+    - All three RPCs require staff with access to the invoice's location
+
+  ## Audit
+  Cancellations, credit notes and payments are written to audit_log with the
+  user and the reason.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'document_type'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN document_type text NOT NULL DEFAULT 'invoice'
+      CHECK (document_type IN ('invoice', 'credit_note'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'credited_invoice_id'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN credited_invoice_id uuid REFERENCES invoices(id) ON DELETE RESTRICT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN status text NOT NULL DEFAULT 'issued'
+      CHECK (status IN ('issued', 'paid', 'partially_paid', 'cancelled', 'credited'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'paid_amount'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN paid_amount numeric(10,2) NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'cancelled_at'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN cancelled_at timestamptz;
+    ALTER TABLE invoices ADD COLUMN cancelled_by uuid REFERENCES profiles(id);
+    ALTER TABLE invoices ADD COLUMN cancellation_reason text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_credited_invoice ON invoices(credited_invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+
+-- ============================================================================
+-- Credit note numbering: KR-YYYYMM-001
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION generate_credit_note_number()
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_prefix text;
+  v_sequence int;
+BEGIN
+  v_prefix := 'KR-' || TO_CHAR(CURRENT_DATE, 'YYYYMM') || '-';
+
+  SELECT COALESCE(MAX(CAST(SUBSTRING(invoice_number FROM '\d+$') AS INTEGER)), 0) + 1
+  INTO v_sequence
+  FROM invoices
+  WHERE invoice_number LIKE v_prefix || '%';
+
+  RETURN v_prefix || LPAD(v_sequence::text, 3, '0');
+END;
+$$;
+
+-- ============================================================================
+-- Credit notes
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_credit_note(
+  p_invoice_id uuid,
+  p_reason text,
+  p_lines jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_credit_id uuid;
+  v_credit_number text;
+  v_line jsonb;
+  v_position integer := 0;
+  v_totals jsonb;
+  v_balance numeric;
+  v_credited boolean;
+BEGIN
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A reason is required');
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invoice not found');
+  END IF;
+
+  IF NOT can_access_location(v_invoice.location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  IF v_invoice.document_type <> 'invoice' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Credit notes cannot be credited');
+  END IF;
+
+  IF v_invoice.status IN ('cancelled', 'credited') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invoice is already ' || v_invoice.status);
+  END IF;
+
+  v_credited := EXISTS (
+    SELECT 1 FROM invoices
+    WHERE credited_invoice_id = v_invoice.id AND status <> 'cancelled'
+  );
+
+  v_credit_number := generate_credit_note_number();
+
+  INSERT INTO invoices (
+    invoice_number, document_type, credited_invoice_id, order_id, location_id,
+    client_company_name, client_registration_number, client_pvn_number, client_legal_address,
+    service_type, service_description, quantity, unit_price, vat_rate,
+    payment_due_date, bank_name, bank_iban, notes, created_by
+  ) VALUES (
+    v_credit_number, 'credit_note', v_invoice.id, v_invoice.order_id, v_invoice.location_id,
+    v_invoice.client_company_name, v_invoice.client_registration_number, v_invoice.client_pvn_number, v_invoice.client_legal_address,
+    v_invoice.service_type, v_invoice.service_description, 1, 0, v_invoice.vat_rate,
+    CURRENT_DATE, v_invoice.bank_name, v_invoice.bank_iban, btrim(p_reason), auth.uid()
+  )
+  RETURNING id INTO v_credit_id;
+
+  IF p_lines IS NULL AND v_credited THEN
+    -- Earlier credit notes took part of the invoice: credit what is left of
+    -- each VAT rate
+    INSERT INTO invoice_lines (invoice_id, position, item_type, description, quantity, unit_price, vat_rate)
+    SELECT
+      v_credit_id,
+      row_number() OVER (ORDER BY remaining.vat_rate),
+      'service',
+      'Rēķina ' || v_invoice.invoice_number || ' atlikums',
+      -1,
+      remaining.net,
+      remaining.vat_rate
+    FROM (
+      SELECT amounts.vat_rate, SUM(amounts.net_amount) AS net
+      FROM (
+        SELECT l.vat_rate, l.net_amount
+        FROM invoice_lines l
+        JOIN invoices i ON i.id = l.invoice_id
+        WHERE i.id = v_invoice.id
+          OR (i.credited_invoice_id = v_invoice.id AND i.status <> 'cancelled')
+        -- Invoices created before invoice_lines existed
+        UNION ALL
+        SELECT v_invoice.vat_rate, v_invoice.subtotal
+        WHERE NOT EXISTS (SELECT 1 FROM invoice_lines WHERE invoice_id = v_invoice.id)
+      ) amounts
+      GROUP BY amounts.vat_rate
+    ) remaining
+    WHERE remaining.net > 0;
+  ELSIF p_lines IS NULL THEN
+    -- Full credit: mirror every original line with a negative quantity
+    INSERT INTO invoice_lines (
+      invoice_id, position, order_item_id, item_type, description,
+      quantity, unit_price, discount_type, discount_value, vat_rate
+    )
+    SELECT
+      v_credit_id, position, order_item_id, item_type, description,
+      -quantity, unit_price, discount_type, discount_value, vat_rate
+    FROM invoice_lines
+    WHERE invoice_id = v_invoice.id;
+
+    -- Invoices created before invoice_lines existed
+    IF NOT FOUND THEN
+      INSERT INTO invoice_lines (invoice_id, position, item_type, description, quantity, unit_price, vat_rate)
+      VALUES (v_credit_id, 1, 'service', v_invoice.service_description, -1, v_invoice.subtotal, v_invoice.vat_rate);
+    END IF;
+  ELSE
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+    LOOP
+      v_position := v_position + 1;
+      INSERT INTO invoice_lines (
+        invoice_id, position, item_type, description,
+        quantity, unit_price, discount_type, discount_value, vat_rate
+      ) VALUES (
+        v_credit_id,
+        v_position,
+        COALESCE(v_line->>'item_type', 'service'),
+        v_line->>'description',
+        -abs(COALESCE((v_line->>'quantity')::numeric, 1)),
+        abs(COALESCE((v_line->>'unit_price')::numeric, 0)),
+        COALESCE(v_line->>'discount_type', 'percent'),
+        COALESCE((v_line->>'discount_value')::numeric, 0),
+        COALESCE((v_line->>'vat_rate')::numeric, v_invoice.vat_rate)
+      );
+    END LOOP;
+  END IF;
+
+  v_totals := calculate_invoice_totals(v_credit_id);
+
+  -- The original is credited once all credit notes offset its total
+  SELECT v_invoice.total_amount + COALESCE(SUM(total_amount), 0)
+  INTO v_balance
+  FROM invoices
+  WHERE credited_invoice_id = v_invoice.id
+    AND status <> 'cancelled';
+
+  IF v_balance < -0.005 THEN
+    RAISE EXCEPTION 'Credit note exceeds the remaining balance of invoice % (%)',
+      v_invoice.invoice_number, v_balance - (v_totals->>'total_amount')::numeric;
+  END IF;
+
+  -- A full credit closes the invoice even if VAT rounding leaves a cent
+  IF p_lines IS NULL OR v_balance <= 0.005 THEN
+    UPDATE invoices SET status = 'credited' WHERE id = v_invoice.id;
+  END IF;
+
+  INSERT INTO audit_log (user_id, action_type, table_name, record_id, old_values, new_values, location_id)
+  VALUES (
+    auth.uid(),
+    'credit_note',
+    'invoices',
+    v_invoice.id::text,
+    jsonb_build_object('invoice_number', v_invoice.invoice_number, 'status', v_invoice.status),
+    jsonb_build_object('credit_note_number', v_credit_number, 'reason', btrim(p_reason)) || v_totals,
+    v_invoice.location_id
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'invoice_id', v_credit_id,
+    'invoice_number', v_credit_number
+  ) || v_totals;
+END;
+$$;
+
+-- ============================================================================
+-- Cancellation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION cancel_invoice(p_invoice_id uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A reason is required');
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invoice not found');
+  END IF;
+
+  IF NOT can_access_location(v_invoice.location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  IF v_invoice.status <> 'issued' OR v_invoice.paid_amount <> 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only unpaid issued invoices can be cancelled; use a credit note instead');
+  END IF;
+
+  UPDATE invoices
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancelled_by = auth.uid(),
+      cancellation_reason = btrim(p_reason)
+  WHERE id = p_invoice_id;
+
+  -- Cancelling a credit note reopens the invoice it credited
+  IF v_invoice.document_type = 'credit_note' THEN
+    UPDATE invoices
+    SET status = CASE
+      WHEN paid_amount >= total_amount AND total_amount > 0 THEN 'paid'
+      WHEN paid_amount > 0 THEN 'partially_paid'
+      ELSE 'issued'
+    END
+    WHERE id = v_invoice.credited_invoice_id
+      AND status = 'credited';
+  END IF;
+
+  INSERT INTO audit_log (user_id, action_type, table_name, record_id, old_values, new_values, location_id)
+  VALUES (
+    auth.uid(),
+    'cancel',
+    'invoices',
+    v_invoice.id::text,
+    jsonb_build_object('invoice_number', v_invoice.invoice_number, 'status', v_invoice.status),
+    jsonb_build_object('status', 'cancelled', 'reason', btrim(p_reason)),
+    v_invoice.location_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'invoice_id', v_invoice.id);
+END;
+$$;
+
+-- ============================================================================
+-- Payments
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_invoice_payment(p_invoice_id uuid, p_amount numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_paid numeric;
+  v_status text;
+  v_due numeric;
+BEGIN
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invoice not found');
+  END IF;
+
+  IF NOT can_access_location(v_invoice.location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  IF v_invoice.document_type <> 'invoice' OR v_invoice.status IN ('cancelled', 'credited') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Payments cannot be recorded for this invoice');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Amount must be greater than 0');
+  END IF;
+
+  -- Credit notes reduce what the client owes
+  SELECT v_invoice.total_amount + COALESCE(SUM(total_amount), 0)
+  INTO v_due
+  FROM invoices
+  WHERE credited_invoice_id = v_invoice.id
+    AND status <> 'cancelled';
+
+  IF v_invoice.paid_amount + p_amount > v_due + 0.005 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Amount exceeds the outstanding balance of %s', to_char(v_due - v_invoice.paid_amount, 'FM999999990.00'))
+    );
+  END IF;
+
+  v_paid := v_invoice.paid_amount + p_amount;
+  v_status := CASE WHEN v_paid >= v_due THEN 'paid' ELSE 'partially_paid' END;
+
+  UPDATE invoices
+  SET paid_amount = v_paid,
+      status = v_status
+  WHERE id = p_invoice_id;
+
+  INSERT INTO audit_log (user_id, action_type, table_name, record_id, old_values, new_values, location_id)
+  VALUES (
+    auth.uid(),
+    'payment',
+    'invoices',
+    v_invoice.id::text,
+    jsonb_build_object('paid_amount', v_invoice.paid_amount, 'status', v_invoice.status),
+    jsonb_build_object('paid_amount', v_paid, 'status', v_status, 'amount', p_amount),
+    v_invoice.location_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'paid_amount', v_paid, 'status', v_status);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION generate_credit_note_number() TO authenticated;
+GRANT EXECUTE ON FUNCTION create_credit_note(uuid, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_invoice(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_invoice_payment(uuid, numeric) TO authenticated;
+
+COMMENT ON COLUMN invoices.status IS 'issued, paid, partially_paid, cancelled or credited';
+COMMENT ON COLUMN invoices.credited_invoice_id IS 'For credit notes: the invoice being corrected';
+COMMENT ON FUNCTION create_credit_note(uuid, text, jsonb) IS 'Issues a credit note with negative lines against an invoice';
+COMMENT ON FUNCTION cancel_invoice(uuid, text) IS 'Voids an unpaid invoice and records who did it and why in audit_log';
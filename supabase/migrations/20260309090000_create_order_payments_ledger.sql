@@ -0,0 +1,316 @@
+/*
+  # Order Payments Ledger
+
+  ## Overview
+  Orders only stored a single `payment_method` and one `prepayment` amount, so a
+  second deposit, a card + cash split or a refund could not be recorded.
+  Every money movement on an order is now a row in `order_payments`, and the
+  order's paid amount, balance and paid flag are derived from that ledger.
+
+  ## New Tables
+    - `order_payments`
+      - `order_id` (uuid, FK orders, cascade delete)
+      - `location_id` (bigint, FK locations): copied from the order
+      - `payment_type` ('deposit' | 'payment' | 'refund')
+      - `payment_method` ('cash' | 'bank' | 'bs_cash')
+      - `amount` (numeric, always positive; refunds are subtracted)
+      - `tendered_amount` (numeric, nullable): cash handed over by the client
+      - `change_amount` (numeric): change given back
+      - `notes` (text)
+      - `created_by` (uuid, FK profiles), `created_at`
+
+  ## Modified Tables
+    - `orders`
+      - `paid_amount` (numeric): deposits + payments - refunds
+      - `prepayment` is now the sum of deposit entries
+      - `balance_due` and `is_paid` are computed from `paid_amount`
+
+  ## Functions
+    - `recalculate_order_payments(p_order_id uuid)`: refreshes the derived
+      order columns; runs automatically when the ledger changes
+    - `record_order_payments(p_order_id uuid, p_payments jsonb)`: records one or
+      more entries (split tenders) in one transaction; the only way to write
+      to the ledger, for staff with access to the order's location
+    - A deposit given when the order is created (`orders.prepayment` on insert)
+      is copied into the ledger automatically
+
+  ## Data Migration
+    - Existing deposits become 'deposit' entries
+    - Closed orders get a 'payment' entry for the remainder, using their
+      stored payment_method
+*/
+
+CREATE TABLE IF NOT EXISTS order_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  location_id bigint REFERENCES locations(id),
+  payment_type text NOT NULL DEFAULT 'payment' CHECK (payment_type IN ('deposit', 'payment', 'refund')),
+  payment_method text NOT NULL DEFAULT 'cash' CHECK (payment_method IN ('cash', 'bank', 'bs_cash')),
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  tendered_amount numeric(12,2),
+  change_amount numeric(12,2) NOT NULL DEFAULT 0,
+  notes text,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_payments_order ON order_payments(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_payments_location_date ON order_payments(location_id, created_at);
+
+ALTER TABLE order_payments ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through record_order_payments()
+CREATE POLICY "order_payments_select" ON order_payments FOR SELECT TO authenticated USING ((SELECT can_access_location(location_id)));
+CREATE POLICY "order_payments_delete" ON order_payments FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'paid_amount'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN paid_amount numeric(12,2) NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Derived order columns
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_balance_due()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_total numeric;
+BEGIN
+  v_total := COALESCE(NEW.final_cost, NEW.estimated_cost, 0);
+  NEW.balance_due = GREATEST(v_total - COALESCE(NEW.paid_amount, 0), 0);
+  NEW.is_paid = v_total > 0 AND COALESCE(NEW.paid_amount, 0) >= v_total;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_balance_due ON orders;
+CREATE TRIGGER trigger_update_balance_due
+  BEFORE INSERT OR UPDATE OF final_cost, estimated_cost, prepayment, paid_amount ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_balance_due();
+
+CREATE OR REPLACE FUNCTION recalculate_order_payments(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deposits numeric;
+  v_paid numeric;
+BEGIN
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE payment_type = 'deposit'), 0),
+    COALESCE(SUM(CASE WHEN payment_type = 'refund' THEN -amount ELSE amount END), 0)
+  INTO v_deposits, v_paid
+  FROM order_payments
+  WHERE order_id = p_order_id;
+
+  UPDATE orders
+  SET prepayment = v_deposits,
+      paid_amount = v_paid
+  WHERE id = p_order_id
+    AND (prepayment IS DISTINCT FROM v_deposits OR paid_amount IS DISTINCT FROM v_paid);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_order_payments_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM recalculate_order_payments(COALESCE(NEW.order_id, OLD.order_id));
+
+  -- Deposits are already logged by log_prepayment_change() on orders
+  IF TG_OP = 'INSERT' AND NEW.payment_type <> 'deposit' THEN
+    PERFORM log_activity(
+      auth.uid(),
+      'order',
+      NEW.order_id::text,
+      CASE WHEN NEW.payment_type = 'refund' THEN 'refund_added' ELSE 'payment_added' END,
+      CASE WHEN NEW.payment_type = 'refund' THEN 'Возврат: €' ELSE 'Оплата: €' END || NEW.amount,
+      NULL,
+      jsonb_build_object('amount', NEW.amount, 'payment_method', NEW.payment_method)
+    );
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_order_payments_change ON order_payments;
+CREATE TRIGGER trigger_order_payments_change
+  AFTER INSERT OR DELETE ON order_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_order_payments_change();
+
+-- A deposit entered on the new-order form arrives as orders.prepayment
+CREATE OR REPLACE FUNCTION handle_order_initial_deposit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.prepayment, 0) > 0 THEN
+    INSERT INTO order_payments (order_id, location_id, payment_type, payment_method, amount, created_by)
+    VALUES (NEW.id, NEW.location_id, 'deposit', COALESCE(NEW.payment_method, 'cash'), NEW.prepayment, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_order_initial_deposit ON orders;
+CREATE TRIGGER trigger_order_initial_deposit
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_order_initial_deposit();
+
+-- ============================================================================
+-- Recording payments
+-- ============================================================================
+
+/*
+  p_payments: [
+    {
+      "payment_type": "deposit" | "payment" | "refund",
+      "payment_method": "cash" | "bank" | "bs_cash",
+      "amount": 50,
+      "tendered_amount": 60,
+      "notes": "..."
+    }
+  ]
+*/
+CREATE OR REPLACE FUNCTION record_order_payments(p_order_id uuid, p_payments jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_payment jsonb;
+  v_amount numeric;
+  v_tendered numeric;
+  v_refunds numeric := 0;
+BEGIN
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_payments, '[]'::jsonb)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No payments given');
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order not found');
+  END IF;
+
+  IF NOT can_access_location(v_order.location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(p_payments)
+  LOOP
+    v_amount := ROUND(COALESCE((v_payment->>'amount')::numeric, 0), 2);
+    IF v_amount <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Payment amount must be positive');
+    END IF;
+
+    IF v_payment->>'payment_type' = 'refund' THEN
+      v_refunds := v_refunds + v_amount;
+    END IF;
+  END LOOP;
+
+  IF v_refunds > v_order.paid_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Refund exceeds the amount paid (' || v_order.paid_amount || ')'
+    );
+  END IF;
+
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(p_payments)
+  LOOP
+    v_amount := ROUND((v_payment->>'amount')::numeric, 2);
+    v_tendered := NULLIF(v_payment->>'tendered_amount', '')::numeric;
+
+    INSERT INTO order_payments (
+      order_id,
+      location_id,
+      payment_type,
+      payment_method,
+      amount,
+      tendered_amount,
+      change_amount,
+      notes,
+      created_by
+    ) VALUES (
+      p_order_id,
+      v_order.location_id,
+      COALESCE(v_payment->>'payment_type', 'payment'),
+      COALESCE(v_payment->>'payment_method', 'cash'),
+      v_amount,
+      v_tendered,
+      GREATEST(COALESCE(v_tendered, v_amount) - v_amount, 0),
+      NULLIF(v_payment->>'notes', ''),
+      auth.uid()
+    );
+  END LOOP;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'paid_amount', v_order.paid_amount,
+    'balance_due', v_order.balance_due,
+    'is_paid', v_order.is_paid
+  );
+END;
+$$;
+
+-- ============================================================================
+-- Backfill from the old single-value columns
+-- ============================================================================
+
+INSERT INTO order_payments (order_id, location_id, payment_type, payment_method, amount, created_at)
+SELECT o.id, o.location_id, 'deposit', COALESCE(o.payment_method, 'cash'), o.prepayment, o.created_at
+FROM orders o
+WHERE COALESCE(o.prepayment, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM order_payments p WHERE p.order_id = o.id);
+
+INSERT INTO order_payments (order_id, location_id, payment_type, payment_method, amount, created_at)
+SELECT
+  o.id,
+  o.location_id,
+  'payment',
+  COALESCE(o.payment_method, 'cash'),
+  COALESCE(o.final_cost, o.estimated_cost, 0) - COALESCE(o.prepayment, 0),
+  COALESCE(o.completed_at, o.created_at)
+FROM orders o
+WHERE is_order_closed(o.id)
+  AND COALESCE(o.final_cost, o.estimated_cost, 0) - COALESCE(o.prepayment, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM order_payments p WHERE p.order_id = o.id AND p.payment_type = 'payment');
+
+UPDATE orders o
+SET paid_amount = COALESCE((
+  SELECT SUM(CASE WHEN p.payment_type = 'refund' THEN -p.amount ELSE p.amount END)
+  FROM order_payments p
+  WHERE p.order_id = o.id
+), 0);
+
+GRANT EXECUTE ON FUNCTION recalculate_order_payments(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_order_payments(uuid, jsonb) TO authenticated;
+
+COMMENT ON TABLE order_payments IS 'Payment ledger per order: deposits, payments and refunds, one row per tender';
+COMMENT ON COLUMN orders.paid_amount IS 'Deposits + payments - refunds, maintained from order_payments';
+COMMENT ON COLUMN orders.prepayment IS 'Sum of deposit entries in order_payments';
+COMMENT ON FUNCTION record_order_payments(uuid, jsonb) IS 'Records one or more payment entries (split tenders) for an order';
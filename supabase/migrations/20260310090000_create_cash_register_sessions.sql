@@ -0,0 +1,326 @@
+/*
+  # Cash Register Sessions (Z-report)
+
+  ## Overview
+  The only cash figure was a single `cash_balance` value in system_settings,
+  and nothing tied cash payments to a shift. Each location now opens and
+  closes a cash register session. The session starts with an opening float,
+  collects cash from order payments and sales automatically, takes manual
+  cash-in/cash-out with a reason, and ends with a closing count. The
+  difference between the counted and expected cash is stored as the
+  discrepancy.
+
+  ## New Tables
+    - `cash_register_sessions`
+      - `session_number` (text, Z-YYYYMMDD-001)
+      - `location_id` (bigint, FK locations)
+      - `status` ('open' | 'closed'); at most one open session per location
+      - `opening_float` (numeric)
+      - `expected_cash`, `counted_cash`, `discrepancy` (numeric, set on close)
+      - `closing_notes` (text)
+      - `opened_by`, `opened_at`, `closed_by`, `closed_at`
+    - `cash_movements`
+      - `session_id` (uuid, FK cash_register_sessions, nullable: cash taken
+        while the register was closed waits for the next session)
+      - `location_id` (bigint, FK locations)
+      - `movement_type` ('order_payment' | 'order_refund' | 'sale' | 'cash_in' | 'cash_out')
+      - `amount` (numeric, always positive; direction follows movement_type)
+      - `order_payment_id` (uuid, FK order_payments), `sale_id` (uuid, FK sales)
+      - `reason` (text, required for manual movements)
+      - `created_by`, `created_at`
+
+  ## Functions
+    - `cash_register_action(p_action text, p_payload jsonb)`
+      - 'open': { location_id, opening_float }
+      - 'movement': { session_id, movement_type: 'cash_in' | 'cash_out', amount, reason }
+      - 'close': { session_id, counted_cash, notes }
+    - Cash entries in order_payments and cash sales are copied into
+      cash_movements by triggers. `create_sale` sets the sale totals after
+      inserting the sale, so the sale trigger also fires on updates of
+      `total_amount` and records each sale once.
+*/
+
+CREATE TABLE IF NOT EXISTS cash_register_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_number text UNIQUE NOT NULL,
+  location_id bigint NOT NULL REFERENCES locations(id),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float numeric(12,2) NOT NULL DEFAULT 0,
+  expected_cash numeric(12,2),
+  counted_cash numeric(12,2),
+  discrepancy numeric(12,2),
+  closing_notes text,
+  opened_by uuid REFERENCES profiles(id),
+  opened_at timestamptz DEFAULT now(),
+  closed_by uuid REFERENCES profiles(id),
+  closed_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_register_sessions_one_open
+  ON cash_register_sessions(location_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_cash_register_sessions_location ON cash_register_sessions(location_id, opened_at DESC);
+
+CREATE TABLE IF NOT EXISTS cash_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid REFERENCES cash_register_sessions(id) ON DELETE CASCADE,
+  location_id bigint NOT NULL REFERENCES locations(id),
+  movement_type text NOT NULL CHECK (movement_type IN ('order_payment', 'order_refund', 'sale', 'cash_in', 'cash_out')),
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  order_payment_id uuid REFERENCES order_payments(id) ON DELETE SET NULL,
+  sale_id uuid REFERENCES sales(id) ON DELETE SET NULL,
+  reason text,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_movements_session ON cash_movements(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_cash_movements_unassigned ON cash_movements(location_id) WHERE session_id IS NULL;
+
+-- Generate session number: Z-YYYYMMDD-001
+CREATE OR REPLACE FUNCTION generate_cash_session_number()
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  date_prefix text;
+  next_num integer;
+BEGIN
+  date_prefix := 'Z-' || to_char(now(), 'YYYYMMDD') || '-';
+
+  SELECT COALESCE(MAX(CAST(substring(session_number FROM length(date_prefix) + 1) AS integer)), 0) + 1
+  INTO next_num
+  FROM cash_register_sessions
+  WHERE session_number LIKE date_prefix || '%';
+
+  RETURN date_prefix || lpad(next_num::text, 3, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_cash_session_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.session_number IS NULL THEN
+    NEW.session_number := generate_cash_session_number();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_cash_session_number_trigger ON cash_register_sessions;
+CREATE TRIGGER set_cash_session_number_trigger
+  BEFORE INSERT ON cash_register_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_cash_session_number();
+
+ALTER TABLE cash_register_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "cash_register_sessions_select" ON cash_register_sessions FOR SELECT TO authenticated USING ((SELECT can_access_location(location_id)));
+CREATE POLICY "cash_register_sessions_delete" ON cash_register_sessions FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+CREATE POLICY "cash_movements_select" ON cash_movements FOR SELECT TO authenticated USING ((SELECT can_access_location(location_id)));
+CREATE POLICY "cash_movements_delete" ON cash_movements FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+-- ============================================================================
+-- Automatic cash-in from order payments and sales
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION current_cash_session_id(p_location_id bigint)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM cash_register_sessions WHERE location_id = p_location_id AND status = 'open';
+$$;
+
+CREATE OR REPLACE FUNCTION handle_order_payment_cash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_method = 'cash' AND NEW.location_id IS NOT NULL THEN
+    INSERT INTO cash_movements (session_id, location_id, movement_type, amount, order_payment_id, created_by)
+    VALUES (
+      current_cash_session_id(NEW.location_id),
+      NEW.location_id,
+      CASE WHEN NEW.payment_type = 'refund' THEN 'order_refund' ELSE 'order_payment' END,
+      NEW.amount,
+      NEW.id,
+      NEW.created_by
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_order_payment_cash ON order_payments;
+CREATE TRIGGER trigger_order_payment_cash
+  AFTER INSERT ON order_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_order_payment_cash();
+
+CREATE OR REPLACE FUNCTION handle_sale_cash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_method = 'cash' AND NEW.total_amount > 0
+     AND NOT EXISTS (SELECT 1 FROM cash_movements WHERE sale_id = NEW.id AND movement_type = 'sale') THEN
+    INSERT INTO cash_movements (session_id, location_id, movement_type, amount, sale_id, created_by)
+    VALUES (current_cash_session_id(NEW.location_id), NEW.location_id, 'sale', NEW.total_amount, NEW.id, NEW.created_by);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sale_cash ON sales;
+CREATE TRIGGER trigger_sale_cash
+  AFTER INSERT OR UPDATE OF total_amount ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_sale_cash();
+
+-- ============================================================================
+-- Expected cash
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_cash_session_expected(p_session_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.opening_float + COALESCE((
+    SELECT SUM(CASE WHEN m.movement_type IN ('order_refund', 'cash_out') THEN -m.amount ELSE m.amount END)
+    FROM cash_movements m
+    WHERE m.session_id = s.id
+  ), 0)
+  FROM cash_register_sessions s
+  WHERE s.id = p_session_id;
+$$;
+
+-- ============================================================================
+-- cash_register_action RPC
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION cash_register_action(p_action text, p_payload jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session cash_register_sessions%ROWTYPE;
+  v_location_id bigint;
+  v_amount numeric;
+  v_counted numeric;
+  v_expected numeric;
+BEGIN
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF p_action = 'open' THEN
+    v_location_id := (p_payload->>'location_id')::bigint;
+
+    IF NOT can_access_location(v_location_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+    END IF;
+
+    IF current_cash_session_id(v_location_id) IS NOT NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'A session is already open for this location');
+    END IF;
+
+    INSERT INTO cash_register_sessions (location_id, opening_float, opened_by)
+    VALUES (v_location_id, GREATEST(COALESCE((p_payload->>'opening_float')::numeric, 0), 0), auth.uid())
+    RETURNING * INTO v_session;
+
+    -- Cash taken while the register was closed is in the drawer now
+    UPDATE cash_movements
+    SET session_id = v_session.id
+    WHERE location_id = v_location_id AND session_id IS NULL;
+
+    RETURN jsonb_build_object('success', true, 'session', to_jsonb(v_session));
+  END IF;
+
+  SELECT * INTO v_session
+  FROM cash_register_sessions
+  WHERE id = (p_payload->>'session_id')::uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Session not found');
+  END IF;
+
+  -- Movements and closing act on the session's register
+  IF NOT can_access_location(v_session.location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  IF v_session.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Session is already closed');
+  END IF;
+
+  IF p_action = 'movement' THEN
+    v_amount := ROUND(COALESCE((p_payload->>'amount')::numeric, 0), 2);
+
+    IF p_payload->>'movement_type' NOT IN ('cash_in', 'cash_out') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Invalid movement type');
+    END IF;
+
+    IF v_amount <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Amount must be positive');
+    END IF;
+
+    IF NULLIF(btrim(COALESCE(p_payload->>'reason', '')), '') IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'A reason is required');
+    END IF;
+
+    INSERT INTO cash_movements (session_id, location_id, movement_type, amount, reason, created_by)
+    VALUES (v_session.id, v_session.location_id, p_payload->>'movement_type', v_amount, btrim(p_payload->>'reason'), auth.uid());
+
+    RETURN jsonb_build_object('success', true, 'expected_cash', calculate_cash_session_expected(v_session.id));
+
+  ELSIF p_action = 'close' THEN
+    v_counted := (p_payload->>'counted_cash')::numeric;
+
+    IF v_counted IS NULL OR v_counted < 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Counted cash is required');
+    END IF;
+
+    v_expected := calculate_cash_session_expected(v_session.id);
+
+    UPDATE cash_register_sessions
+    SET status = 'closed',
+        expected_cash = v_expected,
+        counted_cash = ROUND(v_counted, 2),
+        discrepancy = ROUND(v_counted - v_expected, 2),
+        closing_notes = NULLIF(btrim(COALESCE(p_payload->>'notes', '')), ''),
+        closed_by = auth.uid(),
+        closed_at = now()
+    WHERE id = v_session.id
+    RETURNING * INTO v_session;
+
+    RETURN jsonb_build_object('success', true, 'session', to_jsonb(v_session));
+  END IF;
+
+  RETURN jsonb_build_object('success', false, 'error', 'Unknown action: ' || p_action);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION current_cash_session_id(bigint) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_cash_session_expected(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cash_register_action(text, jsonb) TO authenticated;
+
+COMMENT ON TABLE cash_register_sessions IS 'Cash register shifts per location with opening float and closing count';
+COMMENT ON TABLE cash_movements IS 'Cash in/out of the register: order payments, sales and manual movements';
+COMMENT ON FUNCTION cash_register_action(text, jsonb) IS 'Opens a session, records a manual cash movement or closes a session with a count';
@@ -0,0 +1,398 @@
+/*
+  # Warranty Tracking and Warranty-Claim Orders
+
+  ## Overview
+  order_items already carry warranty_days / warranty_months, but nothing used
+  them once the order was closed. Each item now gets a warranty expiry date
+  computed from the order's completed_at. Active warranties can be looked up
+  by client or by device IMEI/serial when a customer comes back. A repair done
+  under warranty is a separate order type linked to the original order. These
+  claims don't count towards technician bonus revenue, and their cost is
+  reported separately in Analytics.
+
+  ## Modified Tables
+    - `orders`
+      - `order_type` ('repair' | 'warranty_claim'), default 'repair'
+      - `original_order_id` (uuid, FK orders): the order the claim is made against
+    - `order_items`
+      - `warranty_expires_at` (timestamptz): completed_at + warranty_months +
+        warranty_days; NULL while the order is open or when the item has no
+        warranty
+
+  ## Functions
+    - `calculate_warranty_expiry(completed_at, months, days)`
+    - `get_active_warranties(p_client_id uuid, p_device text)`: items whose
+      warranty has not expired, for a client and/or an IMEI / serial number
+    - `create_order_with_items`: accepts `order_type` and `original_order_id`
+    - `get_technician_bonuses`: labor on warranty claims is excluded
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'order_type'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN order_type text NOT NULL DEFAULT 'repair'
+      CHECK (order_type IN ('repair', 'warranty_claim'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'original_order_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN original_order_id uuid REFERENCES orders(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'warranty_expires_at'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN warranty_expires_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_original_order ON orders(original_order_id) WHERE original_order_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_order_items_warranty_expires ON order_items(warranty_expires_at) WHERE warranty_expires_at IS NOT NULL;
+
+-- ============================================================================
+-- Warranty expiry
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_warranty_expiry(p_completed_at timestamptz, p_months integer, p_days integer)
+RETURNS timestamptz
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_completed_at IS NULL OR (COALESCE(p_months, 0) = 0 AND COALESCE(p_days, 0) = 0) THEN NULL
+    ELSE p_completed_at
+      + make_interval(months => COALESCE(p_months, 0))
+      + make_interval(days => COALESCE(p_days, 0))
+  END;
+$$;
+
+-- Items added or edited after the order is closed
+CREATE OR REPLACE FUNCTION set_order_item_warranty_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.warranty_expires_at := calculate_warranty_expiry(
+    (SELECT completed_at FROM orders WHERE id = NEW.order_id),
+    NEW.warranty_months,
+    NEW.warranty_days
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_order_item_warranty_expiry ON order_items;
+CREATE TRIGGER trigger_set_order_item_warranty_expiry
+  BEFORE INSERT OR UPDATE OF warranty_months, warranty_days, order_id ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_item_warranty_expiry();
+
+-- The order is closed (or reopened)
+CREATE OR REPLACE FUNCTION handle_order_completed_warranty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE order_items
+  SET warranty_expires_at = calculate_warranty_expiry(NEW.completed_at, warranty_months, warranty_days)
+  WHERE order_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_order_completed_warranty ON orders;
+CREATE TRIGGER trigger_order_completed_warranty
+  AFTER UPDATE OF completed_at ON orders
+  FOR EACH ROW
+  WHEN (OLD.completed_at IS DISTINCT FROM NEW.completed_at)
+  EXECUTE FUNCTION handle_order_completed_warranty();
+
+UPDATE order_items oi
+SET warranty_expires_at = calculate_warranty_expiry(o.completed_at, oi.warranty_months, oi.warranty_days)
+FROM orders o
+WHERE o.id = oi.order_id
+  AND o.completed_at IS NOT NULL;
+
+-- ============================================================================
+-- Active warranty lookup
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_active_warranties(p_client_id uuid DEFAULT NULL, p_device text DEFAULT NULL)
+RETURNS TABLE (
+  order_id uuid,
+  order_number text,
+  client_id uuid,
+  device_type text,
+  device_model text,
+  imei text,
+  serial_number text,
+  completed_at timestamptz,
+  order_item_id uuid,
+  item_name text,
+  item_type text,
+  warranty_expires_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.id,
+    o.order_number,
+    o.client_id,
+    o.device_type,
+    o.device_model,
+    o.imei,
+    o.serial_number,
+    o.completed_at,
+    oi.id,
+    oi.name,
+    oi.item_type,
+    oi.warranty_expires_at
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.warranty_expires_at > now()
+    AND (p_client_id IS NOT NULL OR NULLIF(btrim(p_device), '') IS NOT NULL)
+    AND (p_client_id IS NULL OR o.client_id = p_client_id)
+    AND (NULLIF(btrim(p_device), '') IS NULL OR o.imei = btrim(p_device) OR o.serial_number = btrim(p_device))
+  ORDER BY o.completed_at DESC, oi.warranty_expires_at DESC;
+$$;
+
+-- ============================================================================
+-- Order creation with order type
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_order_with_items(p_order jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_stage_id uuid;
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_stock record;
+  v_original orders%ROWTYPE;
+BEGIN
+  v_client_id := NULLIF(p_order->>'client_id', '')::uuid;
+
+  IF p_order->>'order_type' = 'warranty_claim' THEN
+    SELECT * INTO v_original FROM orders WHERE id = NULLIF(p_order->>'original_order_id', '')::uuid;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Warranty claim must reference the original order');
+    END IF;
+    v_client_id := COALESCE(v_client_id, v_original.client_id);
+  END IF;
+
+  IF v_client_id IS NULL THEN
+    IF NULLIF(btrim(p_order->'client'->>'full_name'), '') IS NULL
+       OR NULLIF(btrim(p_order->'client'->>'phone'), '') IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Client name and phone are required');
+    END IF;
+  END IF;
+
+  v_stage_id := COALESCE(
+    NULLIF(p_order->>'stage_id', '')::uuid,
+    (SELECT id FROM order_stages ORDER BY position LIMIT 1)
+  );
+
+  IF v_stage_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No order stages found');
+  END IF;
+
+  -- Check stock for every inventory part before anything is written
+  FOR v_stock IN
+    SELECT
+      i.id,
+      i.part_name,
+      i.quantity AS available,
+      req.requested
+    FROM (
+      SELECT (item->>'inventory_id')::uuid AS inventory_id, SUM((item->>'quantity')::integer) AS requested
+      FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb)) AS item
+      WHERE NULLIF(item->>'inventory_id', '') IS NOT NULL
+      GROUP BY 1
+    ) req
+    JOIN inventory i ON i.id = req.inventory_id
+    ORDER BY i.id
+    FOR UPDATE OF i
+  LOOP
+    IF v_stock.available < v_stock.requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": available %s, requested %s',
+          v_stock.part_name, v_stock.available, v_stock.requested)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_client_id IS NULL THEN
+    INSERT INTO clients (full_name, phone, email, traffic_source, location_id)
+    VALUES (
+      btrim(p_order->'client'->>'full_name'),
+      btrim(p_order->'client'->>'phone'),
+      NULLIF(btrim(p_order->'client'->>'email'), ''),
+      COALESCE(p_order->'client'->>'traffic_source', 'direct'),
+      (p_order->>'location_id')::bigint
+    )
+    RETURNING id INTO v_client_id;
+  END IF;
+
+  INSERT INTO orders (
+    client_id,
+    assigned_to,
+    stage_id,
+    device_type,
+    device_model,
+    device_color,
+    imei,
+    serial_number,
+    issue_description,
+    priority,
+    estimated_cost,
+    due_date,
+    location_id,
+    prepayment,
+    waiting_for_parts,
+    order_type,
+    original_order_id
+  ) VALUES (
+    v_client_id,
+    COALESCE(NULLIF(p_order->>'assigned_to', '')::uuid, auth.uid()),
+    v_stage_id,
+    p_order->>'device_type',
+    p_order->>'device_model',
+    p_order->>'device_color',
+    NULLIF(p_order->>'imei', ''),
+    NULLIF(p_order->>'serial_number', ''),
+    p_order->>'issue_description',
+    COALESCE(p_order->>'priority', 'medium'),
+    COALESCE((p_order->>'estimated_cost')::numeric, 0),
+    NULLIF(p_order->>'due_date', '')::timestamptz,
+    (p_order->>'location_id')::bigint,
+    COALESCE((p_order->>'prepayment')::numeric, 0),
+    COALESCE((p_order->>'waiting_for_parts')::boolean, false),
+    COALESCE(NULLIF(p_order->>'order_type', ''), 'repair'),
+    v_original.id
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb))
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      item_type,
+      inventory_id,
+      name,
+      quantity,
+      unit_price,
+      unit_cost,
+      total_price,
+      warranty_months
+    ) VALUES (
+      v_order.id,
+      COALESCE(v_item->>'item_type', 'part'),
+      NULLIF(v_item->>'inventory_id', '')::uuid,
+      v_item->>'name',
+      COALESCE((v_item->>'quantity')::integer, 1),
+      COALESCE((v_item->>'unit_price')::numeric, 0),
+      COALESCE((v_item->>'unit_cost')::numeric, 0),
+      COALESCE((v_item->>'total_price')::numeric, 0),
+      COALESCE((v_item->>'warranty_months')::integer, 0)
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+END;
+$$;
+
+-- ============================================================================
+-- Technician bonuses without warranty rework
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_technician_bonuses(
+  target_month date DEFAULT CURRENT_DATE,
+  target_location_id bigint DEFAULT NULL
+)
+RETURNS TABLE (
+  technician_id uuid,
+  technician_name text,
+  total_labor numeric,
+  bonus_amount numeric,
+  status text,
+  quota_progress numeric
+) 
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  month_start date;
+  month_end date;
+  quota_threshold numeric := 6000;
+  bonus_rate numeric := 0.25;
+BEGIN
+  month_start := date_trunc('month', target_month)::date;
+  month_end := (date_trunc('month', target_month) + interval '1 month' - interval '1 day')::date;
+  
+  RETURN QUERY
+  SELECT 
+    p.id as technician_id,
+    COALESCE(p.full_name, 'Unknown') as technician_name,
+    COALESCE(SUM(oi.total_price), 0) as total_labor,
+    CASE 
+      WHEN COALESCE(SUM(oi.total_price), 0) > quota_threshold 
+      THEN (COALESCE(SUM(oi.total_price), 0) - quota_threshold) * bonus_rate
+      ELSE 0
+    END as bonus_amount,
+    CASE 
+      WHEN COALESCE(SUM(oi.total_price), 0) >= quota_threshold THEN 'Quota Reached'
+      WHEN COALESCE(SUM(oi.total_price), 0) > 0 THEN 'Active'
+      ELSE 'No Activity'
+    END as status,
+    CASE 
+      WHEN quota_threshold > 0 THEN (COALESCE(SUM(oi.total_price), 0) / quota_threshold * 100)
+      ELSE 0
+    END as quota_progress
+  FROM profiles p
+  LEFT JOIN order_items oi ON oi.assigned_technician_id = p.id 
+    AND oi.item_type = 'labor'
+    -- Warranty rework is not revenue
+    AND NOT EXISTS (
+      SELECT 1 FROM orders wo
+      WHERE wo.id = oi.order_id AND wo.order_type = 'warranty_claim'
+    )
+  LEFT JOIN orders o ON o.id = oi.order_id
+  WHERE 
+    p.role IN ('technician', 'admin', 'owner')
+    AND (target_location_id IS NULL OR o.location_id = target_location_id OR o.location_id IS NULL)
+    AND (
+      (oi.id IS NULL) OR 
+      (o.created_at >= month_start AND o.created_at <= month_end)
+    )
+  GROUP BY p.id, p.full_name
+  ORDER BY total_labor DESC;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_active_warranties(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_active_warranties(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_technician_bonuses TO authenticated;
+
+COMMENT ON COLUMN orders.order_type IS 'repair or warranty_claim; claims link to original_order_id';
+COMMENT ON COLUMN order_items.warranty_expires_at IS 'Order completed_at + warranty_months + warranty_days';
+COMMENT ON FUNCTION get_active_warranties(uuid, text) IS 'Unexpired item warranties for a client and/or device IMEI or serial number';
+COMMENT ON FUNCTION get_technician_bonuses IS 'Calculates technician bonuses based on monthly labor revenue. Quota: €6000, Bonus Rate: 25% of revenue above quota. Uses total_price of labor items; warranty claims are excluded.';
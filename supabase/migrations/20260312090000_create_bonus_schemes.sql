@@ -0,0 +1,348 @@
+/*
+  # Configurable Technician Bonus Schemes
+
+  ## Overview
+  `get_technician_bonuses` had the quota (6000) and rate (0.25) hardcoded.
+  Bonus rules now live in `bonus_schemes`. A scheme can apply to everyone,
+  to a role or to a single employee, optionally only at one location, and
+  takes effect from a given date. For each technician the most specific
+  scheme that was in effect during the target month is used.
+
+  ## New Tables
+    - `bonus_schemes`
+      - `name` (text)
+      - `basis` ('labor_revenue' | 'gross_profit')
+        - labor_revenue: total_price of the technician's labor items
+        - gross_profit: profit of all items assigned to the technician
+      - `quota` (numeric, target shown as progress and status)
+      - `tiers` (jsonb, [{ "from": 6000, "rate": 0.25 }, ...]); each rate
+        applies to the part of the basis between its `from` and the next tier
+      - `role` (text, nullable), `profile_id` (uuid, nullable),
+        `location_id` (bigint, nullable); NULL means "any"
+      - `effective_from` (date)
+      - `effective_to` (date, nullable): set when a newer version replaces it
+      - `previous_version_id` (uuid, nullable): the version this one replaced
+      - `is_active` (boolean)
+      - `notes`, `created_by`, `created_at`, `updated_at`
+
+  ## Scheme resolution
+  Candidates: active schemes in effect during the month (effective_from on or
+  before its last day, effective_to empty or on/after its first day) whose
+  role/profile/location are NULL or match. Order of
+  preference: employee > role > everyone, then location override > global,
+  then the latest effective_from.
+
+  ## Counted orders
+  A month counts the orders that were closed in it (stage kind 'closed',
+  `completed_at` within the month), the same set a payroll close locks.
+
+  ## Versioning
+  Schemes are saved through `save_bonus_scheme(p_scheme_id, p_scheme)`.
+  Changing the rules of a scheme already in effect for a past month closes it
+  the day before the new effective date and inserts a new version, so bonuses
+  of months already calculated keep their rules. Name/notes/active changes and
+  schemes that start this month or later are updated in place.
+
+  ## Changes
+    - `calculate_tiered_bonus(amount, tiers)` added
+    - `save_bonus_scheme(p_scheme_id, p_scheme)` added
+    - `get_technician_bonuses` now reads schemes and returns `basis`,
+      `basis_amount`, `quota`, `scheme_id` and `scheme_name` as well
+    - A default scheme with the previous rules (6000, 25%) is seeded
+
+  ## Security
+    - Everyone on staff can read schemes; only admin/owner can change them
+*/
+
+CREATE TABLE IF NOT EXISTS bonus_schemes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  basis text NOT NULL DEFAULT 'labor_revenue' CHECK (basis IN ('labor_revenue', 'gross_profit')),
+  quota numeric(12,2) NOT NULL DEFAULT 0 CHECK (quota >= 0),
+  tiers jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(tiers) = 'array'),
+  role text,
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  location_id bigint REFERENCES locations(id) ON DELETE CASCADE,
+  effective_from date NOT NULL DEFAULT CURRENT_DATE,
+  effective_to date,
+  previous_version_id uuid REFERENCES bonus_schemes(id) ON DELETE SET NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  notes text,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bonus_schemes_effective ON bonus_schemes(effective_from DESC) WHERE is_active;
+
+ALTER TABLE bonus_schemes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "bonus_schemes_select" ON bonus_schemes FOR SELECT TO authenticated USING ((SELECT is_staff()));
+CREATE POLICY "bonus_schemes_insert" ON bonus_schemes FOR INSERT TO authenticated WITH CHECK ((SELECT is_admin_or_owner()));
+CREATE POLICY "bonus_schemes_update" ON bonus_schemes FOR UPDATE TO authenticated USING ((SELECT is_admin_or_owner())) WITH CHECK ((SELECT is_admin_or_owner()));
+CREATE POLICY "bonus_schemes_delete" ON bonus_schemes FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+CREATE OR REPLACE FUNCTION update_bonus_schemes_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_bonus_schemes_updated_at ON bonus_schemes;
+CREATE TRIGGER trigger_bonus_schemes_updated_at
+  BEFORE UPDATE ON bonus_schemes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_bonus_schemes_updated_at();
+
+-- Previous hardcoded rules become the default scheme
+INSERT INTO bonus_schemes (name, basis, quota, tiers, effective_from, notes)
+SELECT 'Standarta shēma', 'labor_revenue', 6000, '[{"from": 6000, "rate": 0.25}]'::jsonb, DATE '2000-01-01',
+       '25% no darba ieņēmumiem virs €6000'
+WHERE NOT EXISTS (SELECT 1 FROM bonus_schemes);
+
+-- ============================================================================
+-- Tier calculation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_tiered_bonus(p_amount numeric, p_tiers jsonb)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(ROUND(SUM(
+    GREATEST(
+      LEAST(p_amount, COALESCE(t.next_from, p_amount)) - t.tier_from,
+      0
+    ) * t.rate
+  ), 2), 0)
+  FROM (
+    SELECT
+      (tier->>'from')::numeric AS tier_from,
+      (tier->>'rate')::numeric AS rate,
+      LEAD((tier->>'from')::numeric) OVER (ORDER BY (tier->>'from')::numeric) AS next_from
+    FROM jsonb_array_elements(COALESCE(p_tiers, '[]'::jsonb)) tier
+  ) t;
+$$;
+
+-- ============================================================================
+-- Bonus calculation
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_technician_bonuses(date, bigint);
+
+CREATE OR REPLACE FUNCTION get_technician_bonuses(
+  target_month date DEFAULT CURRENT_DATE,
+  target_location_id bigint DEFAULT NULL
+)
+RETURNS TABLE (
+  technician_id uuid,
+  technician_name text,
+  total_labor numeric,
+  bonus_amount numeric,
+  status text,
+  quota_progress numeric,
+  basis text,
+  basis_amount numeric,
+  quota numeric,
+  scheme_id uuid,
+  scheme_name text
+)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  month_start date;
+  month_end date;
+BEGIN
+  month_start := date_trunc('month', target_month)::date;
+  month_end := (date_trunc('month', target_month) + interval '1 month' - interval '1 day')::date;
+
+  RETURN QUERY
+  WITH item_totals AS (
+    SELECT
+      oi.assigned_technician_id AS profile_id,
+      SUM(CASE WHEN oi.item_type = 'labor' THEN oi.total_price ELSE 0 END) AS labor,
+      SUM(COALESCE(oi.profit, 0)) AS profit
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN order_stages st ON st.id = o.stage_id
+    WHERE oi.assigned_technician_id IS NOT NULL
+      -- Warranty rework is not revenue
+      AND o.order_type <> 'warranty_claim'
+      AND (target_location_id IS NULL OR o.location_id = target_location_id OR o.location_id IS NULL)
+      AND st.kind = 'closed'
+      AND o.completed_at >= month_start
+      AND o.completed_at < month_end + 1
+    GROUP BY oi.assigned_technician_id
+  ),
+  technicians AS (
+    SELECT
+      p.id,
+      COALESCE(p.full_name, 'Unknown') AS full_name,
+      p.role,
+      COALESCE(it.labor, 0) AS labor,
+      COALESCE(it.profit, 0) AS profit
+    FROM profiles p
+    LEFT JOIN item_totals it ON it.profile_id = p.id
+    WHERE p.role IN ('technician', 'admin', 'owner')
+  ),
+  resolved AS (
+    SELECT
+      t.*,
+      s.id AS s_id,
+      s.name AS s_name,
+      COALESCE(s.basis, 'labor_revenue') AS s_basis,
+      COALESCE(s.quota, 0) AS s_quota,
+      COALESCE(s.tiers, '[]'::jsonb) AS s_tiers,
+      CASE WHEN COALESCE(s.basis, 'labor_revenue') = 'gross_profit' THEN t.profit ELSE t.labor END AS amount
+    FROM technicians t
+    LEFT JOIN LATERAL (
+      SELECT bs.*
+      FROM bonus_schemes bs
+      WHERE bs.is_active
+        AND bs.effective_from <= month_end
+        AND (bs.effective_to IS NULL OR bs.effective_to >= month_start)
+        AND (bs.profile_id IS NULL OR bs.profile_id = t.id)
+        AND (bs.role IS NULL OR bs.role = t.role)
+        AND (bs.location_id IS NULL OR bs.location_id = target_location_id)
+      ORDER BY
+        (bs.profile_id IS NOT NULL) DESC,
+        (bs.role IS NOT NULL) DESC,
+        (bs.location_id IS NOT NULL) DESC,
+        bs.effective_from DESC,
+        bs.created_at DESC
+      LIMIT 1
+    ) s ON true
+  )
+  SELECT
+    r.id AS technician_id,
+    r.full_name AS technician_name,
+    r.labor AS total_labor,
+    calculate_tiered_bonus(r.amount, r.s_tiers) AS bonus_amount,
+    CASE
+      WHEN r.s_quota > 0 AND r.amount >= r.s_quota THEN 'Quota Reached'
+      WHEN r.amount > 0 THEN 'Active'
+      ELSE 'No Activity'
+    END AS status,
+    CASE
+      WHEN r.s_quota > 0 THEN (r.amount / r.s_quota * 100)
+      ELSE 0
+    END AS quota_progress,
+    r.s_basis AS basis,
+    r.amount AS basis_amount,
+    r.s_quota AS quota,
+    r.s_id AS scheme_id,
+    r.s_name AS scheme_name
+  FROM resolved r
+  ORDER BY r.amount DESC;
+END;
+$$;
+
+-- ============================================================================
+-- Saving schemes as versions
+-- ============================================================================
+
+/*
+  Payload: { name, basis, quota, tiers, role, profile_id, location_id,
+             effective_from, is_active, notes }
+*/
+CREATE OR REPLACE FUNCTION save_bonus_scheme(p_scheme_id uuid, p_scheme jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old bonus_schemes%ROWTYPE;
+  v_new bonus_schemes%ROWTYPE;
+  v_month_start date := date_trunc('month', CURRENT_DATE)::date;
+BEGIN
+  IF NOT is_admin_or_owner() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  v_new.name := NULLIF(btrim(p_scheme->>'name'), '');
+  v_new.basis := COALESCE(p_scheme->>'basis', 'labor_revenue');
+  v_new.quota := COALESCE((p_scheme->>'quota')::numeric, 0);
+  v_new.tiers := COALESCE(p_scheme->'tiers', '[]'::jsonb);
+  v_new.role := NULLIF(p_scheme->>'role', '');
+  v_new.profile_id := NULLIF(p_scheme->>'profile_id', '')::uuid;
+  v_new.location_id := NULLIF(p_scheme->>'location_id', '')::bigint;
+  v_new.effective_from := COALESCE(NULLIF(p_scheme->>'effective_from', '')::date, CURRENT_DATE);
+  v_new.is_active := COALESCE((p_scheme->>'is_active')::boolean, true);
+  v_new.notes := NULLIF(btrim(p_scheme->>'notes'), '');
+
+  IF v_new.name IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Scheme name is required');
+  END IF;
+
+  IF p_scheme_id IS NOT NULL THEN
+    SELECT * INTO v_old FROM bonus_schemes WHERE id = p_scheme_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Bonus scheme not found');
+    END IF;
+
+    IF v_old.effective_to IS NOT NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'This version has been replaced; edit the current version');
+    END IF;
+
+    -- Labels only, or no past month has used this scheme yet
+    IF (v_new.basis, v_new.quota, v_new.tiers, v_new.role, v_new.profile_id, v_new.location_id, v_new.effective_from)
+         IS NOT DISTINCT FROM
+       (v_old.basis, v_old.quota, v_old.tiers, v_old.role, v_old.profile_id, v_old.location_id, v_old.effective_from)
+       OR (v_old.effective_from >= v_month_start AND v_new.effective_from >= v_month_start) THEN
+      UPDATE bonus_schemes
+      SET name = v_new.name,
+          basis = v_new.basis,
+          quota = v_new.quota,
+          tiers = v_new.tiers,
+          role = v_new.role,
+          profile_id = v_new.profile_id,
+          location_id = v_new.location_id,
+          effective_from = v_new.effective_from,
+          is_active = v_new.is_active,
+          notes = v_new.notes
+      WHERE id = v_old.id;
+
+      RETURN jsonb_build_object('success', true, 'scheme_id', v_old.id, 'versioned', false);
+    END IF;
+
+    IF v_new.effective_from <= v_old.effective_from THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('The new version must take effect after %s', to_char(v_old.effective_from, 'DD.MM.YYYY'))
+      );
+    END IF;
+
+    UPDATE bonus_schemes
+    SET effective_to = v_new.effective_from - 1
+    WHERE id = v_old.id;
+  END IF;
+
+  INSERT INTO bonus_schemes (
+    name, basis, quota, tiers, role, profile_id, location_id,
+    effective_from, previous_version_id, is_active, notes, created_by
+  ) VALUES (
+    v_new.name, v_new.basis, v_new.quota, v_new.tiers, v_new.role, v_new.profile_id, v_new.location_id,
+    v_new.effective_from, p_scheme_id, v_new.is_active, v_new.notes, auth.uid()
+  )
+  RETURNING id INTO v_new.id;
+
+  RETURN jsonb_build_object('success', true, 'scheme_id', v_new.id, 'versioned', p_scheme_id IS NOT NULL);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_tiered_bonus(numeric, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_bonus_scheme(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_technician_bonuses(date, bigint) TO authenticated;
+
+COMMENT ON TABLE bonus_schemes IS 'Technician bonus rules: tiered rates over labor revenue or gross profit, per role/employee/location, with effective dates and versions';
+COMMENT ON FUNCTION save_bonus_scheme(uuid, jsonb) IS 'Creates or edits a bonus scheme; rule changes to a scheme already used for past months are saved as a new version';
+COMMENT ON FUNCTION calculate_tiered_bonus(numeric, jsonb) IS 'Marginal tiered bonus: each tier rate applies to the amount between its "from" and the next tier';
+COMMENT ON FUNCTION get_technician_bonuses(date, bigint) IS 'Monthly technician bonuses over orders closed in the month, using the most specific bonus_schemes row in effect during the month; warranty claims are excluded.';
@@ -0,0 +1,334 @@
+/*
+  # Monthly Payroll Close
+
+  ## Overview
+  Bonuses were recalculated live for any month, so a closed month changed
+  whenever an old order was edited. Closing a payroll period now snapshots
+  every technician's figures into payslips and locks the orders of that
+  period against price edits. Reopening is admin-only, needs a reason and is
+  written to audit_logs.
+
+  ## New Tables
+    - `payroll_runs`
+      - `period_month` (date, first day of the month)
+      - `location_id` (bigint, nullable = all locations)
+      - `status` ('closed' | 'reopened')
+      - `total_labor`, `total_commission`, `total_bonus` (numeric)
+      - `closed_by`, `closed_at`, `reopened_by`, `reopened_at`, `reopen_reason`
+    - `payslips`
+      - `payroll_run_id` (uuid, FK payroll_runs)
+      - `profile_id`, `employee_name`
+      - `orders_count`, `labor_total`
+      - `commission_total` (sum of orders.master_commission, set by
+        calculate_master_commission())
+      - `bonus_basis`, `bonus_basis_amount`, `bonus_quota`, `bonus_amount`,
+        `bonus_scheme_id`, `bonus_scheme_name` (from get_technician_bonuses)
+      - `total_pay` (commission + bonus)
+
+  ## Modified Tables
+    - `orders.payroll_run_id` (uuid, FK payroll_runs): set while the order
+      belongs to a closed period
+
+  ## Locking
+    - Payslips and the lock cover the same orders: those in a 'closed' stage
+      whose completed_at falls inside the month (as in get_technician_bonuses);
+      open orders stay editable
+    - Orders with payroll_run_id cannot change estimated/final cost, service
+      price, master or commission
+    - Their order_items cannot be added, removed or repriced. The cost write
+      done by consume_inventory_stock() (flagged with the transaction-local
+      setting `app.system_cost_write`) is exempt
+
+  ## Functions
+    - `close_payroll_period(p_month date, p_location_id bigint)`
+    - `reopen_payroll_period(p_run_id uuid, p_reason text)`
+*/
+
+CREATE TABLE IF NOT EXISTS payroll_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_month date NOT NULL CHECK (period_month = date_trunc('month', period_month)::date),
+  location_id bigint REFERENCES locations(id),
+  status text NOT NULL DEFAULT 'closed' CHECK (status IN ('closed', 'reopened')),
+  total_labor numeric(12,2) NOT NULL DEFAULT 0,
+  total_commission numeric(12,2) NOT NULL DEFAULT 0,
+  total_bonus numeric(12,2) NOT NULL DEFAULT 0,
+  closed_by uuid REFERENCES profiles(id),
+  closed_at timestamptz DEFAULT now(),
+  reopened_by uuid REFERENCES profiles(id),
+  reopened_at timestamptz,
+  reopen_reason text
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_runs_period
+  ON payroll_runs(period_month, COALESCE(location_id, 0));
+
+CREATE TABLE IF NOT EXISTS payslips (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payroll_run_id uuid NOT NULL REFERENCES payroll_runs(id) ON DELETE CASCADE,
+  profile_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  employee_name text NOT NULL,
+  orders_count integer NOT NULL DEFAULT 0,
+  labor_total numeric(12,2) NOT NULL DEFAULT 0,
+  commission_total numeric(12,2) NOT NULL DEFAULT 0,
+  bonus_basis text,
+  bonus_basis_amount numeric(12,2) NOT NULL DEFAULT 0,
+  bonus_quota numeric(12,2) NOT NULL DEFAULT 0,
+  bonus_amount numeric(12,2) NOT NULL DEFAULT 0,
+  bonus_scheme_id uuid REFERENCES bonus_schemes(id) ON DELETE SET NULL,
+  bonus_scheme_name text,
+  total_pay numeric(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payslips_run ON payslips(payroll_run_id);
+CREATE INDEX IF NOT EXISTS idx_payslips_profile ON payslips(profile_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'payroll_run_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN payroll_run_id uuid REFERENCES payroll_runs(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_payroll_run ON orders(payroll_run_id) WHERE payroll_run_id IS NOT NULL;
+
+ALTER TABLE payroll_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payslips ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the RPCs below
+CREATE POLICY "payroll_runs_select" ON payroll_runs FOR SELECT TO authenticated USING ((SELECT is_admin_or_owner()));
+CREATE POLICY "payslips_select" ON payslips FOR SELECT TO authenticated USING ((SELECT is_admin_or_owner()) OR profile_id = (SELECT auth.uid()));
+
+-- ============================================================================
+-- Locking
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prevent_locked_order_price_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.payroll_run_id IS NOT NULL AND NEW.payroll_run_id IS NOT DISTINCT FROM OLD.payroll_run_id AND (
+    NEW.estimated_cost IS DISTINCT FROM OLD.estimated_cost
+    OR NEW.final_cost IS DISTINCT FROM OLD.final_cost
+    OR NEW.service_price IS DISTINCT FROM OLD.service_price
+    OR NEW.master_id IS DISTINCT FROM OLD.master_id
+    OR NEW.master_commission IS DISTINCT FROM OLD.master_commission
+  ) THEN
+    RAISE EXCEPTION 'Order % belongs to a closed payroll period; prices are locked', OLD.order_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_locked_order_price_edit ON orders;
+CREATE TRIGGER trigger_prevent_locked_order_price_edit
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_order_price_edit();
+
+CREATE OR REPLACE FUNCTION prevent_locked_order_item_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid := COALESCE(NEW.order_id, OLD.order_id);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM orders WHERE id = v_order_id AND payroll_run_id IS NOT NULL) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- consume_inventory_stock() writes the consumed cost onto the line; that
+  -- is bookkeeping, not a repricing, so it may touch cost_price and profit
+  IF TG_OP = 'UPDATE' AND
+    NEW.quantity IS NOT DISTINCT FROM OLD.quantity
+    AND NEW.unit_price IS NOT DISTINCT FROM OLD.unit_price
+    AND NEW.total_price IS NOT DISTINCT FROM OLD.total_price
+    AND (
+      current_setting('app.system_cost_write', true) = 'on'
+      OR (
+        NEW.cost_price IS NOT DISTINCT FROM OLD.cost_price
+        AND NEW.profit IS NOT DISTINCT FROM OLD.profit
+      )
+    )
+    AND NEW.item_type IS NOT DISTINCT FROM OLD.item_type
+    AND NEW.assigned_technician_id IS NOT DISTINCT FROM OLD.assigned_technician_id
+  THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Order belongs to a closed payroll period; items are locked';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_locked_order_item_edit ON order_items;
+CREATE TRIGGER trigger_prevent_locked_order_item_edit
+  BEFORE INSERT OR UPDATE OR DELETE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_locked_order_item_edit();
+
+-- ============================================================================
+-- Close / reopen
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION close_payroll_period(p_month date, p_location_id bigint DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month date := date_trunc('month', p_month)::date;
+  v_run payroll_runs%ROWTYPE;
+BEGIN
+  IF NOT is_admin_or_owner() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only admins can close payroll');
+  END IF;
+
+  IF v_month >= date_trunc('month', CURRENT_DATE)::date THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only past months can be closed');
+  END IF;
+
+  SELECT * INTO v_run
+  FROM payroll_runs
+  WHERE period_month = v_month AND COALESCE(location_id, 0) = COALESCE(p_location_id, 0)
+  FOR UPDATE;
+
+  IF FOUND AND v_run.status = 'closed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Payroll period is already closed');
+  END IF;
+
+  IF FOUND THEN
+    DELETE FROM payslips WHERE payroll_run_id = v_run.id;
+    UPDATE payroll_runs
+    SET status = 'closed', closed_by = auth.uid(), closed_at = now()
+    WHERE id = v_run.id
+    RETURNING * INTO v_run;
+  ELSE
+    INSERT INTO payroll_runs (period_month, location_id, closed_by)
+    VALUES (v_month, p_location_id, auth.uid())
+    RETURNING * INTO v_run;
+  END IF;
+
+  INSERT INTO payslips (
+    payroll_run_id, profile_id, employee_name, orders_count, labor_total, commission_total,
+    bonus_basis, bonus_basis_amount, bonus_quota, bonus_amount, bonus_scheme_id, bonus_scheme_name, total_pay
+  )
+  SELECT
+    v_run.id,
+    b.technician_id,
+    b.technician_name,
+    COALESCE(c.orders_count, 0),
+    b.total_labor,
+    COALESCE(c.commission, 0),
+    b.basis,
+    b.basis_amount,
+    b.quota,
+    b.bonus_amount,
+    b.scheme_id,
+    b.scheme_name,
+    COALESCE(c.commission, 0) + b.bonus_amount
+  FROM get_technician_bonuses(v_month, p_location_id) b
+  LEFT JOIN (
+    SELECT o.master_id, COUNT(*) AS orders_count, SUM(COALESCE(o.master_commission, 0)) AS commission
+    FROM orders o
+    JOIN order_stages s ON s.id = o.stage_id
+    WHERE s.kind = 'closed'
+      AND o.completed_at >= v_month
+      AND o.completed_at < v_month + interval '1 month'
+      AND (p_location_id IS NULL OR o.location_id = p_location_id OR o.location_id IS NULL)
+    GROUP BY o.master_id
+  ) c ON c.master_id = b.technician_id
+  WHERE b.total_labor > 0 OR b.bonus_amount > 0 OR COALESCE(c.commission, 0) > 0;
+
+  UPDATE payroll_runs r
+  SET total_labor = t.labor, total_commission = t.commission, total_bonus = t.bonus
+  FROM (
+    SELECT
+      COALESCE(SUM(labor_total), 0) AS labor,
+      COALESCE(SUM(commission_total), 0) AS commission,
+      COALESCE(SUM(bonus_amount), 0) AS bonus
+    FROM payslips
+    WHERE payroll_run_id = v_run.id
+  ) t
+  WHERE r.id = v_run.id
+  RETURNING r.* INTO v_run;
+
+  UPDATE orders o
+  SET payroll_run_id = v_run.id
+  FROM order_stages s
+  WHERE s.id = o.stage_id
+    AND s.kind = 'closed'
+    AND o.completed_at >= v_month
+    AND o.completed_at < v_month + interval '1 month'
+    AND (p_location_id IS NULL OR o.location_id = p_location_id OR o.location_id IS NULL)
+    AND o.payroll_run_id IS NULL;
+
+  PERFORM log_audit(
+    'payroll_close', 'payroll_run', v_run.id::text,
+    NULL, to_jsonb(v_run),
+    jsonb_build_object('period_month', v_month),
+    p_location_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'run', to_jsonb(v_run));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reopen_payroll_period(p_run_id uuid, p_reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old payroll_runs%ROWTYPE;
+  v_run payroll_runs%ROWTYPE;
+BEGIN
+  IF NOT is_admin_or_owner() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only admins can reopen payroll');
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reason is required');
+  END IF;
+
+  SELECT * INTO v_old FROM payroll_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Payroll run not found');
+  END IF;
+  IF v_old.status <> 'closed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Payroll period is not closed');
+  END IF;
+
+  UPDATE payroll_runs
+  SET status = 'reopened', reopened_by = auth.uid(), reopened_at = now(), reopen_reason = trim(p_reason)
+  WHERE id = p_run_id
+  RETURNING * INTO v_run;
+
+  UPDATE orders SET payroll_run_id = NULL WHERE payroll_run_id = p_run_id;
+
+  PERFORM log_audit(
+    'payroll_reopen', 'payroll_run', p_run_id::text,
+    to_jsonb(v_old), to_jsonb(v_run),
+    jsonb_build_object('period_month', v_run.period_month, 'reason', trim(p_reason)),
+    v_run.location_id
+  );
+
+  RETURN jsonb_build_object('success', true, 'run', to_jsonb(v_run));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_payroll_period(date, bigint) TO authenticated;
+GRANT EXECUTE ON FUNCTION reopen_payroll_period(uuid, text) TO authenticated;
+
+COMMENT ON TABLE payroll_runs IS 'Closed payroll periods per month and location';
+COMMENT ON TABLE payslips IS 'Per-employee labor, commission and bonus snapshot of a payroll run';
+COMMENT ON COLUMN orders.payroll_run_id IS 'Closed payroll run this order was paid out in; prices are locked while set';
+COMMENT ON FUNCTION close_payroll_period(date, bigint) IS 'Snapshots payslips for a past month and locks its orders';
+COMMENT ON FUNCTION reopen_payroll_period(uuid, text) IS 'Admin-only: unlocks a closed payroll period and writes the reason to audit_logs';
@@ -0,0 +1,116 @@
+/*
+  # Stage Notification Templates
+
+  ## Overview
+  `communications` existed but nothing wrote to it. Each order stage can now
+  carry customer notification templates (one per channel). When an order
+  enters the stage the app renders the template, hands it to the configured
+  notification provider and logs the result in `communications`.
+
+  ## New Tables
+    - `notification_templates`
+      - `stage_id` (uuid, FK order_stages)
+      - `channel` ('sms' | 'whatsapp' | 'email'), unique per stage
+      - `subject` (text, email only)
+      - `body` (text, placeholders like {order_number}, {client_name}, {device})
+      - `is_active` (boolean)
+
+  ## Modified Tables
+    - `communications`
+      - `recipient` (text): phone number or email the message went to
+      - `provider` (text): provider that handled the message
+      - `template_id` (uuid, FK notification_templates)
+      - `error` (text): provider error for failed/skipped messages
+      - `status` is now one of 'sent' | 'failed' | 'skipped'
+
+  ## Settings
+    - `system_settings.notification_provider` = { provider: 'console' }
+      ('console', 'file' or 'disabled'; other providers can be registered in code)
+    - `get_notification_provider()`: reads it for any staff member, since
+      system_settings itself is admin-only
+*/
+
+CREATE TABLE IF NOT EXISTS notification_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stage_id uuid NOT NULL REFERENCES order_stages(id) ON DELETE CASCADE,
+  channel text NOT NULL DEFAULT 'sms' CHECK (channel IN ('sms', 'whatsapp', 'email')),
+  subject text,
+  body text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (stage_id, channel)
+);
+
+ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "notification_templates_select" ON notification_templates FOR SELECT TO authenticated USING (true);
+CREATE POLICY "notification_templates_insert" ON notification_templates FOR INSERT TO authenticated WITH CHECK ((SELECT is_admin_or_owner()));
+CREATE POLICY "notification_templates_update" ON notification_templates FOR UPDATE TO authenticated USING ((SELECT is_admin_or_owner())) WITH CHECK ((SELECT is_admin_or_owner()));
+CREATE POLICY "notification_templates_delete" ON notification_templates FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'communications' AND column_name = 'recipient'
+  ) THEN
+    ALTER TABLE communications ADD COLUMN recipient text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'communications' AND column_name = 'provider'
+  ) THEN
+    ALTER TABLE communications ADD COLUMN provider text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'communications' AND column_name = 'template_id'
+  ) THEN
+    ALTER TABLE communications ADD COLUMN template_id uuid REFERENCES notification_templates(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'communications' AND column_name = 'error'
+  ) THEN
+    ALTER TABLE communications ADD COLUMN error text;
+  END IF;
+END $$;
+
+ALTER TABLE communications DROP CONSTRAINT IF EXISTS communications_status_check;
+ALTER TABLE communications ADD CONSTRAINT communications_status_check
+  CHECK (status IN ('sent', 'failed', 'skipped'));
+
+INSERT INTO system_settings (key, value, category, description)
+VALUES ('notification_provider', '{"provider": "console"}'::jsonb, 'notifications', 'Провайдер уведомлений клиентам')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_notification_provider()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT value->>'provider' FROM system_settings WHERE key = 'notification_provider'),
+    'console'
+  );
+$$;
+
+REVOKE ALL ON FUNCTION get_notification_provider() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_notification_provider() TO authenticated;
+
+-- Default "ready for pickup" text for every ready stage
+INSERT INTO notification_templates (stage_id, channel, body)
+SELECT id, 'sms', 'Jūsu ierīce ir gatava saņemšanai, pasūtījums #{order_number}. Apmaksājamā summa: {balance_due} EUR. iSupport'
+FROM order_stages
+WHERE kind = 'ready'
+ON CONFLICT (stage_id, channel) DO NOTHING;
+
+COMMENT ON TABLE notification_templates IS 'Customer message templates sent when an order enters the stage';
+COMMENT ON FUNCTION get_notification_provider() IS 'Active notification provider id from system_settings, readable by all signed-in users';
+COMMENT ON COLUMN communications.status IS 'sent | failed | skipped (no recipient or provider disabled)';
@@ -0,0 +1,89 @@
+/*
+  # Public Order Tracking
+
+  ## Overview
+  Customers can check their repair status without logging in, either by
+  entering the order number and their phone number or by scanning the QR
+  code printed on the order receipt. The page reads data only through
+  `get_public_order_status`, a security-definer function callable by the
+  anon role; no table policies are opened to anonymous users.
+
+  ## Modified Tables
+    - `orders.tracking_token` (uuid, unique): unguessable key encoded in the
+      receipt QR code
+
+  ## Functions
+    - `get_public_order_status(p_order_number text, p_phone text, p_token uuid)`
+      - Looks up by token, or by order number + phone (last 8 digits must
+        match the client's phone)
+      - Returns only: order number, device, stage name and kind, due date,
+        balance due, estimate, completion date
+      - Returns the same "not found" error for a wrong number or phone
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'tracking_token'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN tracking_token uuid NOT NULL DEFAULT gen_random_uuid();
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_tracking_token ON orders(tracking_token);
+
+CREATE OR REPLACE FUNCTION get_public_order_status(
+  p_order_number text DEFAULT NULL,
+  p_phone text DEFAULT NULL,
+  p_token uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phone_digits text := right(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 8);
+  v_result jsonb;
+BEGIN
+  IF p_token IS NULL AND (COALESCE(trim(p_order_number), '') = '' OR length(v_phone_digits) < 8) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_request');
+  END IF;
+
+  SELECT jsonb_build_object(
+    'order_number', o.order_number,
+    'device', trim(concat_ws(' ', o.device_type, o.device_model)),
+    'stage_name', s.name,
+    'stage_kind', s.kind,
+    'due_date', o.due_date,
+    'balance_due', o.balance_due,
+    'estimate', o.estimated_cost,
+    'completed_at', o.completed_at
+  )
+  INTO v_result
+  FROM orders o
+  LEFT JOIN order_stages s ON s.id = o.stage_id
+  LEFT JOIN clients c ON c.id = o.client_id
+  WHERE (p_token IS NOT NULL AND o.tracking_token = p_token)
+     OR (
+       p_token IS NULL
+       AND upper(o.order_number) = upper(trim(p_order_number))
+       AND right(regexp_replace(COALESCE(c.phone, ''), '\D', '', 'g'), 8) = v_phone_digits
+     )
+  LIMIT 1;
+
+  IF v_result IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'order', v_result);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_public_order_status(text, text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_public_order_status(text, text, uuid) TO anon, authenticated;
+
+COMMENT ON COLUMN orders.tracking_token IS 'Unguessable key for the public tracking page (receipt QR code)';
+COMMENT ON FUNCTION get_public_order_status(text, text, uuid) IS 'Public order status lookup; exposes only stage, due date, balance and estimate';
@@ -0,0 +1,357 @@
+/*
+  # Customer Estimate Approval
+
+  ## Overview
+  Extra faults found during a repair used to be agreed over the phone and
+  written into `technician_notes`. An order can now be put into an
+  "awaiting approval" state: lines added while it is in that state are
+  proposed to the client, who approves or declines each one through a link.
+  Only approved lines count towards the order totals; declined lines stay on
+  the order for reference. Every decision is written to `order_history`.
+
+  ## Modified Tables
+    - `order_items`
+      - `approval_status` ('approved' | 'proposed' | 'declined', default 'approved')
+      - `approval_decided_at` (timestamptz): when the client approved/declined
+    - `orders`
+      - `awaiting_approval` (boolean): new lines are proposed to the client
+      - `approval_token` (uuid, unique): key used in the client approval link
+
+  ## Functions
+    - `update_order_totals` and `update_order_analytics` only sum approved lines
+    - `handle_order_stage_stock` only reserves stock for approved lines
+    - `get_order_estimate(p_token uuid)`: proposed and decided lines for the
+      approval page (callable by anon)
+    - `decide_estimate_items(p_token uuid, p_decisions jsonb)`: applies the
+      client's decisions, logs them in order_history and clears
+      `awaiting_approval` once nothing is left to decide (callable by anon);
+      refused with `order_closed` once the order is closed or cancelled
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'approval_status'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN approval_status text NOT NULL DEFAULT 'approved'
+      CHECK (approval_status IN ('approved', 'proposed', 'declined'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'approval_decided_at'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN approval_decided_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'awaiting_approval'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN awaiting_approval boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'approval_token'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN approval_token uuid NOT NULL DEFAULT gen_random_uuid();
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_approval_token ON orders(approval_token);
+CREATE INDEX IF NOT EXISTS idx_order_items_approval_status ON order_items(order_id, approval_status);
+
+-- ============================================================================
+-- Totals only include approved lines
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_order_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid := COALESCE(NEW.order_id, OLD.order_id);
+  order_subtotal NUMERIC(12,2);
+  order_discount NUMERIC(12,2);
+  order_profit NUMERIC(12,2);
+  parts_cost NUMERIC(12,2);
+  service_revenue NUMERIC(12,2);
+BEGIN
+  SELECT
+    ROUND(COALESCE(SUM(COALESCE(selling_price, unit_price, 0) * COALESCE(quantity, 1)), 0), 2),
+    ROUND(COALESCE(SUM(
+      CASE
+        WHEN discount_type = 'percent' THEN
+          (COALESCE(selling_price, unit_price, 0) * COALESCE(quantity, 1) * COALESCE(discount_value, 0) / 100)
+        ELSE
+          COALESCE(discount_value, 0)
+      END
+    ), 0), 2),
+    ROUND(COALESCE(SUM(COALESCE(profit, 0)), 0), 2),
+    ROUND(COALESCE(SUM(
+      CASE WHEN item_type IN ('part', 'accessory')
+        THEN COALESCE(cost_price, unit_cost, 0) * COALESCE(quantity, 1)
+        ELSE 0
+      END
+    ), 0), 2),
+    ROUND(COALESCE(SUM(
+      CASE WHEN item_type = 'service' THEN
+        (COALESCE(selling_price, unit_price, 0) * COALESCE(quantity, 1)) -
+        CASE
+          WHEN discount_type = 'percent' THEN
+            (COALESCE(selling_price, unit_price, 0) * COALESCE(quantity, 1) * COALESCE(discount_value, 0) / 100)
+          ELSE
+            COALESCE(discount_value, 0)
+        END
+      ELSE 0
+      END
+    ), 0), 2)
+  INTO order_subtotal, order_discount, order_profit, parts_cost, service_revenue
+  FROM order_items
+  WHERE order_id = v_order_id
+    AND approval_status = 'approved';
+
+  UPDATE orders
+  SET
+    subtotal = order_subtotal,
+    total_discount = order_discount,
+    total_cost = ROUND(order_subtotal - order_discount, 2),
+    estimated_cost = ROUND(order_subtotal - order_discount, 2),
+    final_cost = ROUND(order_subtotal - order_discount, 2),
+    estimated_profit = order_profit,
+    total_profit = order_profit,
+    parts_cost_total = parts_cost,
+    service_price = service_revenue
+  WHERE id = v_order_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_order_analytics()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid := COALESCE(NEW.order_id, OLD.order_id);
+BEGIN
+  UPDATE orders
+  SET
+    parts_cost_total = COALESCE((
+      SELECT SUM(oi.unit_cost * oi.quantity)
+      FROM order_items oi
+      WHERE oi.order_id = v_order_id
+        AND oi.item_type IN ('part', 'accessory')
+        AND oi.approval_status = 'approved'
+    ), 0),
+    service_price = COALESCE((
+      SELECT SUM(oi.unit_price * oi.quantity)
+      FROM order_items oi
+      WHERE oi.order_id = v_order_id
+        AND oi.item_type = 'service'
+        AND oi.approval_status = 'approved'
+    ), 0)
+  WHERE id = v_order_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_order_stage_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_stage_kind text;
+  old_stage_kind text;
+  item record;
+BEGIN
+  SELECT kind INTO new_stage_kind FROM order_stages WHERE id = NEW.stage_id;
+  IF OLD.stage_id IS NOT NULL THEN
+    SELECT kind INTO old_stage_kind FROM order_stages WHERE id = OLD.stage_id;
+  END IF;
+
+  -- Reserve stock once work starts on the order; proposed and declined lines
+  -- are not used in the repair
+  IF new_stage_kind IN ('in_progress', 'waiting', 'ready', 'closed')
+     AND (old_stage_kind IS NULL OR old_stage_kind NOT IN ('in_progress', 'waiting', 'ready', 'closed')) THEN
+
+    FOR item IN
+      SELECT id, inventory_id, quantity, order_id
+      FROM order_items
+      WHERE order_id = NEW.id
+        AND inventory_id IS NOT NULL
+        AND stock_reserved = false
+        AND approval_status = 'approved'
+    LOOP
+      PERFORM reserve_inventory_stock(
+        item.id,
+        item.inventory_id,
+        item.quantity,
+        item.order_id
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Client approval page
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_order_estimate(p_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_items jsonb;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE approval_token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_found');
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', oi.id,
+    'name', oi.name,
+    'item_type', oi.item_type,
+    'quantity', oi.quantity,
+    'total_price', oi.total_price,
+    'comment', oi.item_comment,
+    'approval_status', oi.approval_status,
+    'approval_decided_at', oi.approval_decided_at
+  ) ORDER BY oi.created_at), '[]'::jsonb)
+  INTO v_items
+  FROM order_items oi
+  WHERE oi.order_id = v_order.id
+    AND (oi.approval_status <> 'approved' OR oi.approval_decided_at IS NOT NULL);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'estimate', jsonb_build_object(
+      'order_number', v_order.order_number,
+      'device', trim(concat_ws(' ', v_order.device_type, v_order.device_model)),
+      'awaiting_approval', v_order.awaiting_approval,
+      'approved_total', v_order.total_cost,
+      'items', v_items
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decide_estimate_items(p_token uuid, p_decisions jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_stage_kind text;
+  v_decision jsonb;
+  v_status text;
+  v_item order_items%ROWTYPE;
+  v_now timestamptz := now();
+  v_decided integer := 0;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE approval_token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_found');
+  END IF;
+
+  IF jsonb_typeof(p_decisions) <> 'array' OR jsonb_array_length(p_decisions) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'invalid_request');
+  END IF;
+
+  SELECT kind INTO v_stage_kind FROM order_stages WHERE id = v_order.stage_id;
+
+  -- Stock of a finished order is already settled; late approvals would
+  -- leave reservations that nothing consumes or releases
+  IF v_stage_kind IN ('closed', 'cancelled') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'order_closed');
+  END IF;
+
+  FOR v_decision IN SELECT * FROM jsonb_array_elements(p_decisions)
+  LOOP
+    v_status := v_decision->>'decision';
+    IF v_status NOT IN ('approved', 'declined') THEN
+      CONTINUE;
+    END IF;
+
+    -- Only lines still waiting for the client can be decided
+    SELECT * INTO v_item
+    FROM order_items
+    WHERE id = (v_decision->>'item_id')::uuid
+      AND order_id = v_order.id
+      AND approval_status = 'proposed'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE order_items
+    SET approval_status = v_status,
+        approval_decided_at = v_now
+    WHERE id = v_item.id;
+
+    IF v_item.inventory_id IS NOT NULL THEN
+      IF v_status = 'declined' AND v_item.stock_reserved THEN
+        PERFORM return_inventory_stock(v_item.inventory_id, v_item.quantity, v_order.id);
+        UPDATE order_items SET stock_reserved = false WHERE id = v_item.id;
+      ELSIF v_status = 'approved' AND NOT v_item.stock_reserved
+        AND v_stage_kind IN ('in_progress', 'waiting', 'ready') THEN
+        PERFORM reserve_inventory_stock(v_item.id, v_item.inventory_id, v_item.quantity, v_order.id);
+      END IF;
+    END IF;
+
+    INSERT INTO order_history (order_id, user_id, event_type, description, created_at)
+    VALUES (
+      v_order.id,
+      NULL,
+      CASE WHEN v_status = 'approved' THEN 'estimate_approved' ELSE 'estimate_declined' END,
+      CASE WHEN v_status = 'approved' THEN 'Клиент согласовал: ' ELSE 'Клиент отказался: ' END
+        || v_item.name || ' (' || to_char(v_item.total_price, 'FM999999990.00') || ' €), '
+        || to_char(v_now AT TIME ZONE 'Europe/Riga', 'DD.MM.YYYY HH24:MI'),
+      v_now
+    );
+
+    v_decided := v_decided + 1;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_items WHERE order_id = v_order.id AND approval_status = 'proposed'
+  ) THEN
+    UPDATE orders SET awaiting_approval = false WHERE id = v_order.id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'decided', v_decided);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_order_estimate(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_order_estimate(uuid) TO anon, authenticated;
+REVOKE ALL ON FUNCTION decide_estimate_items(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION decide_estimate_items(uuid, jsonb) TO anon, authenticated;
+
+COMMENT ON COLUMN order_items.approval_status IS 'approved | proposed (waiting for the client) | declined (kept for reference, not billed)';
+COMMENT ON COLUMN order_items.approval_decided_at IS 'When the client approved or declined a proposed line';
+COMMENT ON COLUMN orders.awaiting_approval IS 'New lines are proposed to the client until they have all been decided';
+COMMENT ON COLUMN orders.approval_token IS 'Unguessable key for the client estimate approval link';
+COMMENT ON FUNCTION decide_estimate_items(uuid, jsonb) IS 'Applies client approve/decline decisions to proposed order lines and logs them in order_history';
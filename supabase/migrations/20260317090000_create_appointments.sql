@@ -0,0 +1,133 @@
+/*
+  # Intake Appointments
+
+  ## Overview
+  Clients can be booked into intake slots per location and technician. The
+  slot length comes from the `duration_minutes` of the selected services, the
+  same values NewOrderModal uses for its time estimate. A scheduled
+  appointment is converted into an order with the client and device
+  prefilled; the order id is kept on the appointment.
+
+  ## New Tables
+    - `appointments`
+      - `location_id` (bigint, FK locations)
+      - `technician_id` (uuid, FK profiles, nullable = any technician)
+      - `client_id` (uuid, FK clients, nullable for new clients)
+      - `client_name`, `client_phone` (text): contact for new clients
+      - `device_type`, `device_model`, `issue_description` (text)
+      - `service_ids` (uuid[]): services the client booked
+      - `starts_at` (timestamptz), `duration_minutes` (integer)
+      - `status`: scheduled | arrived | converted | cancelled | no_show
+      - `order_id` (uuid, FK orders): set when converted
+      - `notes`, `created_by`, `created_at`, `updated_at`
+
+  ## Settings
+    - `system_settings.appointment_hours` = { open: '10:00', close: '21:00', slot_minutes: 30 }
+    - `get_appointment_hours()`: reads it for any staff member, since
+      system_settings itself is admin-only
+
+  ## Enforcement
+    - A technician cannot have two overlapping scheduled/arrived appointments
+*/
+
+CREATE TABLE IF NOT EXISTS appointments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id bigint NOT NULL REFERENCES locations(id),
+  technician_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  client_id uuid REFERENCES clients(id) ON DELETE SET NULL,
+  client_name text NOT NULL DEFAULT '',
+  client_phone text NOT NULL DEFAULT '',
+  device_type text,
+  device_model text,
+  issue_description text,
+  service_ids uuid[] NOT NULL DEFAULT '{}',
+  starts_at timestamptz NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 30 CHECK (duration_minutes > 0),
+  status text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'arrived', 'converted', 'cancelled', 'no_show')),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_location_start ON appointments(location_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_appointments_technician_start ON appointments(technician_id, starts_at);
+
+CREATE OR REPLACE FUNCTION update_appointments_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_appointments_updated_at ON appointments;
+CREATE TRIGGER trigger_appointments_updated_at
+  BEFORE UPDATE ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_appointments_updated_at();
+
+CREATE OR REPLACE FUNCTION prevent_appointment_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.technician_id IS NULL OR NEW.status NOT IN ('scheduled', 'arrived') THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM appointments a
+    WHERE a.technician_id = NEW.technician_id
+      AND a.id <> NEW.id
+      AND a.status IN ('scheduled', 'arrived')
+      AND a.starts_at < NEW.starts_at + make_interval(mins => NEW.duration_minutes)
+      AND NEW.starts_at < a.starts_at + make_interval(mins => a.duration_minutes)
+  ) THEN
+    RAISE EXCEPTION 'Technician already has an appointment at this time';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_appointment_overlap ON appointments;
+CREATE TRIGGER trigger_prevent_appointment_overlap
+  BEFORE INSERT OR UPDATE OF technician_id, starts_at, duration_minutes, status ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_appointment_overlap();
+
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "appointments_select" ON appointments FOR SELECT TO authenticated USING ((SELECT can_access_location(location_id)));
+CREATE POLICY "appointments_insert" ON appointments FOR INSERT TO authenticated WITH CHECK ((SELECT can_access_location(location_id)));
+CREATE POLICY "appointments_update" ON appointments FOR UPDATE TO authenticated USING ((SELECT can_access_location(location_id))) WITH CHECK ((SELECT can_access_location(location_id)));
+CREATE POLICY "appointments_delete" ON appointments FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+INSERT INTO system_settings (key, value, category, description)
+VALUES ('appointment_hours', '{"open": "10:00", "close": "21:00", "slot_minutes": 30}'::jsonb, 'appointments', 'Рабочие часы для записи клиентов')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_appointment_hours()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT value FROM system_settings WHERE key = 'appointment_hours';
+$$;
+
+REVOKE ALL ON FUNCTION get_appointment_hours() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_appointment_hours() TO authenticated;
+
+COMMENT ON TABLE appointments IS 'Client intake bookings per location and technician';
+COMMENT ON COLUMN appointments.duration_minutes IS 'Sum of the booked services duration_minutes (editable)';
+COMMENT ON COLUMN appointments.order_id IS 'Order created from this appointment';
+COMMENT ON FUNCTION get_appointment_hours() IS 'Appointment opening hours from system_settings, readable by all signed-in users';
@@ -0,0 +1,357 @@
+/*
+  # Technician Workload and Auto-Assignment
+
+  ## Overview
+  Each order item now carries its estimated labor time, taken from
+  `services.duration_minutes`. The workload board sums the remaining minutes
+  of open orders per technician. New orders can be assigned automatically,
+  either to the least loaded technician or to the least loaded technician
+  with the skill for the order's repair type.
+
+  ## Changes
+    - `order_items.service_id` (uuid, FK services): service the line was added from
+    - `order_items.estimated_minutes` (integer): duration_minutes × quantity for
+      service lines. Set by a trigger, by service_id or by matching the service name
+    - `profiles.repair_type_ids` (uuid[]): repair types the technician is skilled in
+
+  ## Settings
+    - `system_settings.auto_assign` = { rule: 'off' | 'least_loaded' | 'skill' }
+
+  ## Functions
+    - `get_technician_workload(p_location_id)`: open orders and remaining minutes per technician
+    - `pick_order_assignee(p_location_id, p_repair_type_id)`: technician chosen by the auto_assign rule
+    - `create_order_with_items`: stores repair_type_id and item service_id; when the
+      order has no explicit assignee, the auto_assign rule picks one before falling
+      back to the creator
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'service_id'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN service_id uuid REFERENCES services(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'estimated_minutes'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN estimated_minutes integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'repair_type_ids'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN repair_type_ids uuid[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_assigned_to ON orders(assigned_to);
+
+-- ============================================================================
+-- Estimated minutes per item
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_order_item_estimated_minutes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_duration integer;
+BEGIN
+  IF NEW.item_type <> 'service' THEN
+    NEW.estimated_minutes := 0;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.service_id IS NOT NULL THEN
+    SELECT duration_minutes INTO v_duration FROM services WHERE id = NEW.service_id;
+  END IF;
+
+  IF v_duration IS NULL THEN
+    SELECT duration_minutes INTO v_duration
+    FROM services
+    WHERE lower(name) = lower(btrim(NEW.name))
+    ORDER BY is_active DESC
+    LIMIT 1;
+  END IF;
+
+  NEW.estimated_minutes := COALESCE(v_duration, 0) * COALESCE(NEW.quantity, 1);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_order_item_estimated_minutes ON order_items;
+CREATE TRIGGER trigger_set_order_item_estimated_minutes
+  BEFORE INSERT OR UPDATE OF item_type, service_id, name, quantity ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_item_estimated_minutes();
+
+UPDATE order_items oi
+SET estimated_minutes = COALESCE(s.duration_minutes, 0) * COALESCE(oi.quantity, 1)
+FROM services s
+WHERE oi.item_type = 'service'
+  AND oi.estimated_minutes = 0
+  AND lower(s.name) = lower(btrim(oi.name));
+
+-- ============================================================================
+-- Workload
+-- ============================================================================
+
+INSERT INTO system_settings (key, value, category, description)
+VALUES ('auto_assign', '{"rule": "off"}'::jsonb, 'orders', 'Автоматическое назначение мастера на новые заказы')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_technician_workload(p_location_id bigint)
+RETURNS TABLE (
+  technician_id uuid,
+  technician_name text,
+  open_orders integer,
+  remaining_minutes integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.full_name,
+    COUNT(DISTINCT o.id)::integer,
+    COALESCE(SUM(oi.estimated_minutes) FILTER (WHERE oi.approval_status = 'approved'), 0)::integer
+  FROM profiles p
+  LEFT JOIN orders o
+    ON o.assigned_to = p.id
+   AND o.location_id = p_location_id
+   AND o.stage_id IN (SELECT id FROM order_stages WHERE kind IN ('open', 'in_progress', 'waiting'))
+  LEFT JOIN order_items oi ON oi.order_id = o.id AND oi.item_type = 'service'
+  WHERE p.location_id = p_location_id
+    AND p.role = 'technician'
+    AND can_access_location(p_location_id)
+  GROUP BY p.id, p.full_name;
+$$;
+
+CREATE OR REPLACE FUNCTION pick_order_assignee(p_location_id bigint, p_repair_type_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule text;
+  v_assignee uuid;
+BEGIN
+  SELECT value->>'rule' INTO v_rule FROM system_settings WHERE key = 'auto_assign';
+
+  IF COALESCE(v_rule, 'off') = 'off' OR p_location_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Skill rule: prefer technicians with the repair type, otherwise anyone
+  IF v_rule = 'skill' AND p_repair_type_id IS NOT NULL THEN
+    SELECT w.technician_id INTO v_assignee
+    FROM get_technician_workload(p_location_id) w
+    JOIN profiles p ON p.id = w.technician_id
+    WHERE p_repair_type_id = ANY(p.repair_type_ids)
+    ORDER BY w.remaining_minutes, w.open_orders, w.technician_name
+    LIMIT 1;
+  END IF;
+
+  IF v_assignee IS NULL THEN
+    SELECT w.technician_id INTO v_assignee
+    FROM get_technician_workload(p_location_id) w
+    ORDER BY w.remaining_minutes, w.open_orders, w.technician_name
+    LIMIT 1;
+  END IF;
+
+  RETURN v_assignee;
+END;
+$$;
+
+-- ============================================================================
+-- Order creation with auto-assignment
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_order_with_items(p_order jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_stage_id uuid;
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_stock record;
+  v_original orders%ROWTYPE;
+  v_assigned_to uuid;
+  v_auto_assigned boolean := false;
+BEGIN
+  v_client_id := NULLIF(p_order->>'client_id', '')::uuid;
+
+  IF p_order->>'order_type' = 'warranty_claim' THEN
+    SELECT * INTO v_original FROM orders WHERE id = NULLIF(p_order->>'original_order_id', '')::uuid;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Warranty claim must reference the original order');
+    END IF;
+    v_client_id := COALESCE(v_client_id, v_original.client_id);
+  END IF;
+
+  IF v_client_id IS NULL THEN
+    IF NULLIF(btrim(p_order->'client'->>'full_name'), '') IS NULL
+       OR NULLIF(btrim(p_order->'client'->>'phone'), '') IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Client name and phone are required');
+    END IF;
+  END IF;
+
+  v_stage_id := COALESCE(
+    NULLIF(p_order->>'stage_id', '')::uuid,
+    (SELECT id FROM order_stages ORDER BY position LIMIT 1)
+  );
+
+  IF v_stage_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No order stages found');
+  END IF;
+
+  -- Check stock for every inventory part before anything is written
+  FOR v_stock IN
+    SELECT
+      i.id,
+      i.part_name,
+      i.quantity AS available,
+      req.requested
+    FROM (
+      SELECT (item->>'inventory_id')::uuid AS inventory_id, SUM((item->>'quantity')::integer) AS requested
+      FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb)) AS item
+      WHERE NULLIF(item->>'inventory_id', '') IS NOT NULL
+      GROUP BY 1
+    ) req
+    JOIN inventory i ON i.id = req.inventory_id
+    ORDER BY i.id
+    FOR UPDATE OF i
+  LOOP
+    IF v_stock.available < v_stock.requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": available %s, requested %s',
+          v_stock.part_name, v_stock.available, v_stock.requested)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_client_id IS NULL THEN
+    INSERT INTO clients (full_name, phone, email, traffic_source, location_id)
+    VALUES (
+      btrim(p_order->'client'->>'full_name'),
+      btrim(p_order->'client'->>'phone'),
+      NULLIF(btrim(p_order->'client'->>'email'), ''),
+      COALESCE(p_order->'client'->>'traffic_source', 'direct'),
+      (p_order->>'location_id')::bigint
+    )
+    RETURNING id INTO v_client_id;
+  END IF;
+
+  v_assigned_to := NULLIF(p_order->>'assigned_to', '')::uuid;
+  IF v_assigned_to IS NULL THEN
+    v_assigned_to := pick_order_assignee(
+      (p_order->>'location_id')::bigint,
+      NULLIF(p_order->>'repair_type_id', '')::uuid
+    );
+    v_auto_assigned := v_assigned_to IS NOT NULL;
+  END IF;
+
+  INSERT INTO orders (
+    client_id,
+    assigned_to,
+    stage_id,
+    device_type,
+    device_model,
+    device_color,
+    imei,
+    serial_number,
+    issue_description,
+    priority,
+    estimated_cost,
+    due_date,
+    location_id,
+    prepayment,
+    waiting_for_parts,
+    order_type,
+    original_order_id,
+    repair_type_id
+  ) VALUES (
+    v_client_id,
+    COALESCE(v_assigned_to, auth.uid()),
+    v_stage_id,
+    p_order->>'device_type',
+    p_order->>'device_model',
+    p_order->>'device_color',
+    NULLIF(p_order->>'imei', ''),
+    NULLIF(p_order->>'serial_number', ''),
+    p_order->>'issue_description',
+    COALESCE(p_order->>'priority', 'medium'),
+    COALESCE((p_order->>'estimated_cost')::numeric, 0),
+    NULLIF(p_order->>'due_date', '')::timestamptz,
+    (p_order->>'location_id')::bigint,
+    COALESCE((p_order->>'prepayment')::numeric, 0),
+    COALESCE((p_order->>'waiting_for_parts')::boolean, false),
+    COALESCE(NULLIF(p_order->>'order_type', ''), 'repair'),
+    v_original.id,
+    NULLIF(p_order->>'repair_type_id', '')::uuid
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb))
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      item_type,
+      inventory_id,
+      service_id,
+      name,
+      quantity,
+      unit_price,
+      unit_cost,
+      total_price,
+      warranty_months
+    ) VALUES (
+      v_order.id,
+      COALESCE(v_item->>'item_type', 'part'),
+      NULLIF(v_item->>'inventory_id', '')::uuid,
+      NULLIF(v_item->>'service_id', '')::uuid,
+      v_item->>'name',
+      COALESCE((v_item->>'quantity')::integer, 1),
+      COALESCE((v_item->>'unit_price')::numeric, 0),
+      COALESCE((v_item->>'unit_cost')::numeric, 0),
+      COALESCE((v_item->>'total_price')::numeric, 0),
+      COALESCE((v_item->>'warranty_months')::integer, 0)
+    );
+  END LOOP;
+
+  IF v_auto_assigned THEN
+    INSERT INTO order_history (order_id, user_id, event_type, description)
+    VALUES (
+      v_order.id,
+      auth.uid(),
+      'assigned',
+      format('Мастер назначен автоматически: %s', (SELECT full_name FROM profiles WHERE id = v_assigned_to))
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_technician_workload(bigint) TO authenticated;
+GRANT EXECUTE ON FUNCTION pick_order_assignee(bigint, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(jsonb) TO authenticated;
+
+COMMENT ON COLUMN order_items.estimated_minutes IS 'Labor estimate: services.duration_minutes × quantity for service lines';
+COMMENT ON COLUMN profiles.repair_type_ids IS 'Repair types the technician handles, used by the skill auto-assign rule';
+COMMENT ON FUNCTION pick_order_assignee(bigint, uuid) IS 'Technician for a new order according to system_settings.auto_assign, or NULL when the rule is off';
@@ -0,0 +1,94 @@
+/*
+  # Work Time Entries
+
+  ## Overview
+  Technicians start and pause work timers on an order or on a single order
+  item. Every run of a timer is one time entry, so the hands-on time of an
+  order is the sum of its entries, excluding the days the device waited for
+  parts. Analytics compares the actual minutes per service line with
+  `order_items.estimated_minutes`.
+
+  ## New Tables
+    - `work_time_entries`
+      - `order_id` (uuid, FK orders)
+      - `order_item_id` (uuid, FK order_items, nullable = whole order)
+      - `technician_id` (uuid, FK profiles): who worked
+      - `location_id` (bigint, FK locations): copied from the order
+      - `started_at`, `ended_at` (timestamptz): ended_at is NULL while running
+      - `duration_seconds` (integer, generated): length of a finished entry
+
+  ## Enforcement
+    - A technician has at most one running timer
+    - Timers still running when an order is closed or cancelled are stopped
+*/
+
+CREATE TABLE IF NOT EXISTS work_time_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id uuid REFERENCES order_items(id) ON DELETE CASCADE,
+  technician_id uuid NOT NULL DEFAULT auth.uid() REFERENCES profiles(id),
+  location_id bigint REFERENCES locations(id),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  duration_seconds integer GENERATED ALWAYS AS (
+    CASE WHEN ended_at IS NULL THEN NULL ELSE EXTRACT(EPOCH FROM (ended_at - started_at))::integer END
+  ) STORED,
+  created_at timestamptz DEFAULT now(),
+  CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_time_entries_order ON work_time_entries(order_id);
+CREATE INDEX IF NOT EXISTS idx_work_time_entries_technician_start ON work_time_entries(technician_id, started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_time_entries_one_running
+  ON work_time_entries(technician_id) WHERE ended_at IS NULL;
+
+CREATE OR REPLACE FUNCTION set_work_time_entry_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT location_id INTO NEW.location_id FROM orders WHERE id = NEW.order_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_work_time_entry_location ON work_time_entries;
+CREATE TRIGGER trigger_set_work_time_entry_location
+  BEFORE INSERT ON work_time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION set_work_time_entry_location();
+
+CREATE OR REPLACE FUNCTION stop_work_timers_on_order_close()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage_id IS DISTINCT FROM OLD.stage_id
+     AND EXISTS (SELECT 1 FROM order_stages WHERE id = NEW.stage_id AND kind IN ('closed', 'cancelled')) THEN
+    UPDATE work_time_entries
+    SET ended_at = now()
+    WHERE order_id = NEW.id AND ended_at IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_stop_work_timers_on_order_close ON orders;
+CREATE TRIGGER trigger_stop_work_timers_on_order_close
+  AFTER UPDATE OF stage_id ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION stop_work_timers_on_order_close();
+
+ALTER TABLE work_time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "work_time_entries_select" ON work_time_entries FOR SELECT TO authenticated USING ((SELECT can_access_location(location_id)));
+CREATE POLICY "work_time_entries_insert" ON work_time_entries FOR INSERT TO authenticated WITH CHECK (technician_id = (SELECT auth.uid()));
+CREATE POLICY "work_time_entries_update" ON work_time_entries FOR UPDATE TO authenticated USING (technician_id = (SELECT auth.uid()) OR (SELECT is_admin_or_owner())) WITH CHECK (technician_id = (SELECT auth.uid()) OR (SELECT is_admin_or_owner()));
+CREATE POLICY "work_time_entries_delete" ON work_time_entries FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+COMMENT ON TABLE work_time_entries IS 'Hands-on work timers per order or order item';
+COMMENT ON COLUMN work_time_entries.order_item_id IS 'Line the time was spent on; NULL for time on the whole order';
+COMMENT ON COLUMN work_time_entries.ended_at IS 'NULL while the timer is running';
@@ -0,0 +1,213 @@
+/*
+  # SLA Rules and Overdue Engine
+
+  ## Overview
+  SLA rules define how long an order may take per repair type and priority
+  (e.g. screen replacement 24h, board repair 5 days). A new order without a
+  due date gets one from the most specific matching rule. A pg_cron job flips
+  `orders.is_overdue` every 15 minutes; when an order becomes overdue an
+  escalation task is created for the manager of the assigned technician.
+
+  ## New Tables
+    - `sla_rules`
+      - `repair_type_id` (uuid, FK repair_types, nullable = any repair type)
+      - `priority` (text, nullable = any priority)
+      - `resolution_hours` (integer): time from order creation to due date
+      - `is_active` (boolean)
+
+  ## Changes
+    - `orders.sla_rule_id` (uuid, FK sla_rules): rule the due date was calculated
+      from. Cleared when the due date is edited by hand, so manual dates are kept
+    - `profiles.manager_id` (uuid, FK profiles): receives escalations for this employee
+
+  ## Rule matching
+    repair type + priority > repair type only > priority only > default rule
+
+  ## Functions
+    - `find_sla_rule(p_repair_type_id, p_priority)`
+    - `refresh_overdue_orders()`: recomputes is_overdue, writes order_history and
+      escalation tasks for orders that just became overdue. Returns how many did
+*/
+
+CREATE TABLE IF NOT EXISTS sla_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  repair_type_id uuid REFERENCES repair_types(id) ON DELETE CASCADE,
+  priority text CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  resolution_hours integer NOT NULL CHECK (resolution_hours > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sla_rules_scope
+  ON sla_rules (COALESCE(repair_type_id, '00000000-0000-0000-0000-000000000000'::uuid), COALESCE(priority, ''));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'sla_rule_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN sla_rule_id uuid REFERENCES sla_rules(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'manager_id'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN manager_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_due_date_open ON orders(due_date) WHERE due_date IS NOT NULL;
+
+ALTER TABLE sla_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sla_rules_select" ON sla_rules FOR SELECT TO authenticated USING (true);
+CREATE POLICY "sla_rules_insert" ON sla_rules FOR INSERT TO authenticated WITH CHECK ((SELECT is_admin_or_owner()));
+CREATE POLICY "sla_rules_update" ON sla_rules FOR UPDATE TO authenticated USING ((SELECT is_admin_or_owner())) WITH CHECK ((SELECT is_admin_or_owner()));
+CREATE POLICY "sla_rules_delete" ON sla_rules FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+-- ============================================================================
+-- Due date from SLA
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION find_sla_rule(p_repair_type_id uuid, p_priority text)
+RETURNS sla_rules
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM sla_rules
+  WHERE is_active
+    AND (repair_type_id IS NULL OR repair_type_id = p_repair_type_id)
+    AND (priority IS NULL OR priority = p_priority)
+  ORDER BY (repair_type_id IS NOT NULL) DESC, (priority IS NOT NULL) DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_order_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_rule sla_rules%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- A hand-edited due date wins over the rule
+    IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+      NEW.sla_rule_id := NULL;
+      RETURN NEW;
+    END IF;
+
+    IF (NEW.repair_type_id IS NOT DISTINCT FROM OLD.repair_type_id AND NEW.priority IS NOT DISTINCT FROM OLD.priority)
+       OR (OLD.sla_rule_id IS NULL AND OLD.due_date IS NOT NULL) THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.due_date IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_rule := find_sla_rule(NEW.repair_type_id, NEW.priority);
+  IF v_rule.id IS NOT NULL THEN
+    NEW.due_date := COALESCE(NEW.created_at, now()) + make_interval(hours => v_rule.resolution_hours);
+    NEW.sla_rule_id := v_rule.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_order_sla ON orders;
+CREATE TRIGGER trigger_apply_order_sla
+  BEFORE INSERT OR UPDATE OF due_date, repair_type_id, priority ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_order_sla();
+
+-- ============================================================================
+-- Overdue flag and escalation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION refresh_overdue_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order record;
+  v_manager_id uuid;
+  v_count integer := 0;
+BEGIN
+  -- Orders that are no longer overdue: due date moved, or work finished
+  UPDATE orders o
+  SET is_overdue = false
+  WHERE o.is_overdue
+    AND (
+      o.due_date IS NULL
+      OR o.due_date >= now()
+      OR EXISTS (SELECT 1 FROM order_stages s WHERE s.id = o.stage_id AND s.kind IN ('ready', 'closed', 'cancelled'))
+    );
+
+  FOR v_order IN
+    UPDATE orders o
+    SET is_overdue = true
+    FROM order_stages s
+    WHERE s.id = o.stage_id
+      AND s.kind NOT IN ('ready', 'closed', 'cancelled')
+      AND o.due_date < now()
+      AND NOT COALESCE(o.is_overdue, false)
+    RETURNING o.id, o.order_number, o.assigned_to, o.location_id, o.due_date
+  LOOP
+    v_count := v_count + 1;
+
+    -- Manager of the technician, otherwise a manager or admin of the location
+    SELECT COALESCE(
+      (SELECT p.manager_id FROM profiles p WHERE p.id = v_order.assigned_to),
+      (SELECT p.id FROM profiles p
+       WHERE p.location_id = v_order.location_id AND p.role IN ('manager', 'admin', 'owner')
+       ORDER BY CASE p.role WHEN 'manager' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, p.created_at
+       LIMIT 1)
+    ) INTO v_manager_id;
+
+    INSERT INTO order_history (order_id, user_id, event_type, description)
+    VALUES (
+      v_order.id,
+      NULL,
+      'overdue',
+      format('Заказ просрочен: срок %s', to_char(v_order.due_date AT TIME ZONE 'Europe/Riga', 'DD.MM.YYYY HH24:MI'))
+    );
+
+    IF v_manager_id IS NOT NULL THEN
+      INSERT INTO tasks (user_id, assigned_to, order_id, location_id, title, description, due_date, priority)
+      VALUES (
+        v_manager_id,
+        v_manager_id,
+        v_order.id,
+        v_order.location_id,
+        format('Просрочен заказ %s', v_order.order_number),
+        format('Срок истёк %s. Мастер: %s',
+          to_char(v_order.due_date AT TIME ZONE 'Europe/Riga', 'DD.MM.YYYY HH24:MI'),
+          COALESCE((SELECT full_name FROM profiles WHERE id = v_order.assigned_to), 'не назначен')),
+        CURRENT_DATE,
+        'high'
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('refresh-overdue-orders', '*/15 * * * *', $$SELECT public.refresh_overdue_orders()$$);
+
+REVOKE EXECUTE ON FUNCTION refresh_overdue_orders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_sla_rule(uuid, text) TO authenticated;
+
+COMMENT ON TABLE sla_rules IS 'Resolution time per repair type and priority; sets orders.due_date';
+COMMENT ON COLUMN orders.sla_rule_id IS 'SLA rule the due date came from; NULL when set by hand';
+COMMENT ON COLUMN profiles.manager_id IS 'Receives escalation tasks for this employee''s overdue orders';
+COMMENT ON FUNCTION refresh_overdue_orders() IS 'Run by pg_cron every 15 minutes';
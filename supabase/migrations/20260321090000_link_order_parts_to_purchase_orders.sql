@@ -0,0 +1,528 @@
+/*
+  # Waiting-for-Parts Linkage
+
+  ## Overview
+  A part that is out of stock can be requested from the order form. The order
+  line is linked to a line of a draft purchase order for the part's preferred
+  supplier (`inventory.supplier_id`): an existing draft for that supplier and
+  location is reused, otherwise a new one is created. When the purchase order
+  is received the part is reserved for the waiting order; once nothing is left
+  on order, `orders.waiting_for_parts` is cleared and the assigned technician
+  gets a task.
+
+  ## Changes
+    - `order_items.purchase_order_item_id` (uuid, FK purchase_order_items): the
+      purchase order line the part was requested on
+    - `purchase_orders.status` accepts 'Draft' for orders not yet sent to the supplier
+    - `handle_order_stage_stock`: lines still on order are not reserved on stage
+      change; they are reserved when the purchase order arrives. Cancelling
+      the order releases its requested parts
+    - `create_order_with_items`: items with `request_part: true` skip the stock
+      check and are requested from the supplier
+
+  ## Functions
+    - `request_order_part(p_order_item_id)`: adds the line to a draft purchase order
+    - `reserve_received_parts(p_purchase_order_id)`: reserves received parts for
+      waiting orders, clears waiting_for_parts and notifies technicians; closed
+      and cancelled orders are skipped
+    - `release_requested_parts(p_order_id)`: unlinks the order's lines from
+      purchase orders and takes not-yet-sent quantities off the draft
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'purchase_order_item_id'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN purchase_order_item_id uuid REFERENCES purchase_order_items(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_purchase_order_item ON order_items(purchase_order_item_id)
+  WHERE purchase_order_item_id IS NOT NULL;
+
+ALTER TABLE purchase_orders DROP CONSTRAINT IF EXISTS purchase_orders_status_check;
+ALTER TABLE purchase_orders ADD CONSTRAINT purchase_orders_status_check
+  CHECK (status IN ('Draft', 'Pending', 'In Transit', 'Delivered', 'Delayed', 'Cancelled'));
+
+-- ============================================================================
+-- Requesting a part
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION request_order_part(p_order_item_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item order_items%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_part inventory%ROWTYPE;
+  v_purchase_order_id uuid;
+  v_purchase_order_number text;
+  v_purchase_item_id uuid;
+BEGIN
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id FOR UPDATE;
+  IF NOT FOUND OR v_item.inventory_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order line is not an inventory part');
+  END IF;
+
+  IF v_item.purchase_order_item_id IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Part has already been requested');
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id;
+  IF NOT can_access_location(v_order.location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  SELECT * INTO v_part FROM inventory WHERE id = v_item.inventory_id;
+
+  -- One open draft per supplier and location collects all requests
+  SELECT id, order_number INTO v_purchase_order_id, v_purchase_order_number
+  FROM purchase_orders
+  WHERE status = 'Draft'
+    AND location_id = v_order.location_id
+    AND supplier_id IS NOT DISTINCT FROM v_part.supplier_id
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_purchase_order_id IS NULL THEN
+    INSERT INTO purchase_orders (supplier_id, order_number, status, location_id, created_by, notes)
+    VALUES (v_part.supplier_id, '', 'Draft', v_order.location_id, auth.uid(), 'Создан автоматически по запросам запчастей для заказов')
+    RETURNING id, order_number INTO v_purchase_order_id, v_purchase_order_number;
+  END IF;
+
+  SELECT id INTO v_purchase_item_id
+  FROM purchase_order_items
+  WHERE purchase_order_id = v_purchase_order_id
+    AND inventory_id = v_item.inventory_id
+  LIMIT 1;
+
+  IF v_purchase_item_id IS NULL THEN
+    INSERT INTO purchase_order_items (purchase_order_id, inventory_id, quantity_ordered, unit_cost)
+    VALUES (v_purchase_order_id, v_item.inventory_id, v_item.quantity, COALESCE(v_part.unit_cost, 0))
+    RETURNING id INTO v_purchase_item_id;
+  ELSE
+    UPDATE purchase_order_items
+    SET quantity_ordered = quantity_ordered + v_item.quantity
+    WHERE id = v_purchase_item_id;
+  END IF;
+
+  UPDATE order_items SET purchase_order_item_id = v_purchase_item_id WHERE id = v_item.id;
+  UPDATE orders SET waiting_for_parts = true WHERE id = v_order.id;
+
+  INSERT INTO order_history (order_id, user_id, event_type, description)
+  VALUES (
+    v_order.id,
+    auth.uid(),
+    'part_requested',
+    format('Запчасть «%s» × %s заказана у поставщика (%s)', v_item.name, v_item.quantity, v_purchase_order_number)
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'purchase_order_id', v_purchase_order_id,
+    'purchase_order_number', v_purchase_order_number
+  );
+END;
+$$;
+
+-- ============================================================================
+-- Receiving requested parts
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION reserve_received_parts(p_purchase_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_purchase_order purchase_orders%ROWTYPE;
+  v_purchase_item record;
+  v_line record;
+  v_free integer;
+  v_order record;
+  v_reserved integer := 0;
+  v_order_ids uuid[] := '{}';
+BEGIN
+  SELECT * INTO v_purchase_order FROM purchase_orders WHERE id = p_purchase_order_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Purchase order not found');
+  END IF;
+
+  IF NOT can_access_location(v_purchase_order.location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  FOR v_purchase_item IN
+    SELECT poi.id, poi.inventory_id, poi.quantity_received
+    FROM purchase_order_items poi
+    WHERE poi.purchase_order_id = p_purchase_order_id
+  LOOP
+    -- Received units not yet handed to an order
+    SELECT v_purchase_item.quantity_received - COALESCE(SUM(quantity), 0)
+    INTO v_free
+    FROM order_items
+    WHERE purchase_order_item_id = v_purchase_item.id AND stock_reserved;
+
+    -- Oldest requests are served first; finished orders no longer need parts
+    FOR v_line IN
+      SELECT oi.id, oi.order_id, oi.quantity
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      JOIN order_stages s ON s.id = o.stage_id
+      WHERE oi.purchase_order_item_id = v_purchase_item.id
+        AND NOT oi.stock_reserved
+        AND oi.approval_status <> 'declined'
+        AND s.kind NOT IN ('cancelled', 'closed')
+      ORDER BY oi.created_at
+      FOR UPDATE OF oi
+    LOOP
+      EXIT WHEN v_free < v_line.quantity;
+
+      PERFORM reserve_inventory_stock(v_line.id, v_purchase_item.inventory_id, v_line.quantity, v_line.order_id);
+      v_free := v_free - v_line.quantity;
+      v_reserved := v_reserved + 1;
+      v_order_ids := array_append(v_order_ids, v_line.order_id);
+    END LOOP;
+  END LOOP;
+
+  -- Orders with nothing left on order can continue
+  FOR v_order IN
+    UPDATE orders o
+    SET waiting_for_parts = false
+    WHERE o.id = ANY(v_order_ids)
+      AND o.waiting_for_parts
+      AND NOT EXISTS (
+        SELECT 1 FROM order_items oi
+        WHERE oi.order_id = o.id
+          AND oi.purchase_order_item_id IS NOT NULL
+          AND NOT oi.stock_reserved
+          AND oi.approval_status <> 'declined'
+      )
+    RETURNING o.id, o.order_number, o.assigned_to, o.location_id, o.device_type, o.device_model
+  LOOP
+    INSERT INTO order_history (order_id, user_id, event_type, description)
+    VALUES (
+      v_order.id,
+      auth.uid(),
+      'parts_received',
+      format('Запчасти получены по заказу поставщику %s и зарезервированы', v_purchase_order.order_number)
+    );
+
+    IF v_order.assigned_to IS NOT NULL THEN
+      INSERT INTO tasks (user_id, assigned_to, order_id, location_id, title, description, due_date, priority)
+      VALUES (
+        v_order.assigned_to,
+        v_order.assigned_to,
+        v_order.id,
+        v_order.location_id,
+        format('Запчасти для заказа %s получены', v_order.order_number),
+        format('%s %s: все заказанные запчасти на складе, можно продолжать ремонт',
+          COALESCE(v_order.device_type, ''), COALESCE(v_order.device_model, '')),
+        CURRENT_DATE,
+        'medium'
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'reserved', v_reserved,
+    'orders', (SELECT COUNT(DISTINCT id) FROM unnest(v_order_ids) AS id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_requested_parts(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line record;
+BEGIN
+  FOR v_line IN
+    SELECT oi.id, oi.quantity, oi.stock_reserved, poi.id AS purchase_item_id, po.status
+    FROM order_items oi
+    JOIN purchase_order_items poi ON poi.id = oi.purchase_order_item_id
+    JOIN purchase_orders po ON po.id = poi.purchase_order_id
+    WHERE oi.order_id = p_order_id
+    FOR UPDATE OF oi, poi
+  LOOP
+    UPDATE order_items SET purchase_order_item_id = NULL WHERE id = v_line.id;
+
+    -- A draft has not been sent, so the part is simply not ordered any more
+    IF v_line.status = 'Draft' AND NOT v_line.stock_reserved THEN
+      UPDATE purchase_order_items
+      SET quantity_ordered = quantity_ordered - v_line.quantity
+      WHERE id = v_line.purchase_item_id
+        AND quantity_ordered > v_line.quantity;
+
+      IF NOT FOUND THEN
+        DELETE FROM purchase_order_items WHERE id = v_line.purchase_item_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  UPDATE orders SET waiting_for_parts = false WHERE id = p_order_id AND waiting_for_parts;
+END;
+$$;
+
+-- ============================================================================
+-- Stage changes leave lines on order alone
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION handle_order_stage_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_stage_kind text;
+  old_stage_kind text;
+  item record;
+BEGIN
+  SELECT kind INTO new_stage_kind FROM order_stages WHERE id = NEW.stage_id;
+  IF OLD.stage_id IS NOT NULL THEN
+    SELECT kind INTO old_stage_kind FROM order_stages WHERE id = OLD.stage_id;
+  END IF;
+
+  -- Reserve stock once work starts on the order; proposed and declined lines
+  -- are not used in the repair, and parts still on order are reserved when
+  -- the purchase order arrives
+  IF new_stage_kind IN ('in_progress', 'waiting', 'ready', 'closed')
+     AND (old_stage_kind IS NULL OR old_stage_kind NOT IN ('in_progress', 'waiting', 'ready', 'closed')) THEN
+
+    FOR item IN
+      SELECT id, inventory_id, quantity, order_id
+      FROM order_items
+      WHERE order_id = NEW.id
+        AND inventory_id IS NOT NULL
+        AND stock_reserved = false
+        AND approval_status = 'approved'
+        AND purchase_order_item_id IS NULL
+    LOOP
+      PERFORM reserve_inventory_stock(
+        item.id,
+        item.inventory_id,
+        item.quantity,
+        item.order_id
+      );
+    END LOOP;
+  END IF;
+
+  IF new_stage_kind = 'cancelled' AND old_stage_kind IS DISTINCT FROM 'cancelled' THEN
+    PERFORM release_requested_parts(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Order creation with requested parts
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_order_with_items(p_order jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_stage_id uuid;
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_item_id uuid;
+  v_stock record;
+  v_original orders%ROWTYPE;
+  v_assigned_to uuid;
+  v_auto_assigned boolean := false;
+  v_request jsonb;
+BEGIN
+  v_client_id := NULLIF(p_order->>'client_id', '')::uuid;
+
+  IF p_order->>'order_type' = 'warranty_claim' THEN
+    SELECT * INTO v_original FROM orders WHERE id = NULLIF(p_order->>'original_order_id', '')::uuid;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Warranty claim must reference the original order');
+    END IF;
+    v_client_id := COALESCE(v_client_id, v_original.client_id);
+  END IF;
+
+  IF v_client_id IS NULL THEN
+    IF NULLIF(btrim(p_order->'client'->>'full_name'), '') IS NULL
+       OR NULLIF(btrim(p_order->'client'->>'phone'), '') IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Client name and phone are required');
+    END IF;
+  END IF;
+
+  v_stage_id := COALESCE(
+    NULLIF(p_order->>'stage_id', '')::uuid,
+    (SELECT id FROM order_stages ORDER BY position LIMIT 1)
+  );
+
+  IF v_stage_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No order stages found');
+  END IF;
+
+  -- Check stock for every inventory part before anything is written; parts
+  -- requested from the supplier are not taken from stock
+  FOR v_stock IN
+    SELECT
+      i.id,
+      i.part_name,
+      i.quantity AS available,
+      req.requested
+    FROM (
+      SELECT (item->>'inventory_id')::uuid AS inventory_id, SUM((item->>'quantity')::integer) AS requested
+      FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb)) AS item
+      WHERE NULLIF(item->>'inventory_id', '') IS NOT NULL
+        AND NOT COALESCE((item->>'request_part')::boolean, false)
+      GROUP BY 1
+    ) req
+    JOIN inventory i ON i.id = req.inventory_id
+    ORDER BY i.id
+    FOR UPDATE OF i
+  LOOP
+    IF v_stock.available < v_stock.requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": available %s, requested %s',
+          v_stock.part_name, v_stock.available, v_stock.requested)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_client_id IS NULL THEN
+    INSERT INTO clients (full_name, phone, email, traffic_source, location_id)
+    VALUES (
+      btrim(p_order->'client'->>'full_name'),
+      btrim(p_order->'client'->>'phone'),
+      NULLIF(btrim(p_order->'client'->>'email'), ''),
+      COALESCE(p_order->'client'->>'traffic_source', 'direct'),
+      (p_order->>'location_id')::bigint
+    )
+    RETURNING id INTO v_client_id;
+  END IF;
+
+  v_assigned_to := NULLIF(p_order->>'assigned_to', '')::uuid;
+  IF v_assigned_to IS NULL THEN
+    v_assigned_to := pick_order_assignee(
+      (p_order->>'location_id')::bigint,
+      NULLIF(p_order->>'repair_type_id', '')::uuid
+    );
+    v_auto_assigned := v_assigned_to IS NOT NULL;
+  END IF;
+
+  INSERT INTO orders (
+    client_id,
+    assigned_to,
+    stage_id,
+    device_type,
+    device_model,
+    device_color,
+    imei,
+    serial_number,
+    issue_description,
+    priority,
+    estimated_cost,
+    due_date,
+    location_id,
+    prepayment,
+    waiting_for_parts,
+    order_type,
+    original_order_id,
+    repair_type_id
+  ) VALUES (
+    v_client_id,
+    COALESCE(v_assigned_to, auth.uid()),
+    v_stage_id,
+    p_order->>'device_type',
+    p_order->>'device_model',
+    p_order->>'device_color',
+    NULLIF(p_order->>'imei', ''),
+    NULLIF(p_order->>'serial_number', ''),
+    p_order->>'issue_description',
+    COALESCE(p_order->>'priority', 'medium'),
+    COALESCE((p_order->>'estimated_cost')::numeric, 0),
+    NULLIF(p_order->>'due_date', '')::timestamptz,
+    (p_order->>'location_id')::bigint,
+    COALESCE((p_order->>'prepayment')::numeric, 0),
+    COALESCE((p_order->>'waiting_for_parts')::boolean, false),
+    COALESCE(NULLIF(p_order->>'order_type', ''), 'repair'),
+    v_original.id,
+    NULLIF(p_order->>'repair_type_id', '')::uuid
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb))
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      item_type,
+      inventory_id,
+      service_id,
+      name,
+      quantity,
+      unit_price,
+      unit_cost,
+      total_price,
+      warranty_months
+    ) VALUES (
+      v_order.id,
+      COALESCE(v_item->>'item_type', 'part'),
+      NULLIF(v_item->>'inventory_id', '')::uuid,
+      NULLIF(v_item->>'service_id', '')::uuid,
+      v_item->>'name',
+      COALESCE((v_item->>'quantity')::integer, 1),
+      COALESCE((v_item->>'unit_price')::numeric, 0),
+      COALESCE((v_item->>'unit_cost')::numeric, 0),
+      COALESCE((v_item->>'total_price')::numeric, 0),
+      COALESCE((v_item->>'warranty_months')::integer, 0)
+    )
+    RETURNING id INTO v_item_id;
+
+    IF COALESCE((v_item->>'request_part')::boolean, false) THEN
+      v_request := request_order_part(v_item_id);
+      IF NOT (v_request->>'success')::boolean THEN
+        RAISE EXCEPTION '%', v_request->>'error';
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_auto_assigned THEN
+    INSERT INTO order_history (order_id, user_id, event_type, description)
+    VALUES (
+      v_order.id,
+      auth.uid(),
+      'assigned',
+      format('Мастер назначен автоматически: %s', (SELECT full_name FROM profiles WHERE id = v_assigned_to))
+    );
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION release_requested_parts(uuid) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION request_order_part(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reserve_received_parts(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(jsonb) TO authenticated;
+
+COMMENT ON COLUMN order_items.purchase_order_item_id IS 'Purchase order line the part was requested on; the line waits until it is received and reserved';
+COMMENT ON FUNCTION request_order_part(uuid) IS 'Adds an order line to the draft purchase order of the part''s preferred supplier';
+COMMENT ON FUNCTION reserve_received_parts(uuid) IS 'Reserves received parts for waiting orders and notifies their technicians';
+COMMENT ON FUNCTION release_requested_parts(uuid) IS 'Unlinks a cancelled order''s lines from purchase orders and trims them off drafts';
@@ -0,0 +1,760 @@
+/*
+  # Reserved Stock Separate from On-Hand Quantity
+
+  ## Overview
+  Until now reserving a part for an order subtracted it from `inventory.quantity`
+  straight away, so parts sitting in devices on the bench were missing from the
+  shelf count and stock audits reported false discrepancies. Stock now has three
+  numbers:
+    - on hand (`quantity`): physically in the store until the order is closed
+    - reserved (`reserved_quantity`): promised to open orders
+    - available (`available_quantity`): on hand minus reserved
+
+  ## Changes
+    - `inventory.reserved_quantity` (integer)
+    - `inventory.available_quantity` (integer, generated)
+    - `order_items.stock_consumed` (boolean): the reserved part left the shelf
+      when the order was closed
+    - Existing reservations of open orders are moved back to on hand and into
+      `reserved_quantity`; reservations of closed and cancelled orders are marked
+      as consumed
+
+  ## Functions
+    - `reserve_inventory_stock`: only raises `reserved_quantity`
+    - `return_inventory_stock`: releases a reservation
+    - `consume_inventory_stock`: on hand and reserved go down, a 'sale' movement
+      is written
+    - `handle_order_stage_stock`: consumes reservations when the order is closed
+      and releases them when it is cancelled
+    - `handle_order_item_stock`: rewritten for stage kinds; the previous version
+      referenced columns that do not exist (`part_id`, `stock_quantity`)
+    - `create_order_with_items`: checks available rather than on-hand stock
+    - `transfer_inventory`: 'ship' checks available rather than on-hand stock
+    - The unused `reserve_inventory_stock(uuid, integer, uuid)` overload is dropped
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory' AND column_name = 'reserved_quantity'
+  ) THEN
+    ALTER TABLE inventory ADD COLUMN reserved_quantity integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory' AND column_name = 'available_quantity'
+  ) THEN
+    ALTER TABLE inventory ADD COLUMN available_quantity integer GENERATED ALWAYS AS (quantity - reserved_quantity) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'stock_consumed'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN stock_consumed boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- Existing reservations
+-- ============================================================================
+
+UPDATE order_items oi
+SET stock_consumed = true
+FROM orders o
+JOIN order_stages s ON s.id = o.stage_id
+WHERE oi.order_id = o.id
+  AND oi.stock_reserved
+  AND s.kind IN ('closed', 'cancelled');
+
+UPDATE inventory i
+SET quantity = i.quantity + r.reserved,
+    reserved_quantity = i.reserved_quantity + r.reserved
+FROM (
+  SELECT inventory_id, SUM(quantity)::integer AS reserved
+  FROM order_items
+  WHERE inventory_id IS NOT NULL
+    AND stock_reserved
+    AND NOT stock_consumed
+  GROUP BY inventory_id
+) r
+WHERE i.id = r.inventory_id;
+
+-- ============================================================================
+-- Reserve, release, consume
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS reserve_inventory_stock(uuid, integer, uuid);
+
+CREATE OR REPLACE FUNCTION reserve_inventory_stock(
+  p_order_item_id uuid,
+  p_inventory_id uuid,
+  p_quantity integer,
+  p_order_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE inventory
+  SET reserved_quantity = reserved_quantity + p_quantity
+  WHERE id = p_inventory_id;
+
+  UPDATE order_items
+  SET stock_reserved = true
+  WHERE id = p_order_item_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_inventory_stock(
+  p_inventory_id uuid,
+  p_quantity integer,
+  p_order_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE inventory
+  SET reserved_quantity = GREATEST(reserved_quantity - p_quantity, 0)
+  WHERE id = p_inventory_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION consume_inventory_stock(
+  p_order_item_id uuid,
+  p_inventory_id uuid,
+  p_quantity integer,
+  p_order_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_number text;
+  v_location_id bigint;
+BEGIN
+  SELECT order_number INTO v_order_number FROM orders WHERE id = p_order_id;
+
+  UPDATE inventory
+  SET quantity = quantity - p_quantity,
+      reserved_quantity = GREATEST(reserved_quantity - p_quantity, 0)
+  WHERE id = p_inventory_id
+  RETURNING location_id INTO v_location_id;
+
+  UPDATE order_items
+  SET stock_consumed = true
+  WHERE id = p_order_item_id;
+
+  INSERT INTO inventory_movements (inventory_id, order_id, user_id, movement_type, quantity, notes, location_id)
+  VALUES (
+    p_inventory_id,
+    p_order_id,
+    auth.uid(),
+    'sale',
+    -p_quantity,
+    'Used in order ' || COALESCE(v_order_number, '(no number assigned)'),
+    v_location_id
+  );
+END;
+$$;
+
+-- ============================================================================
+-- Order stage changes
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION handle_order_stage_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_stage_kind text;
+  old_stage_kind text;
+  item record;
+BEGIN
+  SELECT kind INTO new_stage_kind FROM order_stages WHERE id = NEW.stage_id;
+  IF OLD.stage_id IS NOT NULL THEN
+    SELECT kind INTO old_stage_kind FROM order_stages WHERE id = OLD.stage_id;
+  END IF;
+
+  -- Reserve stock once work starts on the order; proposed and declined lines
+  -- are not used in the repair, and parts still on order are reserved when
+  -- the purchase order arrives
+  IF new_stage_kind IN ('in_progress', 'waiting', 'ready', 'closed')
+     AND (old_stage_kind IS NULL OR old_stage_kind NOT IN ('in_progress', 'waiting', 'ready', 'closed')) THEN
+
+    FOR item IN
+      SELECT id, inventory_id, quantity, order_id
+      FROM order_items
+      WHERE order_id = NEW.id
+        AND inventory_id IS NOT NULL
+        AND stock_reserved = false
+        AND approval_status = 'approved'
+        AND purchase_order_item_id IS NULL
+    LOOP
+      PERFORM reserve_inventory_stock(
+        item.id,
+        item.inventory_id,
+        item.quantity,
+        item.order_id
+      );
+    END LOOP;
+  END IF;
+
+  -- The device leaves with the parts in it
+  IF new_stage_kind = 'closed' AND old_stage_kind IS DISTINCT FROM 'closed' THEN
+    FOR item IN
+      SELECT id, inventory_id, quantity, order_id
+      FROM order_items
+      WHERE order_id = NEW.id
+        AND inventory_id IS NOT NULL
+        AND stock_reserved
+        AND NOT stock_consumed
+    LOOP
+      PERFORM consume_inventory_stock(
+        item.id,
+        item.inventory_id,
+        item.quantity,
+        item.order_id
+      );
+    END LOOP;
+  END IF;
+
+  -- Cancelled orders give their reservations back
+  IF new_stage_kind = 'cancelled' AND old_stage_kind IS DISTINCT FROM 'cancelled' THEN
+    FOR item IN
+      SELECT id, inventory_id, quantity, order_id
+      FROM order_items
+      WHERE order_id = NEW.id
+        AND inventory_id IS NOT NULL
+        AND stock_reserved
+        AND NOT stock_consumed
+    LOOP
+      PERFORM return_inventory_stock(item.inventory_id, item.quantity, item.order_id);
+      UPDATE order_items SET stock_reserved = false WHERE id = item.id;
+    END LOOP;
+
+    PERFORM release_requested_parts(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Order line changes
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION handle_order_item_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage_kind text;
+  v_location_id bigint;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.inventory_id IS NOT NULL AND OLD.stock_consumed THEN
+      UPDATE inventory SET quantity = quantity + OLD.quantity WHERE id = OLD.inventory_id
+      RETURNING location_id INTO v_location_id;
+
+      INSERT INTO inventory_movements (inventory_id, order_id, user_id, movement_type, quantity, notes, location_id)
+      VALUES (
+        OLD.inventory_id,
+        OLD.order_id,
+        auth.uid(),
+        'adjustment',
+        OLD.quantity,
+        'Returned from order ' || COALESCE((SELECT order_number FROM orders WHERE id = OLD.order_id), '(no number assigned)'),
+        v_location_id
+      );
+    ELSIF OLD.inventory_id IS NOT NULL AND OLD.stock_reserved THEN
+      PERFORM return_inventory_stock(OLD.inventory_id, OLD.quantity, OLD.order_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.stock_consumed
+       OR (OLD.inventory_id IS NOT DISTINCT FROM NEW.inventory_id AND OLD.quantity IS NOT DISTINCT FROM NEW.quantity) THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.inventory_id IS NOT NULL AND OLD.stock_reserved THEN
+      PERFORM return_inventory_stock(OLD.inventory_id, OLD.quantity, OLD.order_id);
+      NEW.stock_reserved := false;
+    END IF;
+  END IF;
+
+  -- New or changed line on an order that is already being worked on
+  IF NEW.inventory_id IS NOT NULL
+     AND NOT COALESCE(NEW.stock_reserved, false)
+     AND NEW.approval_status = 'approved'
+     AND NEW.purchase_order_item_id IS NULL THEN
+    SELECT s.kind INTO v_stage_kind
+    FROM orders o
+    JOIN order_stages s ON s.id = o.stage_id
+    WHERE o.id = NEW.order_id;
+
+    IF v_stage_kind IN ('in_progress', 'waiting', 'ready') THEN
+      UPDATE inventory
+      SET reserved_quantity = reserved_quantity + NEW.quantity
+      WHERE id = NEW.inventory_id;
+      NEW.stock_reserved := true;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_order_item_stock_trigger ON order_items;
+CREATE TRIGGER handle_order_item_stock_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_order_item_stock();
+
+-- ============================================================================
+-- Order creation checks available stock
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_order_with_items(p_order jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_stage_id uuid;
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_item_id uuid;
+  v_stock record;
+  v_original orders%ROWTYPE;
+  v_assigned_to uuid;
+  v_auto_assigned boolean := false;
+  v_request jsonb;
+BEGIN
+  v_client_id := NULLIF(p_order->>'client_id', '')::uuid;
+
+  IF p_order->>'order_type' = 'warranty_claim' THEN
+    SELECT * INTO v_original FROM orders WHERE id = NULLIF(p_order->>'original_order_id', '')::uuid;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Warranty claim must reference the original order');
+    END IF;
+    v_client_id := COALESCE(v_client_id, v_original.client_id);
+  END IF;
+
+  IF v_client_id IS NULL THEN
+    IF NULLIF(btrim(p_order->'client'->>'full_name'), '') IS NULL
+       OR NULLIF(btrim(p_order->'client'->>'phone'), '') IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Client name and phone are required');
+    END IF;
+  END IF;
+
+  v_stage_id := COALESCE(
+    NULLIF(p_order->>'stage_id', '')::uuid,
+    (SELECT id FROM order_stages ORDER BY position LIMIT 1)
+  );
+
+  IF v_stage_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No order stages found');
+  END IF;
+
+  -- Check stock for every inventory part before anything is written; parts
+  -- requested from the supplier are not taken from stock
+  FOR v_stock IN
+    SELECT
+      i.id,
+      i.part_name,
+      i.available_quantity AS available,
+      req.requested
+    FROM (
+      SELECT (item->>'inventory_id')::uuid AS inventory_id, SUM((item->>'quantity')::integer) AS requested
+      FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb)) AS item
+      WHERE NULLIF(item->>'inventory_id', '') IS NOT NULL
+        AND NOT COALESCE((item->>'request_part')::boolean, false)
+      GROUP BY 1
+    ) req
+    JOIN inventory i ON i.id = req.inventory_id
+    ORDER BY i.id
+    FOR UPDATE OF i
+  LOOP
+    IF v_stock.available < v_stock.requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": available %s, requested %s',
+          v_stock.part_name, v_stock.available, v_stock.requested)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_client_id IS NULL THEN
+    INSERT INTO clients (full_name, phone, email, traffic_source, location_id)
+    VALUES (
+      btrim(p_order->'client'->>'full_name'),
+      btrim(p_order->'client'->>'phone'),
+      NULLIF(btrim(p_order->'client'->>'email'), ''),
+      COALESCE(p_order->'client'->>'traffic_source', 'direct'),
+      (p_order->>'location_id')::bigint
+    )
+    RETURNING id INTO v_client_id;
+  END IF;
+
+  v_assigned_to := NULLIF(p_order->>'assigned_to', '')::uuid;
+  IF v_assigned_to IS NULL THEN
+    v_assigned_to := pick_order_assignee(
+      (p_order->>'location_id')::bigint,
+      NULLIF(p_order->>'repair_type_id', '')::uuid
+    );
+    v_auto_assigned := v_assigned_to IS NOT NULL;
+  END IF;
+
+  INSERT INTO orders (
+    client_id,
+    assigned_to,
+    stage_id,
+    device_type,
+    device_model,
+    device_color,
+    imei,
+    serial_number,
+    issue_description,
+    priority,
+    estimated_cost,
+    due_date,
+    location_id,
+    prepayment,
+    waiting_for_parts,
+    order_type,
+    original_order_id,
+    repair_type_id
+  ) VALUES (
+    v_client_id,
+    COALESCE(v_assigned_to, auth.uid()),
+    v_stage_id,
+    p_order->>'device_type',
+    p_order->>'device_model',
+    p_order->>'device_color',
+    NULLIF(p_order->>'imei', ''),
+    NULLIF(p_order->>'serial_number', ''),
+    p_order->>'issue_description',
+    COALESCE(p_order->>'priority', 'medium'),
+    COALESCE((p_order->>'estimated_cost')::numeric, 0),
+    NULLIF(p_order->>'due_date', '')::timestamptz,
+    (p_order->>'location_id')::bigint,
+    COALESCE((p_order->>'prepayment')::numeric, 0),
+    COALESCE((p_order->>'waiting_for_parts')::boolean, false),
+    COALESCE(NULLIF(p_order->>'order_type', ''), 'repair'),
+    v_original.id,
+    NULLIF(p_order->>'repair_type_id', '')::uuid
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb))
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      item_type,
+      inventory_id,
+      service_id,
+      name,
+      quantity,
+      unit_price,
+      unit_cost,
+      total_price,
+      warranty_months
+    ) VALUES (
+      v_order.id,
+      COALESCE(v_item->>'item_type', 'part'),
+      NULLIF(v_item->>'inventory_id', '')::uuid,
+      NULLIF(v_item->>'service_id', '')::uuid,
+      v_item->>'name',
+      COALESCE((v_item->>'quantity')::integer, 1),
+      COALESCE((v_item->>'unit_price')::numeric, 0),
+      COALESCE((v_item->>'unit_cost')::numeric, 0),
+      COALESCE((v_item->>'total_price')::numeric, 0),
+      COALESCE((v_item->>'warranty_months')::integer, 0)
+    )
+    RETURNING id INTO v_item_id;
+
+    IF COALESCE((v_item->>'request_part')::boolean, false) THEN
+      v_request := request_order_part(v_item_id);
+      IF NOT (v_request->>'success')::boolean THEN
+        RAISE EXCEPTION '%', v_request->>'error';
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_auto_assigned THEN
+    INSERT INTO order_history (order_id, user_id, event_type, description)
+    VALUES (
+      v_order.id,
+      auth.uid(),
+      'assigned',
+      format('Мастер назначен автоматически: %s', (SELECT full_name FROM profiles WHERE id = v_assigned_to))
+    );
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+END;
+$$;
+
+-- ============================================================================
+-- Transfers ship available stock
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION transfer_inventory(p_action text, p_payload jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer stock_transfers%ROWTYPE;
+  v_source inventory%ROWTYPE;
+  v_target_id uuid;
+  v_quantity integer;
+  v_received integer;
+  v_unit_cost numeric;
+  v_result jsonb;
+BEGIN
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF p_action = 'request' THEN
+    v_quantity := (p_payload->>'quantity')::integer;
+
+    SELECT * INTO v_source FROM inventory WHERE id = (p_payload->>'inventory_id')::uuid;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Inventory item not found');
+    END IF;
+
+    IF NOT can_access_location(v_source.location_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'No access to the source location');
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+    END IF;
+
+    IF v_source.location_id = (p_payload->>'destination_location_id')::bigint THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Source and destination must differ');
+    END IF;
+
+    INSERT INTO stock_transfers (
+      source_location_id,
+      destination_location_id,
+      source_inventory_id,
+      part_name,
+      sku,
+      quantity_requested,
+      notes,
+      requested_by
+    ) VALUES (
+      v_source.location_id,
+      (p_payload->>'destination_location_id')::bigint,
+      v_source.id,
+      v_source.part_name,
+      NULLIF(v_source.sku, ''),
+      v_quantity,
+      NULLIF(p_payload->>'notes', ''),
+      auth.uid()
+    )
+    RETURNING * INTO v_transfer;
+
+    -- A failed shipment must not leave the request behind
+    IF COALESCE((p_payload->>'ship_now')::boolean, false) THEN
+      v_result := transfer_inventory('ship', jsonb_build_object('transfer_id', v_transfer.id));
+      IF NOT (v_result->>'success')::boolean THEN
+        RAISE EXCEPTION '%', v_result->>'error';
+      END IF;
+      RETURN v_result;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'transfer_id', v_transfer.id, 'transfer_number', v_transfer.transfer_number);
+  END IF;
+
+  SELECT * INTO v_transfer
+  FROM stock_transfers
+  WHERE id = (p_payload->>'transfer_id')::uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Transfer not found');
+  END IF;
+
+  IF p_action = 'receive' THEN
+    IF NOT can_access_location(v_transfer.destination_location_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'No access to the destination location');
+    END IF;
+  ELSIF NOT can_access_location(v_transfer.source_location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to the source location');
+  END IF;
+
+  IF p_action = 'ship' THEN
+    IF v_transfer.status <> 'requested' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Only requested transfers can be shipped');
+    END IF;
+
+    SELECT * INTO v_source FROM inventory WHERE id = v_transfer.source_inventory_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Source inventory item no longer exists');
+    END IF;
+
+    -- Parts reserved for open orders cannot leave the branch
+    IF v_source.available_quantity < v_transfer.quantity_requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": available %s, requested %s',
+          v_source.part_name, v_source.available_quantity, v_transfer.quantity_requested)
+      );
+    END IF;
+
+    UPDATE inventory
+    SET quantity = quantity - v_transfer.quantity_requested
+    WHERE id = v_source.id;
+
+    -- The stored cost is what the stock cost when it left the source
+    INSERT INTO inventory_movements (
+      inventory_id, user_id, movement_type, quantity, cost_per_unit, location_id, destination_location_id, notes
+    ) VALUES (
+      v_source.id, auth.uid(), 'transfer', -v_transfer.quantity_requested, COALESCE(v_source.unit_cost, 0),
+      v_transfer.source_location_id, v_transfer.destination_location_id,
+      'Transfer ' || v_transfer.transfer_number || ' shipped'
+    )
+    RETURNING cost_per_unit INTO v_unit_cost;
+
+    UPDATE stock_transfers
+    SET status = 'shipped',
+        quantity_shipped = v_transfer.quantity_requested,
+        unit_cost = v_unit_cost,
+        shipped_by = auth.uid(),
+        shipped_at = now()
+    WHERE id = v_transfer.id;
+
+  ELSIF p_action = 'receive' THEN
+    IF v_transfer.status <> 'shipped' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Only shipped transfers can be received');
+    END IF;
+
+    v_received := COALESCE((p_payload->>'quantity_received')::integer, v_transfer.quantity_shipped);
+    IF v_received < 0 OR v_received > v_transfer.quantity_shipped THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Received quantity must be between 0 and %s', v_transfer.quantity_shipped)
+      );
+    END IF;
+
+    SELECT * INTO v_source FROM inventory WHERE id = v_transfer.source_inventory_id;
+
+    -- Match the destination item by SKU, then by name; create it if missing
+    SELECT id INTO v_target_id
+    FROM inventory
+    WHERE location_id = v_transfer.destination_location_id
+      AND (
+        (v_transfer.sku IS NOT NULL AND sku = v_transfer.sku)
+        OR (v_transfer.sku IS NULL AND part_name = v_transfer.part_name)
+      )
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_target_id IS NULL THEN
+      INSERT INTO inventory (
+        part_name, sku, barcode, quantity, unit_cost, location, min_quantity, supplier_id, location_id
+      ) VALUES (
+        v_transfer.part_name,
+        v_transfer.sku,
+        v_source.barcode,
+        0,
+        COALESCE(v_transfer.unit_cost, v_source.unit_cost, 0),
+        v_source.location,
+        COALESCE(v_source.min_quantity, 0),
+        v_source.supplier_id,
+        v_transfer.destination_location_id
+      )
+      RETURNING id INTO v_target_id;
+    END IF;
+
+    IF v_received > 0 THEN
+      UPDATE inventory
+      SET quantity = quantity + v_received
+      WHERE id = v_target_id;
+
+      INSERT INTO inventory_movements (
+        inventory_id, user_id, movement_type, quantity, cost_per_unit, location_id, notes
+      ) VALUES (
+        v_target_id, auth.uid(), 'transfer', v_received, v_transfer.unit_cost,
+        v_transfer.destination_location_id,
+        'Transfer ' || v_transfer.transfer_number || ' received'
+      );
+    END IF;
+
+    UPDATE stock_transfers
+    SET status = 'received',
+        destination_inventory_id = v_target_id,
+        quantity_received = v_received,
+        discrepancy = v_transfer.quantity_shipped - v_received,
+        discrepancy_notes = NULLIF(p_payload->>'discrepancy_notes', ''),
+        received_by = auth.uid(),
+        received_at = now()
+    WHERE id = v_transfer.id;
+
+  ELSIF p_action = 'cancel' THEN
+    IF v_transfer.status NOT IN ('requested', 'shipped') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Transfer can no longer be cancelled');
+    END IF;
+
+    IF v_transfer.status = 'shipped' AND v_transfer.source_inventory_id IS NOT NULL THEN
+      UPDATE inventory
+      SET quantity = quantity + v_transfer.quantity_shipped
+      WHERE id = v_transfer.source_inventory_id;
+
+      INSERT INTO inventory_movements (
+        inventory_id, user_id, movement_type, quantity, cost_per_unit, location_id, notes
+      ) VALUES (
+        v_transfer.source_inventory_id, auth.uid(), 'transfer', v_transfer.quantity_shipped, v_transfer.unit_cost,
+        v_transfer.source_location_id,
+        'Transfer ' || v_transfer.transfer_number || ' cancelled, stock returned'
+      );
+    END IF;
+
+    UPDATE stock_transfers
+    SET status = 'cancelled',
+        cancelled_by = auth.uid(),
+        cancelled_at = now()
+    WHERE id = v_transfer.id;
+
+  ELSE
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown action: ' || p_action);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'transfer_id', v_transfer.id, 'transfer_number', v_transfer.transfer_number);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION transfer_inventory(text, jsonb) TO authenticated;
+
+COMMENT ON COLUMN inventory.quantity IS 'On hand: physically in stock, including parts reserved for open orders';
+COMMENT ON COLUMN inventory.reserved_quantity IS 'Reserved for open orders, consumed when the order is closed';
+COMMENT ON COLUMN inventory.available_quantity IS 'On hand minus reserved';
+COMMENT ON COLUMN order_items.stock_consumed IS 'The reserved part was taken off stock when the order was closed';
+COMMENT ON FUNCTION consume_inventory_stock(uuid, uuid, integer, uuid) IS 'Takes a reserved order line off on-hand stock';
@@ -0,0 +1,851 @@
+/*
+  # Serialized Inventory Units
+
+  ## Overview
+  Used phones and expensive boards are bought and sold one by one, each with
+  its own IMEI or serial number, condition and purchase price. An inventory
+  item marked `is_serialized` keeps one `inventory_units` row per physical
+  unit; the unit has to be picked explicitly when it is added to an order or
+  a counter sale. Every status change is written to `inventory_unit_events`
+  so the full history of a unit can be traced.
+
+  Quantities are still kept on `inventory`: units only say which pieces the
+  quantity consists of.
+
+  ## New Tables
+    - `inventory_units`
+      - `inventory_id` (uuid, FK inventory)
+      - `location_id` (bigint, FK locations): copied from the inventory item
+      - `imei` (text, unique), `serial_number` (text, unique per item)
+      - `grade` (text): 'new' | 'a' | 'b' | 'c' | 'parts'
+      - `cost` (numeric): purchase price of this unit
+      - `status` (text): 'in_stock' | 'reserved' | 'sold' | 'in_repair'
+      - `order_item_id` / `sale_item_id`: the line holding or selling the unit
+    - `inventory_unit_events`: unit history (status, order, sale, user, note)
+
+  ## Changes
+    - `inventory.is_serialized` (boolean)
+    - `order_items.inventory_unit_id`, `sale_items.inventory_unit_id` (uuid, FK
+      inventory_units); a line with a unit always has quantity 1
+    - A unit is reserved as soon as its order line is created, sold when the
+      order is closed and back in stock when the line is removed, declined or
+      the order is cancelled; a released unit is unlinked from the line
+    - `create_order_with_items` and `create_sale` accept `inventory_unit_id` per
+      line; `create_sale` now checks available rather than on-hand stock
+    - `create_order_with_items` requires staff with access to the order's
+      location; the assignee and the original order of a warranty claim must
+      belong to a location the caller can access
+
+  ## Functions
+    - `add_inventory_unit(p_unit jsonb)`: registers a unit, optionally receiving
+      it into stock (+1 quantity and a 'purchase' movement)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory' AND column_name = 'is_serialized'
+  ) THEN
+    ALTER TABLE inventory ADD COLUMN is_serialized boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS inventory_units (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  inventory_id uuid NOT NULL REFERENCES inventory(id) ON DELETE CASCADE,
+  location_id bigint REFERENCES locations(id),
+  imei text,
+  serial_number text,
+  grade text NOT NULL DEFAULT 'new' CHECK (grade IN ('new', 'a', 'b', 'c', 'parts')),
+  cost numeric NOT NULL DEFAULT 0 CHECK (cost >= 0),
+  status text NOT NULL DEFAULT 'in_stock' CHECK (status IN ('in_stock', 'reserved', 'sold', 'in_repair')),
+  order_item_id uuid REFERENCES order_items(id) ON DELETE SET NULL,
+  sale_item_id uuid REFERENCES sale_items(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (imei IS NOT NULL OR serial_number IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_units_imei ON inventory_units(imei) WHERE imei IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_units_serial ON inventory_units(inventory_id, serial_number) WHERE serial_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_units_inventory_status ON inventory_units(inventory_id, status);
+
+CREATE TABLE IF NOT EXISTS inventory_unit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  unit_id uuid NOT NULL REFERENCES inventory_units(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  status text,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  sale_id uuid REFERENCES sales(id) ON DELETE SET NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_unit_events_unit ON inventory_unit_events(unit_id, created_at);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'inventory_unit_id'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN inventory_unit_id uuid REFERENCES inventory_units(id) ON DELETE SET NULL;
+    ALTER TABLE order_items ADD CONSTRAINT order_items_unit_quantity_check CHECK (inventory_unit_id IS NULL OR quantity = 1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sale_items' AND column_name = 'inventory_unit_id'
+  ) THEN
+    ALTER TABLE sale_items ADD COLUMN inventory_unit_id uuid REFERENCES inventory_units(id) ON DELETE SET NULL;
+    ALTER TABLE sale_items ADD CONSTRAINT sale_items_unit_quantity_check CHECK (inventory_unit_id IS NULL OR quantity = 1);
+  END IF;
+END $$;
+
+ALTER TABLE inventory_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_unit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "inventory_units_select" ON inventory_units FOR SELECT TO authenticated USING ((SELECT can_access_location(location_id)));
+CREATE POLICY "inventory_units_insert" ON inventory_units FOR INSERT TO authenticated WITH CHECK ((SELECT is_staff()) AND (SELECT can_access_location(location_id)));
+CREATE POLICY "inventory_units_update" ON inventory_units FOR UPDATE TO authenticated USING ((SELECT can_access_location(location_id))) WITH CHECK ((SELECT can_access_location(location_id)));
+CREATE POLICY "inventory_units_delete" ON inventory_units FOR DELETE TO authenticated USING ((SELECT is_admin_or_owner()));
+
+CREATE POLICY "inventory_unit_events_select" ON inventory_unit_events FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM inventory_units u WHERE u.id = unit_id AND (SELECT can_access_location(u.location_id))));
+
+-- ============================================================================
+-- Unit bookkeeping
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_inventory_unit_defaults()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.imei := NULLIF(btrim(NEW.imei), '');
+  NEW.serial_number := NULLIF(upper(btrim(NEW.serial_number)), '');
+  NEW.updated_at := now();
+
+  IF TG_OP = 'INSERT' OR NEW.inventory_id IS DISTINCT FROM OLD.inventory_id THEN
+    SELECT location_id INTO NEW.location_id FROM inventory WHERE id = NEW.inventory_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_inventory_unit_defaults ON inventory_units;
+CREATE TRIGGER trigger_set_inventory_unit_defaults
+  BEFORE INSERT OR UPDATE ON inventory_units
+  FOR EACH ROW
+  EXECUTE FUNCTION set_inventory_unit_defaults();
+
+CREATE OR REPLACE FUNCTION log_inventory_unit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_sale_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO inventory_unit_events (unit_id, event_type, status, notes)
+    VALUES (NEW.id, 'received', NEW.status, format('Себестоимость €%s', NEW.cost));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.order_item_id IS DISTINCT FROM OLD.order_item_id
+     OR NEW.sale_item_id IS DISTINCT FROM OLD.sale_item_id THEN
+    SELECT order_id INTO v_order_id FROM order_items WHERE id = COALESCE(NEW.order_item_id, OLD.order_item_id);
+    SELECT sale_id INTO v_sale_id FROM sale_items WHERE id = COALESCE(NEW.sale_item_id, OLD.sale_item_id);
+
+    INSERT INTO inventory_unit_events (unit_id, event_type, status, order_id, sale_id)
+    VALUES (NEW.id, 'status_change', NEW.status, v_order_id, v_sale_id);
+  END IF;
+
+  IF NEW.grade IS DISTINCT FROM OLD.grade OR NEW.cost IS DISTINCT FROM OLD.cost THEN
+    INSERT INTO inventory_unit_events (unit_id, event_type, status, notes)
+    VALUES (
+      NEW.id,
+      'updated',
+      NEW.status,
+      format('Состояние %s → %s, себестоимость €%s → €%s', OLD.grade, NEW.grade, OLD.cost, NEW.cost)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_inventory_unit_event ON inventory_units;
+CREATE TRIGGER trigger_log_inventory_unit_event
+  AFTER INSERT OR UPDATE ON inventory_units
+  FOR EACH ROW
+  EXECUTE FUNCTION log_inventory_unit_event();
+
+-- ============================================================================
+-- Units on order lines
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_order_item_unit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_unit inventory_units%ROWTYPE;
+  v_stage_kind text;
+  v_status text;
+BEGIN
+  -- Line removed or switched to another unit: the old unit goes back on the shelf
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.inventory_unit_id IS NOT NULL
+     AND (TG_OP = 'DELETE' OR NEW.inventory_unit_id IS DISTINCT FROM OLD.inventory_unit_id) THEN
+    UPDATE inventory_units
+    SET status = 'in_stock', order_item_id = NULL
+    WHERE id = OLD.inventory_unit_id AND order_item_id = OLD.id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.inventory_unit_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_unit FROM inventory_units WHERE id = NEW.inventory_unit_id FOR UPDATE;
+
+  IF TG_OP = 'INSERT' OR NEW.inventory_unit_id IS DISTINCT FROM OLD.inventory_unit_id THEN
+    IF v_unit.inventory_id IS DISTINCT FROM NEW.inventory_id THEN
+      RAISE EXCEPTION 'Unit does not belong to the selected inventory item';
+    END IF;
+    IF v_unit.status <> 'in_stock' THEN
+      RAISE EXCEPTION 'Unit % is not in stock', COALESCE(v_unit.imei, v_unit.serial_number);
+    END IF;
+  END IF;
+
+  SELECT s.kind INTO v_stage_kind
+  FROM orders o
+  JOIN order_stages s ON s.id = o.stage_id
+  WHERE o.id = NEW.order_id;
+
+  -- The unit has moved on to another line; this one must not take it back
+  IF v_unit.order_item_id IS NOT NULL AND v_unit.order_item_id <> NEW.id THEN
+    RETURN NEW;
+  END IF;
+
+  v_status := CASE
+    WHEN NEW.stock_consumed THEN 'sold'
+    WHEN v_stage_kind = 'cancelled' OR NEW.approval_status = 'declined' THEN 'in_stock'
+    ELSE 'reserved'
+  END;
+
+  IF v_unit.status IS DISTINCT FROM v_status OR v_unit.order_item_id IS DISTINCT FROM NEW.id THEN
+    UPDATE inventory_units
+    SET status = v_status,
+        order_item_id = CASE WHEN v_status = 'in_stock' THEN NULL ELSE NEW.id END
+    WHERE id = v_unit.id;
+  END IF;
+
+  -- A released unit is no longer part of the line
+  IF v_status = 'in_stock' THEN
+    UPDATE order_items SET inventory_unit_id = NULL WHERE id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_order_item_unit ON order_items;
+CREATE TRIGGER trigger_sync_order_item_unit
+  AFTER INSERT OR UPDATE OR DELETE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_item_unit();
+
+CREATE OR REPLACE FUNCTION release_cancelled_order_units()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM order_stages WHERE id = NEW.stage_id AND kind = 'cancelled') THEN
+    UPDATE inventory_units
+    SET status = 'in_stock', order_item_id = NULL
+    WHERE status = 'reserved'
+      AND order_item_id IN (SELECT id FROM order_items WHERE order_id = NEW.id);
+
+    UPDATE order_items
+    SET inventory_unit_id = NULL
+    WHERE order_id = NEW.id
+      AND inventory_unit_id IS NOT NULL
+      AND NOT stock_consumed;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_release_cancelled_order_units ON orders;
+CREATE TRIGGER trigger_release_cancelled_order_units
+  AFTER UPDATE OF stage_id ON orders
+  FOR EACH ROW
+  WHEN (OLD.stage_id IS DISTINCT FROM NEW.stage_id)
+  EXECUTE FUNCTION release_cancelled_order_units();
+
+-- ============================================================================
+-- Registering units
+-- ============================================================================
+
+/*
+  Expected payload:
+  {
+    "inventory_id": "uuid",
+    "imei": "text" | null,
+    "serial_number": "text" | null,
+    "grade": "new" | "a" | "b" | "c" | "parts",
+    "cost": 120,
+    "notes": "text" | null,
+    "add_to_stock": true
+  }
+*/
+CREATE OR REPLACE FUNCTION add_inventory_unit(p_unit jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item inventory%ROWTYPE;
+  v_unit inventory_units%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item FROM inventory WHERE id = NULLIF(p_unit->>'inventory_id', '')::uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Inventory item not found');
+  END IF;
+
+  IF NOT can_access_location(v_item.location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF NULLIF(btrim(p_unit->>'imei'), '') IS NULL AND NULLIF(btrim(p_unit->>'serial_number'), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'IMEI or serial number is required');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM inventory_units WHERE imei = NULLIF(btrim(p_unit->>'imei'), '')) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A unit with this IMEI already exists');
+  END IF;
+
+  INSERT INTO inventory_units (inventory_id, imei, serial_number, grade, cost, notes)
+  VALUES (
+    v_item.id,
+    p_unit->>'imei',
+    p_unit->>'serial_number',
+    COALESCE(NULLIF(p_unit->>'grade', ''), 'new'),
+    COALESCE((p_unit->>'cost')::numeric, v_item.unit_cost, 0),
+    NULLIF(btrim(p_unit->>'notes'), '')
+  )
+  RETURNING * INTO v_unit;
+
+  UPDATE inventory SET is_serialized = true WHERE id = v_item.id AND NOT is_serialized;
+
+  IF COALESCE((p_unit->>'add_to_stock')::boolean, true) THEN
+    UPDATE inventory SET quantity = quantity + 1 WHERE id = v_item.id;
+
+    INSERT INTO inventory_movements (inventory_id, user_id, movement_type, quantity, cost_per_unit, notes, location_id)
+    VALUES (
+      v_item.id,
+      auth.uid(),
+      'purchase',
+      1,
+      v_unit.cost,
+      'Unit ' || COALESCE(v_unit.imei, v_unit.serial_number),
+      v_item.location_id
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'unit', to_jsonb(v_unit));
+END;
+$$;
+
+-- ============================================================================
+-- Counter sales with units
+-- ============================================================================
+
+/*
+  Expected payload:
+  {
+    "location_id": 1,
+    "client_id": "uuid" | null,
+    "customer_name": "text" | null,
+    "payment_method": "cash" | "bank" | "bs_cash",
+    "notes": "text" | null,
+    "items": [
+      { "inventory_id": "uuid", "inventory_unit_id": "uuid" | null, "quantity": 1,
+        "unit_price": 10, "discount_type": "percent", "discount_value": 0 }
+    ]
+  }
+*/
+CREATE OR REPLACE FUNCTION create_sale(p_sale jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id uuid;
+  v_sale_number text;
+  v_sale_item_id uuid;
+  v_location_id bigint;
+  v_item jsonb;
+  v_inventory RECORD;
+  v_unit inventory_units%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_unit_cost numeric;
+  v_discount_type text;
+  v_discount_value numeric;
+  v_line_subtotal numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_discount numeric := 0;
+  v_total_cost numeric := 0;
+  v_stock record;
+BEGIN
+  v_location_id := (p_sale->>'location_id')::bigint;
+
+  IF v_location_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Location is required');
+  END IF;
+
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF NOT can_access_location(v_location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_sale->'items', '[]'::jsonb)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Sale must contain at least one item');
+  END IF;
+
+  -- Validate every line before writing anything
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_sale->'items')
+  LOOP
+    v_quantity := COALESCE((v_item->>'quantity')::integer, 0);
+
+    IF v_quantity <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+    END IF;
+
+    IF COALESCE(v_item->>'discount_type', 'percent') = 'percent'
+       AND COALESCE((v_item->>'discount_value')::numeric, 0) > 100 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Percent discount cannot exceed 100');
+    END IF;
+
+    SELECT id, part_name, location_id, is_serialized INTO v_inventory
+    FROM inventory
+    WHERE id = (v_item->>'inventory_id')::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Inventory item not found');
+    END IF;
+
+    IF v_inventory.location_id IS DISTINCT FROM v_location_id THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('"%s" is not stocked at this location', v_inventory.part_name)
+      );
+    END IF;
+
+    IF v_inventory.is_serialized THEN
+      SELECT * INTO v_unit
+      FROM inventory_units
+      WHERE id = NULLIF(v_item->>'inventory_unit_id', '')::uuid
+        AND inventory_id = v_inventory.id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', format('Select the unit of "%s" being sold', v_inventory.part_name));
+      END IF;
+
+      IF v_unit.status <> 'in_stock' OR v_quantity <> 1 THEN
+        RETURN jsonb_build_object(
+          'success', false,
+          'error', format('Unit %s is not in stock', COALESCE(v_unit.imei, v_unit.serial_number))
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Lines of the same item draw on the same stock, so check the summed quantity
+  FOR v_stock IN
+    SELECT
+      i.id,
+      i.part_name,
+      i.available_quantity AS available,
+      req.requested
+    FROM (
+      SELECT (item->>'inventory_id')::uuid AS inventory_id, SUM((item->>'quantity')::integer) AS requested
+      FROM jsonb_array_elements(p_sale->'items') AS item
+      GROUP BY 1
+    ) req
+    JOIN inventory i ON i.id = req.inventory_id
+    ORDER BY i.id
+    FOR UPDATE OF i
+  LOOP
+    IF v_stock.available < v_stock.requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": %s available, %s requested',
+                        v_stock.part_name, v_stock.available, v_stock.requested)
+      );
+    END IF;
+  END LOOP;
+
+  INSERT INTO sales (
+    location_id,
+    client_id,
+    customer_name,
+    payment_method,
+    notes,
+    created_by
+  ) VALUES (
+    v_location_id,
+    NULLIF(p_sale->>'client_id', '')::uuid,
+    NULLIF(p_sale->>'customer_name', ''),
+    COALESCE(p_sale->>'payment_method', 'cash'),
+    NULLIF(p_sale->>'notes', ''),
+    auth.uid()
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_sale->'items')
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := COALESCE((v_item->>'unit_price')::numeric, 0);
+    v_discount_type := COALESCE(v_item->>'discount_type', 'percent');
+    v_discount_value := COALESCE((v_item->>'discount_value')::numeric, 0);
+
+    SELECT id, part_name, unit_cost INTO v_inventory
+    FROM inventory
+    WHERE id = (v_item->>'inventory_id')::uuid;
+
+    v_unit := NULL;
+    IF NULLIF(v_item->>'inventory_unit_id', '') IS NOT NULL THEN
+      SELECT * INTO v_unit FROM inventory_units WHERE id = (v_item->>'inventory_unit_id')::uuid;
+    END IF;
+    v_unit_cost := COALESCE(v_unit.cost, v_inventory.unit_cost, 0);
+
+    v_line_subtotal := v_unit_price * v_quantity;
+    v_line_discount := CASE
+      WHEN v_discount_type = 'percent' THEN v_line_subtotal * v_discount_value / 100
+      ELSE LEAST(v_discount_value, v_line_subtotal)
+    END;
+
+    INSERT INTO sale_items (
+      sale_id,
+      inventory_id,
+      inventory_unit_id,
+      name,
+      quantity,
+      unit_price,
+      unit_cost,
+      discount_type,
+      discount_value,
+      total_price
+    ) VALUES (
+      v_sale_id,
+      v_inventory.id,
+      v_unit.id,
+      v_inventory.part_name || COALESCE(' (' || COALESCE(v_unit.imei, v_unit.serial_number) || ')', ''),
+      v_quantity,
+      v_unit_price,
+      v_unit_cost,
+      v_discount_type,
+      v_discount_value,
+      v_line_subtotal - v_line_discount
+    )
+    RETURNING id INTO v_sale_item_id;
+
+    IF v_unit.id IS NOT NULL THEN
+      UPDATE inventory_units
+      SET status = 'sold', sale_item_id = v_sale_item_id
+      WHERE id = v_unit.id;
+    END IF;
+
+    UPDATE inventory
+    SET quantity = quantity - v_quantity
+    WHERE id = v_inventory.id;
+
+    INSERT INTO inventory_movements (
+      inventory_id,
+      sale_id,
+      user_id,
+      movement_type,
+      quantity,
+      notes,
+      location_id
+    ) VALUES (
+      v_inventory.id,
+      v_sale_id,
+      auth.uid(),
+      'sale',
+      -v_quantity,
+      'Counter sale ' || v_sale_number,
+      v_location_id
+    );
+
+    v_subtotal := v_subtotal + v_line_subtotal;
+    v_total_discount := v_total_discount + v_line_discount;
+    v_total_cost := v_total_cost + v_unit_cost * v_quantity;
+  END LOOP;
+
+  UPDATE sales
+  SET
+    subtotal = v_subtotal,
+    total_discount = v_total_discount,
+    total_amount = v_subtotal - v_total_discount,
+    total_cost = v_total_cost
+  WHERE id = v_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'sale_id', v_sale_id,
+    'sale_number', v_sale_number,
+    'total_amount', v_subtotal - v_total_discount
+  );
+END;
+$$;
+
+-- ============================================================================
+-- Order creation with units
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_order_with_items(p_order jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client_id uuid;
+  v_stage_id uuid;
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_item_id uuid;
+  v_stock record;
+  v_original orders%ROWTYPE;
+  v_assigned_to uuid;
+  v_auto_assigned boolean := false;
+  v_request jsonb;
+  v_assignee_location_id bigint;
+BEGIN
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF NOT can_access_location((p_order->>'location_id')::bigint) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  v_client_id := NULLIF(p_order->>'client_id', '')::uuid;
+
+  IF p_order->>'order_type' = 'warranty_claim' THEN
+    SELECT * INTO v_original FROM orders WHERE id = NULLIF(p_order->>'original_order_id', '')::uuid;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Warranty claim must reference the original order');
+    END IF;
+    IF NOT can_access_location(v_original.location_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'No access to the original order');
+    END IF;
+    v_client_id := COALESCE(v_client_id, v_original.client_id);
+  END IF;
+
+  v_assigned_to := NULLIF(p_order->>'assigned_to', '')::uuid;
+  IF v_assigned_to IS NOT NULL THEN
+    SELECT location_id INTO v_assignee_location_id FROM profiles WHERE id = v_assigned_to;
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Assigned employee not found');
+    END IF;
+    -- Admins and owners without a branch can be assigned anywhere
+    IF v_assignee_location_id IS NOT NULL AND NOT can_access_location(v_assignee_location_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Assigned employee belongs to another location');
+    END IF;
+  END IF;
+
+  IF v_client_id IS NULL THEN
+    IF NULLIF(btrim(p_order->'client'->>'full_name'), '') IS NULL
+       OR NULLIF(btrim(p_order->'client'->>'phone'), '') IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Client name and phone are required');
+    END IF;
+  END IF;
+
+  v_stage_id := COALESCE(
+    NULLIF(p_order->>'stage_id', '')::uuid,
+    (SELECT id FROM order_stages ORDER BY position LIMIT 1)
+  );
+
+  IF v_stage_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No order stages found');
+  END IF;
+
+  -- Check stock for every inventory part before anything is written; parts
+  -- requested from the supplier are not taken from stock
+  FOR v_stock IN
+    SELECT
+      i.id,
+      i.part_name,
+      i.available_quantity AS available,
+      req.requested
+    FROM (
+      SELECT (item->>'inventory_id')::uuid AS inventory_id, SUM((item->>'quantity')::integer) AS requested
+      FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb)) AS item
+      WHERE NULLIF(item->>'inventory_id', '') IS NOT NULL
+        AND NOT COALESCE((item->>'request_part')::boolean, false)
+      GROUP BY 1
+    ) req
+    JOIN inventory i ON i.id = req.inventory_id
+    ORDER BY i.id
+    FOR UPDATE OF i
+  LOOP
+    IF v_stock.available < v_stock.requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": available %s, requested %s',
+          v_stock.part_name, v_stock.available, v_stock.requested)
+      );
+    END IF;
+  END LOOP;
+
+  IF v_client_id IS NULL THEN
+    INSERT INTO clients (full_name, phone, email, traffic_source, location_id)
+    VALUES (
+      btrim(p_order->'client'->>'full_name'),
+      btrim(p_order->'client'->>'phone'),
+      NULLIF(btrim(p_order->'client'->>'email'), ''),
+      COALESCE(p_order->'client'->>'traffic_source', 'direct'),
+      (p_order->>'location_id')::bigint
+    )
+    RETURNING id INTO v_client_id;
+  END IF;
+
+  IF v_assigned_to IS NULL THEN
+    v_assigned_to := pick_order_assignee(
+      (p_order->>'location_id')::bigint,
+      NULLIF(p_order->>'repair_type_id', '')::uuid
+    );
+    v_auto_assigned := v_assigned_to IS NOT NULL;
+  END IF;
+
+  INSERT INTO orders (
+    client_id,
+    assigned_to,
+    stage_id,
+    device_type,
+    device_model,
+    device_color,
+    imei,
+    serial_number,
+    issue_description,
+    priority,
+    estimated_cost,
+    due_date,
+    location_id,
+    prepayment,
+    waiting_for_parts,
+    order_type,
+    original_order_id,
+    repair_type_id
+  ) VALUES (
+    v_client_id,
+    COALESCE(v_assigned_to, auth.uid()),
+    v_stage_id,
+    p_order->>'device_type',
+    p_order->>'device_model',
+    p_order->>'device_color',
+    NULLIF(p_order->>'imei', ''),
+    NULLIF(p_order->>'serial_number', ''),
+    p_order->>'issue_description',
+    COALESCE(p_order->>'priority', 'medium'),
+    COALESCE((p_order->>'estimated_cost')::numeric, 0),
+    NULLIF(p_order->>'due_date', '')::timestamptz,
+    (p_order->>'location_id')::bigint,
+    COALESCE((p_order->>'prepayment')::numeric, 0),
+    COALESCE((p_order->>'waiting_for_parts')::boolean, false),
+    COALESCE(NULLIF(p_order->>'order_type', ''), 'repair'),
+    v_original.id,
+    NULLIF(p_order->>'repair_type_id', '')::uuid
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_order->'items', '[]'::jsonb))
+  LOOP
+    INSERT INTO order_items (
+      order_id,
+      item_type,
+      inventory_id,
+      inventory_unit_id,
+      service_id,
+      name,
+      quantity,
+      unit_price,
+      unit_cost,
+      total_price,
+      warranty_months
+    ) VALUES (
+      v_order.id,
+      COALESCE(v_item->>'item_type', 'part'),
+      NULLIF(v_item->>'inventory_id', '')::uuid,
+      NULLIF(v_item->>'inventory_unit_id', '')::uuid,
+      NULLIF(v_item->>'service_id', '')::uuid,
+      v_item->>'name',
+      COALESCE((v_item->>'quantity')::integer, 1),
+      COALESCE((v_item->>'unit_price')::numeric, 0),
+      COALESCE((v_item->>'unit_cost')::numeric, 0),
+      COALESCE((v_item->>'total_price')::numeric, 0),
+      COALESCE((v_item->>'warranty_months')::integer, 0)
+    )
+    RETURNING id INTO v_item_id;
+
+    IF COALESCE((v_item->>'request_part')::boolean, false) THEN
+      v_request := request_order_part(v_item_id);
+      IF NOT (v_request->>'success')::boolean THEN
+        RAISE EXCEPTION '%', v_request->>'error';
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_auto_assigned THEN
+    INSERT INTO order_history (order_id, user_id, event_type, description)
+    VALUES (
+      v_order.id,
+      auth.uid(),
+      'assigned',
+      format('Мастер назначен автоматически: %s', (SELECT full_name FROM profiles WHERE id = v_assigned_to))
+    );
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION add_inventory_unit(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_sale(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(jsonb) TO authenticated;
+
+COMMENT ON TABLE inventory_units IS 'One row per physical unit of a serialized inventory item';
+COMMENT ON TABLE inventory_unit_events IS 'Status history of inventory units, written by trigger';
+COMMENT ON COLUMN inventory.is_serialized IS 'Units must be picked by IMEI/serial when the item is used in an order or sale';
+COMMENT ON FUNCTION add_inventory_unit(jsonb) IS 'Registers a serialized unit and optionally receives it into stock';
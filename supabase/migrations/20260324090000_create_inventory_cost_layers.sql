@@ -0,0 +1,610 @@
+/*
+  # Inventory Cost Layers
+
+  ## Overview
+  Receiving stock used to overwrite `inventory.unit_cost` with the latest
+  purchase price, so order profit was calculated with whatever the last price
+  happened to be. Every receipt now opens a cost layer (quantity and unit cost),
+  and every outgoing movement draws the layers down oldest first. The cost of
+  goods that left the shelf depends on the costing method:
+    - FIFO: the cost of the layers that were drawn down
+    - weighted average: the moving average cost of the item at that moment
+
+  ## New Tables
+    - `inventory_cost_layers`
+      - `inventory_id` (uuid, FK inventory)
+      - `movement_id` (uuid, FK inventory_movements): receipt that opened the layer
+      - `source` (text): movement type of the receipt, 'opening' for stock that
+        was on hand when layers were introduced
+      - `quantity` (integer): received quantity
+      - `quantity_remaining` (integer): not yet drawn down
+      - `unit_cost` (numeric)
+
+  ## Settings
+    - `system_settings.inventory_costing` = { method: 'fifo' | 'weighted_average' }
+
+  ## Changes
+    - Positive movements ('purchase', 'incoming', returns, transfers in) open a
+      layer at `cost_per_unit`, or at the current unit cost when none is given.
+      Transfers in carry the cost consumed at the source (`stock_transfers.unit_cost`)
+    - Negative movements consume layers and store the resulting cost in
+      `inventory_movements.cost_per_unit`
+    - `inventory.unit_cost` is maintained from the layers: the average of the
+      remaining layers under FIFO, the moving average under weighted average
+    - Stock on hand gets an 'opening' layer at its current unit cost
+
+  ## Functions
+    - `get_costing_method()`
+    - `consume_cost_layers(p_inventory_id, p_quantity)`: draws layers down, returns the unit cost
+    - `consume_inventory_stock`: `order_items.cost_price` comes from the consumed layers
+    - `create_sale`: `sale_items.unit_cost` comes from the consumed layers
+    - `get_inventory_valuation(p_location_id)`: stock value of a location by the costing method
+
+  Serialized units keep their own cost on order and sale lines; their layers are
+  still drawn down so quantities stay in step.
+*/
+
+CREATE TABLE IF NOT EXISTS inventory_cost_layers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  inventory_id uuid NOT NULL REFERENCES inventory(id) ON DELETE CASCADE,
+  movement_id uuid REFERENCES inventory_movements(id) ON DELETE SET NULL,
+  source text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  quantity_remaining integer NOT NULL CHECK (quantity_remaining >= 0),
+  unit_cost numeric(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (quantity_remaining <= quantity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_cost_layers_open
+  ON inventory_cost_layers(inventory_id, created_at)
+  WHERE quantity_remaining > 0;
+
+ALTER TABLE inventory_cost_layers ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the movement triggers
+CREATE POLICY "inventory_cost_layers_select" ON inventory_cost_layers FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM inventory i
+    WHERE i.id = inventory_cost_layers.inventory_id
+      AND (SELECT can_access_location(i.location_id))
+  ));
+
+INSERT INTO system_settings (key, value, category, description)
+VALUES ('inventory_costing', '{"method": "fifo"}'::jsonb, 'finance', 'Метод оценки себестоимости склада')
+ON CONFLICT (key) DO NOTHING;
+
+-- Stock already on hand starts as a single layer at the current unit cost
+INSERT INTO inventory_cost_layers (inventory_id, source, quantity, quantity_remaining, unit_cost)
+SELECT i.id, 'opening', i.quantity, i.quantity, COALESCE(i.unit_cost, 0)
+FROM inventory i
+WHERE i.quantity > 0
+  AND NOT EXISTS (SELECT 1 FROM inventory_cost_layers l WHERE l.inventory_id = i.id);
+
+-- ============================================================================
+-- Layers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_costing_method()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT value->>'method' FROM system_settings WHERE key = 'inventory_costing'),
+    'fifo'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION consume_cost_layers(p_inventory_id uuid, p_quantity integer)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_layer record;
+  v_left integer := p_quantity;
+  v_take integer;
+  v_total numeric := 0;
+  v_current_cost numeric;
+BEGIN
+  SELECT COALESCE(unit_cost, 0) INTO v_current_cost FROM inventory WHERE id = p_inventory_id;
+
+  IF p_quantity <= 0 THEN
+    RETURN v_current_cost;
+  END IF;
+
+  FOR v_layer IN
+    SELECT id, quantity_remaining, unit_cost
+    FROM inventory_cost_layers
+    WHERE inventory_id = p_inventory_id AND quantity_remaining > 0
+    ORDER BY created_at, id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left = 0;
+    v_take := LEAST(v_layer.quantity_remaining, v_left);
+
+    UPDATE inventory_cost_layers
+    SET quantity_remaining = quantity_remaining - v_take
+    WHERE id = v_layer.id;
+
+    v_total := v_total + v_take * v_layer.unit_cost;
+    v_left := v_left - v_take;
+  END LOOP;
+
+  -- Stock that was never received through a layer (manual edits) costs the current unit cost
+  v_total := v_total + v_left * v_current_cost;
+
+  IF get_costing_method() = 'weighted_average' THEN
+    RETURN v_current_cost;
+  END IF;
+
+  UPDATE inventory
+  SET unit_cost = ROUND(sums.value / sums.quantity, 2)
+  FROM (
+    SELECT SUM(quantity_remaining * unit_cost) AS value, SUM(quantity_remaining) AS quantity
+    FROM inventory_cost_layers
+    WHERE inventory_id = p_inventory_id AND quantity_remaining > 0
+  ) sums
+  WHERE inventory.id = p_inventory_id AND sums.quantity > 0;
+
+  RETURN ROUND(v_total / p_quantity, 2);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_movement_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.inventory_id IS NULL OR COALESCE(NEW.quantity, 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.quantity < 0 THEN
+    NEW.cost_per_unit := consume_cost_layers(NEW.inventory_id, -NEW.quantity);
+  ELSIF COALESCE(NEW.cost_per_unit, 0) = 0 THEN
+    SELECT COALESCE(unit_cost, 0) INTO NEW.cost_per_unit FROM inventory WHERE id = NEW.inventory_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION open_movement_cost_layer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_on_hand integer;
+BEGIN
+  IF NEW.inventory_id IS NULL OR COALESCE(NEW.quantity, 0) <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(quantity_remaining), 0) INTO v_on_hand
+  FROM inventory_cost_layers
+  WHERE inventory_id = NEW.inventory_id;
+
+  INSERT INTO inventory_cost_layers (inventory_id, movement_id, source, quantity, quantity_remaining, unit_cost)
+  VALUES (NEW.inventory_id, NEW.id, NEW.movement_type, NEW.quantity, NEW.quantity, COALESCE(NEW.cost_per_unit, 0));
+
+  IF get_costing_method() = 'weighted_average' THEN
+    UPDATE inventory
+    SET unit_cost = ROUND((v_on_hand * COALESCE(unit_cost, 0) + NEW.quantity * COALESCE(NEW.cost_per_unit, 0)) / (v_on_hand + NEW.quantity), 2)
+    WHERE id = NEW.inventory_id;
+  ELSE
+    UPDATE inventory
+    SET unit_cost = ROUND(sums.value / sums.quantity, 2)
+    FROM (
+      SELECT SUM(quantity_remaining * unit_cost) AS value, SUM(quantity_remaining) AS quantity
+      FROM inventory_cost_layers
+      WHERE inventory_id = NEW.inventory_id AND quantity_remaining > 0
+    ) sums
+    WHERE inventory.id = NEW.inventory_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_movement_cost ON inventory_movements;
+CREATE TRIGGER trigger_apply_movement_cost
+  BEFORE INSERT ON inventory_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_movement_cost();
+
+DROP TRIGGER IF EXISTS trigger_open_movement_cost_layer ON inventory_movements;
+CREATE TRIGGER trigger_open_movement_cost_layer
+  AFTER INSERT ON inventory_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION open_movement_cost_layer();
+
+-- ============================================================================
+-- Cost of consumed stock
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION consume_inventory_stock(
+  p_order_item_id uuid,
+  p_inventory_id uuid,
+  p_quantity integer,
+  p_order_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_number text;
+  v_location_id bigint;
+  v_cost numeric;
+BEGIN
+  SELECT order_number INTO v_order_number FROM orders WHERE id = p_order_id;
+
+  UPDATE inventory
+  SET quantity = quantity - p_quantity,
+      reserved_quantity = GREATEST(reserved_quantity - p_quantity, 0)
+  WHERE id = p_inventory_id
+  RETURNING location_id INTO v_location_id;
+
+  INSERT INTO inventory_movements (inventory_id, order_id, user_id, movement_type, quantity, notes, location_id)
+  VALUES (
+    p_inventory_id,
+    p_order_id,
+    auth.uid(),
+    'sale',
+    -p_quantity,
+    'Used in order ' || COALESCE(v_order_number, '(no number assigned)'),
+    v_location_id
+  )
+  RETURNING cost_per_unit INTO v_cost;
+
+  -- Lets the cost write through the payroll item lock
+  PERFORM set_config('app.system_cost_write', 'on', true);
+
+  UPDATE order_items
+  SET stock_consumed = true,
+      cost_price = CASE WHEN inventory_unit_id IS NULL THEN v_cost ELSE cost_price END
+  WHERE id = p_order_item_id;
+
+  PERFORM set_config('app.system_cost_write', 'off', true);
+END;
+$$;
+
+-- ============================================================================
+-- Counter sales
+-- ============================================================================
+
+/*
+  Expected payload:
+  {
+    "location_id": 1,
+    "client_id": "uuid" | null,
+    "customer_name": "text" | null,
+    "payment_method": "cash" | "bank" | "bs_cash",
+    "notes": "text" | null,
+    "items": [
+      { "inventory_id": "uuid", "inventory_unit_id": "uuid" | null, "quantity": 1,
+        "unit_price": 10, "discount_type": "percent", "discount_value": 0 }
+    ]
+  }
+*/
+CREATE OR REPLACE FUNCTION create_sale(p_sale jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id uuid;
+  v_sale_number text;
+  v_sale_item_id uuid;
+  v_location_id bigint;
+  v_item jsonb;
+  v_inventory RECORD;
+  v_unit inventory_units%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_unit_cost numeric;
+  v_layer_cost numeric;
+  v_discount_type text;
+  v_discount_value numeric;
+  v_line_subtotal numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_discount numeric := 0;
+  v_total_cost numeric := 0;
+  v_stock record;
+BEGIN
+  v_location_id := (p_sale->>'location_id')::bigint;
+
+  IF v_location_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Location is required');
+  END IF;
+
+  IF NOT is_staff() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF NOT can_access_location(v_location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No access to this location');
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_sale->'items', '[]'::jsonb)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Sale must contain at least one item');
+  END IF;
+
+  -- Validate every line before writing anything
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_sale->'items')
+  LOOP
+    v_quantity := COALESCE((v_item->>'quantity')::integer, 0);
+
+    IF v_quantity <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Quantity must be greater than 0');
+    END IF;
+
+    IF COALESCE(v_item->>'discount_type', 'percent') = 'percent'
+       AND COALESCE((v_item->>'discount_value')::numeric, 0) > 100 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Percent discount cannot exceed 100');
+    END IF;
+
+    SELECT id, part_name, location_id, is_serialized INTO v_inventory
+    FROM inventory
+    WHERE id = (v_item->>'inventory_id')::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Inventory item not found');
+    END IF;
+
+    IF v_inventory.location_id IS DISTINCT FROM v_location_id THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('"%s" is not stocked at this location', v_inventory.part_name)
+      );
+    END IF;
+
+    IF v_inventory.is_serialized THEN
+      SELECT * INTO v_unit
+      FROM inventory_units
+      WHERE id = NULLIF(v_item->>'inventory_unit_id', '')::uuid
+        AND inventory_id = v_inventory.id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', format('Select the unit of "%s" being sold', v_inventory.part_name));
+      END IF;
+
+      IF v_unit.status <> 'in_stock' OR v_quantity <> 1 THEN
+        RETURN jsonb_build_object(
+          'success', false,
+          'error', format('Unit %s is not in stock', COALESCE(v_unit.imei, v_unit.serial_number))
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Lines of the same item draw on the same stock, so check the summed quantity
+  FOR v_stock IN
+    SELECT
+      i.id,
+      i.part_name,
+      i.available_quantity AS available,
+      req.requested
+    FROM (
+      SELECT (item->>'inventory_id')::uuid AS inventory_id, SUM((item->>'quantity')::integer) AS requested
+      FROM jsonb_array_elements(p_sale->'items') AS item
+      GROUP BY 1
+    ) req
+    JOIN inventory i ON i.id = req.inventory_id
+    ORDER BY i.id
+    FOR UPDATE OF i
+  LOOP
+    IF v_stock.available < v_stock.requested THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Insufficient stock for "%s": %s available, %s requested',
+                        v_stock.part_name, v_stock.available, v_stock.requested)
+      );
+    END IF;
+  END LOOP;
+
+  INSERT INTO sales (
+    location_id,
+    client_id,
+    customer_name,
+    payment_method,
+    notes,
+    created_by
+  ) VALUES (
+    v_location_id,
+    NULLIF(p_sale->>'client_id', '')::uuid,
+    NULLIF(p_sale->>'customer_name', ''),
+    COALESCE(p_sale->>'payment_method', 'cash'),
+    NULLIF(p_sale->>'notes', ''),
+    auth.uid()
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_sale->'items')
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := COALESCE((v_item->>'unit_price')::numeric, 0);
+    v_discount_type := COALESCE(v_item->>'discount_type', 'percent');
+    v_discount_value := COALESCE((v_item->>'discount_value')::numeric, 0);
+
+    SELECT id, part_name, unit_cost INTO v_inventory
+    FROM inventory
+    WHERE id = (v_item->>'inventory_id')::uuid;
+
+    v_unit := NULL;
+    IF NULLIF(v_item->>'inventory_unit_id', '') IS NOT NULL THEN
+      SELECT * INTO v_unit FROM inventory_units WHERE id = (v_item->>'inventory_unit_id')::uuid;
+    END IF;
+    v_unit_cost := COALESCE(v_unit.cost, v_inventory.unit_cost, 0);
+
+    v_line_subtotal := v_unit_price * v_quantity;
+    v_line_discount := CASE
+      WHEN v_discount_type = 'percent' THEN v_line_subtotal * v_discount_value / 100
+      ELSE LEAST(v_discount_value, v_line_subtotal)
+    END;
+
+    INSERT INTO sale_items (
+      sale_id,
+      inventory_id,
+      inventory_unit_id,
+      name,
+      quantity,
+      unit_price,
+      unit_cost,
+      discount_type,
+      discount_value,
+      total_price
+    ) VALUES (
+      v_sale_id,
+      v_inventory.id,
+      v_unit.id,
+      v_inventory.part_name || COALESCE(' (' || COALESCE(v_unit.imei, v_unit.serial_number) || ')', ''),
+      v_quantity,
+      v_unit_price,
+      v_unit_cost,
+      v_discount_type,
+      v_discount_value,
+      v_line_subtotal - v_line_discount
+    )
+    RETURNING id INTO v_sale_item_id;
+
+    IF v_unit.id IS NOT NULL THEN
+      UPDATE inventory_units
+      SET status = 'sold', sale_item_id = v_sale_item_id
+      WHERE id = v_unit.id;
+    END IF;
+
+    UPDATE inventory
+    SET quantity = quantity - v_quantity
+    WHERE id = v_inventory.id;
+
+    INSERT INTO inventory_movements (
+      inventory_id,
+      sale_id,
+      user_id,
+      movement_type,
+      quantity,
+      notes,
+      location_id
+    ) VALUES (
+      v_inventory.id,
+      v_sale_id,
+      auth.uid(),
+      'sale',
+      -v_quantity,
+      'Counter sale ' || v_sale_number,
+      v_location_id
+    )
+    RETURNING cost_per_unit INTO v_layer_cost;
+
+    IF v_unit.id IS NULL THEN
+      v_unit_cost := v_layer_cost;
+      UPDATE sale_items SET unit_cost = v_unit_cost WHERE id = v_sale_item_id;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line_subtotal;
+    v_total_discount := v_total_discount + v_line_discount;
+    v_total_cost := v_total_cost + v_unit_cost * v_quantity;
+  END LOOP;
+
+  UPDATE sales
+  SET
+    subtotal = v_subtotal,
+    total_discount = v_total_discount,
+    total_amount = v_subtotal - v_total_discount,
+    total_cost = v_total_cost
+  WHERE id = v_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'sale_id', v_sale_id,
+    'sale_number', v_sale_number,
+    'total_amount', v_subtotal - v_total_discount
+  );
+END;
+$$;
+
+-- ============================================================================
+-- Valuation
+-- ============================================================================
+
+/*
+  FIFO: the stock on hand is the most recent layers, so the on-hand quantity is
+  valued against the layers newest first. Weighted average: on hand × moving
+  average cost. Stock not covered by layers is valued at the current unit cost.
+*/
+CREATE OR REPLACE FUNCTION get_inventory_valuation(p_location_id bigint)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_method text := get_costing_method();
+  v_value numeric;
+BEGIN
+  IF NOT can_access_location(p_location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF v_method = 'weighted_average' THEN
+    SELECT COALESCE(SUM(GREATEST(quantity, 0) * COALESCE(unit_cost, 0)), 0) INTO v_value
+    FROM inventory
+    WHERE location_id = p_location_id;
+  ELSE
+    WITH layers AS (
+      SELECT
+        l.inventory_id,
+        l.quantity_remaining,
+        l.unit_cost,
+        SUM(l.quantity_remaining) OVER (
+          PARTITION BY l.inventory_id ORDER BY l.created_at DESC, l.id DESC
+        ) - l.quantity_remaining AS newer_quantity
+      FROM inventory_cost_layers l
+      JOIN inventory i ON i.id = l.inventory_id
+      WHERE i.location_id = p_location_id AND l.quantity_remaining > 0
+    ),
+    layered AS (
+      SELECT
+        i.id,
+        i.quantity,
+        COALESCE(i.unit_cost, 0) AS unit_cost,
+        COALESCE(SUM(LEAST(l.quantity_remaining, GREATEST(i.quantity - l.newer_quantity, 0)) * l.unit_cost), 0) AS layer_value,
+        COALESCE(SUM(l.quantity_remaining), 0) AS layer_quantity
+      FROM inventory i
+      LEFT JOIN layers l ON l.inventory_id = i.id
+      WHERE i.location_id = p_location_id AND i.quantity > 0
+      GROUP BY i.id, i.quantity, i.unit_cost
+    )
+    SELECT COALESCE(SUM(layer_value + GREATEST(quantity - layer_quantity, 0) * unit_cost), 0) INTO v_value
+    FROM layered;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'method', v_method, 'total_value', ROUND(v_value, 2));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_cost_layers(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_costing_method() TO authenticated;
+GRANT EXECUTE ON FUNCTION create_sale(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_inventory_valuation(bigint) TO authenticated;
+
+COMMENT ON TABLE inventory_cost_layers IS 'Received quantities and their unit cost, drawn down oldest first by outgoing movements';
+COMMENT ON COLUMN inventory.unit_cost IS 'Maintained from cost layers: remaining layer average (FIFO) or moving average';
+COMMENT ON COLUMN inventory_movements.cost_per_unit IS 'Purchase cost for receipts, cost of the consumed layers for outgoing movements';
+COMMENT ON FUNCTION consume_cost_layers(uuid, integer) IS 'Draws cost layers down oldest first; returns the unit cost by system_settings.inventory_costing';
+COMMENT ON FUNCTION get_inventory_valuation(bigint) IS 'Stock value of a location by the configured costing method';
@@ -0,0 +1,237 @@
+/*
+  # Reorder Planner
+
+  ## Overview
+  `inventory.min_quantity` was only used for low stock highlighting. The reorder
+  planner compares what will be on the shelf (available stock plus quantities
+  still coming on open purchase orders) with a reorder point made of the
+  minimum quantity and the expected consumption, and proposes order quantities
+  grouped by supplier. Accepted suggestions become draft purchase orders.
+
+  ## Changes
+    - `inventory.max_quantity` (integer, nullable): stock level to order up to.
+      Without it the planner orders up to the reorder point
+
+  ## Calculation
+    - weekly usage: parts consumed by orders and counter sales ('sale'
+      movements) over the last `p_weeks` weeks, divided by `p_weeks`
+    - on order: ordered minus received on Draft, Pending, In Transit and
+      Delayed purchase orders of the location, less what is still earmarked
+      for waiting order lines (`order_items.purchase_order_item_id`, not yet
+      reserved); that quantity is already spoken for
+    - projected = available + on order
+    - reorder point = min_quantity + weekly usage × `p_cover_weeks`, rounded up
+    - an item is suggested when projected < reorder point; the quantity is
+      max_quantity (or the reorder point) minus projected
+
+  ## Functions
+    - `get_reorder_suggestions(p_location_id, p_weeks, p_cover_weeks)`
+    - `create_reorder_purchase_orders(p_location_id, p_items)`: adds the lines to
+      the open draft of each supplier, creating drafts where needed
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inventory' AND column_name = 'max_quantity'
+  ) THEN
+    ALTER TABLE inventory ADD COLUMN max_quantity integer CHECK (max_quantity IS NULL OR max_quantity >= 0);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION get_reorder_suggestions(
+  p_location_id bigint,
+  p_weeks integer DEFAULT 4,
+  p_cover_weeks integer DEFAULT 2
+)
+RETURNS TABLE (
+  inventory_id uuid,
+  part_name text,
+  sku text,
+  supplier_id uuid,
+  supplier_name text,
+  unit_cost numeric,
+  quantity integer,
+  reserved_quantity integer,
+  available_quantity integer,
+  min_quantity integer,
+  max_quantity integer,
+  on_order integer,
+  weekly_usage numeric,
+  reorder_point integer,
+  suggested_quantity integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_access_location(p_location_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  WITH usage AS (
+    SELECT m.inventory_id, SUM(-m.quantity)::numeric / GREATEST(p_weeks, 1) AS weekly_usage
+    FROM inventory_movements m
+    WHERE m.movement_type = 'sale'
+      AND m.quantity < 0
+      AND m.created_at >= now() - make_interval(weeks => GREATEST(p_weeks, 1))
+    GROUP BY m.inventory_id
+  ),
+  incoming AS (
+    SELECT
+      poi.inventory_id,
+      SUM(GREATEST(poi.quantity_ordered - poi.quantity_received - COALESCE(w.waiting, 0), 0))::integer AS on_order
+    FROM purchase_order_items poi
+    JOIN purchase_orders po ON po.id = poi.purchase_order_id
+    LEFT JOIN LATERAL (
+      SELECT SUM(oi.quantity) AS waiting
+      FROM order_items oi
+      WHERE oi.purchase_order_item_id = poi.id
+        AND NOT oi.stock_reserved
+        AND oi.approval_status <> 'declined'
+    ) w ON true
+    WHERE po.location_id = p_location_id
+      AND po.status IN ('Draft', 'Pending', 'In Transit', 'Delayed')
+    GROUP BY poi.inventory_id
+  ),
+  planned AS (
+    SELECT
+      i.*,
+      COALESCE(u.weekly_usage, 0) AS usage_per_week,
+      COALESCE(inc.on_order, 0) AS incoming_quantity,
+      (i.min_quantity + CEIL(COALESCE(u.weekly_usage, 0) * GREATEST(p_cover_weeks, 0)))::integer AS point
+    FROM inventory i
+    LEFT JOIN usage u ON u.inventory_id = i.id
+    LEFT JOIN incoming inc ON inc.inventory_id = i.id
+    WHERE i.location_id = p_location_id
+  )
+  SELECT
+    p.id,
+    p.part_name,
+    p.sku,
+    p.supplier_id,
+    s.name,
+    COALESCE(p.unit_cost, 0),
+    p.quantity,
+    p.reserved_quantity,
+    p.available_quantity,
+    p.min_quantity,
+    p.max_quantity,
+    p.incoming_quantity,
+    ROUND(p.usage_per_week, 2),
+    p.point,
+    GREATEST(COALESCE(p.max_quantity, p.point) - (p.available_quantity + p.incoming_quantity), 0)
+  FROM planned p
+  LEFT JOIN suppliers s ON s.id = p.supplier_id
+  WHERE p.available_quantity + p.incoming_quantity < p.point
+    AND COALESCE(p.max_quantity, p.point) > p.available_quantity + p.incoming_quantity
+  ORDER BY s.name NULLS LAST, p.part_name;
+END;
+$$;
+
+/*
+  Expected payload:
+  [
+    { "inventory_id": "uuid", "quantity": 5, "unit_cost": 12.5 }
+  ]
+*/
+CREATE OR REPLACE FUNCTION create_reorder_purchase_orders(p_location_id bigint, p_items jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line jsonb;
+  v_part inventory%ROWTYPE;
+  v_quantity integer;
+  v_purchase_order_id uuid;
+  v_purchase_item_id uuid;
+  v_order_ids uuid[] := '{}';
+  v_lines integer := 0;
+BEGIN
+  IF NOT can_access_location(p_location_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access denied');
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No items selected');
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::integer, 0);
+    CONTINUE WHEN v_quantity <= 0;
+
+    SELECT * INTO v_part
+    FROM inventory
+    WHERE id = (v_line->>'inventory_id')::uuid AND location_id = p_location_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Inventory item not found');
+    END IF;
+
+    -- Same draft per supplier and location as part requests from orders
+    v_purchase_order_id := NULL;
+    SELECT id INTO v_purchase_order_id
+    FROM purchase_orders
+    WHERE status = 'Draft'
+      AND location_id = p_location_id
+      AND supplier_id IS NOT DISTINCT FROM v_part.supplier_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_purchase_order_id IS NULL THEN
+      INSERT INTO purchase_orders (supplier_id, order_number, status, location_id, created_by, notes)
+      VALUES (v_part.supplier_id, '', 'Draft', p_location_id, auth.uid(), 'Создан планировщиком закупок')
+      RETURNING id INTO v_purchase_order_id;
+    END IF;
+
+    IF NOT v_purchase_order_id = ANY(v_order_ids) THEN
+      v_order_ids := v_order_ids || v_purchase_order_id;
+    END IF;
+
+    v_purchase_item_id := NULL;
+    SELECT id INTO v_purchase_item_id
+    FROM purchase_order_items
+    WHERE purchase_order_id = v_purchase_order_id
+      AND inventory_id = v_part.id
+    LIMIT 1;
+
+    IF v_purchase_item_id IS NULL THEN
+      INSERT INTO purchase_order_items (purchase_order_id, inventory_id, quantity_ordered, unit_cost, notes)
+      VALUES (
+        v_purchase_order_id,
+        v_part.id,
+        v_quantity,
+        COALESCE((v_line->>'unit_cost')::numeric, v_part.unit_cost, 0),
+        'Пополнение до нормы остатка'
+      );
+    ELSE
+      UPDATE purchase_order_items
+      SET quantity_ordered = quantity_ordered + v_quantity
+      WHERE id = v_purchase_item_id;
+    END IF;
+
+    v_lines := v_lines + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'purchase_orders', array_length(v_order_ids, 1),
+    'lines', v_lines
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_reorder_suggestions(bigint, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_reorder_purchase_orders(bigint, jsonb) TO authenticated;
+
+COMMENT ON COLUMN inventory.max_quantity IS 'Reorder planner orders up to this level; NULL = up to the reorder point';
+COMMENT ON FUNCTION get_reorder_suggestions(bigint, integer, integer) IS 'Items below their reorder point with the quantity to order, by supplier';
+COMMENT ON FUNCTION create_reorder_purchase_orders(bigint, jsonb) IS 'Adds reorder lines to the draft purchase order of each supplier';